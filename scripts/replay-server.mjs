@@ -0,0 +1,142 @@
+#!/usr/bin/env node
+/**
+ * Stand-in for a live data source: replays a CSV file (or generated sine
+ * waves) over WebSocket at a fixed rate, so the live view can be developed
+ * and tested without real hardware.
+ *
+ *   npm run replay -- --file data.csv --rate 1000 --port 8080 --loop
+ *
+ * Options:
+ *   --file <path>   CSV with a header row; the first column is the time and is
+ *                   replaced by the time each row is sent. Without a file, four
+ *                   sine channels are generated.
+ *   --rate <n>      Rows per second (default 1000)
+ *   --port <n>      Port to listen on (default 8080)
+ *   --binary        Send Float64 binary frames instead of JSON
+ *   --loop          Start over at the end of the file
+ *
+ * The frame format is documented in src/app/websocket-data-source.ts.
+ */
+import { readFileSync } from 'node:fs';
+import { WebSocketServer } from 'ws';
+import Papa from 'papaparse';
+
+// Rows are sent in batches this often
+const BATCH_INTERVAL = 50;
+
+const options = parseArgs(process.argv.slice(2));
+const source = options.file ? loadCsv(options.file) : null;
+const channels = source ? source.channels : ['sine_1Hz', 'sine_5Hz', 'square_2Hz', 'noise'];
+
+const server = new WebSocketServer({ port: options.port });
+console.log(`Replaying ${options.file || 'generated signals'} at ${options.rate} rows/s on ws://localhost:${options.port}`);
+
+server.on('connection', (socket, request) => {
+  console.log(`Client connected from ${request.socket.remoteAddress}`);
+  socket.send(JSON.stringify({ channels }));
+
+  let row = 0;
+  let sent = 0;
+  const started = Date.now();
+
+  const timer = setInterval(() => {
+    // Catch up to where the rate says we should be, so timer jitter doesn't slow the replay
+    const due = Math.floor((Date.now() - started) * options.rate / 1000) - sent;
+    const rows = [];
+    for (let i = 0; i < due; i++) {
+      const values = nextRow(row++);
+      if (!values) {
+        if (!options.loop) break;
+        row = 0;
+        continue;
+      }
+      rows.push(values);
+    }
+    sent += due;
+
+    if (rows.length) {
+      // Spread the batch over the interval it covers
+      const now = Date.now();
+      const step = 1000 / options.rate;
+      const times = rows.map((_, i) => now - (rows.length - 1 - i) * step);
+      socket.send(options.binary ? toBinary(times, rows) : toJson(times, rows));
+    } else if (source && !options.loop && row >= source.rows.length) {
+      console.log('End of file reached');
+      clearInterval(timer);
+    }
+  }, BATCH_INTERVAL);
+
+  socket.on('close', () => {
+    clearInterval(timer);
+    console.log('Client disconnected');
+  });
+});
+
+function nextRow(index) {
+  if (source) {
+    return index < source.rows.length ? source.rows[index] : null;
+  }
+
+  const t = index / options.rate;
+  return [
+    Math.sin(2 * Math.PI * t),
+    0.5 * Math.sin(2 * Math.PI * 5 * t),
+    Math.sin(2 * Math.PI * 2 * t) >= 0 ? 1 : -1,
+    Math.random() - 0.5
+  ];
+}
+
+function toJson(times, rows) {
+  const values = {};
+  channels.forEach((name, c) => {
+    values[name] = rows.map(row => Number.isFinite(row[c]) ? row[c] : null);
+  });
+  return JSON.stringify({ t: times, values });
+}
+
+function toBinary(times, rows) {
+  const stride = channels.length + 1;
+  const data = new Float64Array(rows.length * stride);
+  rows.forEach((row, r) => {
+    data[r * stride] = times[r];
+    for (let c = 0; c < channels.length; c++) {
+      data[r * stride + c + 1] = row[c];
+    }
+  });
+  // Float64Array uses the platform byte order, which is little-endian on anything Node runs on
+  return Buffer.from(data.buffer);
+}
+
+function loadCsv(path) {
+  const result = Papa.parse(readFileSync(path, 'utf8'), { skipEmptyLines: true });
+  const [header, ...body] = result.data;
+  if (!header || header.length < 2) {
+    throw new Error(`${path} needs a header row with a time column and at least one channel`);
+  }
+
+  return {
+    channels: header.slice(1).map(name => name.trim()),
+    rows: body.map(cells => cells.slice(1).map(cell => cell.trim() === '' ? NaN : Number(cell)))
+  };
+}
+
+function parseArgs(args) {
+  const parsed = { file: null, rate: 1000, port: 8080, binary: false, loop: false };
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--file': parsed.file = args[++i]; break;
+      case '--rate': parsed.rate = Number(args[++i]); break;
+      case '--port': parsed.port = Number(args[++i]); break;
+      case '--binary': parsed.binary = true; break;
+      case '--loop': parsed.loop = true; break;
+      default:
+        console.error(`Unknown option ${args[i]}`);
+        process.exit(1);
+    }
+  }
+  if (!(parsed.rate > 0)) {
+    console.error('--rate must be a positive number');
+    process.exit(1);
+  }
+  return parsed;
+}
@@ -1,10 +1,27 @@
-import { Component, OnInit, AfterViewInit, OnDestroy, inject, ChangeDetectorRef } from '@angular/core';
+import { Component, OnInit, AfterViewInit, OnDestroy, inject, ChangeDetectorRef, NgZone } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { HttpClient, HttpEventType, HttpProgressEvent } from '@angular/common/http';
 import { NgxEchartsDirective, NgxEchartsModule } from 'ngx-echarts';
-import { parse, ParseResult } from 'papaparse';
-import { BehaviorSubject, Subject, Subscription, debounceTime, fromEvent, takeUntil } from 'rxjs';
+import {
+  BehaviorSubject,
+  EmptyError,
+  Observable,
+  Subject,
+  Subscription,
+  catchError,
+  debounceTime,
+  filter,
+  finalize,
+  firstValueFrom,
+  fromEvent,
+  map,
+  merge,
+  of,
+  switchMap,
+  takeUntil,
+  tap
+} from 'rxjs';
 import { throttle } from 'lodash';
 
 // Import the specific ECharts modules
@@ -17,6 +34,7 @@ import {
   ToolboxComponent,
   LegendComponent,
   DataZoomComponent,
+  BrushComponent,
 } from 'echarts/components';
 
 // The correct way to import renderers
@@ -28,7 +46,95 @@ import { UniversalTransition } from 'echarts/features';
 import { LabelLayout } from 'echarts/features';
 
 // Import the GPU monitor service
-import { GPUMonitorService, GPUStats } from './gpu-monitor.service';
+import { GPUMonitorService, GPUStats, LineRenderer } from './gpu-monitor.service';
+import { RecentFile, RecentFilesService } from './recent-files.service';
+import { CsvParserService } from './csv-parser.service';
+import { ParsedCsv } from './csv-parser.model';
+import { ChannelColumn, TimeSeriesStore } from './time-series-store.service';
+import { DecimationMode, LevelOfDetailService } from './level-of-detail.service';
+import { ImportSettings, ImportSettingsService } from './import-settings.service';
+import { ImportPreviewComponent } from './import-preview/import-preview.component';
+import { ImportReportComponent } from './import-report/import-report.component';
+import { ImportReport, analyzeTiming } from './import-report';
+import { CsvDialect, DIALECT_SAMPLE_SIZE, completeLines, detectDialect } from './csv-dialect';
+import {
+  DEFAULT_TIMESTAMP_OPTIONS,
+  TIMESTAMP_FORMATS,
+  TimestampOptions,
+  availableTimeZones,
+  formatTimestamp
+} from './timestamp-formats';
+import { LiveStreamService } from './live-stream.service';
+import { DataSourceStatus } from './data-source';
+import { WebSocketDataSource } from './websocket-data-source';
+import { FileFollowService } from './file-follow.service';
+import { FileHandleTailSource, HttpRangeTailSource } from './tail-source';
+import { ColumnarReaderService } from './columnar-reader.service';
+import { ColumnarImport } from './columnar-reader.model';
+import {
+  COLUMNAR_FORMAT_LABELS,
+  ColumnarFormat,
+  columnarFormatFromBytes,
+  columnarFormatFromName,
+  isSupportedFileName
+} from './columnar-file';
+import { combineComtradeFiles } from './comtrade';
+import {
+  Compression,
+  ZipEntry,
+  compressionFromBytes,
+  compressionFromName,
+  decompressToBlob,
+  innerFileName,
+  listZipEntries,
+  readDecompressedHead
+} from './compression';
+import { ArchivePickerComponent } from './archive-picker/archive-picker.component';
+import { SessionService } from './session.service';
+import { SessionFile, TriggerCondition, filteredName } from './session';
+import {
+  AXIS_SPACING,
+  ChannelStats,
+  ChartLayout,
+  ChartPane,
+  Normalization,
+  ViewMode,
+  axesPerSide,
+  axisName,
+  buildLayout,
+  channelStats,
+  normalizeSeries,
+  normalizeValue
+} from './chart-layout';
+import { ChannelDisplayService, ChannelDisplaySettings, DEFAULT_CHANNEL_DISPLAY } from './channel-display.service';
+import { ChannelSettingsComponent } from './channel-settings/channel-settings.component';
+import { FilterStage } from './filters';
+import { FilterSettingsComponent } from './filter-settings/filter-settings.component';
+import { DerivedChannelDialogComponent, DerivedChannelDraft } from './derived-channel-dialog/derived-channel-dialog.component';
+import { GLLine, WebGLLineLayer, valueOriginNear } from './webgl-line-layer';
+import {
+  CursorName,
+  CursorReadout,
+  MeasurementCursor,
+  cursorReadout,
+  formatFrequency,
+  nudgeCursor,
+  snapCursor
+} from './measurement-cursors';
+import {
+  ChartPick,
+  ChartPixelMapping,
+  PickableChannel,
+  gridAtPixel,
+  pickSample,
+  valueAtTime
+} from './chart-picking';
+import { RangeStatistics, StatisticsInterval, rangeStatistics, statisticsJson, statisticsTable } from './range-statistics';
+import { SpectrumSource, sampleInterval } from './spectrum';
+import { SpectrumPanelComponent } from './spectrum-panel/spectrum-panel.component';
+import { Spectrogram, SpectrogramColorMap, SpectrogramSettings, colorMapGradient } from './spectrogram';
+import { SpectrogramService } from './spectrogram.service';
+import { SpectrogramLayer } from './spectrogram-layer';
 
 // Register necessary ECharts components
 echarts.use([
@@ -38,12 +144,24 @@ echarts.use([
   GridComponent,
   LegendComponent,
   DataZoomComponent,
+  BrushComponent,
   LineChart,
   CanvasRenderer,  // Canvas renderer
   LabelLayout,     // Features for better layouts
   UniversalTransition // For animations
 ]);
 
+// Drag data type of a channel dragged onto a chart pane
+const CHANNEL_DRAG_TYPE = 'application/x-channel-id';
+
+// Minimum time (ms) between crosshair updates while the pointer moves
+const HOVER_INTERVAL_MS = 30;
+
+// Wait for zooming to settle before recomputing the spectrogram
+const SPECTROGRAM_DELAY_MS = 150;
+// Larger zoom windows are too long to transform; the pane asks to zoom in
+const SPECTROGRAM_MAX_SAMPLES = 1 << 22;
+
 // Performance settings interface
 interface PerformanceSettings {
   useProgressive: boolean;
@@ -51,7 +169,7 @@ interface PerformanceSettings {
   progressiveChunkSize: number;
   largeThreshold: number;
   throttle: number;
-  piecewiseLevels: number[];
+  piecewiseLevels: number[]; // Block sizes of the precomputed min/max levels used when zoomed out
 }
 
 // ECharts initialization options interface with proper renderer type
@@ -70,7 +188,14 @@ interface EChartsInitOptions {
   imports: [
     CommonModule,
     FormsModule,
-    NgxEchartsDirective
+    NgxEchartsDirective,
+    ImportPreviewComponent,
+    ArchivePickerComponent,
+    ImportReportComponent,
+    ChannelSettingsComponent,
+    FilterSettingsComponent,
+    DerivedChannelDialogComponent,
+    SpectrumPanelComponent
   ],
   templateUrl: './app.component.html',
   styleUrls: ['./app.component.scss']
@@ -78,7 +203,19 @@ interface EChartsInitOptions {
 export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
   private http = inject(HttpClient);
   private cdr = inject(ChangeDetectorRef);
+  private ngZone = inject(NgZone);
   private gpuMonitor = inject(GPUMonitorService);
+  private recentFilesService = inject(RecentFilesService);
+  private csvParser = inject(CsvParserService);
+  private store = inject(TimeSeriesStore);
+  private lod = inject(LevelOfDetailService);
+  private importSettings = inject(ImportSettingsService);
+  private live = inject(LiveStreamService);
+  private fileFollow = inject(FileFollowService);
+  private columnarReader = inject(ColumnarReaderService);
+  private session = inject(SessionService);
+  private channelDisplay = inject(ChannelDisplayService);
+  private spectrogramService = inject(SpectrogramService);
   private destroy$ = new Subject<void>();
   
   // UI state
@@ -90,10 +227,97 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
   
   // Data state
   csvFilePath = 'assets/1UChannelsData.csv';
-  private dataCache = new Map<string, Array<[number, number | null]>>();
-  private timestampCache = new Map<string, number>();
+  currentFile: File | null = null;
+  sourceName = this.csvFilePath;
   totalPoints = 0;
   visiblePoints = 0;
+  renderedPoints = 0;
+  renderingRaw = true;
+  // Width of the zoom window in ms, used to pick the axis label detail
+  private visibleSpan = 0;
+  
+  // Local file loading
+  recentFiles: RecentFile[] = [];
+  // Set when the file was opened with the File System Access API, which lets it be re-read as it grows
+  private fileHandle: FileSystemFileHandle | null = null;
+  dragActive = false;
+  private dragDepth = 0;
+  
+  // Timestamp parsing for the current source
+  timestampOptions: TimestampOptions = { ...DEFAULT_TIMESTAMP_OPTIONS };
+  readonly timestampFormats = TIMESTAMP_FORMATS;
+  readonly timeZones = availableTimeZones();
+  
+  // Import preview shown before a local file is parsed
+  importPreview: {
+    file: File | null,
+    handle: FileSystemFileHandle | null,
+    source: Blob,
+    sample: string,
+    dialect: CsvDialect,
+    timestampOptions: TimestampOptions
+  } | null = null;
+  // Last loaded source, kept so the import settings can be reopened
+  private sourceBlob: Blob | null = null;
+  // Dialect the last import was parsed with
+  private parsedDialect: CsvDialect | null = null;
+  // Parquet or Arrow file behind the store; its other channels are decoded when selected
+  private columnarSource: { blob: Blob, format: ColumnarFormat, rowOrder: Uint32Array | null } | null = null;
+  // Compressed file or archive the current data was read from
+  private compressedSource: { blob: Blob, compression: Compression } | null = null;
+  // Zip archive waiting for the user to pick the file to open
+  archiveChoice: {
+    file: File | null,
+    handle: FileSystemFileHandle | null,
+    source: Blob,
+    name: string,
+    entries: ZipEntry[],
+    selected: string | null
+  } | null = null;
+  
+  // Append rows as the loaded file grows
+  followFile = false;
+  
+  // Multi-file session: progress of files being added, and the event they are aligned on
+  sessionStatus: string | null = null;
+  private sessionCancel$ = new Subject<void>();
+  sessionTrigger: TriggerCondition = { channel: '', level: 0, edge: 'rising' };
+  
+  // Chart layout: a grid per channel, one shared grid, or the user's panes
+  viewMode: ViewMode = 'stacked';
+  normalization: Normalization = 'none';
+  panes: ChartPane[] = [{ name: 'Pane 1', channels: [] }];
+  private chartLayout: ChartLayout | null = null;
+  // Range and spread of each decoded channel, for normalizing and grouping axes
+  private statsCache = new WeakMap<ChannelColumn, ChannelStats | null>();
+  // Channel whose display settings popover is open
+  channelSettings: { id: string, settings: ChannelDisplaySettings } | null = null;
+  // Channel whose filter chain popover is open, and its sample rate (Hz)
+  filterSettings: { id: string, stages: FilterStage[], sampleRate: number } | null = null;
+  // Derived channel dialog: the channel being edited (null for a new one)
+  // and its definition
+  derivedDialog: { id: string | null, definition: DerivedChannelDraft | null } | null = null;
+  
+  // Diagnostics from the last import
+  importReport: ImportReport | null = null;
+  showImportReport = false;
+  showGapBands = true;
+  // Trigger of a COMTRADE recording (epoch ms), marked on the chart
+  triggerTime: number | null = null;
+  
+  // Live streaming
+  liveUrl = 'ws://localhost:8080';
+  liveStatus: DataSourceStatus = 'idle';
+  // Keep the zoom window on the newest samples as they arrive
+  followLatest = true;
+  liveWindowMs = 30000;
+  readonly liveWindows = [
+    { label: '10 s', value: 10000 },
+    { label: '30 s', value: 30000 },
+    { label: '1 min', value: 60000 },
+    { label: '5 min', value: 300000 },
+    { label: '15 min', value: 900000 }
+  ];
   
   // Chart options
   chartInstance: any = null;
@@ -107,6 +331,10 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
   
   //hardware acceleration
   useHardwareAcceleration = true;
+  // Lines drawn by the WebGL layer under the chart, or by ECharts on its canvas
+  lineRenderer: LineRenderer = 'canvas';
+  readonly webglSupported = WebGLLineLayer.isSupported();
+  private glLayer: WebGLLineLayer | null = null;
 
   // tooltip management
   private _tooltipTimeout: any = null;
@@ -115,25 +343,60 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
   // private timestamp1: number | null = null;
   // private timestamp2: number | null = null;
 
-  // Delta management
-  selectedPoint1: { primaryChannel: string, timestamp: number, primaryValue: number } | null = null;
-  selectedPoint2: { primaryChannel: string, timestamp: number, primaryValue: number } | null = null;
-  selectionMode: 'first' | 'second' = 'first'; // Tracks which point we're currently selecting
-  showDeltaInfo: boolean = false;
-  // Update the deltaInfo type
-  deltaInfo: { 
-    deltaX: number, 
-    deltaTimeFormatted: string,
-    channelDeltas: Array<{
-      channel: string,
-      value1: number,
-      value2: number,
-      deltaY: number
-    }>
-  } | null = null;
+  // Measurement cursors, placed by clicking a grid and dragged along the time axis
+  readonly cursorNames: CursorName[] = ['A', 'B'];
+  cursors: Record<CursorName, MeasurementCursor | null> = { A: null, B: null };
+  // The cursor moved by the arrow keys
+  activeCursor: CursorName = 'A';
+  cursorReadout: CursorReadout | null = null;
+  // Chart pixels of the cursor lines (null when outside the zoom window) and
+  // the span of the grids they and the crosshair run through
+  cursorX: Record<CursorName, number | null> = { A: null, B: null };
+  gridSpan: { top: number, height: number } | null = null;
+  private draggingCursor: CursorName | null = null;
+
+  // Hover crosshair: its chart pixel, the time under it and every selected
+  // channel's value there (nearest sample, or interpolated between samples)
+  hoverX: number | null = null;
+  hoverTime: number | null = null;
+  hoverValues: Record<string, number | null> = {};
+  hoverInterpolate = true;
+  private trackHover = throttle((x: number, y: number) => this.updateHover(x, y), HOVER_INTERVAL_MS);
+
+  // Time interval brushed on the chart, and every selected channel's
+  // statistics over it
+  statsInterval: [number, number] | null = null;
+  rangeStats: RangeStatistics[] = [];
+
+  // Spectrum panel, and the zoom window it analyses
+  showSpectrum = false;
+  spectrumWindow: [number, number] = [0, 0];
+  
+  // Spectrogram pane under the grids: the channel it shows, how it is
+  // computed and coloured, and the latest result in epoch milliseconds
+  showSpectrogram = false;
+  spectrogramChannel = '';
+  spectrogramSettings: SpectrogramSettings = { fftSize: 1024, overlap: 0.5, window: 'hann' };
+  spectrogramColorMap: SpectrogramColorMap = 'viridis';
+  // Levels shown below the strongest one (dB)
+  spectrogramRange = 80;
+  readonly spectrogramFftSizes = [64, 128, 256, 512, 1024, 2048, 4096, 8192];
+  readonly spectrogramOverlaps = [0, 0.25, 0.5, 0.75, 0.875];
+  readonly spectrogramRanges = [40, 60, 80, 100, 120];
+  readonly spectrogramColorMaps: { value: SpectrogramColorMap, label: string }[] = [
+    { value: 'viridis', label: 'Viridis' },
+    { value: 'inferno', label: 'Inferno' },
+    { value: 'grayscale', label: 'Greyscale' }
+  ];
+  spectrogram: Spectrogram | null = null;
+  spectrogramMessage = '';
+  spectrogramComputing = false;
+  private spectrogramLayer: SpectrogramLayer | null = null;
+  private spectrogramRequests = new Subject<void>();
 
   // Data management
-  rawDataChunks: any[][] = [];
+  dataMemoryBytes = 0;
+  private loadSubscription: Subscription | null = null;
   timeRange: [number, number] = [0, 0];
   columns: string[] = [];
   selectedChannels: string[] = [];
@@ -169,6 +432,30 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
     this.setupPerformancePreset();
     this.loadCsvData();
     
+    this.recentFilesService.entries
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(entries => this.recentFiles = entries);
+    
+    this.live.status$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(status => this.liveStatus = status);
+    
+    // Commits arrive outside Angular's zone, a few times a second
+    this.live.committed$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.onLiveCommit());
+    
+    this.fileFollow.appended$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.onRowsAppended());
+    
+    this.fileFollow.stopped$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(message => {
+        this.followFile = false;
+        this.showMessage(message);
+      });
+    
     this.dataChanged$
       .pipe(
         debounceTime(300),
@@ -179,6 +466,15 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
           this.updateChartData();
         }
       });
+    
+    // A newer zoom window or setting cancels the spectrogram being computed
+    this.spectrogramRequests
+      .pipe(
+        debounceTime(SPECTROGRAM_DELAY_MS),
+        switchMap(() => this.computeSpectrogram()),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(spectrogram => this.showSpectrogramResult(spectrogram));
   }
   
   ngAfterViewInit(): void {
@@ -191,18 +487,33 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
       .subscribe(() => {
         if (this.chartInstance) {
           this.chartInstance.resize();
-          // this.throttledRedraw();
+          // Grid width changed, so the number of points per pixel did too
+          this.refreshLevelOfDetail();
         }
       });
+    
+    fromEvent<KeyboardEvent>(document, 'keydown')
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(event => this.onCursorKey(event));
         
     // Start GPU monitoring
     this.gpuMonitor.startMonitoring();
+    this.gpuMonitorSubscription = this.gpuMonitor.stats.subscribe(stats => this.gpuStats = stats);
   }
   
   ngOnDestroy(): void {
+    this.loadSubscription?.unsubscribe();
+    this.sessionCancel$.next();
+    this.live.stop();
+    this.fileFollow.stop();
     this.destroy$.next();
     this.destroy$.complete();
     this.clearCaches();
+    this.trackHover.cancel();
+    this.glLayer?.dispose();
+    this.glLayer = null;
+    this.spectrogramLayer?.dispose();
+    this.spectrogramLayer = null;
     this.chartInstance = null;
     
 
@@ -217,11 +528,6 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
   
   onChartInit(event: any): void {
     this.chartInstance = event;
-    
-    // Initialize delta calculation variables
-    if (!this.selectedPoint1) this.selectedPoint1 = null;
-    if (!this.selectedPoint2) this.selectedPoint2 = null;
-    if (!this.selectionMode) this.selectionMode = 'first';
 
     // Add custom tooltip DOM event handler
     const chartDom = this.chartInstance.getDom();
@@ -257,118 +563,25 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
       console.log('Available channels:', this.selectedChannels);
       
       try {
-        // Get the grid configuration from the chart
-        const grid = this.chartInstance.getOption().grid;
-        
-        // Find which grid the click is in
-        let seriesIndex = -1;
-        for (let i = 0; i < grid.length; i++) {
-          const g = grid[i];
-          
-          // Calculate grid top and bottom positions
-          const top = typeof g.top === 'string' ? 
-            (parseFloat(g.top) / 100) * rect.height : 
-            g.top as number;
-            
-          const height = typeof g.height === 'string' ? 
-            (parseFloat(g.height) / 100) * rect.height : 
-            g.height as number;
-            
-          const bottom = top + height;
-          
-          // Check if click is within this grid
-          if (y >= top && y <= bottom) {
-            seriesIndex = i;
-            break;
-          }
-        }
+        const pick = this.pickAt(x, y);
         
-        console.log('Grid-based seriesIndex:', seriesIndex);
-        
-        if (seriesIndex >= 0 && seriesIndex < this.selectedChannels.length) {
-          const channelName = this.selectedChannels[seriesIndex];
-          console.log('Channel name from selected index:', channelName);
-          
-          // VERY IMPORTANT: Get data specifically for this channel
-          const points = this.dataCache.get(channelName) || [];
-          
-          if (points.length === 0) {
-            console.log('No data points for channel:', channelName);
-            return;
-          }
-          
-          // Calculate x position as a percentage of chart width
-          const xPercent = x / rect.width;
-          
-          // Calculate the approximate timestamp based on the range
-          const timeRange = this.timeRange[1] - this.timeRange[0];
-          const approximateTimestamp = this.timeRange[0] + (timeRange * xPercent);
-          
-          console.log('Selected channel:', channelName);
-          console.log('Approximated timestamp:', new Date(approximateTimestamp).toLocaleString());
-
-          // Debug info about points distribution
-          console.log('Total points in channel:', points.length);
-          console.log('First few indices:', points.slice(0, 3).map(p => p[0]));
-          console.log('Last few indices:', points.slice(-3).map(p => p[0]));
-          
-          // Find the nearest point in time
-          let nearestIndex = -1;
-          let minDistance = Infinity;
-          
-          for (let i = 0; i < points.length; i++) {
-            const distance = Math.abs(points[i][0] - approximateTimestamp);
-            if (distance < minDistance) {
-              minDistance = distance;
-              nearestIndex = i;
-            }
-          }
+        if (pick) {
+          const channelName = pick.channel;
+          const resolved = this.session.resolve(channelName)!;
+          // Channels of different files in a session have rows of their own
+          const store = resolved.file.store;
+          const column = resolved.channel;
+          const clickedTime = pick.time;
+          const nearestIndex = pick.index;
           
           // After finding the nearest point in your click handler...
           if (nearestIndex >= 0) {
-            const point = points[nearestIndex];
-            const value = point[1] !== null ? point[1] : 0;
-            
-            // Delta calculation logic
-            if (this.selectionMode === 'first') {
-              // Store just the timestamp and the primary channel
-              this.selectedPoint1 = {
-                primaryChannel: channelName,
-                timestamp: point[0],
-                primaryValue: value
-              };
-              
-              // Switch to second point selection mode
-              this.selectionMode = 'second';
-              
-              // Mark the first point
-              this.markSelectedPoint(1, seriesIndex, point[0], value);
-              
-              // 
-              this.updateDeltaModeIndicator(); 
-
-              // Show a message to the user
-              this.showMessage('Select second point for delta calculation');
-              
-            } else if (this.selectionMode === 'second') {
-                this.selectedPoint2 = {
-                  primaryChannel: channelName,  // Change from channel to primaryChannel
-                  timestamp: point[0],
-                  primaryValue: value           // Change from value to primaryValue
-                };
-                
-                // Mark the second point
-                this.markSelectedPoint(2, seriesIndex, point[0], value);
-              
-                
-                // Change this line to call the new function
-                this.calculateMultiChannelDeltas();  // Instead of this.calculateDelta()
-                
-                // Reset selection mode for next delta calculation
-                this.selectionMode = 'first';
-              }
+            const point: [number, number | null] = [
+              store.getTime(nearestIndex),
+              store.getValue(column, nearestIndex)
+            ];
+            this.ngZone.run(() => this.placeCursor(channelName, clickedTime));
 
-            
             // Original tooltip code starts here
             console.log(`Found nearest point for ${channelName}:`, point, 'at index:', nearestIndex);
             
@@ -379,31 +592,30 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
             for (let i = Math.max(0, nearestIndex - 2); i < nearestIndex; i++) {
               surroundingPointsForTooltip.push({
                 index: i,
-                timestamp: new Date(points[i][0]).toLocaleString(),
-                value: points[i][1]
+                timestamp: this.formatSampleTime(i, store),
+                value: store.getValue(column, i)
               });
             }
             
             // Add current point
             surroundingPointsForTooltip.push({
               index: nearestIndex,
-              timestamp: new Date(points[nearestIndex][0]).toLocaleString(),
-              value: points[nearestIndex][1],
+              timestamp: this.formatSampleTime(nearestIndex, store),
+              value: point[1],
               isCurrent: true
             });
             
             // Add points after current point
-            for (let i = nearestIndex + 1; i < Math.min(points.length, nearestIndex + 3); i++) {
+            for (let i = nearestIndex + 1; i < Math.min(store.length, nearestIndex + 3); i++) {
               surroundingPointsForTooltip.push({
                 index: i,
-                timestamp: new Date(points[i][0]).toLocaleString(),
-                value: points[i][1]
+                timestamp: this.formatSampleTime(i, store),
+                value: store.getValue(column, i)
               });
             }
             
             // Format the tooltip content
-            const date = new Date(point[0]);
-            const formattedDate = date.toLocaleString();
+            const formattedDate = this.formatSampleTime(nearestIndex, store);
             const tooltipValue = point[1] !== null ? point[1].toFixed(4) : 'N/A';
             
             // Find the original raw data point
@@ -411,8 +623,9 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
             const timestamp = point[0];
             const rawIndex = this.findRawDataIndex(channelName, timestamp);
             
-            if (rawIndex.chunk >= 0 && rawIndex.row >= 0) {
-              originalValue = this.rawDataChunks[rawIndex.chunk][rawIndex.row][channelName];
+            if (rawIndex >= 0) {
+              const rawValue = store.getValue(column, rawIndex);
+              originalValue = rawValue === null ? 'N/A' : String(rawValue);
             }
             
             // Build surrounding points table
@@ -440,23 +653,12 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
             
             surroundingPointsHTML += `</table></div>`;
             
-            // Add delta selection info if applicable
-            let deltaSelectionInfo = '';
-            if (this.selectionMode === 'second' && this.selectedPoint1) {
-              deltaSelectionInfo = `
-                <div style="margin-top: 8px; padding: 5px; background-color: #fff8e1; border-radius: 4px; font-size: 12px;">
-                  <span style="font-weight: bold;">Delta Selection:</span> Point 1 selected. Click another point to calculate delta.
-                </div>
-              `;
-            }
-            
             tooltipDiv.innerHTML = `
               <div style="font-weight: bold; margin-bottom: 8px; font-size: 14px; color: #0066cc;">${channelName}</div>
               <div style="margin-bottom: 4px;"><strong>Time:</strong> ${formattedDate}</div>
               <div><strong>Value:</strong> ${tooltipValue}</div>
               <div><strong>Original Value:</strong> ${originalValue}</div>
-              <div style="font-size: 10px; color: #666; margin-top: 5px;">Point ${nearestIndex} of ${points.length}</div>
-              ${deltaSelectionInfo}
+              <div style="font-size: 10px; color: #666; margin-top: 5px;">Point ${nearestIndex} of ${store.length}</div>
               ${surroundingPointsHTML}
             `;
             
@@ -470,30 +672,9 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
               clearTimeout(this._tooltipTimeout);
             }
             
-            // Highlight the point if possible
-            try {
-              this.chartInstance.dispatchAction({
-                type: 'highlight',
-                seriesIndex: seriesIndex,
-                dataIndex: nearestIndex
-              });
-            } catch (highlightErr) {
-              console.log('Could not highlight point:', highlightErr);
-            }
-            
             // Store timeout ID for later clearing
             this._tooltipTimeout = setTimeout(() => {
               tooltipDiv.style.opacity = '0';
-              
-              try {
-                this.chartInstance.dispatchAction({
-                  type: 'downplay',
-                  seriesIndex: seriesIndex,
-                  dataIndex: nearestIndex
-                });
-              } catch (downplayErr) {
-                console.log('Could not downplay point:', downplayErr);
-              }
             }, 5000); // Show for 5 seconds
           }
         }
@@ -502,15 +683,28 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
       }
     });
     
+    // Crosshair over every grid, following the pointer
+    chartDom.addEventListener('mousemove', (e: MouseEvent) => {
+      const rect = chartDom.getBoundingClientRect();
+      this.trackHover(e.clientX - rect.left, e.clientY - rect.top);
+    });
+    chartDom.addEventListener('mouseleave', () => {
+      this.trackHover.cancel();
+      this.clearHover();
+    });
+    
+    // Statistics of a brushed time interval; the toolbox's clear empties the brush
+    this.chartInstance.on('brushEnd', (params: { areas: any[] }) => this.ngZone.run(() => this.onBrushEnd(params.areas)));
+    this.chartInstance.on('brush', (params: { areas: any[] }) => {
+      if (!params.areas.length && this.statsInterval) this.ngZone.run(() => this.clearRangeStatistics());
+    });
+    
     // Add zooming event handlers
     this.chartInstance.on('datazoom', () => {
-      const option = this.chartInstance.getOption();
-      const startValue = option.dataZoom[0].startValue;
-      const endValue = option.dataZoom[0].endValue;
-      this.calculateVisiblePoints(startValue, endValue);
-      
-      // Use throttled redraw instead of setTimeout
-      // this.throttledRedraw();
+      // Zooming or panning by hand stops the live view from following
+      this.stopFollowing();
+      // Re-query the visible window at screen resolution
+      this.refreshLevelOfDetail();
     });
     
     // Get renderer information 
@@ -518,159 +712,14 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
     const renderer = zr.painter.type || ''; // Use .type instead of .getType()
     console.log('ECharts is using renderer:', renderer);
     
-    // Check if hardware acceleration is enabled
-    const isHardwareAccelerated = this.isHardwareAccelerated();
-    console.log('Hardware acceleration is enabled:', isHardwareAccelerated);
-    
-    // Check WebGL support
-    const canvas = document.createElement('canvas');
-    const gl = canvas.getContext('webgl') as WebGLRenderingContext | null || 
-              canvas.getContext('experimental-webgl') as WebGLRenderingContext | null;
-    console.log('WebGL supported by browser:', !!gl);
-    
-    // If we want to use hardware acceleration but it's not currently enabled
-    if (this.useHardwareAcceleration && !isHardwareAccelerated && gl) {
-      console.log('Attempting to optimize for hardware acceleration');
-      
-      // Try to force hardware acceleration with Canvas
-      const originalOptions = this.chartInstance.getOption();
-      const container = this.chartInstance.getDom();
-      
-      // Store event handlers
-      const eventHandlers = this.chartInstance._$eventProcessor ? 
-                          this.chartInstance._$eventProcessor._$handlers : {};
-      
-      try {
-        // Save the tooltip element reference
-        const savedTooltipDiv = tooltipDiv;
-        
-        // Dispose of the current instance
-        this.chartInstance.dispose();
-        
-        // Create a new instance with canvas renderer and optimal settings
-        this.chartInstance = echarts.init(container, null, {
-          renderer: 'canvas', // Use 'canvas' with hardware acceleration 
-          devicePixelRatio: window.devicePixelRatio || 1,
-          useDirtyRect: false, // Sometimes dirty rect causes issues with hardware acceleration
-          width: container.clientWidth,
-          height: container.clientHeight
-        });
-        
-        // Set animation off for better performance
-        originalOptions.animation = false;
-        
-        // Re-apply options
-        this.chartInstance.setOption(originalOptions);
-        
-        // Reattach datazoom event handler
-        this.chartInstance.on('datazoom', (params: any) => {
-          const option = this.chartInstance.getOption();
-          const startValue = option.dataZoom[0].startValue;
-          const endValue = option.dataZoom[0].endValue;
-          this.calculateVisiblePoints(startValue, endValue);
-        });
-        
-        // Re-attach our custom click handler after chart is re-created
-        container.addEventListener('click', (e: MouseEvent) => {
-          // Get mouse position relative to chart
-          const rect = container.getBoundingClientRect();
-          const x = e.clientX - rect.left;
-          const y = e.clientY - rect.top;
-          
-          console.log('Chart clicked at point (after reinitialization):', x, y);
-          
-          try {
-            // Calculate which series was clicked based on y position
-            const seriesIndex = Math.floor(y / (rect.height / this.selectedChannels.length));
-            console.log('Calculated seriesIndex:', seriesIndex);
-            
-            if (seriesIndex >= 0 && seriesIndex < this.selectedChannels.length) {
-              const channelName = this.selectedChannels[seriesIndex];
-              const points = this.dataCache.get(channelName) || [];
-              
-              if (points.length === 0) {
-                console.log('No data points for channel:', channelName);
-                return;
-              }
-              
-              // Calculate x position as a percentage of chart width
-              const xPercent = x / rect.width;
-              
-              // Calculate the approximate timestamp based on the range
-              const timeRange = this.timeRange[1] - this.timeRange[0];
-              const approximateTimestamp = this.timeRange[0] + (timeRange * xPercent);
-              
-              console.log('Approximated timestamp:', new Date(approximateTimestamp).toLocaleString());
-              
-              // Find the nearest point in time
-              let nearestIndex = -1;
-              let minDistance = Infinity;
-              
-              for (let i = 0; i < points.length; i++) {
-                const distance = Math.abs(points[i][0] - approximateTimestamp);
-                if (distance < minDistance) {
-                  minDistance = distance;
-                  nearestIndex = i;
-                }
-              }
-              
-              if (nearestIndex >= 0) {
-                const point = points[nearestIndex];
-                console.log('Found nearest point:', point, 'at index:', nearestIndex);
-                
-                // Format the tooltip content
-                const date = new Date(point[0]);
-                const formattedDate = date.toLocaleString();
-                const value = point[1] !== null ? point[1].toFixed(4) : 'N/A';
-                
-                savedTooltipDiv.innerHTML = `
-                  <div style="font-weight: bold; margin-bottom: 5px;">${channelName}</div>
-                  <div><strong>Time:</strong> ${formattedDate}</div>
-                  <div><strong>Value:</strong> ${value}</div>
-                `;
-                
-                // Position the tooltip
-                savedTooltipDiv.style.left = (e.clientX + 10) + 'px';
-                savedTooltipDiv.style.top = (e.clientY - 25) + 'px';
-                savedTooltipDiv.style.opacity = '1';
-                
-                // Highlight the point if possible
-                try {
-                  this.chartInstance.dispatchAction({
-                    type: 'highlight',
-                    seriesIndex: seriesIndex,
-                    dataIndex: nearestIndex
-                  });
-                } catch (highlightErr) {
-                  console.log('Could not highlight point:', highlightErr);
-                }
-                
-                // Hide tooltip after 3 seconds
-                setTimeout(() => {
-                  savedTooltipDiv.style.opacity = '0';
-                  
-                  try {
-                    this.chartInstance.dispatchAction({
-                      type: 'downplay',
-                      seriesIndex: seriesIndex,
-                      dataIndex: nearestIndex
-                    });
-                  } catch (downplayErr) {
-                    console.log('Could not downplay point:', downplayErr);
-                  }
-                }, 3000);
-              }
-            }
-          } catch (err) {
-            console.error('Error processing tooltip after reinitialization:', err);
-          }
-        });
-        
-        // Check if hardware acceleration is now enabled
-        console.log('Hardware acceleration after optimization:', this.isHardwareAccelerated());
-      } catch (e) {
-        console.error('Failed to apply hardware acceleration optimizations:', e);
-      }
+    // Frame times of either line renderer, for comparing them. The WebGL
+    // layer redraws after ECharts has laid out the axes it maps lines to.
+    this.chartInstance.on('rendered', (params: { elapsedTime: number }) => this.onChartRendered(params.elapsedTime));
+    if (this.lineRenderer === 'webgl') {
+      this.createWebGLLayer();
+    }
+    if (this.showSpectrogram) {
+      this.createSpectrogramLayer();
     }
     
     // Apply optimizations for canvas
@@ -679,199 +728,6 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
     }
   }
 
-/**
- * Marks a selected point on the chart
- */
-  markSelectedPoint(pointNumber: number, seriesIndex: number, timestamp: number, value: number): void {
-    if (!this.chartInstance) return;
-    
-    try {
-      // Make the markers more visible
-      const color = pointNumber === 1 ? '#ff3333' : '#3333ff'; // Brighter red and blue
-      
-      // Get current chart options and check if series exists
-      const option = this.chartInstance.getOption();
-      if (!option.series || !option.series[seriesIndex]) {
-        console.error('Series not found at index:', seriesIndex);
-        return;
-      }
-      
-      // Create markPoint data
-      const markPointData = [{
-        name: `Point ${pointNumber}`,
-        coord: [timestamp, value],
-        itemStyle: {
-          color: color
-        },
-        symbolSize: 15,
-        symbol: 'pin',
-        label: {
-          show: true,
-          formatter: `P${pointNumber}`,
-          position: 'top',
-          fontSize: 14,
-          color: color,
-          fontWeight: 'bold'
-        }
-      }];
-      
-      // Update only the specific series for the point marker
-      const updateObj: any = {
-        series: {}
-      };
-      
-      // Update only the specific series - use index as key
-      updateObj.series[seriesIndex] = {
-        markPoint: {
-          symbol: 'pin',
-          symbolSize: 15,
-          data: markPointData
-        }
-      };
-      
-      this.chartInstance.setOption(updateObj);
-      
-      
-      console.log(`Marked point ${pointNumber} at series ${seriesIndex}, timestamp ${new Date(timestamp).toLocaleString()}, value ${value}`);
-    } catch (e) {
-      console.error('Error marking selected point:', e);
-    }
-  }
-
-
-  // Delta for Multi channels
-  calculateMultiChannelDeltas(): void {
-    if (!this.selectedPoint1 || !this.selectedPoint2 || !this.chartInstance) return;
-    
-    const timestamp1 = this.selectedPoint1.timestamp;
-    const timestamp2 = this.selectedPoint2.timestamp;
-    const deltaX = timestamp2 - timestamp1;
-    const deltaTimeFormatted = this.formatTimeDelta(deltaX);
-    
-    // Calculate delta for each visible channel
-    const channelDeltas = [];
-    
-    for (const channelName of this.selectedChannels) {
-      // Get the data for this channel
-      const data = this.dataCache.get(channelName) || [];
-      
-      if (data.length === 0) continue;
-      
-      // Find nearest points for both timestamps
-      let value1 = null;
-      let value2 = null;
-      
-      // Find nearest point to timestamp1
-      let minDistance1 = Infinity;
-      for (let i = 0; i < data.length; i++) {
-        const distance = Math.abs(data[i][0] - timestamp1);
-        if (distance < minDistance1) {
-          minDistance1 = distance;
-          value1 = data[i][1];
-        }
-      }
-      
-      // Find nearest point to timestamp2
-      let minDistance2 = Infinity;
-      for (let i = 0; i < data.length; i++) {
-        const distance = Math.abs(data[i][0] - timestamp2);
-        if (distance < minDistance2) {
-          minDistance2 = distance;
-          value2 = data[i][1];
-        }
-      }
-      
-      // Calculate delta if both values are found
-      if (value1 !== null && value2 !== null) {
-        const deltaY = value2 - value1;
-        channelDeltas.push({
-          channel: channelName,
-          value1: value1,
-          value2: value2,
-          deltaY: deltaY
-        });
-        
-        // Draw delta line for this channel
-        this.drawChannelDeltaLine(channelName, timestamp1, value1, timestamp2, value2, deltaY);
-      }
-    }
-    
-    // Store the multi-channel delta info
-    this.deltaInfo = {
-      deltaX,
-      deltaTimeFormatted,
-      channelDeltas: channelDeltas
-    };
-    
-    this.showDeltaInfo = true;
-    
-    // Update the delta info panel with multi-channel data
-    this.showMultiChannelDeltaInfoPanel();
-  }
-
-
-  // draw Channel Delta Line
-  drawChannelDeltaLine(channel: string, timestamp1: number, value1: number, 
-                    timestamp2: number, value2: number, deltaY: number): void {
-    if (!this.chartInstance) return;
-    
-    const seriesIndex = this.findChannelSeriesIndex(channel);
-    if (seriesIndex === -1) return;
-    
-    // Different colors for different channels
-    const colorMap: {[key: string]: string} = {
-      'Line_Voltage_2': '#0066cc',
-      'Snubber': '#00cc66',
-      'HF_Current': '#cc6600',
-      // Add colors for other channels
-    };
-    
-    const color = colorMap[channel] || '#ff6600';
-    
-    // Create markLine data
-    const markLineData = [{
-      name: `Delta_${channel}`,
-      coords: [
-        [timestamp1, value1],
-        [timestamp2, value2]
-      ],
-      lineStyle: {
-        color: color,
-        width: 2,
-        type: 'solid'
-      },
-      label: {
-        show: true,
-        position: 'middle',
-        formatter: `Δ = ${deltaY.toFixed(4)}`,
-        fontSize: 14,
-        backgroundColor: 'rgba(255, 255, 255, 0.7)',
-        padding: [4, 8],
-        borderRadius: 4
-      }
-    }];
-    
-    // Update chart to show the delta line
-    const updateObj: any = {
-      series: {}
-    };
-    
-    updateObj.series[seriesIndex] = {
-      markLine: {
-        silent: false,
-        symbol: ['circle', 'arrow'],
-        lineStyle: {
-          type: 'dashed',
-          width: 2,
-          color: color
-        },
-        data: markLineData
-      }
-    };
-    
-    this.chartInstance.setOption(updateObj);
-  }
-
   /**
    * Formats time delta in human-readable format
    */
@@ -889,29 +745,42 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
     } else if (minutes > 0) {
       return `${minutes}m ${seconds % 60}s`;
     } else if (seconds > 0) {
-      return `${seconds}s ${absMilliseconds % 1000}ms`;
+      return `${seconds}s ${+(absMilliseconds % 1000).toFixed(3)}ms`;
+    } else if (absMilliseconds >= 1) {
+      return `${+absMilliseconds.toFixed(3)}ms`;
+    } else if (absMilliseconds >= 0.001) {
+      // High-frequency captures: show microseconds
+      return `${+(absMilliseconds * 1000).toFixed(3)}µs`;
     } else {
-      // Show milliseconds for very small differences
-      return `${absMilliseconds}ms`;
+      return `${+(absMilliseconds * 1e6).toFixed(1)}ns`;
     }
   }
 
   /**
- * Helper to find the series index for a channel
- */
-  findChannelSeriesIndex(channelName: string): number {
-    if (!this.chartInstance) return -1;
-    
-    const option = this.chartInstance.getOption();
-    if (!option.series || !Array.isArray(option.series)) return -1;
-    
-    for (let i = 0; i < option.series.length; i++) {
-      if (option.series[i].name === channelName) {
-        return i;
-      }
-    }
-    
-    return -1;
+   * Full-precision time of one sample in the source time zone. Samples of
+   * files added to a session are shown with their offset applied.
+   */
+  formatSampleTime(index: number, store: TimeSeriesStore = this.store): string {
+    const offset = store.getOffset(index);
+    const whole = Math.floor(offset);
+    return formatTimestamp(store.timeOrigin + whole, offset - whole, this.timestampOptions.timeZone);
+  }
+
+  /**
+   * Axis label for an epoch time, with more detail the narrower the visible span
+   */
+  formatAxisTime(value: number, span: number): string {
+    const full = formatTimestamp(value, 0, this.timestampOptions.timeZone);
+    const [date, time] = full.split(' ');
+    
+    if (span > 2 * 86400000) return date;
+    if (span > 600000) return `${date.slice(0, 5)} ${time.slice(0, 5)}`;
+    if (span > 10000) return time.slice(0, 8);
+    // Below ten seconds: seconds and milliseconds (SS:MMM)
+    const millis = time.slice(6, 12);
+    if (span > 10) return millis;
+    // Below ten milliseconds: include the sub-millisecond digits
+    return millis + time.slice(12, 16);
   }
 
   /**
@@ -946,173 +815,6 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
     }, 3000);
   }
 
-  // Show multi-channel delta info panel
-  showMultiChannelDeltaInfoPanel(): void {
-    if (!this.deltaInfo) return;
-    
-    // Remove existing panel if it exists
-    const existingPanel = document.getElementById('delta-info-panel');
-    if (existingPanel) existingPanel.remove();
-    
-    // Create a new panel with improved styling
-    const deltaInfoEl = document.createElement('div');
-    deltaInfoEl.id = 'delta-info-panel';
-    deltaInfoEl.style.cssText = `
-      position: fixed;
-      top: 80px;
-      right: 20px;
-      background-color: white;
-      border: 2px solid #0066cc;
-      border-radius: 8px;
-      padding: 15px;
-      box-shadow: 0 6px 16px rgba(0, 0, 0, 0.2);
-      z-index: 10000;
-      min-width: 280px;
-      max-width: 350px;
-      font-family: Arial, sans-serif;
-    `;
-    
-    // Create header content
-    let content = `
-      <div style="font-weight: bold; color: #0066cc; margin-bottom: 10px; border-bottom: 1px solid #e6e6e6; padding-bottom: 8px; font-size: 16px;">
-        Delta Calculation Results
-      </div>
-      <div style="margin-bottom: 8px;">
-        <span style="font-weight: 500; color: #555; width: 120px; display: inline-block;">From:</span> 
-        <span style="color: #0077cc; font-weight: 500;">${new Date(this.selectedPoint1!.timestamp).toLocaleString()}</span>
-      </div>
-      <div style="margin-bottom: 8px;">
-        <span style="font-weight: 500; color: #555; width: 120px; display: inline-block;">To:</span> 
-        <span style="color: #0077cc; font-weight: 500;">${new Date(this.selectedPoint2!.timestamp).toLocaleString()}</span>
-      </div>
-      <div style="margin-bottom: 15px;">
-        <span style="font-weight: 500; color: #555; width: 120px; display: inline-block;">Time Difference:</span> 
-        <span style="color: #0077cc; font-weight: 500;">${this.deltaInfo.deltaTimeFormatted}</span>
-      </div>
-      <div style="margin-bottom: 15px; border-bottom: 1px solid #e6e6e6; padding-bottom: 8px;">
-        <span style="font-weight: bold; color: #555;">Channel Delta Values:</span>
-      </div>
-    `;
-    
-    // Add each channel's delta values
-    if (this.deltaInfo.channelDeltas) {
-      this.deltaInfo.channelDeltas.forEach((delta: any) => {
-        content += `
-          <div style="margin-bottom: 12px;">
-            <div style="font-weight: 500; color: #444; margin-bottom: 4px;">${delta.channel}:</div>
-            <div style="padding-left: 10px; margin-bottom: 2px;">
-              <span style="color: #555; width: 90px; display: inline-block;">From Value:</span> 
-              <span style="color: #0077cc;">${delta.value1.toFixed(4)}</span>
-            </div>
-            <div style="padding-left: 10px; margin-bottom: 2px;">
-              <span style="color: #555; width: 90px; display: inline-block;">To Value:</span> 
-              <span style="color: #0077cc;">${delta.value2.toFixed(4)}</span>
-            </div>
-            <div style="padding-left: 10px; font-weight: 500;">
-              <span style="color: #555; width: 90px; display: inline-block;">Delta:</span> 
-              <span style="color: #0077cc; font-size: 14px;">Δ = ${delta.deltaY.toFixed(4)}</span>
-            </div>
-          </div>
-        `;
-      });
-    }
-    
-    // Add clear button
-    content += `
-      <button id="clearDeltaBtn" style="width: 100%; padding: 8px; background-color: #f0f0f0; border: 1px solid #ccc; border-radius: 4px; cursor: pointer; font-weight: bold; color: #444;">
-        Clear Selection
-      </button>
-    `;
-    
-    deltaInfoEl.innerHTML = content;
-    
-    // Add to document
-    document.body.appendChild(deltaInfoEl);
-    
-    // Add event listener to the button
-    document.getElementById('clearDeltaBtn')?.addEventListener('click', () => {
-      this.clearDeltaSelection();
-      deltaInfoEl.remove();
-    });
-  }
-
-  /**
-   * Clears delta selection and resets UI
-   */
-  clearDeltaSelection(): void {
-    this.selectedPoint1 = null;
-    this.selectedPoint2 = null;
-    this.selectionMode = 'first';
-    this.showDeltaInfo = false;
-    this.deltaInfo = null;
-        
-    // Clear markPoints from all series
-    if (this.chartInstance) {
-      const option = this.chartInstance.getOption();
-      const updateObj: any = {
-        series: {}
-      };
-      
-      // Clear markPoint from all series
-      for (let i = 0; i < this.selectedChannels.length; i++) {
-        const channelName = this.selectedChannels[i];
-        const seriesIndex = this.findChannelSeriesIndex(channelName);
-        
-        if (seriesIndex !== -1) {
-          updateObj.series[seriesIndex] = {
-            markPoint: { data: [] }
-          };
-        }
-      }
-      
-      this.chartInstance.setOption(updateObj);
-    }
-    
-    // Remove delta info panel and indicators
-    const deltaInfoEl = document.getElementById('delta-info-panel');
-    if (deltaInfoEl) {
-      deltaInfoEl.remove();
-    }
-    
-    const deltaIndicator = document.getElementById('delta-mode-indicator');
-    if (deltaIndicator) {
-      deltaIndicator.remove();
-    }
-  }
-
-// Add this new method to update the delta mode indicator
-  updateDeltaModeIndicator(): void {
-    // Remove existing indicator if present
-    const existingIndicator = document.getElementById('delta-mode-indicator');
-    if (existingIndicator) existingIndicator.remove();
-    
-    // If we're in second point selection mode, show the indicator
-    if (this.selectionMode === 'second' && this.selectedPoint1) {
-      const indicator = document.createElement('div');
-      indicator.id = 'delta-mode-indicator';
-      indicator.style.cssText = `
-        position: fixed;
-        top: 10px;
-        left: 50%;
-        transform: translateX(-50%);
-        background-color: #fff8e1;
-        border: 1px solid #ffecb3;
-        border-radius: 4px;
-        padding: 8px 16px;
-        z-index: 1000;
-        font-size: 14px;
-        box-shadow: 0 2px 8px rgba(0,0,0,0.1);
-      `;
-      indicator.innerHTML = `
-        <div style="display: flex; align-items: center; gap: 8px;">
-          <span style="color: #ff0000; font-weight: bold;">•</span>
-          <span>Point 1 selected. Click on second point to calculate delta.</span>
-        </div>
-      `;
-      document.body.appendChild(indicator);
-    }
-  }
-
 
 // Add this new method to separate the optimizations
   applyCanvasOptimizations(painter: any): void {
@@ -1157,9 +859,12 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
     console.log('Selected channels:', this.selectedChannels);
     
     for (const channel of this.selectedChannels) {
-      const data = this.dataCache.get(channel);
-      if (data && data.length > 0) {
-        console.log(`${channel} data sample:`, data[0], data[Math.floor(data.length/2)], data[data.length-1]);
+      const resolved = this.session.resolve(channel);
+      const store = resolved?.file.store;
+      const length = store ? store.length : 0;
+      if (resolved && store!.hasChannel(resolved.channel) && length > 0) {
+        const sample = (i: number) => [store!.getTime(i), store!.getValue(resolved.channel, i)];
+        console.log(`${channel} data sample:`, sample(0), sample(Math.floor(length / 2)), sample(length - 1));
       } else {
         console.log(`${channel} has no data or is not in cache`);
       }
@@ -1172,36 +877,6 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
     }
   }
 
-  // Add this helper method to check for hardware acceleration
-  isHardwareAccelerated(): boolean {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) return false;
-    
-    // Check for specific properties that indicate hardware acceleration
-    try {
-      // @ts-ignore: Property may not exist
-      return !!(ctx.getContextAttributes && ctx.getContextAttributes().alpha);
-    } catch (e) {
-      // Fallback detection method
-      try {
-        const gl = document.createElement('canvas').getContext('webgl');
-        if (!gl) return false;
-        
-        const debugInfo = gl.getExtension('WEBGL_debug_renderer_info');
-        if (!debugInfo) return false;
-        
-        const renderer = gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL);
-        return !renderer.includes('SwiftShader') && 
-              !renderer.includes('llvmpipe') && 
-              !renderer.includes('software');
-      } catch (e) {
-        return false;
-      }
-    }
-  }
-  
   setupPerformancePreset(): void {
     // Always use speed-optimized settings
     this.performanceSettings = {
@@ -1212,6 +887,7 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
       throttle: 30,
       piecewiseLevels: [100, 500, 1000, 5000]
     };
+    this.lod.setLevelSizes(this.performanceSettings.piecewiseLevels);
     
     // Apply WebGL specific optimizations
     if (this.chartInstance) {
@@ -1260,17 +936,15 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
 
   
   loadCsvData(): void {
-    this.loading = true;
-    this.error = null;
-    this.progress = 0;
-    this.clearCaches();
-    this.rawDataChunks = [];
+    this.beginLoad(this.csvFilePath);
+    this.currentFile = null;
+    this.fileHandle = null;
     
     const startTime = performance.now();
     
     // Use HTTP request with progress events
-    this.http.get(this.csvFilePath, {
-      responseType: 'text',
+    this.loadSubscription = this.http.get(this.csvFilePath, {
+      responseType: 'blob',
       reportProgress: true,
       observe: 'events'
     }).subscribe({
@@ -1282,8 +956,7 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
             this.cdr.detectChanges();
           }
         } else if (event.type === HttpEventType.Response) {
-          const csvText = event.body as string;
-          this.processCSV(csvText, startTime);
+          this.processSource(event.body as Blob, startTime, 50);
         }
       },
       error: (err) => {
@@ -1295,527 +968,2485 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
     });
   }
 
-  processCSV(csvText: string, startTime: number): void {
-    if (!csvText || csvText.trim() === '') {
-      this.error = 'CSV file is empty';
-      this.loading = false;
-      this.cdr.detectChanges();
+  /**
+   * Opens a file through the File System Access API where the browser has
+   * it, so the file can be followed as it grows; otherwise uses the file input
+   */
+  async openFile(picker: HTMLInputElement): Promise<void> {
+    if (!('showOpenFilePicker' in window)) {
+      picker.click();
       return;
     }
     
-    // Extract headers
-    const firstRow = csvText.split('\n')[0];
-    if (!firstRow) {
-      this.error = 'CSV file has no headers';
-      this.loading = false;
+    try {
+      const handles: FileSystemFileHandle[] = await (window as any).showOpenFilePicker({
+        multiple: true,
+        types: [
+          { description: 'CSV files', accept: { 'text/csv': ['.csv', '.txt'] } },
+          { description: 'Parquet and Arrow files', accept: { 'application/octet-stream': ['.parquet', '.arrow', '.feather'] } },
+          { description: 'COMTRADE recordings', accept: { 'application/octet-stream': ['.cff', '.cfg', '.dat'] } },
+          { description: 'TDMS files', accept: { 'application/octet-stream': ['.tdms'] } },
+          { description: 'Compressed files', accept: { 'application/octet-stream': ['.gz', '.zip', '.zst'] } }
+        ]
+      });
+      const files = await Promise.all(handles.map(handle => handle.getFile()));
+      this.loadLocalFiles(files, handles.length === 1 ? handles[0] : null);
+    } catch (e: any) {
+      // AbortError when the picker is dismissed
+      if (e?.name !== 'AbortError') {
+        console.error('Unable to open file:', e);
+      }
+    }
+  }
+
+  /**
+   * Opens picked or dropped files. A COMTRADE .cfg is read together with the
+   * .dat of the same name; otherwise the first file is opened.
+   */
+  async loadLocalFiles(files: File[], handle: FileSystemFileHandle | null = null): Promise<void> {
+    let opened: File[];
+    try {
+      opened = await this.combineComtradePairs(files);
+    } catch (e: any) {
+      this.error = e.message;
       this.cdr.detectChanges();
       return;
     }
     
-    // Parse headers and set up columns
-    const hdrs = firstRow.split(',').map(h => h.trim());
-    this.columns = hdrs.slice(1); // Assuming first column is TimeStamp
+    // A recording picked with its .dat wins over other files
+    const combined = opened.find(file => !files.includes(file));
+    if (combined) {
+      this.loadLocalFile(combined);
+    } else if (opened.length) {
+      this.loadLocalFile(opened[0], handle);
+    }
+  }
+
+  /**
+   * Replaces each COMTRADE .cfg and the .dat of the same name with one
+   * combined .cff file
+   */
+  private async combineComtradePairs(files: File[]): Promise<File[]> {
+    const combined: File[] = [];
+    const paired = new Set<File>();
+    
+    for (const cfg of files.filter(file => /\.cfg$/i.test(file.name))) {
+      const base = cfg.name.slice(0, -4);
+      const dat = files.find(file => file.name.toLowerCase() === `${base.toLowerCase()}.dat`);
+      if (!dat) {
+        throw new Error(`Select ${cfg.name} together with ${base}.dat`);
+      }
+      
+      try {
+        const cff = await combineComtradeFiles(cfg, dat);
+        combined.push(new File([cff], `${base}.cff`, { lastModified: Math.max(cfg.lastModified, dat.lastModified) }));
+      } catch (e: any) {
+        console.error('Unable to read COMTRADE configuration:', e);
+        throw new Error(`Unable to read ${cfg.name}: ${e.message}`);
+      }
+      paired.add(cfg).add(dat);
+    }
+    return [...files.filter(file => !paired.has(file)), ...combined];
+  }
+
+  /**
+   * Opens a file from the user's disk. CSV files get the import preview
+   * first; Parquet and Arrow files carry their own schema. Compressed files
+   * are judged by the file inside.
+   */
+  async loadLocalFile(file: File, handle: FileSystemFileHandle | null = null): Promise<void> {
+    let format: ColumnarFormat | null;
+    try {
+      const compression = await this.sourceCompression(file, file.name, file, handle);
+      if (compression === undefined) return;
+      format = await this.innerFormat(file, file.name, compression);
+    } catch (e: any) {
+      console.error('Unable to open file:', e);
+      this.error = `Unable to read ${file.name}: ${e.message}`;
+      this.cdr.detectChanges();
+      return;
+    }
     
-    // Auto-select first two channels if none are selected
-    if (!this.selectedChannels.length && this.columns.length) {
-      this.selectedChannels = this.columns.slice(0, Math.min(2, this.columns.length));
+    if (format) {
+      this.importLocalFile(file, handle);
+    } else {
+      this.openImportPreview(file, file, handle);
+    }
+  }
+
+  /**
+   * How a source is compressed, null when it isn't. A zip archive opens the
+   * member picked last time or its only file; otherwise the member picker is
+   * shown and undefined returned.
+   */
+  private async sourceCompression(
+    source: Blob,
+    name: string,
+    file: File | null,
+    handle: FileSystemFileHandle | null
+  ): Promise<Compression | null | undefined> {
+    const head = new Uint8Array(await source.slice(0, 4).arrayBuffer());
+    const format = compressionFromBytes(head) || compressionFromName(name);
+    if (format !== 'zip') {
+      return format ? { format } : null;
+    }
+    
+    const entries = await listZipEntries(source);
+    if (!entries.length) {
+      throw new Error('The archive contains no files');
+    }
+    const member = this.importSettings.get(name).archiveMember;
+    const entry = entries.length === 1 ? entries[0] : entries.find(e => e.name === member);
+    if (entry) {
+      return { format, entry };
+    }
+    
+    this.archiveChoice = { file, handle, source, name, entries, selected: null };
+    this.cdr.detectChanges();
+    return undefined;
+  }
+
+  /**
+   * Columnar format of the (decompressed) file, from its first bytes or name.
+   * A COMTRADE .cfg inside an archive counts, its .dat is read with it.
+   */
+  private async innerFormat(source: Blob, name: string, compression: Compression | null): Promise<ColumnarFormat | null> {
+    if (!compression) {
+      const head = new Uint8Array(await source.slice(0, 16).arrayBuffer());
+      return columnarFormatFromBytes(head) || columnarFormatFromName(name);
     }
     
-    const total = csvText.split('\n').length;
-    this.totalPoints = (total - 1) * this.columns.length; // -1 for header row
+    const inner = innerFileName(name, compression);
+    if (compression.format === 'zip' && /\.cfg$/i.test(inner)) return 'comtrade';
+    const { bytes } = await readDecompressedHead(source, compression, 16);
+    return columnarFormatFromBytes(bytes) || columnarFormatFromName(inner);
+  }
+
+  /**
+   * Decompresses a columnar file in full, since its readers need random
+   * access. A COMTRADE .cfg is combined with the .dat next to it.
+   */
+  private async decompressColumnar(source: Blob, compression: Compression): Promise<Blob> {
+    if (compression.format !== 'zip' || !/\.cfg$/i.test(compression.entry.name)) {
+      return decompressToBlob(source, compression);
+    }
     
-    let chunkSize = 5000; // Process in chunks to avoid blocking UI
-    let chunkStart = 0;
-    let currentChunk: any[] = [];
-    let minTimestamp = Infinity;
-    let maxTimestamp = -Infinity;
+    const cfg = compression.entry;
+    const datName = `${cfg.name.slice(0, -4)}.dat`.toLowerCase();
+    const dat = (await listZipEntries(source)).find(entry => entry.name.toLowerCase() === datName);
+    if (!dat) {
+      throw new Error(`The archive has no ${cfg.name.slice(0, -4)}.dat next to ${cfg.name}`);
+    }
+    return combineComtradeFiles(
+      await decompressToBlob(source, compression),
+      await decompressToBlob(source, { format: 'zip', entry: dat })
+    );
+  }
+
+  /**
+   * Opens the archive member the user picked, and remembers the choice for
+   * the next time the archive is opened
+   */
+  chooseArchiveMember(entry: ZipEntry): void {
+    const choice = this.archiveChoice!;
+    this.archiveChoice = null;
+    
+    const settings = this.importSettings.get(choice.name);
+    this.importSettings.set(choice.name, {
+      ...settings,
+      archiveMember: entry.name,
+      // A confirmed dialect belongs to the member it was confirmed for
+      dialect: settings.archiveMember === entry.name ? settings.dialect : undefined
+    });
     
-    console.log(`Processing ${total} rows of CSV data...`);
+    if (choice.file) {
+      this.loadLocalFile(choice.file, choice.handle);
+    } else {
+      this.beginLoad(choice.name);
+      this.processSource(choice.source, performance.now());
+    }
+  }
+
+  onArchiveCancelled(): void {
+    this.archiveChoice = null;
+  }
+
+  /**
+   * Shows the member picker for the archive that is currently loaded
+   */
+  async changeArchiveMember(): Promise<void> {
+    const archive = this.compressedSource;
+    if (archive?.compression.format !== 'zip') return;
     
-    // Function to process chunks with setTimeout to avoid blocking UI
-    const processChunk = () => {
-      const chunkEnd = Math.min(chunkStart + chunkSize, total);
-      currentChunk = [];
+    try {
+      this.archiveChoice = {
+        file: this.currentFile,
+        handle: this.fileHandle,
+        source: archive.blob,
+        name: this.sourceName,
+        entries: await listZipEntries(archive.blob),
+        selected: archive.compression.entry.name
+      };
+    } catch (e: any) {
+      this.error = `Unable to read ${this.sourceName}: ${e.message}`;
+    }
+    this.cdr.detectChanges();
+  }
+
+  get isArchiveSource(): boolean {
+    return this.compressedSource?.compression.format === 'zip';
+  }
+
+  /**
+   * Shows the first rows of a source with the saved or detected dialect
+   */
+  async openImportPreview(source: Blob, file: File | null, handle: FileSystemFileHandle | null = null): Promise<void> {
+    const name = file ? file.name : this.sourceName;
+    try {
+      const compression = await this.sourceCompression(source, name, file, handle);
+      if (compression === undefined) return;
       
-      // Parse the current chunk
-      parse(csvText.slice(
-        csvText.indexOf('\n', chunkStart) + 1,
-        chunkEnd < total ? csvText.indexOf('\n', chunkEnd) : undefined
-      ), {
-        header: false,
-        skipEmptyLines: true,
-        dynamicTyping: true,
-        complete: (results: ParseResult<any>) => {
-          for (const row of results.data) {
-            if (row && row.length > 1) {
-              const processedRow: any = { TimeStamp: row[0] };
-              
-              // Convert TimeStamp once and cache it
-              const ts = this.parseTimestamp(row[0]);
-              if (!isNaN(ts)) {
-                processedRow._parsedTimestamp = ts;
-                
-                // Update time range
-                minTimestamp = Math.min(minTimestamp, ts);
-                maxTimestamp = Math.max(maxTimestamp, ts);
-              }
-              
-              // Process each column
-              for (let i = 0; i < this.columns.length; i++) {
-                processedRow[this.columns[i]] = row[i + 1];
-              }
-              
-              currentChunk.push(processedRow);
-            }
-          }
-          
-          // Add the chunk to our chunks array
-          if (currentChunk.length > 0) {
-            this.rawDataChunks.push(currentChunk);
-          }
-          
-          // Update progress
-          this.progress = 50 + Math.round((chunkEnd / total) * 50);
-          this.cdr.detectChanges();
-          
-          // Continue with next chunk or finish
-          chunkStart = chunkEnd;
-          if (chunkStart < total) {
-            setTimeout(processChunk, 0);
-          } else {
-            this.timeRange = [minTimestamp, maxTimestamp];
-            this.loading = false;
-            this.loadComplete = true;
-            
-            const endTime = performance.now();
-            this.timingReport = `CSV loaded in ${((endTime - startTime) / 1000).toFixed(2)}s`;
-            console.log(`CSV processing complete. ${this.rawDataChunks.reduce((sum, chunk) => sum + chunk.length, 0)} rows in ${this.rawDataChunks.length} chunks.`);
-            
-            // Update chart after data is loaded
-            this.dataChanged$.next(true);
-          }
-        },
-        error: (err: any) => {
-          console.error('CSV parse error while processing chunk:', err);
-          this.error = `Parse error: ${err.message}`;
-          this.loading = false;
+      const sample = compression
+        ? await this.readCompressedSample(source, compression)
+        : completeLines(await source.slice(0, DIALECT_SAMPLE_SIZE).text(), source.size > DIALECT_SAMPLE_SIZE);
+      const settings = this.importSettings.get(name);
+      
+      this.importPreview = {
+        file,
+        handle,
+        source,
+        sample,
+        dialect: settings.dialect || detectDialect(sample),
+        timestampOptions: settings.timestamps
+      };
+    } catch (e: any) {
+      console.error('Unable to read file for preview:', e);
+      this.error = `Unable to read ${name}: ${e.message}`;
+    }
+    this.cdr.detectChanges();
+  }
+
+  private async readCompressedSample(source: Blob, compression: Compression): Promise<string> {
+    const { bytes, more } = await readDecompressedHead(source, compression, DIALECT_SAMPLE_SIZE);
+    return completeLines(new TextDecoder().decode(bytes), more);
+  }
+
+  /**
+   * Opens the import preview for the source that is currently loaded
+   */
+  editImportSettings(): void {
+    const source = this.currentFile || this.sourceBlob;
+    if (source) {
+      this.openImportPreview(source, this.currentFile, this.fileHandle);
+    }
+  }
+
+  onImportConfirmed(settings: ImportSettings): void {
+    const preview = this.importPreview!;
+    this.importPreview = null;
+    
+    this.importSettings.set(preview.file ? preview.file.name : this.sourceName, settings);
+    if (preview.file) {
+      this.importLocalFile(preview.file, preview.handle);
+    } else {
+      this.beginLoad(this.sourceName);
+      this.processSource(preview.source, performance.now());
+    }
+  }
+
+  onImportCancelled(): void {
+    this.importPreview = null;
+  }
+
+  /**
+   * Parses a local file with its saved import settings. The parser worker
+   * streams the file itself, so reading and parsing share the progress bar.
+   */
+  private importLocalFile(file: File, handle: FileSystemFileHandle | null = null): void {
+    this.beginLoad(file.name);
+    this.currentFile = file;
+    this.fileHandle = handle;
+    this.recentFilesService.add(file);
+    
+    this.processSource(file, performance.now());
+  }
+
+  /**
+   * Stops the current download or parse job
+   */
+  cancelLoad(): void {
+    if (!this.loading) return;
+    
+    this.loadSubscription?.unsubscribe();
+    this.loadSubscription = null;
+    this.loading = false;
+    this.error = 'Loading cancelled';
+    this.cdr.detectChanges();
+  }
+
+  /**
+   * Reloads whichever source was loaded last (used by the retry button)
+   */
+  reloadSource(): void {
+    const handle = this.fileHandle;
+    if (handle) {
+      // Read the file again; the old snapshot is unreadable once it has changed
+      handle.getFile().then(
+        file => this.importLocalFile(file, handle),
+        err => {
+          this.error = `Unable to read ${handle.name}: ${err.message}`;
           this.cdr.detectChanges();
         }
-      });
-    };
-    
-    // Start processing chunks
-    processChunk();
+      );
+    } else if (this.currentFile) {
+      this.importLocalFile(this.currentFile);
+    } else {
+      this.loadCsvData();
+    }
   }
-  
-  parseTimestamp(ts: string | number): number {
-    if (ts === null || ts === undefined) return NaN;
+
+  /**
+   * Loads files next to the ones already shown, for comparison on the same
+   * time axis. Every readable file in a zip archive is added.
+   */
+  async addSessionFiles(files: File[]): Promise<void> {
+    let opened: File[];
+    try {
+      opened = await this.combineComtradePairs(files);
+    } catch (e: any) {
+      this.showMessage(e.message);
+      return;
+    }
     
-    // Check cache first
-    if (typeof ts === 'string' && this.timestampCache.has(ts)) {
-      return this.timestampCache.get(ts)!;
+    for (const file of opened) {
+      try {
+        const compression = compressionFromBytes(new Uint8Array(await file.slice(0, 4).arrayBuffer())) ||
+          compressionFromName(file.name);
+        if (compression === 'zip') {
+          const entries = (await listZipEntries(file)).filter(entry => isSupportedFileName(entry.name));
+          for (const entry of entries) {
+            await this.addSessionFile(file, entry.name, { format: 'zip', entry });
+          }
+        } else {
+          await this.addSessionFile(file, file.name, compression && { format: compression });
+        }
+      } catch (e: any) {
+        // Cancelled, or a new first file was opened
+        if (e instanceof EmptyError) break;
+        console.error('Unable to add file:', e);
+        this.showMessage(`Unable to add ${file.name}: ${e.message}`);
+      }
     }
     
-    try {
-      // Already a number
-      if (typeof ts === 'number') return ts;
+    this.sessionStatus = null;
+    this.cdr.detectChanges();
+  }
+
+  onSessionFilesSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    if (input.files) {
+      this.addSessionFiles(Array.from(input.files));
+    }
+    input.value = '';
+  }
+
+  cancelSessionLoad(): void {
+    this.sessionCancel$.next();
+  }
+
+  /**
+   * Reads one file into a store of its own and adds it to the session. The
+   * channels already selected are selected in the new file too.
+   */
+  private async addSessionFile(source: Blob, name: string, compression: Compression | null): Promise<void> {
+    const settings = this.importSettings.get(name);
+    const selected = this.selectedChannels.map(id => this.session.resolve(id)?.channel);
+    const format = await this.innerFormat(source, name, compression);
+    const store = new TimeSeriesStore();
+    let file: SessionFile;
+    
+    this.sessionStatus = `Adding ${name}…`;
+    this.cdr.detectChanges();
+    
+    if (format) {
+      const blob = compression ? await this.decompressColumnar(source, compression) : source;
+      const event = await this.sessionJob(
+        this.columnarReader.import(blob, format, settings.timestamps, selected.filter((ch): ch is string => !!ch)),
+        name
+      );
+      if (event.type !== 'imported') return;
       
-      let timestamp: number;
+      const { data } = event;
+      store.load(data.timestamps, data.channels, data.timeOrigin);
+      file = this.changeSession(() => this.session.add(
+        name, store, data.columns, data.triggerTime,
+        { blob, format: data.format, rowOrder: data.rowOrder }
+      ));
+    } else {
+      const event = await this.sessionJob(
+        this.csvParser.parse(source, settings.timestamps, settings.dialect || null, compression),
+        name
+      );
+      if (event.type !== 'result') return;
       
-      // Handle your specific format: DD-MM-YYYY HH:MM:SS:MMM.SSSSSS
-      if (ts.includes('-') && ts.includes(':')) {
-        const [datePart, timePart] = ts.split(' ');
-        
-        // Parse date as DD-MM-YYYY
-        const [day, month, year] = datePart.split('-').map(Number);
-        
-        // Handle the complex time format
-        const timeSegments = timePart.split(':');
-        const hours = parseInt(timeSegments[0], 10);
-        const minutes = parseInt(timeSegments[1], 10);
-        const seconds = parseInt(timeSegments[2], 10);
-        
-        // Handle milliseconds.microseconds
-        let milliseconds = 0;
-        if (timeSegments.length > 3 && timeSegments[3].includes('.')) {
-          const [millis, micros] = timeSegments[3].split('.');
-          milliseconds = parseInt(millis, 10);
-        } else if (timeSegments.length > 3) {
-          milliseconds = parseInt(timeSegments[3], 10);
+      const { data } = event;
+      store.load(data.timestamps, this.csvChannels(data), data.timeOrigin);
+      file = this.changeSession(() => this.session.add(name, store, data.columns, null));
+    }
+    
+    const matching = file.columns.filter(ch => selected.includes(ch) && store.hasChannel(ch));
+    const shown = matching.length ? matching : file.columns.filter(ch => store.hasChannel(ch)).slice(0, 1);
+    this.selectedChannels.push(...shown.map(ch => this.session.idOf(file, ch)));
+    this.dataChanged$.next(true);
+  }
+
+  /**
+   * Runs a worker job for a file being added, showing its progress. Rejects
+   * with EmptyError when cancelled.
+   */
+  private sessionJob<E extends { type: string }>(events: Observable<E>, name: string): Promise<E> {
+    return firstValueFrom(events.pipe(
+      tap(event => {
+        if (event.type === 'progress') {
+          this.sessionStatus = `Adding ${name}… ${Math.round((event as any).fraction * 100)}%`;
+          this.cdr.detectChanges();
         }
-        
-        timestamp = new Date(year, month - 1, day, hours, minutes, seconds, milliseconds).getTime();
-      } else if (ts.includes('T') || ts.includes('Z')) {
-        // ISO format
-        timestamp = new Date(ts).getTime();
-      } else {
-        // Try as a regular date string
-        timestamp = new Date(ts).getTime();
+      }),
+      filter(event => event.type !== 'progress'),
+      takeUntil(merge(this.sessionCancel$, this.destroy$))
+    ));
+  }
+
+  /**
+   * Changes the files in the session. Channel ids gain or lose their file
+   * prefix as the session grows past or shrinks to one file, so the
+   * selection is carried over by file and channel.
+   */
+  private changeSession<T>(change: () => T): T {
+    const resolve = (ids: string[]) => ids.map(id => this.session.resolve(id));
+    const selected = resolve(this.selectedChannels);
+    const paneChannels = this.panes.map(pane => resolve(pane.channels));
+    const cursorChannels = this.cursorNames.map(name => this.cursors[name]?.channel);
+    const result = change();
+    
+    const ids = (resolved: ReturnType<typeof resolve>) => resolved
+      .filter(r => r && this.session.files.includes(r.file))
+      .map(r => this.session.idOf(r!.file, r!.channel));
+    this.selectedChannels = ids(selected);
+    this.panes.forEach((pane, i) => pane.channels = ids(paneChannels[i]));
+    this.cursorNames.forEach((name, i) => {
+      const cursor = this.cursors[name];
+      const [channel] = ids(cursorChannels[i] ? resolve([cursorChannels[i]!]) : []);
+      this.cursors[name] = cursor && channel ? { ...cursor, channel } : null;
+    });
+    this.columns = this.session.channelIds();
+    this.refreshCursors();
+    this.updateSessionSummary();
+    return result;
+  }
+
+  private updateSessionSummary(): void {
+    this.timeRange = this.session.timeRange;
+    this.totalPoints = this.session.totalPoints;
+    this.dataMemoryBytes = this.session.memoryUsage();
+  }
+
+  get sessionFiles(): SessionFile[] {
+    return this.session.files;
+  }
+
+  removeSessionFile(file: SessionFile): void {
+    this.changeSession(() => this.session.remove(file));
+    this.dataChanged$.next(true);
+  }
+
+  setFileOffset(file: SessionFile, offset: number): void {
+    this.session.setOffset(file, offset);
+    this.onSessionAligned();
+  }
+
+  alignSessionStarts(): void {
+    this.session.alignStarts();
+    this.onSessionAligned();
+  }
+
+  /**
+   * Lines the files up on the trigger event: a level crossing of the chosen
+   * channel, or the trigger recorded in the file
+   */
+  alignSessionTriggers(): void {
+    const unaligned = this.session.alignTriggers(this.sessionTrigger);
+    if (unaligned.length) {
+      this.showMessage(`No trigger event in ${unaligned.map(file => file.label).join(', ')}`);
+    }
+    this.onSessionAligned();
+  }
+
+  private onSessionAligned(): void {
+    // Derived channels read other files at their new times
+    this.session.refreshChannels();
+    this.updateSessionSummary();
+    // Cursors stay on their samples, which have moved
+    this.refreshCursors();
+    // The x-axis range changes, so the chart is rebuilt rather than re-queried
+    this.updateChartData();
+    this.cdr.detectChanges();
+  }
+
+  /**
+   * Replaces the loaded data with samples streamed from a WebSocket server
+   */
+  connectLive(url: string): void {
+    url = url.trim();
+    if (!url) return;
+    
+    this.beginLoad(url);
+    this.loading = false;
+    this.currentFile = null;
+    this.fileHandle = null;
+    this.sourceBlob = null;
+    this.timingReport = '';
+    this.followLatest = true;
+    // The chart is rebuilt once the first samples arrive
+    this.loadComplete = false;
+    this.chartInstance = null;
+    
+    this.live.start(new WebSocketDataSource(url));
+  }
+  
+  /**
+   * Closes the stream; the samples received so far stay on screen
+   */
+  disconnectLive(): void {
+    this.live.stop();
+  }
+  
+  toggleLivePause(): void {
+    if (this.live.paused) {
+      this.live.resume();
+    } else {
+      this.live.pause();
+    }
+  }
+  
+  setFollowLatest(follow: boolean): void {
+    this.followLatest = follow;
+    this.updateLiveChart();
+  }
+  
+  setLiveWindow(windowMs: number): void {
+    this.liveWindowMs = windowMs;
+    this.followLatest = true;
+    this.updateLiveChart();
+  }
+  
+  get liveActive(): boolean {
+    return this.live.active;
+  }
+  
+  get livePaused(): boolean {
+    return this.live.paused;
+  }
+  
+  /**
+   * Connection state and buffer fill for the status panel
+   */
+  get liveSummary(): string {
+    const parts: string[] = [this.liveStatus, `${this.live.bufferedSamples.toLocaleString()} samples buffered`];
+    if (this.live.droppedSamples) {
+      parts.push(`${this.live.droppedSamples.toLocaleString()} out of order dropped`);
+    }
+    if (this.live.paused) parts.push('paused');
+    return parts.join(', ');
+  }
+  
+  /**
+   * Called after the live stream has copied new samples into the store
+   */
+  private onLiveCommit(): void {
+    // The store also holds the filtered and derived channels computed from
+    // the streamed ones
+    const names = this.live.channelNames;
+    const known = this.session.primary?.columns ?? [];
+    const channelsChanged = names.length !== known.length || names.some((name, i) => name !== known[i]);
+    this.session.refreshChannels(true);
+    
+    this.timeRange = this.store.timeRange;
+    this.totalPoints = this.store.length * names.length;
+    this.dataMemoryBytes = this.store.memoryUsage();
+    
+    // Old samples drop out as the buffers wrap, which shifts row indexes;
+    // cursors on samples that dropped out go with them
+    for (const name of this.cursorNames) {
+      const cursor = this.cursors[name];
+      const store = cursor && this.session.resolve(cursor.channel)?.file.store;
+      if (!cursor) continue;
+      const range = store?.length ? store.timeRange : null;
+      this.cursors[name] = store && range && cursor.time >= range[0] && cursor.time <= range[1]
+        ? snapCursor(cursor.channel, store, cursor.time)
+        : null;
+    }
+    
+    if (channelsChanged || !this.loadComplete) {
+      this.session.updatePrimary({ columns: names });
+      this.columns = this.session.channelIds();
+      this.selectedChannels = this.selectedChannels.filter(ch => this.columns.includes(ch));
+      if (!this.selectedChannels.length && this.columns.length) {
+        this.selectedChannels = this.columns.slice(0, Math.min(2, this.columns.length));
       }
-      
-      // Store in cache
-      if (!isNaN(timestamp) && typeof ts === 'string') {
-        this.timestampCache.set(ts, timestamp);
+      this.loadComplete = true;
+      this.updateChartData();
+    } else {
+      this.updateLiveChart();
+    }
+    this.cdr.detectChanges();
+  }
+  
+  /**
+   * Redraws the chart after samples were added by the live stream or a
+   * followed file, keeping the zoom window on the latest samples when
+   * following and where the user left it otherwise
+   */
+  private updateLiveChart(): void {
+    if (!this.growing || !this.chartInstance || !this.selectedChannels.length || this.store.length === 0) return;
+    
+    const [startTime, endTime] = this.followLatest ? this.followWindow() : this.getZoomWindow();
+    const data = this.queryVisibleSeries(startTime, endTime);
+    const axis = { min: this.timeRange[0], max: this.timeRange[1] };
+    const zoom = { startValue: startTime, endValue: endTime };
+    
+    // setOption doesn't fire datazoom, so this doesn't stop following
+    this.chartInstance.setOption({
+      xAxis: Array.from({ length: this.chartGridCount }, () => axis),
+      dataZoom: [zoom, zoom],
+      series: this.selectedChannels.map((ch, i) => ({ name: ch, data: data[i] }))
+    }, { lazyUpdate: true });
+    if (this.showSpectrogram) {
+      this.spectrogramRequests.next();
+    }
+  }
+  
+  // Samples are being added by the live stream or a followed file
+  private get growing(): boolean {
+    return this.live.active || this.fileFollow.active;
+  }
+  
+  /**
+   * The rolling window ending at the newest sample
+   */
+  private followWindow(): [number, number] {
+    const end = this.timeRange[1];
+    return [Math.max(this.timeRange[0], end - this.liveWindowMs), end];
+  }
+  
+  private stopFollowing(): void {
+    if (this.growing && this.followLatest) {
+      this.followLatest = false;
+      this.cdr.detectChanges();
+    }
+  }
+  
+  /**
+   * A file can be followed when it was loaded over HTTP or opened with a
+   * File System Access handle
+   */
+  get canFollowFile(): boolean {
+    return this.loadComplete && !this.loading && !this.live.active && !this.columnarSource &&
+      !this.compressedSource && (!this.currentFile || !!this.fileHandle);
+  }
+  
+  // Parquet and Arrow files have no CSV import settings
+  get isColumnarSource(): boolean {
+    return !!this.columnarSource;
+  }
+  
+  get followingFile(): boolean {
+    return this.fileFollow.active;
+  }
+  
+  /**
+   * Starts or stops polling the loaded file for appended rows. The zoom
+   * window and delta selection are left as they are.
+   */
+  async setFollowFile(follow: boolean): Promise<void> {
+    this.followFile = follow;
+    if (!follow) {
+      this.fileFollow.stop();
+      return;
+    }
+    
+    const loaded = this.currentFile || this.sourceBlob;
+    if (!loaded || !this.parsedDialect || !this.canFollowFile) {
+      this.followFile = false;
+      return;
+    }
+    
+    const source = this.fileHandle
+      ? new FileHandleTailSource(this.fileHandle)
+      : new HttpRangeTailSource(this.http, this.csvFilePath);
+    this.followLatest = false;
+    await this.fileFollow.start(source, loaded, this.columns, this.parsedDialect, this.timestampOptions);
+  }
+  
+  /**
+   * Rows appended and problems while following a file, for the status panel
+   */
+  get followSummary(): string {
+    const parts = [`${this.fileFollow.appendedRows.toLocaleString()} rows appended`];
+    if (this.fileFollow.skippedRows) {
+      parts.push(`${this.fileFollow.skippedRows.toLocaleString()} skipped`);
+    }
+    if (this.fileFollow.error) parts.push(this.fileFollow.error);
+    return parts.join(', ');
+  }
+  
+  get triggerLabel(): string {
+    return this.triggerTime === null ? '' : formatTimestamp(this.triggerTime, 0, this.timestampOptions.timeZone);
+  }
+  
+  /**
+   * Called after a followed file grew; row indexes are unchanged, so the
+   * delta selection stays valid
+   */
+  private onRowsAppended(): void {
+    this.session.refreshChannels();
+    this.timeRange = this.session.timeRange;
+    this.totalPoints = this.session.totalPoints;
+    this.dataMemoryBytes = this.session.memoryUsage();
+    this.updateLiveChart();
+    this.cdr.detectChanges();
+  }
+
+  /**
+   * Applies a new timestamp format or time zone to the current source and
+   * re-parses it
+   */
+  setTimestampOptions(changes: Partial<TimestampOptions>): void {
+    this.timestampOptions = { ...this.timestampOptions, ...changes };
+    
+    // A custom pattern is applied once the user has typed one
+    if (this.timestampOptions.formatId === 'custom' && !this.timestampOptions.pattern) return;
+    
+    this.importSettings.set(this.sourceName, {
+      ...this.importSettings.get(this.sourceName),
+      timestamps: this.timestampOptions
+    });
+    this.reloadSource();
+  }
+
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    if (input.files) {
+      this.loadLocalFiles(Array.from(input.files));
+    }
+    
+    // Reset so picking the same file again still fires a change event
+    input.value = '';
+  }
+
+  openRecentFile(entry: RecentFile, picker: HTMLInputElement): void {
+    const file = this.recentFilesService.getFile(entry.id);
+    if (file) {
+      this.loadLocalFile(file);
+    } else {
+      // Files from earlier sessions have to be picked again
+      this.showMessage(`Select ${entry.name} again to reopen it`);
+      this.openFile(picker);
+    }
+  }
+
+  isRecentFileAvailable(entry: RecentFile): boolean {
+    return !!this.recentFilesService.getFile(entry.id);
+  }
+
+  removeRecentFile(entry: RecentFile, event: MouseEvent): void {
+    event.stopPropagation();
+    this.recentFilesService.remove(entry.id);
+  }
+
+  onDragEnter(event: DragEvent): void {
+    if (!this.hasDraggedFiles(event)) return;
+    event.preventDefault();
+    this.dragDepth++;
+    this.dragActive = true;
+  }
+
+  onDragOver(event: DragEvent): void {
+    if (!this.hasDraggedFiles(event)) return;
+    event.preventDefault();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = 'copy';
+    }
+  }
+
+  onDragLeave(event: DragEvent): void {
+    if (!this.hasDraggedFiles(event)) return;
+    this.dragDepth = Math.max(0, this.dragDepth - 1);
+    this.dragActive = this.dragDepth > 0;
+  }
+
+  onDrop(event: DragEvent): void {
+    if (!this.hasDraggedFiles(event)) return;
+    event.preventDefault();
+    this.dragDepth = 0;
+    this.dragActive = false;
+    
+    this.loadLocalFiles(Array.from(event.dataTransfer!.files));
+  }
+
+  private hasDraggedFiles(event: DragEvent): boolean {
+    return !!event.dataTransfer && Array.from(event.dataTransfer.types).includes('Files');
+  }
+
+  private beginLoad(sourceName: string): void {
+    this.live.stop();
+    this.fileFollow.stop();
+    this.followFile = false;
+    this.loading = true;
+    this.error = null;
+    this.progress = 0;
+    this.sourceName = sourceName;
+    this.timestampOptions = this.importSettings.get(sourceName).timestamps;
+    this.clearCursors();
+    this.statsInterval = null;
+    this.rangeStats = [];
+    this.spectrogram = null;
+    this.spectrogramLayer?.setSpectrogram(null, this.spectrogramColorMap, 0, 0);
+    this.loadSubscription?.unsubscribe();
+    this.loadSubscription = null;
+    this.columnarSource = null;
+    this.compressedSource = null;
+    this.archiveChoice = null;
+    this.triggerTime = null;
+    this.clearCaches();
+    // A new first file starts a new session
+    this.sessionCancel$.next();
+    this.session.reset(sourceName);
+  }
+
+  /**
+   * Reads Parquet and Arrow files with the columnar reader and anything else
+   * as CSV. The first bytes decide, then the file name. CSV is decompressed
+   * while it is parsed; columnar files are decompressed first.
+   */
+  async processSource(source: Blob, startTime: number, progressOffset = 0): Promise<void> {
+    let format: ColumnarFormat | null;
+    let compression: Compression | null | undefined;
+    try {
+      compression = await this.sourceCompression(source, this.sourceName, this.currentFile, this.fileHandle);
+      if (compression === undefined) {
+        // Continues once a member has been picked
+        this.loading = false;
+        this.cdr.detectChanges();
+        return;
+      }
+      format = await this.innerFormat(source, this.sourceName, compression);
+      this.compressedSource = compression && { blob: source, compression };
+      if (format && compression) {
+        source = await this.decompressColumnar(source, compression);
+      }
+    } catch (e: any) {
+      this.error = `Unable to read ${this.sourceName}: ${e.message}`;
+      this.loading = false;
+      this.cdr.detectChanges();
+      return;
+    }
+    
+    if (format) {
+      this.processColumnar(source, format, startTime, progressOffset);
+    } else {
+      this.processCSV(source, startTime, progressOffset, compression);
+    }
+  }
+
+  /**
+   * Parses the CSV in the background worker. `progressOffset` is the share of
+   * the progress bar already used by the download (0 for local files).
+   */
+  processCSV(source: Blob, startTime: number, progressOffset = 0, compression: Compression | null = null): void {
+    if (!source.size) {
+      this.error = 'CSV file is empty';
+      this.loading = false;
+      this.cdr.detectChanges();
+      return;
+    }
+    
+    this.sourceBlob = source;
+    const dialect = this.importSettings.get(this.sourceName).dialect || null;
+    
+    this.loadSubscription = this.csvParser.parse(source, this.timestampOptions, dialect, compression).subscribe({
+      next: (event) => {
+        if (event.type === 'progress') {
+          // Parsing takes most of the time; building the columns is the last 10%
+          const fraction = event.phase === 'parse' ? event.fraction * 0.9 : 0.9 + event.fraction * 0.1;
+          this.progress = progressOffset + Math.round(fraction * (100 - progressOffset));
+          this.cdr.detectChanges();
+        } else {
+          this.applyParsedData(event.data, startTime);
+        }
+      },
+      error: (err) => {
+        console.error('CSV parse error:', err);
+        this.error = `Parse error: ${err.message}`;
+        this.loading = false;
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  private applyParsedData(data: ParsedCsv, startTime: number): void {
+    this.store.load(data.timestamps, this.csvChannels(data), data.timeOrigin);
+    this.parsedDialect = data.dialect;
+    this.showLoadedData(data.columns, data.rowCount, data.timeRange, data.report);
+    
+    const endTime = performance.now();
+    this.timingReport = `CSV loaded in ${((endTime - startTime) / 1000).toFixed(2)}s`;
+    console.log(`CSV processing complete. ${data.rowCount} rows, ${data.report.skippedRowCount} skipped, time column ${data.timeColumn}.`);
+  }
+
+  private csvChannels(data: ParsedCsv): ChannelColumn[] {
+    return data.columns.map((name, i) => ({
+      name,
+      values: data.values[i],
+      nullMask: data.nullMasks[i],
+      nullCount: data.nullCounts[i],
+      unit: data.units[i]
+    }));
+  }
+
+  /**
+   * Reads a Parquet or Arrow file in the background worker. Only the time
+   * column and the selected channels are decoded up front.
+   */
+  private processColumnar(source: Blob, format: ColumnarFormat, startTime: number, progressOffset: number): void {
+    this.sourceBlob = source;
+    
+    this.loadSubscription = this.columnarReader.import(source, format, this.timestampOptions, this.selectedChannels).subscribe({
+      next: (event) => {
+        if (event.type === 'progress') {
+          this.progress = progressOffset + Math.round(event.fraction * (100 - progressOffset));
+          this.cdr.detectChanges();
+        } else if (event.type === 'imported') {
+          this.applyColumnarData(event.data, source, startTime);
+        }
+      },
+      error: (err) => {
+        console.error('Columnar read error:', err);
+        this.error = `Read error: ${err.message}`;
+        this.loading = false;
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  private applyColumnarData(data: ColumnarImport, source: Blob, startTime: number): void {
+    this.store.load(data.timestamps, data.channels, data.timeOrigin);
+    this.columnarSource = { blob: source, format: data.format, rowOrder: data.rowOrder };
+    this.triggerTime = data.triggerTime;
+    this.session.updatePrimary({ triggerTime: data.triggerTime, columnar: this.columnarSource });
+    // The tail parser only understands CSV
+    this.parsedDialect = null;
+    
+    // Keep the selections the worker decoded, else show what it picked
+    this.selectedChannels = this.selectedChannels.filter(ch => this.store.hasChannel(ch));
+    if (!this.selectedChannels.length) {
+      this.selectedChannels = data.channels.map(channel => channel.name);
+    }
+    this.showLoadedData(data.columns, data.rowCount, data.timeRange, data.report);
+    
+    const endTime = performance.now();
+    const label = COLUMNAR_FORMAT_LABELS[data.format];
+    this.timingReport = `${label} loaded in ${((endTime - startTime) / 1000).toFixed(2)}s`;
+    console.log(`${label} read complete. ${data.rowCount} rows, ${data.channels.length} of ${data.columns.length} channels decoded, time column ${data.timeColumn}.`);
+  }
+
+  /**
+   * Shows a freshly loaded store: channel list, selection, summary and chart
+   */
+  private showLoadedData(columns: string[], rowCount: number, timeRange: [number, number], report: ImportReport): void {
+    this.dataMemoryBytes = this.store.memoryUsage();
+    this.session.updatePrimary({ columns });
+    this.columns = columns;
+    
+    // Drop selections that don't exist in the newly loaded file
+    this.selectedChannels = this.selectedChannels.filter(ch => this.columns.includes(ch));
+    
+    // Auto-select first two channels if none are selected
+    if (!this.selectedChannels.length && this.columns.length) {
+      this.selectedChannels = this.columns.slice(0, Math.min(2, this.columns.length));
+    }
+    
+    this.totalPoints = rowCount * this.columns.length;
+    this.timeRange = timeRange;
+    this.importReport = report;
+    this.loading = false;
+    this.loadComplete = true;
+    
+    // Update chart after data is loaded
+    this.dataChanged$.next(true);
+  }
+
+  /**
+   * Decodes selected channels of Parquet or Arrow files that haven't been
+   * read yet, then redraws
+   */
+  private loadMissingChannels(): void {
+    // Filtered and derived channels are computed from recorded ones
+    const sources = this.selectedChannels
+      .map(id => this.session.resolve(id))
+      .flatMap(resolved => resolved ? this.session.recordedSources(resolved.file, resolved.channel) : []);
+    for (const file of this.session.files) {
+      const source = file.columnar;
+      const missing = [...new Set(sources
+        .filter(s => s.file === file)
+        .map(s => s.channel)
+        .filter(channel => !file.store.hasChannel(channel)))];
+      if (source && missing.length) {
+        this.readMissingChannels(file, source, missing);
+      }
+    }
+  }
+  
+  private readMissingChannels(file: SessionFile, source: NonNullable<SessionFile['columnar']>, missing: string[]): void {
+    this.columnarReader.readChannels(source.blob, source.format, missing, source.rowOrder)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (channels) => {
+          // Another file was loaded, or this one removed, while these were decoding
+          if (file.columnar !== source || !this.session.files.includes(file)) return;
+          
+          for (const channel of channels) {
+            file.store.addChannel(channel);
+          }
+          this.session.refreshChannels();
+          this.dataMemoryBytes = this.session.memoryUsage();
+          this.dataChanged$.next(true);
+        },
+        error: (err) => {
+          console.error('Columnar read error:', err);
+          this.error = `Unable to read ${missing.join(', ')}: ${err.message}`;
+          this.cdr.detectChanges();
+        }
+      });
+  }
+  
+  // Helper method to find the original row for a timestamp
+  findRawDataIndex(channelName: string, timestamp: number): number {
+    const store = this.session.resolve(channelName)?.file.store;
+    const rowIndex = store ? store.nearestIndex(timestamp) : -1;
+    
+    // Compare parsed timestamps
+    if (rowIndex >= 0 && Math.abs(store!.getTime(rowIndex) - timestamp) < 1) { // Within 1ms
+      return rowIndex;
+    }
+    
+    return -1;
+  }
+    
+  isChannelSelected(ch: string): boolean {
+    return this.selectedChannels.includes(ch);
+  }
+  
+  toggleChannel(ch: string): void {
+    const idx = this.selectedChannels.indexOf(ch);
+    if (idx === -1) {
+      this.selectedChannels.push(ch);
+      this.loadMissingChannels();
+    } else {
+      this.selectedChannels.splice(idx, 1);
+    }
+    
+    this.dataChanged$.next(true);
+  }
+  
+  /**
+   * Re-queries the visible window of every selected channel, reduced to
+   * about two points per pixel. Called on zoom, pan and resize.
+   */
+  refreshLevelOfDetail(): void {
+    if (!this.chartInstance || !this.selectedChannels.length || this.store.length === 0) return;
+    
+    const [startTime, endTime] = this.getZoomWindow();
+    const data = this.queryVisibleSeries(startTime, endTime);
+    if (this.showSpectrum) {
+      this.spectrumWindow = [startTime, endTime];
+    }
+    if (this.showSpectrogram) {
+      this.spectrogramRequests.next();
+    }
+    
+    this.chartInstance.setOption({
+      series: this.selectedChannels.map((ch, i) => ({ name: ch, data: data[i] }))
+    }, { lazyUpdate: true });
+    
+    this.cdr.detectChanges();
+  }
+  
+  /**
+   * One-line summary of the import report for the status panel
+   */
+  get importSummary(): string {
+    const report = this.importReport;
+    if (!report) return '';
+    
+    const issues: string[] = [];
+    if (report.skippedRowCount) issues.push(`${report.skippedRowCount.toLocaleString()} skipped rows`);
+    const nonNumeric = report.channels.reduce((sum, c) => sum + c.nonNumericCount, 0);
+    if (nonNumeric) issues.push(`${nonNumeric.toLocaleString()} non-numeric cells`);
+    if (report.duplicateTimestamps.count) issues.push(`${report.duplicateTimestamps.count.toLocaleString()} duplicate timestamps`);
+    if (report.outOfOrderTimestamps.count) issues.push(`${report.outOfOrderTimestamps.count.toLocaleString()} out of order`);
+    if (report.gapCount) issues.push(`${report.gapCount.toLocaleString()} gaps`);
+    
+    return issues.length ? issues.join(', ') : 'No issues';
+  }
+  
+  /**
+   * Re-detects gaps with a new threshold (ms) and updates the shaded bands
+   */
+  setGapThreshold(threshold: number): void {
+    if (!this.importReport) return;
+    
+    this.importReport = {
+      ...this.importReport,
+      ...analyzeTiming(this.store.getTimes(), this.store.timeOrigin, threshold)
+    };
+    this.updateGapBands();
+  }
+  
+  setShowGapBands(show: boolean): void {
+    this.showGapBands = show;
+    this.updateGapBands();
+  }
+  
+  zoomToRange([start, end]: [number, number]): void {
+    if (!this.chartInstance) return;
+    
+    // Leave some context either side
+    const margin = (end - start) * 0.5;
+    this.chartInstance.dispatchAction({ type: 'dataZoom', startValue: start - margin, endValue: end + margin });
+    this.showImportReport = false;
+  }
+  
+  /**
+   * Shaded markArea bands for the gaps in the time column, plus the triggers
+   * of recordings as zero-width bands drawn by their border
+   */
+  private timeMarkArea(): any {
+    const gaps = this.showGapBands && this.importReport ? this.importReport.gaps : [];
+    const data: any[] = gaps.map(gap => [{ xAxis: gap.start }, { xAxis: gap.end }]);
+    
+    for (const trigger of this.session.triggerTimes()) {
+      data.push([{
+        xAxis: trigger,
+        name: 'Trigger',
+        itemStyle: { color: 'transparent', borderColor: '#8e44ad', borderWidth: 1, borderType: 'dashed' },
+        label: { show: true, position: 'insideTopLeft', color: '#8e44ad', fontSize: 10 }
+      }, { xAxis: trigger }]);
+    }
+    
+    return {
+      silent: true,
+      itemStyle: { color: 'rgba(231, 76, 60, 0.12)' },
+      data
+    };
+  }
+  
+  private updateGapBands(): void {
+    if (!this.chartInstance || !this.selectedChannels.length) return;
+    
+    const markArea = this.timeMarkArea();
+    this.chartInstance.setOption({
+      series: this.selectedChannels.map(ch => ({ name: ch, markArea: this.leadsGrid(ch) ? markArea : undefined }))
+    });
+  }
+  
+  setDecimationMode(mode: DecimationMode): void {
+    this.lod.mode = mode;
+    this.refreshLevelOfDetail();
+  }
+  
+  get decimationMode(): DecimationMode {
+    return this.lod.mode;
+  }
+  
+  private queryVisibleSeries(startTime: number, endTime: number): Float64Array[] {
+    const pixelWidth = this.getGridPixelWidth();
+    let visible = 0;
+    let rendered = 0;
+    let raw = true;
+    
+    const data = this.selectedChannels.map(ch => {
+      const resolved = this.session.resolve(ch);
+      if (!resolved) return new Float64Array(0);
+      const result = this.lod.query(resolved.channel, startTime, endTime, pixelWidth, resolved.file.store);
+      const stats = this.normalization === 'none' ? null : this.channelStatsOf(ch);
+      if (stats) normalizeSeries(result.data, stats, this.normalization);
+      visible += result.visibleCount;
+      rendered += result.renderedCount;
+      raw = raw && result.raw;
+      return result.data;
+    });
+    
+    this.visiblePoints = visible;
+    this.renderedPoints = rendered;
+    this.renderingRaw = raw;
+    this.visibleSpan = endTime - startTime;
+    return data;
+  }
+  
+  /**
+   * Time window currently shown by the x-axis dataZoom
+   */
+  private getZoomWindow(): [number, number] {
+    const zoom = this.chartInstance?.getOption()?.dataZoom?.[0];
+    const start = zoom && zoom.startValue !== undefined ? zoom.startValue : this.timeRange[0];
+    const end = zoom && zoom.endValue !== undefined ? zoom.endValue : this.timeRange[1];
+    return [start, end];
+  }
+  
+  private getGridPixelWidth(): number {
+    const width = this.chartInstance ? this.chartInstance.getWidth() : window.innerWidth - 40;
+    const [left, right] = this.gridMargins();
+    return Math.max(100, width - left - right);
+  }
+  
+  /**
+   * Left and right grid margins: 70px, plus room for every extra y-axis on
+   * that side. All grids share them so their time axes line up.
+   */
+  private gridMargins(): [number, number] {
+    const layout = this.chartLayout;
+    if (!layout) return [70, 70];
+    const extra = (side: 'left' | 'right') => Math.max(0, axesPerSide(layout, side) - 1) * AXIS_SPACING;
+    return [70 + extra('left'), 70 + extra('right')];
+  }
+  
+  updateChartData(zoomWindow?: [number, number]): void {
+    if (!this.loadComplete || !this.selectedChannels.length || this.store.length === 0) return;
+    
+    console.time('chartUpdate');
+    
+    this.createChart(zoomWindow);
+    this.updateCursorReadout();
+    
+    console.timeEnd('chartUpdate');
+    
+    // Force update of chart if instance exists
+    if (this.chartInstance) {
+      this.chartInstance.setOption(this.chartOption, {
+        notMerge: true,
+        lazyUpdate: true
+      });
+      
+      // Debug series mapping
+      this.verifyChannelData();
+      
+      if (this.showSpectrum) {
+        this.spectrumWindow = this.getZoomWindow();
+      }
+      if (this.showSpectrogram) {
+        this.spectrogramRequests.next();
+      }
+      
+      // Rebuilding the chart clears the brush
+      if (this.statsInterval) {
+        this.updateRangeStatistics();
+        this.showStatsInterval();
+      }
+
+      // Use throttled redraw
+      // this.throttledRedraw();
+    }
+  }
+  
+  checkRendererCapability(): void {
+  const canvas = document.createElement('canvas');
+  const gl = canvas.getContext('webgl') as WebGLRenderingContext | null || 
+            canvas.getContext('experimental-webgl') as WebGLRenderingContext | null;
+            
+  if (!gl) {
+    console.warn('WebGL not supported by this browser - falling back to standard Canvas renderer');
+    // Fall back to canvas renderer (this is already the default)
+    this.initOpts.renderer = 'canvas';
+    return;
+  }
+  
+  // Check for any WebGL limitations that might cause problems
+  const maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+  console.log('WebGL max texture size:', maxTextureSize);
+  
+  if (maxTextureSize < 4096) {
+    console.warn('WebGL texture size limited - might affect performance for large datasets');
+  }
+  
+  // Try to detect if running in a virtual environment
+  try {
+    const debugInfo = gl.getExtension('WEBGL_debug_renderer_info');
+    if (debugInfo) {
+      const vendor = gl.getParameter(debugInfo.UNMASKED_VENDOR_WEBGL);
+      const renderer = gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL);
+      console.log('GPU Vendor:', vendor);
+      console.log('GPU Renderer:', renderer);
+      
+      // Detect virtual environments or software renderers
+      const isVirtualGPU = renderer.toLowerCase().includes('llvmpipe') || 
+                          renderer.toLowerCase().includes('swiftshader') ||
+                          renderer.toLowerCase().includes('virtualbox') ||
+                          renderer.toLowerCase().includes('vmware');
+                          
+      if (isVirtualGPU) {
+        console.warn('Virtual GPU detected, performance may be limited');
+      }
+    }
+  } catch (e) {
+    console.warn('Unable to get detailed GPU info');
+  }
+  
+  // ECharts keeps the canvas renderer for axes and markers; lines go to the WebGL layer
+  this.initOpts.renderer = 'canvas';
+  
+  // Set flag to indicate we should use hardware acceleration optimizations
+  this.useHardwareAcceleration = true;
+  this.lineRenderer = 'webgl';
+  console.log('Hardware acceleration will be used with Canvas renderer');
+}
+
+
+  /**
+   * Builds the chart for the view mode: a grid per channel when stacked,
+   * one shared grid when overlaid, or a grid per pane
+   */
+  createChart(zoomWindow?: [number, number]): void {
+    const layout = this.buildChartLayout();
+    this.chartLayout = layout;
+    if (this.showSpectrogram && !this.selectedChannels.includes(this.spectrogramChannel)) {
+      this.spectrogramChannel = this.selectedChannels[0] || '';
+    }
+    const gridCount = layout.grids.length;
+    // The spectrogram pane is a grid of its own below the channels
+    const spectrogramGrid = this.showSpectrogram ? gridCount : -1;
+    const totalGrids = gridCount + (this.showSpectrogram ? 1 : 0);
+    // Stacked grids keep to a quarter of the height; shared grids fill the chart
+    const gridHeightPercentage = this.viewMode === 'stacked' ? Math.min(85 / totalGrids, 25) : 85 / totalGrids;
+    const [left, right] = this.gridMargins();
+    const normalized = this.normalization !== 'none';
+    
+    // Create grids with improved spacing
+    const grids = Array.from({ length: totalGrids }, (_, i) => ({
+      left,  // Room for the y-axis labels
+      right,
+      top: `${10 + i * gridHeightPercentage}%`,
+      height: `${gridHeightPercentage - 2}%`, // Reduce height slightly for better spacing
+      containLabel: true,
+      z: 50 + i
+    }));
+    
+    // X axes configuration with improved formatting
+    const xAxes = Array.from({ length: totalGrids }, (_, i) => ({
+      id: i === spectrogramGrid ? 'spectrogram' : undefined,
+      type: 'time',
+      gridIndex: i,
+      scale: true,
+      axisLabel: {
+        show: i === totalGrids - 1, // Only show on last grid
+        formatter: (value: number) => this.formatAxisTime(value, this.visibleSpan),
+        hideOverlap: true,
+        fontSize: 11,  // Smaller font size
+        margin: 12     // Increase margin
+      },
+      splitLine: {
+        show: true,
+        lineStyle: {
+          type: 'dashed',
+          opacity: 0.2
+        }
+      },
+      min: this.timeRange[0],
+      max: this.timeRange[1]
+    }));
+    
+    // Y axes: one per unit or magnitude in a grid, alternating sides. Range
+    // and scale come from the first channel on the axis; normalized values
+    // have their own.
+    const yAxes = layout.axes.map(axis => {
+      const display = this.displayOf(axis.channels[0]);
+      return {
+        type: !normalized && display.logScale ? 'log' : 'value',
+        min: normalized ? undefined : display.yMin ?? undefined,
+        max: normalized ? undefined : display.yMax ?? undefined,
+        gridIndex: axis.grid,
+        position: axis.side,
+        offset: axis.offset,
+        name: axisName(axis, this.normalization),
+        nameLocation: 'middle',
+        nameGap: 50,    // Increase gap for better readability
+        nameTextStyle: {
+          fontSize: 12,
+          fontWeight: 'bold',
+          align: 'right',
+          padding: [0, 0, 0, 10] // Add padding to the name
+        },
+        scale: true,
+        // Axes sharing a grid take the colour of their first channel
+        axisLine: {
+          show: layout.axes.filter(other => other.grid === axis.grid).length > 1,
+          lineStyle: { color: this.channelColor(axis.channels[0]) }
+        },
+        axisLabel: {
+          fontSize: 11,
+          formatter: (value: number) => {
+            // Format large numbers for better readability
+            if (Math.abs(value) >= 1000) {
+              return (value / 1000).toFixed(1) + 'k';
+            }
+            // Normalized scales are fractions; log scales span decades
+            if (normalized) return +value.toFixed(2) + '';
+            if (display.logScale) return String(+value.toPrecision(3));
+            return value.toFixed(value % 1 === 0 ? 0 : 1);
+          }
+        },
+        splitLine: {
+          // Split lines of the first axis only, so a grid has one set
+          show: axis === layout.axes.find(other => other.grid === axis.grid),
+          lineStyle: {
+            type: 'dashed',
+            opacity: 0.2
+          }
+        }
+      };
+    });
+    
+    if (this.showSpectrogram) {
+      yAxes.push(this.spectrogramAxis(spectrogramGrid) as any);
+    }
+    
+    // Series data is decimated to the grid width; datazoom re-queries it.
+    // A growing chart that follows the latest samples opens on its rolling window.
+    const [startTime, endTime] = zoomWindow ?? (this.growing && this.followLatest ? this.followWindow() : this.timeRange);
+    const seriesData = this.queryVisibleSeries(startTime, endTime);
+    
+    // Series configuration with improved styling
+    const series = this.selectedChannels.map((ch, i) => {
+      const display = this.displayOf(ch);
+      return {
+        name: ch,
+        type: 'line',
+        xAxisIndex: layout.placement[i].grid,
+        yAxisIndex: layout.placement[i].yAxis,
+        data: seriesData[i],
+        markArea: this.leadsGrid(ch) ? this.timeMarkArea() : undefined,
+        showSymbol: display.showSymbols, // Hidden unless asked for, for performance
+        symbolSize: 4,
+        // Step lines hold each value until the next sample
+        step: display.step ? 'end' : false,
+        animation: false,    // Disable animation for better performance
+        lineStyle: {
+          width: display.width,
+          type: display.dash,
+          color: this.channelColor(ch),
+          // The WebGL layer draws the line; ECharts still scales axes to the data
+          opacity: this.lineRenderer === 'webgl' ? 0 : 1,
+          join: 'bevel'
+        },
+        itemStyle: {
+          color: this.channelColor(ch), // Symbols and legend icon
+          borderWidth: 1.5
+        }
+      };
+    });
+    
+    // Pane names sit at the top left of their grids
+    const paneTitles = layout.grids
+      .map((grid, i) => ({
+        text: grid.name,
+        left: left + 8,
+        top: `${10 + i * gridHeightPercentage}%`,
+        textStyle: { fontSize: 12, fontWeight: 'bold', color: '#666' }
+      }))
+      .filter(title => title.text);
+    if (this.showSpectrogram) {
+      paneTitles.push({
+        text: `Spectrogram: ${this.spectrogramChannel}`,
+        left: left + 8,
+        top: `${10 + spectrogramGrid * gridHeightPercentage}%`,
+        textStyle: { fontSize: 12, fontWeight: 'bold', color: '#fff' }
+      });
+    }
+    
+    // Create the chart option with improved configuration
+    this.chartOption = {
+      title: [{
+        text: `Time Series Data Visualization (${this.totalPoints.toLocaleString()} points)`,
+        left: 'center',
+        top: 5,
+        textStyle: {
+          fontSize: 16,
+          fontWeight: 'bold'
+        }
+      }, ...paneTitles],
+      // Several channels share a grid outside the stacked view
+      legend: {
+        show: this.viewMode !== 'stacked',
+        type: 'scroll',
+        top: 30,
+        data: this.selectedChannels
+      },
+      tooltip: {
+        show: false, // Turn off ECharts built-in tooltip
+        triggerOn: 'none'
+      },
+      // Interval selection for statistics. No series are linked, so brushing
+      // doesn't restyle millions of points.
+      brush: {
+        xAxisIndex: 'all',
+        seriesIndex: [],
+        brushType: 'lineX',
+        brushMode: 'single',
+        brushStyle: { color: 'rgba(52, 152, 219, 0.12)', borderColor: 'rgba(52, 152, 219, 0.6)', borderWidth: 1 }
+      },
+      toolbox: {
+        feature: {
+          dataZoom: { 
+            yAxisIndex: 'none',
+            xAxisIndex: xAxes.map((_, i) => i),
+            icon: {
+              zoom: 'path://M0,13.5h26.9 M13.5,26.9V0 M32.1,13.5H58V58H13.5 V32.1',
+              back: 'path://M22,1.4L9.9,13.5l12.3,12.3 M10.3,13.5H54.9v44.6 H10.3v-26'
+            }
+          },
+          brush: {
+            type: ['lineX', 'clear'],
+            title: { lineX: 'Select an interval for statistics', clear: 'Clear interval' }
+          },
+          restore: {},
+          saveAsImage: {}
+        },
+        right: 10,
+        top: 10
+      },
+      dataZoom: [
+        {
+          type: 'slider',
+          xAxisIndex: xAxes.map((_, i) => i),
+          startValue: startTime,
+          endValue: endTime,
+          bottom: 10,
+          height: 25,
+          borderColor: '#ccc',
+          fillerColor: 'rgba(30,144,255,0.15)',
+          throttle: 30, // Lower throttle for more responsive zooming
+          handleIcon: 'path://M10.7,11.9v-1.3H9.3v1.3c-4.9,0.3-8.8,4.4-8.8,9.4c0,5,3.9,9.1,8.8,9.4v1.3h1.3v-1.3c4.9-0.3,8.8-4.4,8.8-9.4C19.5,16.3,15.6,12.2,10.7,11.9z M13.3,24.4H6.7V23h6.6V24.4z M13.3,19.6H6.7v-1.4h6.6V19.6z',
+          handleSize: '80%',
+          handleStyle: {
+            color: '#fff',
+            shadowBlur: 3,
+            shadowColor: 'rgba(0, 0, 0, 0.6)',
+            shadowOffsetX: 2,
+            shadowOffsetY: 2
+          }
+        },
+        {
+          type: 'inside',
+          xAxisIndex: xAxes.map((_, i) => i),
+          throttle: 30, // Lower throttle for more responsive zooming
+          zoomOnMouseWheel: true,
+          moveOnMouseMove: true
+        }
+      ],
+      grid: grids,
+      xAxis: xAxes,
+      yAxis: yAxes,
+      series: series
+    };
+  }
+
+  private channelUnit(id: string): string | undefined {
+    return this.displayOf(id).unit || this.recordedUnit(id);
+  }
+  
+  recordedUnit(id: string): string | undefined {
+    const resolved = this.session.resolve(id);
+    return resolved?.file.store.getChannel(resolved.channel)?.unit;
+  }
+  
+  /**
+   * Display settings of a channel, stored by channel name so the same
+   * channel looks the same in every file
+   */
+  displayOf(id: string): ChannelDisplaySettings {
+    return this.channelDisplay.get(this.session.resolve(id)?.channel ?? id);
+  }
+  
+  /**
+   * Colour set for a channel, else the palette colour of its position in the
+   * channel list, which selecting other channels doesn't change
+   */
+  channelColor(id: string): string {
+    return this.displayOf(id).color || this.defaultChannelColor(id);
+  }
+  
+  defaultChannelColor(id: string): string {
+    return this.getColorForChannel(Math.max(0, this.columns.indexOf(id)));
+  }
+  
+  openChannelSettings(id: string): void {
+    this.channelSettings = this.channelSettings?.id === id ? null : { id, settings: this.displayOf(id) };
+    this.filterSettings = null;
+  }
+  
+  openFilterSettings(id: string): void {
+    const resolved = this.session.resolve(id);
+    this.channelSettings = null;
+    this.filterSettings = resolved && this.filterSettings?.id !== id ? {
+      id,
+      stages: this.session.filterOf(id) ?? [],
+      sampleRate: 1000 / sampleInterval(resolved.file.store.getTimes())
+    } : null;
+  }
+  
+  hasFilter(id: string): boolean {
+    return !!this.session.filterOf(id);
+  }
+  
+  /**
+   * Filters a channel and shows the filtered channel next to it, keeping
+   * the zoom window
+   */
+  applyChannelFilter(id: string, stages: FilterStage[]): void {
+    let filteredId: string | null;
+    try {
+      filteredId = this.session.setFilter(id, stages);
+    } catch (e: any) {
+      this.showMessage(e.message);
+      return;
+    }
+    
+    this.filterSettings = this.filterSettings && { ...this.filterSettings, stages };
+    this.columns = this.session.channelIds();
+    if (filteredId && !this.selectedChannels.includes(filteredId)) {
+      this.selectedChannels.push(filteredId);
+      this.loadMissingChannels();
+    }
+    this.updateCursorReadout();
+    this.updateChartData(this.chartInstance ? this.getZoomWindow() : undefined);
+  }
+  
+  removeChannelFilter(id: string): void {
+    const resolved = this.session.resolve(id);
+    if (!resolved) return;
+    
+    const filteredId = this.session.idOf(resolved.file, filteredName(this.session.sourceChannel(resolved.file, resolved.channel)));
+    try {
+      this.session.setFilter(id, null);
+    } catch (e: any) {
+      this.showMessage(e.message);
+      return;
+    }
+    this.filterSettings = null;
+    this.dropChannels([filteredId]);
+  }
+  
+  /**
+   * Opens the derived channel dialog for a new channel, or for editing the
+   * derived channel `id`
+   */
+  openDerivedChannel(id: string | null = null): void {
+    const derived = id ? this.session.derivedOf(id) : null;
+    this.channelSettings = null;
+    this.filterSettings = null;
+    this.derivedDialog = {
+      id: derived ? id : null,
+      definition: derived && { name: derived.name, expression: this.session.derivedExpression(derived), unit: derived.unit }
+    };
+  }
+  
+  isDerived(id: string): boolean {
+    return !!this.session.derivedOf(id);
+  }
+  
+  /**
+   * Computes a derived channel and shows it, keeping the zoom window. An
+   * edited channel that was renamed or moved to another file keeps its
+   * place in the selection.
+   */
+  saveDerivedChannel(draft: DerivedChannelDraft): void {
+    const previous = this.derivedDialog?.id ?? null;
+    const resolved = previous ? this.session.resolve(previous) : null;
+    const previousFiltered = resolved && this.session.idOf(resolved.file, filteredName(resolved.channel));
+    let id: string;
+    try {
+      id = this.session.setDerived(draft.name, draft.expression, draft.unit, previous);
+    } catch (e: any) {
+      this.showMessage(e.message);
+      return;
+    }
+    
+    this.derivedDialog = null;
+    this.columns = this.session.channelIds();
+    if (previous && previous !== id) {
+      // Its filtered view went with the old name
+      const rename = (ids: string[]) => ids
+        .filter(ch => ch !== previousFiltered)
+        .map(ch => ch === previous ? id : ch);
+      this.selectedChannels = rename(this.selectedChannels);
+      this.panes.forEach(pane => pane.channels = rename(pane.channels));
+      // The channel may now be on another file's samples
+      for (const name of this.cursorNames) {
+        const channel = this.cursors[name]?.channel;
+        if (channel === previous || channel === previousFiltered) this.cursors[name] = null;
+      }
+    }
+    if (!this.selectedChannels.includes(id)) {
+      this.selectedChannels.push(id);
+    }
+    this.loadMissingChannels();
+    this.updateCursorReadout();
+    this.updateChartData(this.chartInstance ? this.getZoomWindow() : undefined);
+  }
+  
+  removeDerivedChannel(id: string): void {
+    const resolved = this.session.resolve(id);
+    if (!resolved) return;
+    
+    const filteredId = this.session.idOf(resolved.file, filteredName(resolved.channel));
+    try {
+      this.session.removeDerived(id);
+    } catch (e: any) {
+      this.showMessage(e.message);
+      return;
+    }
+    this.derivedDialog = null;
+    this.dropChannels([id, filteredId]);
+  }
+  
+  /**
+   * Takes channels that no longer exist off the chart, the panes and the
+   * cursors, keeping the zoom window
+   */
+  private dropChannels(ids: string[]): void {
+    this.columns = this.session.channelIds();
+    this.selectedChannels = this.selectedChannels.filter(ch => !ids.includes(ch));
+    this.panes.forEach(pane => pane.channels = pane.channels.filter(ch => !ids.includes(ch)));
+    for (const name of this.cursorNames) {
+      if (ids.includes(this.cursors[name]?.channel ?? '')) this.cursors[name] = null;
+    }
+    this.updateCursorReadout();
+    this.updateChartData(this.chartInstance ? this.getZoomWindow() : undefined);
+  }
+  
+  /**
+   * Stores and applies new display settings, keeping the zoom window
+   */
+  setChannelDisplay(id: string, settings: ChannelDisplaySettings): void {
+    this.channelDisplay.set(this.session.resolve(id)?.channel ?? id, settings);
+    this.channelSettings = { id, settings };
+    this.updateChartData(this.chartInstance ? this.getZoomWindow() : undefined);
+  }
+  
+  resetChannelDisplay(id: string): void {
+    this.setChannelDisplay(id, DEFAULT_CHANNEL_DISPLAY);
+  }
+  
+  private buildChartLayout(): ChartLayout {
+    // Statistics are only needed to group unitless channels or to normalize
+    const needStats = this.viewMode !== 'stacked' || this.normalization !== 'none';
+    const channels = this.selectedChannels.map(id => ({
+      id,
+      unit: this.channelUnit(id),
+      stats: needStats ? this.channelStatsOf(id) : null
+    }));
+    return buildLayout(channels, this.viewMode, this.panes, this.normalization);
+  }
+  
+  private channelStatsOf(id: string): ChannelStats | null {
+    const resolved = this.session.resolve(id);
+    const column = resolved?.file.store.getChannel(resolved.channel);
+    if (!column) return null;
+    
+    // Appends replace the column, so cached statistics never go stale
+    if (!this.statsCache.has(column)) {
+      this.statsCache.set(column, channelStats(column.values));
+    }
+    return this.statsCache.get(column)!;
+  }
+  
+  /**
+   * A channel value as drawn: normalized when the chart is
+   */
+  private plotValue(id: string, value: number): number {
+    const stats = this.normalization === 'none' ? null : this.channelStatsOf(id);
+    return stats ? normalizeValue(value, stats, this.normalization) : value;
+  }
+  
+  // Gap and trigger bands are drawn once per grid, by its first series
+  private leadsGrid(id: string): boolean {
+    return !!this.chartLayout?.grids.some(grid => grid.channels[0] === id);
+  }
+  
+  /**
+   * Sample under a pixel of the chart, mapped through the axes as they are
+   * currently zoomed
+   */
+  private pickAt(x: number, y: number): ChartPick | null {
+    const layout = this.chartLayout;
+    if (!layout || !this.chartInstance) return null;
+    
+    const grids: PickableChannel[][] = layout.grids.map(() => []);
+    this.selectedChannels.forEach((id, i) => {
+      const resolved = this.session.resolve(id);
+      const placement = layout.placement[i];
+      if (resolved && placement) {
+        grids[placement.grid].push({ id, store: resolved.file.store, column: resolved.channel, yAxis: placement.yAxis });
+      }
+    });
+    
+    return pickSample(this.pixelMapping(), grids, x, y);
+  }
+  
+  private pixelMapping(): ChartPixelMapping {
+    return {
+      gridRect: grid => this.gridRect(grid),
+      timeAt: (grid, x) => this.chartInstance.convertFromPixel({ xAxisIndex: grid }, x),
+      valueY: (id, yAxisIndex, value) => this.chartInstance.convertToPixel({ yAxisIndex }, this.plotValue(id, value))
+    };
+  }
+  
+  /**
+   * Moves the crosshair to a pixel and reads every selected channel at the
+   * time under it. Lookups are binary searches, so this keeps up on
+   * million-sample channels.
+   */
+  private updateHover(x: number, y: number): void {
+    const layout = this.chartLayout;
+    const mapping = this.chartInstance && layout ? this.pixelMapping() : null;
+    const grid = mapping ? gridAtPixel(mapping, this.chartGridCount, x, y) : -1;
+    if (grid < 0) {
+      this.clearHover();
+      return;
+    }
+    
+    const time = mapping!.timeAt(grid, x);
+    const values: Record<string, number | null> = {};
+    for (const id of this.selectedChannels) {
+      const resolved = this.session.resolve(id);
+      values[id] = resolved ? valueAtTime(resolved.file.store, resolved.channel, time, this.hoverInterpolate) : null;
+    }
+    
+    this.hoverX = x;
+    this.hoverTime = time;
+    this.hoverValues = values;
+    this.cdr.detectChanges();
+  }
+  
+  private clearHover(): void {
+    if (this.hoverTime === null) return;
+    this.hoverX = null;
+    this.hoverTime = null;
+    this.hoverValues = {};
+    this.cdr.detectChanges();
+  }
+  
+  hoverValue(id: string): string {
+    return this.formatCursorValue(this.hoverTime === null ? null : this.hoverValues[id] ?? null);
+  }
+  
+  get hoverTimeFormatted(): string {
+    return this.hoverTime === null ? '' : this.formatEpochTime(this.hoverTime);
+  }
+  
+  /**
+   * Full-precision epoch time in the source time zone
+   */
+  formatEpochTime(time: number): string {
+    const whole = Math.floor(time);
+    return formatTimestamp(whole, time - whole, this.timestampOptions.timeZone);
+  }
+  
+  private onBrushEnd(areas: { coordRange?: number[] }[]): void {
+    const range = areas[areas.length - 1]?.coordRange;
+    if (!range || range.length !== 2) return;
+    
+    this.statsInterval = [Math.min(range[0], range[1]), Math.max(range[0], range[1])];
+    this.updateRangeStatistics();
+    this.showStatsInterval();
+  }
+  
+  /**
+   * Draws the brushed interval across every grid
+   */
+  private showStatsInterval(): void {
+    if (!this.chartInstance || !this.chartLayout) return;
+    
+    this.chartInstance.dispatchAction({
+      type: 'brush',
+      areas: this.statsInterval ? Array.from({ length: this.chartGridCount }, (_, xAxisIndex) => ({
+        brushType: 'lineX',
+        xAxisIndex,
+        coordRange: this.statsInterval
+      })) : []
+    });
+  }
+  
+  private updateRangeStatistics(): void {
+    const [t0, t1] = this.statsInterval!;
+    this.rangeStats = [];
+    for (const id of this.selectedChannels) {
+      const resolved = this.session.resolve(id);
+      if (resolved && resolved.file.store.hasChannel(resolved.channel)) {
+        this.rangeStats.push(rangeStatistics(id, resolved.file.store, resolved.channel, t0, t1, this.channelUnit(id)));
+      }
+    }
+  }
+  
+  toggleSpectrum(): void {
+    this.showSpectrum = !this.showSpectrum;
+    if (this.showSpectrum) {
+      this.spectrumWindow = this.chartInstance ? this.getZoomWindow() : this.timeRange;
+    }
+  }
+  
+  /**
+   * A channel's samples between two epoch times for the spectrum panel, with
+   * missing values as NaN
+   */
+  readonly spectrumSamples = (id: string, start: number, end: number): SpectrumSource | null => {
+    const resolved = this.session.resolve(id);
+    const column = resolved?.file.store.getChannel(resolved.channel);
+    if (!resolved || !column) return null;
+    
+    const { store } = resolved.file;
+    const [first, after] = store.indexRange(start, end);
+    const values = new Float64Array(after - first);
+    for (let i = first; i < after; i++) {
+      values[i - first] = store.isMissing(column, i) ? NaN : column.values[i];
+    }
+    return { time: store.getTimes().subarray(first, after), values, unit: this.channelUnit(id) };
+  };
+  
+  // Grids on the chart: the layout's, and the spectrogram pane's
+  private get chartGridCount(): number {
+    return (this.chartLayout?.grids.length ?? 0) + (this.showSpectrogram ? 1 : 0);
+  }
+  
+  toggleSpectrogram(): void {
+    this.showSpectrogram = !this.showSpectrogram;
+    if (this.showSpectrogram) {
+      this.createSpectrogramLayer();
+    } else {
+      this.spectrogram = null;
+      this.spectrogramLayer?.dispose();
+      this.spectrogramLayer = null;
+    }
+    this.updateChartData(this.chartInstance ? this.getZoomWindow() : undefined);
+  }
+  
+  setSpectrogramChannel(id: string): void {
+    this.spectrogramChannel = id;
+    this.updateChartData(this.chartInstance ? this.getZoomWindow() : undefined);
+  }
+  
+  setSpectrogramSettings(changes: Partial<SpectrogramSettings>): void {
+    this.spectrogramSettings = { ...this.spectrogramSettings, ...changes };
+    this.spectrogramRequests.next();
+  }
+  
+  // Colours change without recomputing
+  setSpectrogramColors(colorMap: SpectrogramColorMap, range: number): void {
+    this.spectrogramColorMap = colorMap;
+    this.spectrogramRange = range;
+    this.showSpectrogramResult(this.spectrogram);
+  }
+  
+  // Resolution of the spectrogram shown
+  get spectrogramDetails(): string {
+    const spectrogram = this.spectrogram;
+    if (!spectrogram) return '';
+    const details = `${spectrogram.fftSize}-point FFT, ${formatFrequency(spectrogram.sampleRate / spectrogram.fftSize)} bins`;
+    return spectrogram.resampled ? `${details}, resampled to a uniform time base` : details;
+  }
+  
+  get spectrogramGradient(): string {
+    return colorMapGradient(this.spectrogramColorMap);
+  }
+  
+  private createSpectrogramLayer(): void {
+    if (this.spectrogramLayer || !this.chartInstance) return;
+    // Under the chart's own element, like the WebGL layer
+    this.spectrogramLayer = new SpectrogramLayer(this.chartInstance.getDom().parentElement);
+  }
+  
+  /**
+   * Spectrogram of the zoom window, computed by the worker at up to a
+   * column per pixel
+   */
+  private computeSpectrogram(): Observable<Spectrogram | null> {
+    if (!this.showSpectrogram || !this.chartInstance) return of(null);
+    
+    const [start, end] = this.getZoomWindow();
+    const resolved = this.session.resolve(this.spectrogramChannel);
+    const source = resolved && this.spectrumSamples(this.spectrogramChannel, start, end);
+    if (!resolved || !source) {
+      this.spectrogramMessage = 'Select a channel for the spectrogram';
+      return of(null);
+    }
+    if (source.time.length > SPECTROGRAM_MAX_SAMPLES) {
+      this.spectrogramMessage = `Zoom in to under ${SPECTROGRAM_MAX_SAMPLES.toLocaleString()} samples for a spectrogram`;
+      return of(null);
+    }
+    
+    const { timeOrigin } = resolved.file.store;
+    this.spectrogramComputing = true;
+    return this.spectrogramService.compute(source, this.spectrogramSettings, this.getGridPixelWidth()).pipe(
+      map(spectrogram => {
+        this.spectrogramMessage = spectrogram ? '' : 'Too few samples in the window for a spectrogram';
+        return spectrogram && { ...spectrogram, start: spectrogram.start + timeOrigin };
+      }),
+      catchError((e: Error) => {
+        this.spectrogramMessage = `Unable to compute the spectrogram: ${e.message}`;
+        return of(null);
+      }),
+      finalize(() => this.spectrogramComputing = false)
+    );
+  }
+  
+  private showSpectrogramResult(spectrogram: Spectrogram | null): void {
+    this.spectrogram = spectrogram;
+    const ceiling = spectrogram?.maxDb ?? 0;
+    this.spectrogramLayer?.setSpectrogram(spectrogram, this.spectrogramColorMap, ceiling - this.spectrogramRange, ceiling);
+    if (this.showSpectrogram && this.chartInstance && this.chartLayout) {
+      // The frequency axis runs up to the Nyquist frequency of the samples
+      this.chartInstance.setOption({ yAxis: this.spectrogramAxis(this.chartLayout.grids.length) });
+      this.drawSpectrogram();
+    }
+  }
+  
+  /**
+   * Frequency axis of the spectrogram pane
+   */
+  private spectrogramAxis(grid: number): any {
+    return {
+      id: 'spectrogram',
+      type: 'value',
+      gridIndex: grid,
+      min: 0,
+      max: this.spectrogram ? this.spectrogram.sampleRate / 2 : 1,
+      name: 'Frequency',
+      nameLocation: 'middle',
+      nameGap: 50,
+      nameTextStyle: { fontSize: 12, fontWeight: 'bold' },
+      axisLabel: { fontSize: 11, formatter: (hz: number) => formatFrequency(hz) },
+      splitLine: { show: false }
+    };
+  }
+  
+  /**
+   * Stretches the spectrogram image over its columns' times on the pane's
+   * time axis. Runs after every chart render, so it follows zooming.
+   */
+  private drawSpectrogram(): void {
+    const layer = this.spectrogramLayer;
+    const grid = this.chartLayout?.grids.length ?? 0;
+    const rect = layer && this.showSpectrogram ? this.gridRect(grid) : null;
+    if (!layer || !rect) return;
+    
+    const spectrogram = this.spectrogram;
+    const toPixel = (time: number) => this.chartInstance.convertToPixel({ xAxisIndex: grid }, time);
+    const left = spectrogram ? toPixel(spectrogram.start - spectrogram.hop / 2) : 0;
+    const right = spectrogram ? toPixel(spectrogram.start + (spectrogram.columns - 0.5) * spectrogram.hop) : 0;
+    layer.draw(rect, left, right, this.chartInstance.getWidth(), this.chartInstance.getHeight());
+  }
+  
+  clearRangeStatistics(): void {
+    this.statsInterval = null;
+    this.rangeStats = [];
+    this.showStatsInterval();
+  }
+  
+  private statisticsInterval(): StatisticsInterval {
+    const [start, end] = this.statsInterval!;
+    return { start: this.formatEpochTime(start), end: this.formatEpochTime(end), duration: end - start };
+  }
+  
+  copyRangeStatistics(): void {
+    navigator.clipboard.writeText(statisticsTable(this.rangeStats, '\t')).then(
+      () => this.showMessage('Statistics copied'),
+      (e: Error) => this.showMessage(`Unable to copy the statistics: ${e.message}`)
+    );
+  }
+  
+  exportRangeStatistics(format: 'csv' | 'json'): void {
+    const interval = this.statisticsInterval();
+    if (format === 'csv') {
+      this.download(statisticsTable(this.rangeStats, ',', interval), 'text/csv', 'statistics.csv');
+    } else {
+      this.download(statisticsJson(this.rangeStats, interval), 'application/json', 'statistics.json');
+    }
+  }
+  
+  /**
+   * Puts a cursor on the sample of a channel nearest to `time`: A first, then
+   * B, then whichever of the two is closer
+   */
+  placeCursor(channel: string, time: number): void {
+    const store = this.session.resolve(channel)?.file.store;
+    const cursor = store && snapCursor(channel, store, time);
+    if (!cursor) return;
+    
+    const { A, B } = this.cursors;
+    const name: CursorName = !A ? 'A'
+      : !B ? 'B'
+      : Math.abs(A.time - time) <= Math.abs(B.time - time) ? 'A' : 'B';
+    this.cursors[name] = cursor;
+    this.activeCursor = name;
+    this.onCursorsMoved();
+  }
+  
+  clearCursors(): void {
+    this.cursors = { A: null, B: null };
+    this.activeCursor = 'A';
+    this.draggingCursor = null;
+    this.onCursorsMoved();
+  }
+  
+  startCursorDrag(event: PointerEvent, name: CursorName): void {
+    event.preventDefault();
+    (event.currentTarget as Element).setPointerCapture(event.pointerId);
+    this.draggingCursor = name;
+    this.activeCursor = name;
+  }
+  
+  /**
+   * Moves a dragged cursor to the sample of its channel under the pointer
+   */
+  dragCursor(event: PointerEvent, name: CursorName): void {
+    const cursor = this.cursors[name];
+    const store = cursor && this.session.resolve(cursor.channel)?.file.store;
+    if (this.draggingCursor !== name || !store || !this.chartInstance) return;
+    
+    const left = this.chartInstance.getDom().getBoundingClientRect().left;
+    const time = this.chartInstance.convertFromPixel({ xAxisIndex: 0 }, event.clientX - left);
+    const moved = snapCursor(cursor!.channel, store, time);
+    if (moved && moved.index !== cursor!.index) {
+      this.cursors[name] = moved;
+      this.onCursorsMoved();
+    }
+  }
+  
+  endCursorDrag(): void {
+    this.draggingCursor = null;
+  }
+  
+  /**
+   * Arrow keys nudge the active cursor by a sample (ten with Shift), A and B
+   * pick the active cursor and Escape removes both
+   */
+  private onCursorKey(event: KeyboardEvent): void {
+    const target = event.target as HTMLElement | null;
+    if (!this.cursorReadout || event.ctrlKey || event.metaKey || event.altKey ||
+        target?.closest?.('input, select, textarea')) return;
+    
+    const cursor = this.cursors[this.activeCursor];
+    switch (event.key) {
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const store = cursor && this.session.resolve(cursor.channel)?.file.store;
+        if (!store) return;
+        const steps = (event.key === 'ArrowLeft' ? -1 : 1) * (event.shiftKey ? 10 : 1);
+        this.cursors[this.activeCursor] = nudgeCursor(cursor!, store, steps);
+        this.onCursorsMoved();
+        break;
+      }
+      case 'a':
+      case 'b': {
+        const name = event.key.toUpperCase() as CursorName;
+        if (!this.cursors[name]) return;
+        this.activeCursor = name;
+        break;
+      }
+      case 'Escape':
+        this.clearCursors();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+  
+  /**
+   * Re-reads the cursors' sample times after files were offset, dropping
+   * cursors whose channel went away
+   */
+  private refreshCursors(): void {
+    for (const name of this.cursorNames) {
+      const cursor = this.cursors[name];
+      const store = cursor && this.session.resolve(cursor.channel)?.file.store;
+      this.cursors[name] = cursor && store && cursor.index < store.length
+        ? { ...cursor, time: store.getTime(cursor.index) }
+        : null;
+    }
+    this.onCursorsMoved();
+  }
+  
+  private onCursorsMoved(): void {
+    this.updateCursorReadout();
+    this.positionCursors();
+  }
+  
+  private updateCursorReadout(): void {
+    const { A, B } = this.cursors;
+    this.cursorReadout = A || B ? cursorReadout(A, B, this.selectedChannels, id => {
+      const resolved = this.session.resolve(id);
+      return resolved ? { store: resolved.file.store, column: resolved.channel } : null;
+    }) : null;
+  }
+  
+  /**
+   * Places the cursor lines over the grids. Runs after every chart render,
+   * so they follow zooming, panning and resizing.
+   */
+  private positionCursors(): void {
+    const grids = this.chartGridCount;
+    const first = this.chartInstance && grids ? this.gridRect(0) : null;
+    const last = first && this.gridRect(grids - 1);
+    const span = first && last ? { top: first.y, height: last.y + last.height - first.y } : null;
+    
+    const x: Record<CursorName, number | null> = { A: null, B: null };
+    for (const name of this.cursorNames) {
+      const cursor = this.cursors[name];
+      if (!cursor || !first) continue;
+      // Every grid shares the time axis margins, so the first one places them all
+      const px = this.chartInstance.convertToPixel({ xAxisIndex: 0 }, cursor.time);
+      x[name] = px >= first.x - 0.5 && px <= first.x + first.width + 0.5 ? px : null;
+    }
+    
+    if (x.A === this.cursorX.A && x.B === this.cursorX.B &&
+        span?.top === this.gridSpan?.top && span?.height === this.gridSpan?.height) return;
+    // Chart events arrive outside Angular's zone
+    this.ngZone.run(() => {
+      this.cursorX = x;
+      this.gridSpan = span;
+    });
+  }
+  
+  cursorTime(name: CursorName): string {
+    const cursor = this.cursors[name];
+    const store = cursor && this.session.resolve(cursor.channel)?.file.store;
+    return store ? this.formatSampleTime(cursor!.index, store) : '';
+  }
+  
+  formatCursorDelta(dt: number): string {
+    return (dt < 0 ? '-' : '') + this.formatTimeDelta(dt);
+  }
+  
+  formatCursorFrequency(hz: number): string {
+    return formatFrequency(hz);
+  }
+  
+  formatCursorValue(value: number | null): string {
+    return value === null ? '—' : String(+value.toPrecision(6));
+  }
+  
+  setLineRenderer(renderer: LineRenderer): void {
+    if (renderer === 'webgl' && !this.webglSupported) return;
+    
+    this.lineRenderer = renderer;
+    if (renderer === 'webgl') {
+      this.createWebGLLayer();
+    } else {
+      this.glLayer?.dispose();
+      this.glLayer = null;
+    }
+    this.updateChartData(this.chartInstance ? this.getZoomWindow() : undefined);
+  }
+  
+  private createWebGLLayer(): void {
+    if (this.glLayer || !this.chartInstance) return;
+    
+    try {
+      // Under the chart's own element, so ECharts draws axes and markers on top
+      const container = this.chartInstance.getDom().parentElement;
+      this.glLayer = new WebGLLineLayer(container, () => this.fallBackToCanvas('the WebGL context was lost'));
+    } catch (e) {
+      console.warn('WebGL line layer unavailable:', e);
+      this.lineRenderer = 'canvas';
+    }
+  }
+  
+  private fallBackToCanvas(reason: string): void {
+    this.glLayer?.dispose();
+    this.glLayer = null;
+    this.lineRenderer = 'canvas';
+    this.showMessage(`Drawing lines on the canvas: ${reason}`);
+    this.updateChartData(this.chartInstance ? this.getZoomWindow() : undefined);
+    this.cdr.detectChanges();
+  }
+  
+  private onChartRendered(elapsedTime: number): void {
+    this.positionCursors();
+    this.drawSpectrogram();
+    let frameTime = elapsedTime;
+    if (this.lineRenderer === 'webgl') {
+      try {
+        frameTime += this.drawWebGLLines();
+      } catch (e) {
+        console.error('WebGL line drawing failed:', e);
+        this.fallBackToCanvas((e as Error).message);
+        return;
       }
-      
-      return timestamp;
-    } catch (e) {
-      console.warn('Error parsing timestamp:', ts, e);
-      return NaN;
     }
+    this.gpuMonitor.recordChartFrame(this.lineRenderer, frameTime);
   }
-
-  // Helper method to find original data in raw chunks
-  findRawDataIndex(channelName: string, timestamp: number): { chunk: number, row: number } {
-    // Look for a close match in raw data chunks
-    for (let chunkIndex = 0; chunkIndex < this.rawDataChunks.length; chunkIndex++) {
-      const chunk = this.rawDataChunks[chunkIndex];
+  
+  /**
+   * Draws the selected channels with the WebGL layer, mapped onto the axes
+   * ECharts laid out. Returns the time taken (ms).
+   */
+  private drawWebGLLines(): number {
+    const layer = this.glLayer;
+    const layout = this.chartLayout;
+    if (!layer || !layout || !this.chartInstance) return 0;
+    
+    const option = this.chartInstance.getOption();
+    const legendSelected: Record<string, boolean> = option.legend?.[0]?.selected || {};
+    const [start, end] = this.getZoomWindow();
+    const lines: GLLine[] = [];
+    
+    this.selectedChannels.forEach((id, i) => {
+      const resolved = this.session.resolve(id);
+      const column = resolved?.file.store.getChannel(resolved.channel);
+      const placement = layout.placement[i];
+      const rect = placement && this.gridRect(placement.grid);
+      if (!resolved || !column || !rect || legendSelected[id] === false || end <= start) return;
       
-      for (let rowIndex = 0; rowIndex < chunk.length; rowIndex++) {
-        const row = chunk[rowIndex];
-        
-        // Compare parsed timestamps
-        if (Math.abs(row._parsedTimestamp - timestamp) < 1) { // Within 1ms
-          console.log('Found matching raw data:', row);
-          return { chunk: chunkIndex, row: rowIndex };
-        }
-      }
-    }
+      const { store } = resolved.file;
+      const left = this.chartInstance.convertToPixel({ xAxisIndex: placement.grid }, start);
+      const right = this.chartInstance.convertToPixel({ xAxisIndex: placement.grid }, end);
+      const xScale = (right - left) / (end - start);
+      if (!store.length || !(xScale > 0)) return;
+      
+      const display = this.displayOf(id);
+      const log = this.normalization === 'none' && display.logScale;
+      const stats = log ? null : this.channelStatsOf(id);
+      const valueOrigin = stats ? valueOriginNear(stats.mean, stats.min, stats.max) : 0;
+      // One sample either side of the window, so lines run to the grid edges
+      const [first, after] = store.indexRange(start, end);
+      
+      lines.push({
+        key: id,
+        time: store.getTimes(),
+        values: column.values,
+        source: store,
+        revision: store.version,
+        changedSince: version => store.changedSince(resolved.channel, version),
+        valueOrigin,
+        step: display.step,
+        color: this.channelColor(id),
+        width: display.width,
+        rows: [Math.max(0, first - 1), Math.min(store.length - 1, after)],
+        rect,
+        xStart: start - store.timeOrigin + (rect.x - left) / xScale,
+        xScale,
+        log,
+        ...this.yPixelTransform(id, placement.yAxis, rect.y, valueOrigin, log)
+      });
+    });
     
-    return { chunk: -1, row: -1 };
+    return layer.draw(lines, this.chartInstance.getWidth(), this.chartInstance.getHeight());
   }
-    
-  isChannelSelected(ch: string): boolean {
-    return this.selectedChannels.includes(ch);
+  
+  private gridRect(grid: number): { x: number, y: number, width: number, height: number } | null {
+    return this.chartInstance.getModel()?.getComponent('grid', grid)?.coordinateSystem?.getRect() ?? null;
   }
   
-  toggleChannel(ch: string): void {
-    const idx = this.selectedChannels.indexOf(ch);
-    if (idx === -1) {
-      this.selectedChannels.push(ch);
-    } else {
-      this.selectedChannels.splice(idx, 1);
-    }
-    
-    // Remove from cache any datasets for channels no longer selected
-    if (idx !== -1) {
-      this.dataCache.delete(ch);
+  /**
+   * Pixels below the grid top of a channel's values on its y-axis, as
+   * yScale * (value - valueOrigin) + yOffset, or yScale * log10(value) +
+   * yOffset on log axes. Normalization is affine, so it folds in.
+   */
+  private yPixelTransform(id: string, yAxisIndex: number, top: number, valueOrigin: number,
+                          log: boolean): { yScale: number, yOffset: number } {
+    const toPixel = (value: number) => this.chartInstance.convertToPixel({ yAxisIndex }, value) - top;
+    if (log) {
+      const one = toPixel(1);
+      return { yScale: toPixel(10) - one, yOffset: one };
     }
     
-    this.dataChanged$.next(true);
+    const stats = this.channelStatsOf(id);
+    const span = stats && stats.max > stats.min ? stats.max - stats.min : 1;
+    const origin = toPixel(this.plotValue(id, valueOrigin));
+    return { yScale: (toPixel(this.plotValue(id, valueOrigin + span)) - origin) / span, yOffset: origin };
   }
   
-  calculateVisiblePoints(startTime: number, endTime: number): void {
-    if (!startTime || !endTime) {
-      this.visiblePoints = this.totalPoints;
-      return;
-    }
-    
-    // Calculate percentage of data visible
-    const totalTimeRange = this.timeRange[1] - this.timeRange[0];
-    const visibleTimeRange = endTime - startTime;
-    const visibleRatio = visibleTimeRange / totalTimeRange;
-    
-    // Approximate visible points
-    const channelCount = this.selectedChannels.length;
-    const totalPointsPerChannel = this.rawDataChunks.reduce((sum, chunk) => sum + chunk.length, 0);
-    this.visiblePoints = Math.round(totalPointsPerChannel * visibleRatio * channelCount);
+  setViewMode(mode: ViewMode): void {
+    this.viewMode = mode;
+    this.updateChartData();
   }
   
-  updateChartData(): void {
-    if (!this.loadComplete || !this.selectedChannels.length || this.rawDataChunks.length === 0) return;
-    
-    console.time('chartUpdate');
-    
-    // Performance optimization: prepare channel data only once and cache it
-    this.prepareChannelDatasets();
-    
-    // Always use stacked chart
-    this.createStackedChart();
-    
-    console.timeEnd('chartUpdate');
-    
-    // Force update of chart if instance exists
-    if (this.chartInstance) {
-      this.chartInstance.setOption(this.chartOption, {
-        notMerge: true,
-        lazyUpdate: true
-      });
-      
-      // Debug series mapping
-      this.verifyChannelData();
-
-      // Use throttled redraw
-      // this.throttledRedraw();
-    }
+  setNormalization(normalization: Normalization): void {
+    this.normalization = normalization;
+    this.updateChartData();
   }
   
-  checkRendererCapability(): void {
-  const canvas = document.createElement('canvas');
-  const gl = canvas.getContext('webgl') as WebGLRenderingContext | null || 
-            canvas.getContext('experimental-webgl') as WebGLRenderingContext | null;
-            
-  if (!gl) {
-    console.warn('WebGL not supported by this browser - falling back to standard Canvas renderer');
-    // Fall back to canvas renderer (this is already the default)
-    this.initOpts.renderer = 'canvas';
-    return;
+  addPane(): void {
+    this.panes.push({ name: `Pane ${this.panes.length + 1}`, channels: [] });
   }
   
-  // Check for any WebGL limitations that might cause problems
-  const maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE);
-  console.log('WebGL max texture size:', maxTextureSize);
+  /**
+   * Removes a pane; its channels move to the first pane
+   */
+  removePane(pane: ChartPane): void {
+    if (this.panes.length === 1) return;
+    this.panes = this.panes.filter(p => p !== pane);
+    this.updateChartData();
+  }
   
-  if (maxTextureSize < 4096) {
-    console.warn('WebGL texture size limited - might affect performance for large datasets');
+  renamePane(pane: ChartPane, name: string): void {
+    pane.name = name.trim() || pane.name;
+    this.updateChartData();
   }
   
-  // Try to detect if running in a virtual environment
-  try {
-    const debugInfo = gl.getExtension('WEBGL_debug_renderer_info');
-    if (debugInfo) {
-      const vendor = gl.getParameter(debugInfo.UNMASKED_VENDOR_WEBGL);
-      const renderer = gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL);
-      console.log('GPU Vendor:', vendor);
-      console.log('GPU Renderer:', renderer);
-      
-      // Detect virtual environments or software renderers
-      const isVirtualGPU = renderer.toLowerCase().includes('llvmpipe') || 
-                          renderer.toLowerCase().includes('swiftshader') ||
-                          renderer.toLowerCase().includes('virtualbox') ||
-                          renderer.toLowerCase().includes('vmware');
-                          
-      if (isVirtualGPU) {
-        console.warn('Virtual GPU detected, performance may be limited');
-      }
+  onChannelDragStart(event: DragEvent, id: string): void {
+    event.dataTransfer?.setData(CHANNEL_DRAG_TYPE, id);
+    if (event.dataTransfer) event.dataTransfer.effectAllowed = 'move';
+  }
+  
+  onPaneDragOver(event: DragEvent): void {
+    if (event.dataTransfer?.types.includes(CHANNEL_DRAG_TYPE)) {
+      event.preventDefault();
+      event.stopPropagation();
     }
-  } catch (e) {
-    console.warn('Unable to get detailed GPU info');
   }
   
-  // Keep canvas as the renderer, but we'll enable hardware acceleration optimizations
-  this.initOpts.renderer = 'canvas'; // Change from 'webgl' to 'canvas'
+  /**
+   * Moves a dragged channel onto a pane, selecting it if it wasn't
+   */
+  onPaneDrop(event: DragEvent, pane: ChartPane): void {
+    const id = event.dataTransfer?.getData(CHANNEL_DRAG_TYPE);
+    if (!id) return;
+    event.preventDefault();
+    event.stopPropagation();
+    
+    this.movePaneChannel(id, pane);
+    if (!this.isChannelSelected(id)) {
+      this.toggleChannel(id);
+    } else {
+      this.updateChartData();
+    }
+  }
   
-  // Set flag to indicate we should use hardware acceleration optimizations
-  this.useHardwareAcceleration = true;
-  console.log('Hardware acceleration will be used with Canvas renderer');
-}
-
-
-  prepareChannelDatasets(): void {
-    // Only prepare datasets for channels that aren't already cached
-    const channelsToProcess = this.selectedChannels.filter(ch => !this.dataCache.has(ch));
-    
-    if (channelsToProcess.length === 0) return;
-    
-    console.time('dataPreparation');
-    
-    // Process each channel that needs processing
-    for (const channel of channelsToProcess) {
-      const data: Array<[number, number | null]> = [];
-      
-      // Process all chunks for this channel
-      for (const chunk of this.rawDataChunks) {
-        for (const row of chunk) {
-          const timestamp = row._parsedTimestamp || this.parseTimestamp(row.TimeStamp);
-          if (!isNaN(timestamp)) {
-            const value = row[channel];
-            data.push([timestamp, value !== null && value !== undefined ? value : null]);
-          }
-        }
-      }
-      
-      // Sort by timestamp (important for line charts)
-      data.sort((a, b) => a[0] - b[0]);
-      
-      // Store in cache
-      this.dataCache.set(channel, data);
+  private movePaneChannel(id: string, pane: ChartPane): void {
+    for (const p of this.panes) {
+      p.channels = p.channels.filter(ch => ch !== id);
     }
-    
-    console.timeEnd('dataPreparation');
-    console.log(`Prepared data for ${channelsToProcess.length} channels`);
+    pane.channels.push(id);
   }
   
-  createStackedChart(): void {
-    const channelCount = this.selectedChannels.length;
-    const gridHeightPercentage = Math.min(85 / channelCount, 25);
-    
-    // Create grids for each channel with improved spacing
-    const grids = this.selectedChannels.map((_, i) => ({
-      left: 70,  // Increase left margin for y-axis labels
-      right: 70, // Increase right margin 
-      top: `${10 + i * gridHeightPercentage}%`,
-      height: `${gridHeightPercentage - 2}%`, // Reduce height slightly for better spacing
-      containLabel: true,
-      z: 50 + i
-    }));
-    
-    // X axes configuration with improved formatting
-    const xAxes = this.selectedChannels.map((_, i) => ({
-      type: 'time',
-      gridIndex: i,
-      scale: true,
-      axisLabel: {
-        show: i === channelCount - 1, // Only show on last grid
-        formatter: (value: number) => {
-          return new Date(value).toLocaleString('en-US', {
-            month: 'short',
-            day: '2-digit',
-            hour: '2-digit',
-            minute: '2-digit'
-          });
-        },
-        hideOverlap: true,
-        fontSize: 11,  // Smaller font size
-        margin: 12     // Increase margin
-      },
-      splitLine: {
-        show: true,
-        lineStyle: {
-          type: 'dashed',
-          opacity: 0.2
-        }
-      },
-      min: this.timeRange[0],
-      max: this.timeRange[1]
-    }));
-    
-    // Y axes configuration with improved formatting
-    const yAxes = this.selectedChannels.map((ch, i) => ({
-      type: 'value',
-      gridIndex: i,
-      name: ch,
-      nameLocation: 'middle',
-      nameGap: 50,    // Increase gap for better readability
-      nameTextStyle: {
-        fontSize: 12,
-        fontWeight: 'bold',
-        align: 'right',
-        padding: [0, 0, 0, 10] // Add padding to the name
-      },
-      scale: true,
-      axisLabel: {
-        fontSize: 11,
-        formatter: (value: number) => {
-          // Format large numbers for better readability
-          if (Math.abs(value) >= 1000) {
-            return (value / 1000).toFixed(1) + 'k';
-          }
-          return value.toFixed(value % 1 === 0 ? 0 : 1);
-        }
-      },
-      splitLine: {
-        show: true,
-        lineStyle: {
-          type: 'dashed',
-          opacity: 0.2
-        }
-      }
-    }));
-    
-    // Series configuration with improved styling
-    const series = this.selectedChannels.map((ch, i) => {
-      const data = this.dataCache.get(ch) || [];
-      
-      return {
-        name: ch,
-        type: 'line',
-        xAxisIndex: i,
-        yAxisIndex: i,
-        data: data,
-        showSymbol: false, // Always hide symbols for better performance
-        large: true,
-        largeThreshold: 2000, // Set to a reasonable value for performance
-        progressive: 5000,   // Fixed value for progressive rendering
-        progressiveThreshold: 5000,
-        progressiveChunkMode: 'sequential',
-        progressiveChunkSize: 2000,
-        animation: false,    // Disable animation for better performance
-        lineStyle: {
-          width: 1.5,        // Slightly thicker lines for better visibility
-          color: this.getColorForChannel(i), // Add custom colors per channel
-          join: 'bevel'
-        },
-        itemStyle: {
-          borderWidth: 1.5
-        }
-      };
-    });
-    
-    // Create the chart option with improved configuration
-    this.chartOption = {
-      title: {
-        text: `Time Series Data Visualization (${this.totalPoints.toLocaleString()} points)`,
-        left: 'center',
-        top: 5,
-        textStyle: {
-          fontSize: 16,
-          fontWeight: 'bold'
-        }
-      },
-      tooltip: {
-        show: false, // Turn off ECharts built-in tooltip
-        triggerOn: 'none'
-      },
-      toolbox: {
-        feature: {
-          dataZoom: { 
-            yAxisIndex: 'none',
-            xAxisIndex: xAxes.map((_, i) => i),
-            icon: {
-              zoom: 'path://M0,13.5h26.9 M13.5,26.9V0 M32.1,13.5H58V58H13.5 V32.1',
-              back: 'path://M22,1.4L9.9,13.5l12.3,12.3 M10.3,13.5H54.9v44.6 H10.3v-26'
-            }
-          },
-          restore: {},
-          saveAsImage: {}
-        },
-        right: 10,
-        top: 10
-      },
-      dataZoom: [
-        {
-          type: 'slider',
-          xAxisIndex: xAxes.map((_, i) => i),
-          start: 0,
-          end: 100,
-          bottom: 10,
-          height: 25,
-          borderColor: '#ccc',
-          fillerColor: 'rgba(30,144,255,0.15)',
-          throttle: 30, // Lower throttle for more responsive zooming
-          handleIcon: 'path://M10.7,11.9v-1.3H9.3v1.3c-4.9,0.3-8.8,4.4-8.8,9.4c0,5,3.9,9.1,8.8,9.4v1.3h1.3v-1.3c4.9-0.3,8.8-4.4,8.8-9.4C19.5,16.3,15.6,12.2,10.7,11.9z M13.3,24.4H6.7V23h6.6V24.4z M13.3,19.6H6.7v-1.4h6.6V19.6z',
-          handleSize: '80%',
-          handleStyle: {
-            color: '#fff',
-            shadowBlur: 3,
-            shadowColor: 'rgba(0, 0, 0, 0.6)',
-            shadowOffsetX: 2,
-            shadowOffsetY: 2
-          }
-        },
-        {
-          type: 'inside',
-          xAxisIndex: xAxes.map((_, i) => i),
-          throttle: 30, // Lower throttle for more responsive zooming
-          zoomOnMouseWheel: true,
-          moveOnMouseMove: true
-        }
-      ],
-      grid: grids,
-      xAxis: xAxes,
-      yAxis: yAxes,
-      series: series,
-      // Add visual map for better data point coloring
-      visualMap: {
-        show: false,
-        dimension: 1, // Use y-axis value for color mapping
-        seriesIndex: series.map((_, i) => i),
-        inRange: {
-          color: series.map((_, i) => this.getColorForChannel(i))
-        }
-      }
-    };
+  /**
+   * Selected channels on a pane, including the unplaced ones on the first
+   */
+  paneChannels(index: number): string[] {
+    const placed = new Set(this.panes.flatMap(pane => pane.channels));
+    return this.selectedChannels.filter(id => this.panes[index].channels.includes(id) || (index === 0 && !placed.has(id)));
   }
 
   // Add this new method to generate custom colors for channels
@@ -1832,6 +3463,7 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
   
   selectAllChannels(): void {
     this.selectedChannels = [...this.columns];
+    this.loadMissingChannels();
     this.dataChanged$.next(true);
   }
   
@@ -1841,51 +3473,72 @@ export class AppComponent implements OnInit, AfterViewInit, OnDestroy {
   }
   
   
+  /**
+   * Exports the selected channels on the rows of the first one's file.
+   * Channels from other files in the session hold their last sample at or
+   * before each row.
+   */
   exportData(): void {
-    if (!this.selectedChannels.length || this.rawDataChunks.length === 0) return;
+    const channels = this.selectedChannels
+      .map(id => ({ id, resolved: this.session.resolve(id) }))
+      .filter(c => c.resolved && c.resolved.file.store.hasChannel(c.resolved.channel));
+    if (!channels.length || channels[0].resolved!.file.store.length === 0) return;
     
     // 1) Headers
-    const headers = ['TimeStamp', ...this.selectedChannels].join(',');
+    const headers = ['TimeStamp', ...channels.map(c => c.id)].join(',');
     
     // 2) One output line per data point
     const lines: string[] = [];
-    let rowCount = 0;
+    const rowStore = channels[0].resolved!.file.store;
+    const columns = channels.map(c => ({
+      store: c.resolved!.file.store,
+      values: c.resolved!.file.store.getChannel(c.resolved!.channel)!.values,
+      // Row of the channel's own file for the current output row
+      cursor: -1
+    }));
+    
+    let rowCount = rowStore.length;
+    if (rowCount > 1000000) {
+      console.warn('Export limited to 1 million rows to avoid browser crashes');
+      rowCount = 1000000;
+    }
     
-    for (const chunk of this.rawDataChunks) {
-      for (const row of chunk) {
-        if (rowCount >= 1000000) {
-          console.warn('Export limited to 1 million rows to avoid browser crashes');
-          break;
+    for (let i = 0; i < rowCount; i++) {
+      const time = rowStore.getTime(i);
+      // Missing values are exported as empty cells
+      const vals = columns.map(column => {
+        if (column.store === rowStore) {
+          column.cursor = i;
+        } else {
+          while (column.cursor + 1 < column.store.length && column.store.getTime(column.cursor + 1) <= time) {
+            column.cursor++;
+          }
         }
-        
-        // Use the original timestamp string (row.TimeStamp)
-        const vals = this.selectedChannels.map(ch => {
-          const val = row[ch];
-          // Handle numbers, strings, and null/undefined
-          if (val === null || val === undefined) return '';
-          return val;
-        });
-        
-        lines.push([row.TimeStamp, ...vals].join(','));
-        rowCount++;
-      }
+        const value = column.cursor === -1 ? NaN : column.values[column.cursor];
+        return isNaN(value) ? '' : value;
+      });
+      lines.push([this.formatSampleTime(i, rowStore), ...vals].join(','));
     }
     
     // 3) Combine and download
-    const csv = [headers, ...lines].join('\n');
-    const blob = new Blob([csv], { type: 'text/csv' });
+    this.download([headers, ...lines].join('\n'), 'text/csv', 'time_series_export.csv');
+  }
+  
+  private download(content: string, type: string, fileName: string): void {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'time_series_export.csv';
+    a.download = fileName;
     a.click();
     setTimeout(() => URL.revokeObjectURL(url), 100);
   }
   
   clearCaches(): void {
-    // Free memory by clearing caches
-    this.dataCache.clear();
-    this.timestampCache.clear();
+    // Free memory by dropping the loaded columns
+    this.store.clear();
+    this.dataMemoryBytes = 0;
+    this.importReport = null;
   }
   
 
@@ -0,0 +1,35 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ZipEntry } from '../compression';
+import { isSupportedFileName } from '../columnar-file';
+
+/**
+ * Lists the files in a zip archive so the user can pick the one to open.
+ */
+@Component({
+  selector: 'app-archive-picker',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './archive-picker.component.html',
+  styleUrls: ['./archive-picker.component.scss']
+})
+export class ArchivePickerComponent {
+  @Input() archiveName = '';
+  @Input() entries: ZipEntry[] = [];
+  // Member that is open now, if any
+  @Input() selected: string | null = null;
+
+  @Output() chosen = new EventEmitter<ZipEntry>();
+  @Output() cancelled = new EventEmitter<void>();
+
+  // Files the app can read; anything else is listed but dimmed
+  isReadable(entry: ZipEntry): boolean {
+    return isSupportedFileName(entry.name);
+  }
+
+  formatSize(bytes: number): string {
+    if (bytes >= 1048576) return `${(bytes / 1048576).toFixed(1)} MB`;
+    if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${bytes} B`;
+  }
+}
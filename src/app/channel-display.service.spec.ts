@@ -0,0 +1,47 @@
+import { TestBed } from '@angular/core/testing';
+import { ChannelDisplayService, DEFAULT_CHANNEL_DISPLAY } from './channel-display.service';
+
+describe('ChannelDisplayService', () => {
+  const storageKey = 'tsv.channelDisplay';
+  let service: ChannelDisplayService;
+
+  beforeEach(() => {
+    localStorage.removeItem(storageKey);
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ChannelDisplayService);
+  });
+
+  afterEach(() => localStorage.removeItem(storageKey));
+
+  it('should store only the settings that differ from the defaults', () => {
+    service.set('Voltage', { ...DEFAULT_CHANNEL_DISPLAY, color: '#ff0000', yMin: 0, logScale: true });
+
+    expect(service.get('Voltage')).toEqual({ ...DEFAULT_CHANNEL_DISPLAY, color: '#ff0000', yMin: 0, logScale: true });
+    expect(JSON.parse(localStorage.getItem(storageKey)!)).toEqual([
+      ['Voltage', { color: '#ff0000', yMin: 0, logScale: true }]
+    ]);
+    expect(service.get('Current')).toEqual(DEFAULT_CHANNEL_DISPLAY);
+  });
+
+  it('should forget a channel reset to the defaults', () => {
+    service.set('Voltage', { ...DEFAULT_CHANNEL_DISPLAY, step: true });
+    expect(service.isCustomized('Voltage')).toBeTrue();
+
+    service.reset('Voltage');
+    expect(service.isCustomized('Voltage')).toBeFalse();
+    expect(localStorage.getItem(storageKey)).toBe('[]');
+  });
+
+  it('should keep any channel name as a plain entry, most recently changed last', () => {
+    expect(service.isCustomized('constructor')).toBeFalse();
+    expect(service.isCustomized('toString')).toBeFalse();
+
+    service.set('__proto__', { ...DEFAULT_CHANNEL_DISPLAY, width: 3 });
+    service.set('Voltage', { ...DEFAULT_CHANNEL_DISPLAY, step: true });
+    service.set('12', { ...DEFAULT_CHANNEL_DISPLAY, dash: 'dotted' });
+
+    expect(service.get('__proto__').width).toBe(3);
+    expect(JSON.parse(localStorage.getItem(storageKey)!).map(([channel]: [string]) => channel))
+      .toEqual(['__proto__', 'Voltage', '12']);
+  });
+});
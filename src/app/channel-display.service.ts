@@ -0,0 +1,103 @@
+import { Injectable } from '@angular/core';
+
+export type LineDash = 'solid' | 'dashed' | 'dotted';
+
+export interface ChannelDisplaySettings {
+  // Palette colour by the channel's position in the channel list when null
+  color: string | null;
+  width: number;
+  dash: LineDash;
+  // Hold each value until the next sample instead of joining samples
+  step: boolean;
+  showSymbols: boolean;
+  // Fixed y-axis bounds; null bounds follow the data
+  yMin: number | null;
+  yMax: number | null;
+  logScale: boolean;
+  // Replaces the unit read from the file when set
+  unit: string | null;
+}
+
+export const DEFAULT_CHANNEL_DISPLAY: ChannelDisplaySettings = {
+  color: null,
+  width: 1.5,
+  dash: 'solid',
+  step: false,
+  showSymbols: false,
+  yMin: null,
+  yMax: null,
+  logScale: false,
+  unit: null
+};
+
+/**
+ * Remembers how each channel is drawn (keyed by channel name), so a channel
+ * keeps its colour, line style and axis settings in every file it is in.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ChannelDisplayService {
+  private storageKey = 'tsv.channelDisplay';
+  private maxEntries = 200;
+
+  // In the order the channels were last changed
+  private settings: Map<string, Partial<ChannelDisplaySettings>> = this.readStorage();
+
+  get(channel: string): ChannelDisplaySettings {
+    return { ...DEFAULT_CHANNEL_DISPLAY, ...this.settings.get(channel) };
+  }
+
+  isCustomized(channel: string): boolean {
+    return this.settings.has(channel);
+  }
+
+  /**
+   * Stores the settings that differ from the defaults; a channel with none
+   * is forgotten
+   */
+  set(channel: string, settings: ChannelDisplaySettings): void {
+    const changed: Partial<ChannelDisplaySettings> = {};
+    const copy = <K extends keyof ChannelDisplaySettings>(key: K) => {
+      if (settings[key] !== DEFAULT_CHANNEL_DISPLAY[key]) changed[key] = settings[key];
+    };
+    for (const key of Object.keys(DEFAULT_CHANNEL_DISPLAY) as (keyof ChannelDisplaySettings)[]) {
+      copy(key);
+    }
+
+    // Re-insert so the most recently changed channels are kept when trimming
+    this.settings.delete(channel);
+    if (Object.keys(changed).length) {
+      this.settings.set(channel, changed);
+    }
+
+    const keys = [...this.settings.keys()];
+    for (const key of keys.slice(0, Math.max(0, keys.length - this.maxEntries))) {
+      this.settings.delete(key);
+    }
+    this.writeStorage();
+  }
+
+  reset(channel: string): void {
+    this.set(channel, DEFAULT_CHANNEL_DISPLAY);
+  }
+
+  // Stored as [channel, settings] entries
+  private readStorage(): Map<string, Partial<ChannelDisplaySettings>> {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey) ?? '[]');
+      return new Map(Array.isArray(stored) ? stored : []);
+    } catch (e) {
+      console.warn('Unable to read channel display settings:', e);
+      return new Map();
+    }
+  }
+
+  private writeStorage(): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify([...this.settings]));
+    } catch (e) {
+      console.warn('Unable to store channel display settings:', e);
+    }
+  }
+}
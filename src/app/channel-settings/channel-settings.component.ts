@@ -0,0 +1,58 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ChannelDisplaySettings, DEFAULT_CHANNEL_DISPLAY, LineDash } from '../channel-display.service';
+
+/**
+ * Popover with the display settings of one channel. Every change is applied
+ * to the chart straight away.
+ */
+@Component({
+  selector: 'app-channel-settings',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './channel-settings.component.html',
+  styleUrls: ['./channel-settings.component.scss']
+})
+export class ChannelSettingsComponent implements OnChanges {
+  @Input() channel = '';
+  @Input() settings: ChannelDisplaySettings = DEFAULT_CHANNEL_DISPLAY;
+  // Palette colour used while no colour is set
+  @Input() defaultColor = '#5470c6';
+  // Unit read from the file
+  @Input() recordedUnit = '';
+
+  @Output() changed = new EventEmitter<ChannelDisplaySettings>();
+  @Output() reset = new EventEmitter<void>();
+  @Output() closed = new EventEmitter<void>();
+
+  readonly dashes: { value: LineDash, label: string }[] = [
+    { value: 'solid', label: 'Solid' },
+    { value: 'dashed', label: 'Dashed' },
+    { value: 'dotted', label: 'Dotted' }
+  ];
+
+  draft: ChannelDisplaySettings = DEFAULT_CHANNEL_DISPLAY;
+
+  ngOnChanges(): void {
+    this.draft = { ...this.settings };
+  }
+
+  update(changes: Partial<ChannelDisplaySettings>): void {
+    this.draft = { ...this.draft, ...changes };
+    this.changed.emit(this.draft);
+  }
+
+  /**
+   * Axis bound from a number input; empty follows the data
+   */
+  parseBound(text: string): number | null {
+    const value = parseFloat(text);
+    return Number.isFinite(value) ? value : null;
+  }
+
+  get rangeInvalid(): boolean {
+    const { yMin, yMax, logScale } = this.draft;
+    return (yMin !== null && yMax !== null && yMin >= yMax) || (logScale && yMin !== null && yMin <= 0);
+  }
+}
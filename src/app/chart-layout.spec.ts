@@ -0,0 +1,67 @@
+import { LayoutChannel, axesPerSide, axisName, buildLayout, channelStats, normalizeSeries } from './chart-layout';
+
+function channel(id: string, unit: string | undefined, min: number, max: number): LayoutChannel {
+  return { id, unit, stats: { min, max, mean: (min + max) / 2, std: (max - min) / 2 } };
+}
+
+describe('chart-layout', () => {
+  const channels = [
+    channel('Voltage', 'V', -400, 400),
+    channel('Current', 'A', -20, 20),
+    channel('Bus', 'V', 0, 800),
+    channel('Temp', undefined, 20, 90),
+    channel('Count', undefined, 0, 5000)
+  ];
+
+  it('should give every channel a grid of its own when stacked', () => {
+    const layout = buildLayout(channels, 'stacked', [], 'none');
+
+    expect(layout.grids.length).toBe(5);
+    expect(layout.axes.every(axis => axis.side === 'left' && axis.offset === 0)).toBeTrue();
+    expect(layout.placement.map(p => p.grid)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('should share y-axes by unit, else by magnitude, alternating sides', () => {
+    const layout = buildLayout(channels, 'overlay', [], 'none');
+
+    expect(layout.grids.length).toBe(1);
+    expect(layout.axes.map(axis => axis.channels)).toEqual([['Voltage', 'Bus'], ['Current'], ['Temp'], ['Count']]);
+    expect(layout.axes.map(axis => [axis.side, axis.offset])).toEqual([['left', 0], ['right', 0], ['left', 55], ['right', 55]]);
+    expect(layout.placement[2]).toEqual({ grid: 0, yAxis: 0 });
+    expect(axesPerSide(layout, 'left')).toBe(2);
+    expect(axisName(layout.axes[0], 'none')).toBe('Voltage, Bus [V]');
+  });
+
+  it('should put normalized channels on one axis', () => {
+    const layout = buildLayout(channels, 'overlay', [], 'zscore');
+
+    expect(layout.axes.length).toBe(1);
+    expect(axisName(layout.axes[0], 'zscore')).toBe('z-score (σ)');
+  });
+
+  it('should lay channels out on panes, unplaced ones on the first', () => {
+    const panes = [
+      { name: 'Power', channels: ['Voltage', 'Unselected'] },
+      { name: 'Empty', channels: [] },
+      { name: 'Thermal', channels: ['Temp'] }
+    ];
+    const layout = buildLayout(channels, 'panes', panes, 'none');
+
+    expect(layout.grids).toEqual([
+      { name: 'Power', channels: ['Voltage', 'Current', 'Bus', 'Count'] },
+      { name: 'Thermal', channels: ['Temp'] }
+    ]);
+    expect(layout.placement[3]).toEqual({ grid: 1, yAxis: 3 });
+  });
+
+  it('should normalize interleaved series values', () => {
+    const stats = channelStats(new Float64Array([2, NaN, 4, 6]))!;
+    expect(stats.mean).toBe(4);
+    expect(stats.min).toBe(2);
+
+    const data = new Float64Array([0, 2, 1, 4, 2, NaN, 3, 6]);
+    normalizeSeries(data, stats, 'minmax');
+    expect(Array.from(data)).toEqual([0, 0, 1, 0.5, 2, NaN, 3, 1]);
+    expect(channelStats(new Float64Array([NaN]))).toBeNull();
+  });
+});
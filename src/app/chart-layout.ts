@@ -0,0 +1,203 @@
+import { ChannelValues } from './columnar';
+
+/**
+ * How selected channels are arranged: a grid per channel, all on one grid,
+ * or on named panes the user fills by dragging channels
+ */
+export type ViewMode = 'stacked' | 'overlay' | 'panes';
+
+/**
+ * Values as recorded, scaled to 0–1 over the channel's range, or as
+ * standard deviations from its mean
+ */
+export type Normalization = 'none' | 'minmax' | 'zscore';
+
+export interface ChartPane {
+  name: string;
+  // Channel ids, selected or not
+  channels: string[];
+}
+
+export interface ChannelStats {
+  min: number;
+  max: number;
+  mean: number;
+  std: number;
+}
+
+/**
+ * A selected channel as the layout sees it
+ */
+export interface LayoutChannel {
+  id: string;
+  unit?: string;
+  stats: ChannelStats | null;
+}
+
+export interface ChartGrid {
+  // Pane name; empty outside the pane layout
+  name: string;
+  channels: string[];
+}
+
+export interface ChartAxis {
+  grid: number;
+  side: 'left' | 'right';
+  // Pixels out from the grid edge when several axes share a side
+  offset: number;
+  channels: string[];
+  unit?: string;
+}
+
+export interface ChartLayout {
+  grids: ChartGrid[];
+  axes: ChartAxis[];
+  // Grid and y-axis of each channel, in selection order
+  placement: { grid: number, yAxis: number }[];
+}
+
+// Room taken by each y-axis beyond the first on a side
+export const AXIS_SPACING = 55;
+
+/**
+ * Min, max, mean and standard deviation of a channel, missing samples
+ * skipped; null when it has no values
+ */
+export function channelStats(values: ChannelValues): ChannelStats | null {
+  let count = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  let mean = 0;
+  let m2 = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value !== value) continue;
+
+    if (value < min) min = value;
+    if (value > max) max = value;
+    // Welford's running variance
+    count++;
+    const delta = value - mean;
+    mean += delta / count;
+    m2 += delta * (value - mean);
+  }
+
+  return count ? { min, max, mean, std: Math.sqrt(m2 / count) } : null;
+}
+
+export function normalizeValue(value: number, stats: ChannelStats, mode: Normalization): number {
+  if (mode === 'minmax') {
+    const range = stats.max - stats.min;
+    return range ? (value - stats.min) / range : 0.5;
+  }
+  if (mode === 'zscore') {
+    return stats.std ? (value - stats.mean) / stats.std : 0;
+  }
+  return value;
+}
+
+/**
+ * Normalizes the values of interleaved [time, value, ...] series data in place
+ */
+export function normalizeSeries(data: Float64Array, stats: ChannelStats, mode: Normalization): void {
+  if (mode === 'none') return;
+  for (let i = 1; i < data.length; i += 2) {
+    data[i] = normalizeValue(data[i], stats, mode);
+  }
+}
+
+/**
+ * Order of magnitude of the largest absolute value of a channel
+ */
+function magnitude(stats: ChannelStats | null): number {
+  const peak = stats ? Math.max(Math.abs(stats.min), Math.abs(stats.max)) : 0;
+  return peak ? Math.floor(Math.log10(peak)) : 0;
+}
+
+/**
+ * Channels sharing a y-axis: one axis per unit, or per order of magnitude
+ * for channels without one. Normalized channels share a single axis.
+ */
+function axisGroups(channels: LayoutChannel[], normalization: Normalization): LayoutChannel[][] {
+  const groups = new Map<string, LayoutChannel[]>();
+  for (const channel of channels) {
+    const key = normalization !== 'none' ? 'normalized'
+      : channel.unit ? `unit:${channel.unit}`
+      : `magnitude:${magnitude(channel.stats)}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(channel);
+    } else {
+      groups.set(key, [channel]);
+    }
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Grids for a view mode. Selected channels that are on no pane go on the
+ * first one; panes with no selected channels are left out.
+ */
+function layoutGrids(channels: LayoutChannel[], mode: ViewMode, panes: ChartPane[]): { name: string, channels: LayoutChannel[] }[] {
+  if (mode === 'stacked') return channels.map(channel => ({ name: '', channels: [channel] }));
+  if (mode === 'overlay' || !panes.length) return [{ name: '', channels }];
+
+  const grids = panes.map(pane => ({
+    name: pane.name,
+    channels: channels.filter(channel => pane.channels.includes(channel.id))
+  }));
+  const placed = new Set(panes.flatMap(pane => pane.channels));
+  grids[0].channels.push(...channels.filter(channel => !placed.has(channel.id)));
+  return grids.filter(grid => grid.channels.length);
+}
+
+/**
+ * Grids and y-axes for the selected channels. Within a grid, axes
+ * alternate left and right, moving outwards as each side fills up.
+ */
+export function buildLayout(channels: LayoutChannel[], mode: ViewMode, panes: ChartPane[],
+                            normalization: Normalization): ChartLayout {
+  const layout: ChartLayout = { grids: [], axes: [], placement: [] };
+  const placement = new Map<string, { grid: number, yAxis: number }>();
+
+  layoutGrids(channels, mode, panes).forEach((grid, gridIndex) => {
+    layout.grids.push({ name: grid.name, channels: grid.channels.map(channel => channel.id) });
+
+    axisGroups(grid.channels, normalization).forEach((group, i) => {
+      for (const channel of group) {
+        placement.set(channel.id, { grid: gridIndex, yAxis: layout.axes.length });
+      }
+      layout.axes.push({
+        grid: gridIndex,
+        side: i % 2 === 0 ? 'left' : 'right',
+        offset: Math.floor(i / 2) * AXIS_SPACING,
+        channels: group.map(channel => channel.id),
+        unit: normalization === 'none' ? group[0].unit : undefined
+      });
+    });
+  });
+
+  layout.placement = channels.map(channel => placement.get(channel.id)!);
+  return layout;
+}
+
+/**
+ * Most y-axes on one side of any grid
+ */
+export function axesPerSide(layout: ChartLayout, side: 'left' | 'right'): number {
+  const counts = layout.grids.map((_, grid) =>
+    layout.axes.filter(axis => axis.grid === grid && axis.side === side).length);
+  return Math.max(0, ...counts);
+}
+
+/**
+ * Y-axis title: its channels and their unit, or the normalized scale
+ */
+export function axisName(axis: ChartAxis, normalization: Normalization): string {
+  if (normalization === 'minmax') return 'Normalized (0–1)';
+  if (normalization === 'zscore') return 'z-score (σ)';
+
+  const names = axis.channels.join(', ');
+  return axis.unit ? `${names} [${axis.unit}]` : names;
+}
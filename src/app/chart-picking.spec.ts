@@ -0,0 +1,75 @@
+import { ChartPixelMapping, PickableChannel, gridAtPixel, pickSample, valueAtTime } from './chart-picking';
+import { storeWith } from './time-series-store.testing';
+
+/**
+ * Two grids stacked in an 800x400 chart with 70px side margins, showing
+ * [start, end] on their time axes and 0..100 on their y-axes
+ */
+function mapping([start, end]: [number, number]): ChartPixelMapping {
+  const rects = [{ x: 70, y: 20, width: 660, height: 160 }, { x: 70, y: 220, width: 660, height: 160 }];
+  return {
+    gridRect: grid => rects[grid] || null,
+    timeAt: (grid, x) => start + (x - rects[grid].x) / rects[grid].width * (end - start),
+    valueY: (_, yAxis, value) => {
+      const rect = rects[yAxis < 2 ? 0 : 1];
+      return rect.y + rect.height * (1 - value / 100);
+    }
+  };
+}
+
+describe('chart-picking', () => {
+  // One sample every 10 ms over 0..1000 ms after the origin
+  const time = Array.from({ length: 101 }, (_, i) => i * 10);
+  const store = storeWith(time, {
+    Low: time.map(() => 10),
+    High: time.map(() => 90),
+    Ramp: time.map((_, i) => i)
+  }, 1000);
+  const grids: PickableChannel[][] = [
+    [{ id: 'Low', store, column: 'Low', yAxis: 0 }, { id: 'High', store, column: 'High', yAxis: 1 }],
+    [{ id: 'Ramp', store, column: 'Ramp', yAxis: 2 }]
+  ];
+  const range: [number, number] = [1000, 2000];
+
+  it('should find the grid by its plot area', () => {
+    expect(gridAtPixel(mapping(range), 2, 400, 100)).toBe(0);
+    expect(gridAtPixel(mapping(range), 2, 400, 300)).toBe(1);
+    // Between the grids, and on the y-axis labels
+    expect(gridAtPixel(mapping(range), 2, 400, 200)).toBe(-1);
+    expect(gridAtPixel(mapping(range), 2, 30, 100)).toBe(-1);
+  });
+
+  it('should pick the sample under the pointer when unzoomed', () => {
+    // Halfway along the axis: 500 ms
+    const pick = pickSample(mapping(range), grids, 400, 300)!;
+
+    expect(pick).toEqual({ grid: 1, channel: 'Ramp', time: 1500, index: 50 });
+  });
+
+  it('should pick the sample under the pointer when zoomed', () => {
+    // The same pixel with 200..300 ms shown is at 250 ms
+    const pick = pickSample(mapping([1200, 1300]), grids, 400, 300)!;
+
+    expect(pick.time).toBe(1250);
+    expect(pick.index).toBe(25);
+    expect(pickSample(mapping([1200, 1300]), grids, 70, 300)!.index).toBe(20);
+  });
+
+  it('should pick the channel drawn closest to the pointer', () => {
+    expect(pickSample(mapping(range), grids, 400, 40)!.channel).toBe('High');
+    expect(pickSample(mapping(range), grids, 400, 150)!.channel).toBe('Low');
+    expect(pickSample(mapping(range), grids, 400, 200)).toBeNull();
+  });
+
+  it('should read values between samples', () => {
+    const sparse = storeWith([0, 10, 20, 30], { Level: [0, 10, NaN, 30] }, 1000);
+
+    expect(valueAtTime(sparse, 'Level', 1004, true)).toBeCloseTo(4, 12);
+    expect(valueAtTime(sparse, 'Level', 1004, false)).toBe(0);
+    expect(valueAtTime(sparse, 'Level', 1010, true)).toBe(10);
+    // Next to a missing sample, and outside the recording
+    expect(valueAtTime(sparse, 'Level', 1025, true)).toBeNull();
+    expect(valueAtTime(sparse, 'Level', 1026, false)).toBe(30);
+    expect(valueAtTime(sparse, 'Level', 999, true)).toBeNull();
+  });
+});
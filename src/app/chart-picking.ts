@@ -0,0 +1,106 @@
+import { TimeSeriesStore } from './time-series-store.service';
+
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Maps between chart pixels and data, as laid out by the chart: the grids'
+ * plot rectangles and each axis' current (zoomed) scale
+ */
+export interface ChartPixelMapping {
+  gridRect(grid: number): PixelRect | null;
+  // Time (epoch ms) at pixel x on a grid's time axis
+  timeAt(grid: number, x: number): number;
+  // Pixel y of a channel's value on its y-axis
+  valueY(channel: string, yAxis: number, value: number): number;
+}
+
+// A channel that can be picked in a grid
+export interface PickableChannel {
+  id: string;
+  store: TimeSeriesStore;
+  column: string;
+  yAxis: number;
+}
+
+export interface ChartPick {
+  grid: number;
+  channel: string;
+  // Time under the pointer, and the channel's sample nearest to it
+  time: number;
+  index: number;
+}
+
+/**
+ * Index of the grid whose plot area holds the pixel, or -1
+ */
+export function gridAtPixel(mapping: ChartPixelMapping, gridCount: number, x: number, y: number): number {
+  for (let grid = 0; grid < gridCount; grid++) {
+    const rect = mapping.gridRect(grid);
+    if (rect && x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height) {
+      return grid;
+    }
+  }
+  return -1;
+}
+
+/**
+ * The sample under a pixel: the time comes from the axis of the grid it is
+ * in, so it holds at any zoom, and the channel is the grid's only one or the
+ * one whose sample at that time is drawn closest to the pointer. Samples are
+ * found by binary search of the sorted time column.
+ */
+export function pickSample(mapping: ChartPixelMapping, grids: PickableChannel[][], x: number, y: number): ChartPick | null {
+  const grid = gridAtPixel(mapping, grids.length, x, y);
+  if (grid < 0) return null;
+
+  const time = mapping.timeAt(grid, x);
+  let pick: ChartPick | null = null;
+  let pickDistance = Infinity;
+
+  for (const channel of grids[grid]) {
+    const { store, column } = channel;
+    const index = store.hasChannel(column) ? store.nearestIndex(time) : -1;
+    if (index < 0) continue;
+
+    const value = store.getValue(column, index);
+    const distance = grids[grid].length === 1 ? 0
+      : value === null ? Infinity
+      : Math.abs(mapping.valueY(channel.id, channel.yAxis, value) - y);
+    if (!pick || distance < pickDistance) {
+      pick = { grid, channel: channel.id, time, index };
+      pickDistance = distance;
+    }
+  }
+  return pick;
+}
+
+/**
+ * A channel's value at a time: linearly interpolated between the samples
+ * either side, or the nearest sample's. Null outside the store's time range
+ * and next to missing samples.
+ */
+export function valueAtTime(store: TimeSeriesStore, column: string, time: number, interpolate: boolean): number | null {
+  const [start, end] = store.timeRange;
+  if (!store.length || time < start || time > end) return null;
+  if (!interpolate) return store.getValue(column, store.nearestIndex(time));
+
+  // Offsets keep the resolution epoch times lose
+  const offset = time - store.timeOrigin;
+  const after = store.lowerBound(time);
+  if (after >= store.length || store.getOffset(after) === offset || after === 0) {
+    return store.getValue(column, Math.min(after, store.length - 1));
+  }
+
+  const before = after - 1;
+  const v0 = store.getValue(column, before);
+  const v1 = store.getValue(column, after);
+  if (v0 === null || v1 === null) return null;
+
+  const t0 = store.getOffset(before);
+  return v0 + (v1 - v0) * (offset - t0) / (store.getOffset(after) - t0);
+}
@@ -0,0 +1,43 @@
+import { Float64, Table, TimestampNanosecond, makeData, makeVector, tableToIPC, vectorFromArray } from 'apache-arrow';
+import { columnarFormatFromBytes, columnarFormatFromName, openColumnarFile } from './columnar-file';
+
+describe('columnar files', () => {
+  it('should detect the format from the file name', () => {
+    expect(columnarFormatFromName('run.PARQUET')).toBe('parquet');
+    expect(columnarFormatFromName('run.feather')).toBe('arrow');
+    expect(columnarFormatFromName('fault.cff')).toBe('comtrade');
+    expect(columnarFormatFromName('daq.tdms')).toBe('tdms');
+    expect(columnarFormatFromName('run.csv')).toBeNull();
+  });
+
+  it('should detect the format from the first bytes', () => {
+    const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+    expect(columnarFormatFromBytes(ascii('PAR1\x15\x04'))).toBe('parquet');
+    expect(columnarFormatFromBytes(ascii('ARROW1\0\0'))).toBe('arrow');
+    expect(columnarFormatFromBytes(new Uint8Array([0xFF, 0xFF, 0xFF, 0xFF, 0x10, 0, 0, 0]))).toBe('arrow');
+    expect(columnarFormatFromBytes(ascii('time,a\n'))).toBeNull();
+  });
+
+  it('should read Arrow timestamps without losing nanoseconds', async () => {
+    const table = new Table({
+      time: makeVector(makeData({
+        type: new TimestampNanosecond(),
+        data: new BigInt64Array([1700000000000000001n, 1700000000000000500n]),
+        length: 2
+      })),
+      value: vectorFromArray([1.5, null], new Float64())
+    });
+    const file = await openColumnarFile(new Blob([tableToIPC(table, 'file')]), 'arrow');
+
+    expect(file.columns.map(c => c.kind)).toEqual(['timestamp', 'number']);
+
+    const time = await file.readColumn('time');
+    expect(time.kind).toBe('timestamp');
+    expect(Array.from(time.values as BigInt64Array)).toEqual([1700000000000000001n, 1700000000000000500n]);
+
+    const value = await file.readColumn('value');
+    expect(value.values[0]).toBe(1.5);
+    expect(value.values[1]).toBeNaN();
+  });
+});
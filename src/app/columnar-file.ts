@@ -0,0 +1,306 @@
+/**
+ * Readers for Apache Parquet, Arrow IPC (Feather v2), COMTRADE and TDMS files.
+ * All expose the same small interface: the column list up front and one
+ * column decoded at a time, so only the channels that are shown get decoded.
+ */
+import { FileMetaData, SchemaTree, parquetMetadataAsync, parquetRead, parquetSchema } from 'hyparquet';
+import { compressors, decompressZstd } from 'hyparquet-compressors';
+import { CompressionType, DateUnit, TimeUnit, Type, Vector, compressionRegistry, tableFromIPC } from 'apache-arrow';
+import { isCombinedComtrade, openComtrade } from './comtrade';
+import { isTdms, openTdms } from './tdms';
+
+export type ColumnarFormat = 'parquet' | 'arrow' | 'comtrade' | 'tdms';
+
+export const COLUMNAR_FORMAT_LABELS: Record<ColumnarFormat, string> = {
+  parquet: 'Parquet',
+  arrow: 'Arrow',
+  comtrade: 'COMTRADE',
+  tdms: 'TDMS'
+};
+
+// 'timestamp' columns have a typed unit; 'number' and 'text' columns can still hold times
+export type ColumnKind = 'timestamp' | 'number' | 'text' | 'other';
+
+export interface FileColumn {
+  name: string;
+  kind: ColumnKind;
+  // Type as written in the file, for messages
+  type: string;
+  unit?: string;
+}
+
+/**
+ * Values of one column. Timestamp columns come back as epoch nanoseconds;
+ * missing values are null.
+ */
+export type ColumnValues =
+  | { kind: 'timestamp'; values: BigInt64Array; valid: Uint8Array | null }
+  | { kind: 'number'; values: Float64Array }
+  | { kind: 'text'; values: Array<string | null> };
+
+export interface ColumnarFile {
+  format: ColumnarFormat;
+  rowCount: number;
+  columns: FileColumn[];
+  // Trigger of a recording in epoch nanoseconds
+  triggerTime?: bigint;
+  readColumn(name: string): Promise<ColumnValues>;
+}
+
+const PARQUET_MAGIC = 'PAR1';
+const ARROW_MAGIC = 'ARROW1';
+
+// Arrow IPC streams may use ZSTD buffer compression
+compressionRegistry.set(CompressionType.ZSTD, { decode: data => decompressZstd(data) });
+
+/**
+ * Format of a file from its name, or null for anything else (read as CSV)
+ */
+export function columnarFormatFromName(name: string): ColumnarFormat | null {
+  const lower = name.toLowerCase();
+  if (/\.(parquet|parq|pq)$/.test(lower)) return 'parquet';
+  if (/\.(arrow|feather|ipc|arrows)$/.test(lower)) return 'arrow';
+  if (/\.cff$/.test(lower)) return 'comtrade';
+  if (/\.tdms$/.test(lower)) return 'tdms';
+  return null;
+}
+
+/**
+ * Whether the app opens a file of this name: CSV text, a columnar format, or
+ * a COMTRADE configuration (read together with its .dat)
+ */
+export function isSupportedFileName(name: string): boolean {
+  return /\.(csv|txt|tsv|cfg)$/i.test(name) || !!columnarFormatFromName(name);
+}
+
+/**
+ * Format of a file from its first bytes. Arrow streams have no magic and
+ * start with a continuation marker instead.
+ */
+export function columnarFormatFromBytes(head: Uint8Array): ColumnarFormat | null {
+  const text = String.fromCharCode(...head.subarray(0, 6));
+  if (text.startsWith(PARQUET_MAGIC)) return 'parquet';
+  if (text === ARROW_MAGIC) return 'arrow';
+  if (head.length >= 4 && head[0] === 0xFF && head[1] === 0xFF && head[2] === 0xFF && head[3] === 0xFF) return 'arrow';
+  if (isCombinedComtrade(head)) return 'comtrade';
+  if (isTdms(head)) return 'tdms';
+  return null;
+}
+
+/**
+ * Opens a file for reading column by column. `timeZone` applies to
+ * recorded wall-clock times that don't state their offset (COMTRADE).
+ */
+export function openColumnarFile(source: Blob, format: ColumnarFormat, timeZone = 'UTC'): Promise<ColumnarFile> {
+  switch (format) {
+    case 'parquet':
+      return openParquet(source);
+    case 'arrow':
+      return openArrow(source);
+    case 'comtrade':
+      return openComtrade(source, timeZone);
+    case 'tdms':
+      return openTdms(source);
+  }
+}
+
+async function openParquet(source: Blob): Promise<ColumnarFile> {
+  const file = {
+    byteLength: source.size,
+    slice: (start: number, end?: number) => source.slice(start, end).arrayBuffer()
+  };
+  const metadata: FileMetaData = await parquetMetadataAsync(file);
+  const schema = parquetSchema(metadata);
+
+  const columns = schema.children.map(parquetColumn);
+  return {
+    format: 'parquet',
+    rowCount: Number(metadata.num_rows),
+    columns,
+    readColumn: async name => {
+      const column = columns.find(c => c.name === name);
+      if (!column || column.kind === 'other') {
+        throw new Error(`Column ${name} can't be read as numbers or times`);
+      }
+
+      const chunks: Array<{ rowStart: number, data: ArrayLike<any> }> = [];
+      await parquetRead({
+        file,
+        metadata,
+        columns: [name],
+        compressors,
+        // Keep timestamps as integer nanoseconds so sub-millisecond digits survive
+        parsers: {
+          timestampFromMilliseconds: (ms: bigint) => ms * 1000000n,
+          timestampFromMicroseconds: (us: bigint) => us * 1000n,
+          timestampFromNanoseconds: (ns: bigint) => ns,
+          dateFromDays: (days: number) => BigInt(days) * 86400000000000n
+        },
+        onChunk: chunk => chunks.push({ rowStart: chunk.rowStart, data: chunk.columnData })
+      });
+      chunks.sort((a, b) => a.rowStart - b.rowStart);
+
+      const rowCount = Number(metadata.num_rows);
+      const get = (each: (value: any, row: number) => void) => {
+        for (const chunk of chunks) {
+          for (let i = 0; i < chunk.data.length && chunk.rowStart + i < rowCount; i++) {
+            each(chunk.data[i], chunk.rowStart + i);
+          }
+        }
+      };
+      return collect(column.kind, rowCount, get);
+    }
+  };
+}
+
+function parquetColumn(node: SchemaTree): FileColumn {
+  const element = node.element;
+  const name = element.name;
+  const logical = element.logical_type?.type;
+  const converted = element.converted_type;
+  const type = logical || converted || element.type || 'group';
+
+  // Nested columns (lists, structs) can't be channels
+  if (node.children.length) return { name, kind: 'other', type };
+
+  if (logical === 'TIMESTAMP' || logical === 'DATE' || element.type === 'INT96' ||
+      converted === 'TIMESTAMP_MILLIS' || converted === 'TIMESTAMP_MICROS' || converted === 'DATE') {
+    return { name, kind: 'timestamp', type };
+  }
+  if (logical === 'STRING' || logical === 'ENUM' || converted === 'UTF8' || converted === 'ENUM') {
+    return { name, kind: 'text', type };
+  }
+  if (logical === 'DECIMAL' || converted === 'DECIMAL') {
+    return { name, kind: 'number', type };
+  }
+  // Other annotations (times of day, JSON, UUID, FLOAT16...) aren't channel data
+  if (logical && logical !== 'INTEGER') {
+    return { name, kind: 'other', type };
+  }
+
+  switch (element.type) {
+    case 'BOOLEAN':
+    case 'INT32':
+    case 'INT64':
+    case 'FLOAT':
+    case 'DOUBLE':
+      return { name, kind: 'number', type };
+    default:
+      return { name, kind: 'other', type };
+  }
+}
+
+async function openArrow(source: Blob): Promise<ColumnarFile> {
+  let table;
+  try {
+    table = tableFromIPC(new Uint8Array(await source.arrayBuffer()));
+  } catch (e: any) {
+    throw new Error(`Not a readable Arrow IPC file (${e.message}). Feather v1 and LZ4-compressed files aren't supported.`);
+  }
+
+  const columns = table.schema.fields.map(field => ({
+    name: field.name,
+    kind: arrowKind(field.type.typeId),
+    type: String(field.type)
+  }));
+
+  return {
+    format: 'arrow',
+    rowCount: table.numRows,
+    columns,
+    readColumn: async name => {
+      const column = columns.find(c => c.name === name);
+      const vector = table.getChild(name);
+      if (!column || !vector || column.kind === 'other') {
+        throw new Error(`Column ${name} can't be read as numbers or times`);
+      }
+
+      if (column.kind === 'timestamp') {
+        return arrowTimestamps(vector);
+      }
+      return collect(column.kind, table.numRows, each => {
+        for (let i = 0; i < vector.length; i++) each(vector.get(i), i);
+      });
+    }
+  };
+}
+
+function arrowKind(typeId: Type): ColumnKind {
+  switch (typeId) {
+    case Type.Timestamp:
+    case Type.Date:
+      return 'timestamp';
+    case Type.Int:
+    case Type.Float:
+    case Type.Bool:
+      return 'number';
+    case Type.Utf8:
+    case Type.LargeUtf8:
+    case Type.Dictionary:
+      return 'text';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * Typed Arrow times as epoch nanoseconds, read from the raw buffers since
+ * Vector.get() rounds them to milliseconds
+ */
+function arrowTimestamps(vector: Vector): ColumnValues {
+  const values = new BigInt64Array(vector.length);
+  let valid: Uint8Array | null = null;
+  let row = 0;
+
+  for (const data of vector.data) {
+    const type = data.type as any;
+    const scale = data.typeId === Type.Date
+      ? (type.unit === DateUnit.DAY ? 86400000000000n : 1000000n)
+      : [1000000000n, 1000000n, 1000n, 1n][type.unit as TimeUnit];
+
+    for (let i = 0; i < data.length; i++, row++) {
+      if (!data.getValid(i)) {
+        if (!valid) valid = new Uint8Array(vector.length).fill(1);
+        valid[row] = 0;
+        continue;
+      }
+      values[row] = BigInt(data.values[i]) * scale;
+    }
+  }
+  return { kind: 'timestamp', values, valid };
+}
+
+/**
+ * Gathers values delivered by `each` into the array type for `kind`
+ */
+function collect(
+  kind: ColumnKind,
+  rowCount: number,
+  each: (visit: (value: any, row: number) => void) => void
+): ColumnValues {
+  if (kind === 'timestamp') {
+    const values = new BigInt64Array(rowCount);
+    let valid: Uint8Array | null = null;
+    each((value, row) => {
+      if (value === null || value === undefined) {
+        if (!valid) valid = new Uint8Array(rowCount).fill(1);
+        valid[row] = 0;
+      } else {
+        values[row] = BigInt(value);
+      }
+    });
+    return { kind, values, valid };
+  }
+
+  if (kind === 'text') {
+    const values = new Array<string | null>(rowCount).fill(null);
+    each((value, row) => values[row] = value === null || value === undefined ? null : String(value));
+    return { kind, values };
+  }
+
+  const values = new Float64Array(rowCount).fill(NaN);
+  each((value, row) => {
+    if (value !== null && value !== undefined) values[row] = Number(value);
+  });
+  return { kind: 'number', values };
+}
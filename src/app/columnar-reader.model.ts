@@ -0,0 +1,60 @@
+// Message protocol shared by ColumnarReaderService and columnar-reader.worker.ts
+import { ChannelValues } from './columnar';
+import { ColumnarFormat } from './columnar-file';
+import { ImportReport } from './import-report';
+import { TimestampOptions } from './timestamp-formats';
+
+export interface DecodedChannel {
+  name: string;
+  // Aligned with the imported timestamps; NaN marks a missing value
+  values: ChannelValues;
+  nullMask: Uint8Array | null;
+  nullCount: number;
+  unit: string;
+}
+
+export interface ColumnarImport {
+  format: ColumnarFormat;
+  // Numeric channels in file order; only the ones in `channels` were decoded
+  columns: string[];
+  // Column the timestamps were read from
+  timeColumn: string;
+  rowCount: number;
+  // Milliseconds after timeOrigin, sorted ascending
+  timestamps: Float64Array;
+  timeOrigin: number;
+  // Absolute epoch milliseconds
+  timeRange: [number, number];
+  // File row behind each imported row, so channels decoded later line up;
+  // null when rows were neither dropped nor reordered
+  rowOrder: Uint32Array | null;
+  // Trigger of a recording in epoch milliseconds, when the format has one
+  triggerTime: number | null;
+  channels: DecodedChannel[];
+  report: ImportReport;
+}
+
+export type ColumnarWorkerRequest =
+  | {
+      type: 'import';
+      jobId: number;
+      source: Blob;
+      format: ColumnarFormat;
+      timestampOptions: TimestampOptions;
+      // Channels to decode straight away; the first two when none of them exist
+      channels: string[];
+    }
+  | { type: 'channels'; jobId: number; source: Blob; format: ColumnarFormat; names: string[]; rowOrder: Uint32Array | null }
+  | { type: 'cancel'; jobId: number };
+
+export type ColumnarWorkerResponse =
+  | { type: 'progress'; jobId: number; fraction: number }
+  | { type: 'imported'; jobId: number; data: ColumnarImport }
+  | { type: 'channels'; jobId: number; channels: DecodedChannel[] }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'error'; jobId: number; message: string };
+
+export type ColumnarReadEvent =
+  | { type: 'progress'; fraction: number }
+  | { type: 'imported'; data: ColumnarImport }
+  | { type: 'channels'; channels: DecodedChannel[] };
@@ -0,0 +1,125 @@
+import { Injectable, NgZone, OnDestroy, inject } from '@angular/core';
+import { Observable, filter, map } from 'rxjs';
+import { ColumnarReadEvent, ColumnarWorkerRequest, ColumnarWorkerResponse, DecodedChannel } from './columnar-reader.model';
+import { ColumnarFormat } from './columnar-file';
+import { DEFAULT_TIMESTAMP_OPTIONS, TimestampOptions } from './timestamp-formats';
+
+type ColumnarJob =
+  | Omit<Extract<ColumnarWorkerRequest, { type: 'import' }>, 'jobId'>
+  | Omit<Extract<ColumnarWorkerRequest, { type: 'channels' }>, 'jobId'>;
+
+/**
+ * Reads Parquet and Arrow files in a dedicated Web Worker. Channels are
+ * decoded on demand, so opening a wide file only decodes what is shown.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ColumnarReaderService implements OnDestroy {
+  private zone = inject(NgZone);
+  private worker: Worker | null = null;
+  private nextJobId = 1;
+
+  /**
+   * Reads the time column and `channels` (or the first two channels).
+   * Unsubscribing cancels the job.
+   */
+  import(
+    source: Blob,
+    format: ColumnarFormat,
+    timestampOptions: TimestampOptions = DEFAULT_TIMESTAMP_OPTIONS,
+    channels: string[] = []
+  ): Observable<ColumnarReadEvent> {
+    return this.run({ type: 'import', source, format, timestampOptions, channels });
+  }
+
+  /**
+   * Decodes more channels of a file imported earlier, in the imported row order
+   */
+  readChannels(source: Blob, format: ColumnarFormat, names: string[], rowOrder: Uint32Array | null): Observable<DecodedChannel[]> {
+    return this.run({ type: 'channels', source, format, names, rowOrder }).pipe(
+      filter((event): event is Extract<ColumnarReadEvent, { type: 'channels' }> => event.type === 'channels'),
+      map(event => event.channels)
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.disposeWorker();
+  }
+
+  private run(job: ColumnarJob): Observable<ColumnarReadEvent> {
+    return new Observable<ColumnarReadEvent>(subscriber => {
+      const worker = this.getWorker();
+      const jobId = this.nextJobId++;
+      let finished = false;
+
+      const onMessage = ({ data }: MessageEvent<ColumnarWorkerResponse>) => {
+        if (data.jobId !== jobId) return;
+
+        // Worker messages arrive outside Angular's zone
+        this.zone.run(() => {
+          switch (data.type) {
+            case 'progress':
+              subscriber.next({ type: 'progress', fraction: data.fraction });
+              break;
+            case 'imported':
+              finished = true;
+              subscriber.next({ type: 'imported', data: data.data });
+              subscriber.complete();
+              break;
+            case 'channels':
+              finished = true;
+              subscriber.next({ type: 'channels', channels: data.channels });
+              subscriber.complete();
+              break;
+            case 'cancelled':
+              finished = true;
+              subscriber.complete();
+              break;
+            case 'error':
+              finished = true;
+              subscriber.error(new Error(data.message));
+              break;
+          }
+        });
+      };
+
+      const onError = (event: ErrorEvent) => {
+        finished = true;
+        this.zone.run(() => subscriber.error(new Error(event.message || 'Columnar reader worker failed')));
+        // A crashed worker can't be reused
+        this.disposeWorker();
+      };
+
+      this.zone.runOutsideAngular(() => {
+        worker.addEventListener('message', onMessage);
+        worker.addEventListener('error', onError);
+      });
+      this.post({ ...job, jobId } as ColumnarWorkerRequest);
+
+      return () => {
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onError);
+        if (!finished) {
+          this.post({ type: 'cancel', jobId });
+        }
+      };
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./columnar-reader.worker', import.meta.url), { type: 'module' });
+    }
+    return this.worker;
+  }
+
+  private post(message: ColumnarWorkerRequest): void {
+    this.worker?.postMessage(message);
+  }
+
+  private disposeWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+}
@@ -0,0 +1,240 @@
+/// <reference lib="webworker" />
+
+import { ColumnarImport, ColumnarWorkerRequest, ColumnarWorkerResponse, DecodedChannel } from './columnar-reader.model';
+import { ColumnarFile, ColumnarFormat, ColumnValues, FileColumn, openColumnarFile } from './columnar-file';
+import { ParsedTime, TimestampOptions, createTimestampParser } from './timestamp-formats';
+import { buildNullMask, compactValues } from './columnar';
+import { ImportReportBuilder, analyzeTiming } from './import-report';
+
+const TIME_NAME = /time|date|stamp|zeit/i;
+
+const cancelledJobs = new Set<number>();
+
+class CancelledError extends Error {}
+
+addEventListener('message', ({ data }: MessageEvent<ColumnarWorkerRequest>) => {
+  if (data.type === 'cancel') {
+    cancelledJobs.add(data.jobId);
+    return;
+  }
+
+  const job = data.type === 'import'
+    ? importFile(data.jobId, data.source, data.format, data.timestampOptions, data.channels).then(result => {
+        const transfer: Transferable[] = [result.timestamps.buffer, ...channelBuffers(result.channels)];
+        if (result.rowOrder) transfer.push(result.rowOrder.buffer);
+        respond({ type: 'imported', jobId: data.jobId, data: result }, transfer);
+      })
+    : openColumnarFile(data.source, data.format)
+        .then(file => decodeChannels(data.jobId, file, data.names, data.rowOrder, 0))
+        .then(channels => respond({ type: 'channels', jobId: data.jobId, channels }, channelBuffers(channels)));
+
+  job.catch(err => {
+    if (err instanceof CancelledError) {
+      respond({ type: 'cancelled', jobId: data.jobId });
+    } else {
+      console.error('Columnar reader error:', err);
+      respond({ type: 'error', jobId: data.jobId, message: err?.message || String(err) });
+    }
+  }).finally(() => cancelledJobs.delete(data.jobId));
+});
+
+function respond(message: ColumnarWorkerResponse, transfer: Transferable[] = []): void {
+  postMessage(message, transfer);
+}
+
+function channelBuffers(channels: DecodedChannel[]): Transferable[] {
+  const buffers: Transferable[] = [];
+  for (const channel of channels) {
+    buffers.push(channel.values.buffer);
+    if (channel.nullMask) buffers.push(channel.nullMask.buffer);
+  }
+  return buffers;
+}
+
+function checkCancelled(jobId: number): void {
+  if (cancelledJobs.has(jobId)) throw new CancelledError();
+}
+
+async function importFile(
+  jobId: number,
+  source: Blob,
+  format: ColumnarFormat,
+  timestampOptions: TimestampOptions,
+  requested: string[]
+): Promise<ColumnarImport> {
+  const file = await openColumnarFile(source, format, timestampOptions.timeZone);
+  checkCancelled(jobId);
+
+  const timeColumn = pickTimeColumn(file.columns);
+  if (!timeColumn) {
+    throw new Error('The file has no column that can hold timestamps');
+  }
+  const columns = file.columns
+    .filter(c => c.kind === 'number' && c !== timeColumn)
+    .map(c => c.name);
+
+  const report = new ImportReportBuilder();
+  report.setChannels(columns);
+  report.dataRows = file.rowCount;
+
+  const time = readTimes(await file.readColumn(timeColumn.name), timestampOptions, report);
+  checkCancelled(jobId);
+
+  // Decode the channels on screen; the rest are read when they are selected
+  let names = requested.filter(name => columns.includes(name));
+  if (!names.length) names = columns.slice(0, 2);
+  const steps = names.length + 1;
+  respond({ type: 'progress', jobId, fraction: 1 / steps });
+
+  const channels = await decodeChannels(jobId, file, names, time.rowOrder, steps);
+  const timestamps = time.offsets;
+
+  return {
+    format,
+    columns,
+    timeColumn: timeColumn.name,
+    rowCount: timestamps.length,
+    timestamps,
+    timeOrigin: time.origin,
+    timeRange: timestamps.length
+      ? [time.origin + timestamps[0], time.origin + timestamps[timestamps.length - 1]]
+      : [0, 0],
+    rowOrder: time.rowOrder,
+    triggerTime: file.triggerTime !== undefined ? Number(file.triggerTime / 1000n) / 1000 : null,
+    channels,
+    report: report.build(timestamps.length, analyzeTiming(timestamps, time.origin))
+  };
+}
+
+/**
+ * A column with a timestamp type, else one whose name looks like a time,
+ * else the first text or number column
+ */
+function pickTimeColumn(columns: FileColumn[]): FileColumn | undefined {
+  return columns.find(c => c.kind === 'timestamp')
+    || columns.find(c => (c.kind === 'text' || c.kind === 'number') && TIME_NAME.test(c.name))
+    || columns.find(c => c.kind === 'text')
+    || columns.find(c => c.kind === 'number');
+}
+
+/**
+ * Converts the time column to sorted offsets from a whole-millisecond origin.
+ * Typed timestamps keep their unit; numbers and text go through the
+ * timestamp format chosen for the file.
+ */
+function readTimes(
+  column: ColumnValues,
+  timestampOptions: TimestampOptions,
+  report: ImportReportBuilder
+): { offsets: Float64Array, origin: number, rowOrder: Uint32Array | null } {
+  const rowCount = column.values.length;
+  const rows: number[] = [];
+  const offsets: number[] = [];
+  let origin = 0;
+
+  if (column.kind === 'timestamp') {
+    // Whole milliseconds below the earliest time, in nanoseconds
+    let minNs: bigint | null = null;
+    for (let i = 0; i < rowCount; i++) {
+      if (column.valid && !column.valid[i]) continue;
+      if (minNs === null || column.values[i] < minNs) minNs = column.values[i];
+    }
+    let originMs = minNs === null ? 0n : minNs / 1000000n;
+    if (minNs !== null && minNs < 0n && minNs % 1000000n !== 0n) originMs -= 1n;
+    const originNs = originMs * 1000000n;
+    origin = Number(originMs);
+
+    for (let i = 0; i < rowCount; i++) {
+      if (column.valid && !column.valid[i]) {
+        report.skipRow(i + 1, 'Missing timestamp', [], '');
+        continue;
+      }
+      rows.push(i);
+      offsets.push(Number(column.values[i] - originNs) / 1e6);
+    }
+  } else {
+    const parseTimestamp = createTimestampParser(timestampOptions);
+    const parsed: ParsedTime = { ms: 0, frac: 0 };
+    let first: number | null = null;
+
+    for (let i = 0; i < rowCount; i++) {
+      const value = column.values[i];
+      if (value === null || (typeof value === 'number' && value !== value)) {
+        report.skipRow(i + 1, 'Missing timestamp', [], '');
+        continue;
+      }
+      const text = String(value);
+      if (!parseTimestamp(text, parsed)) {
+        report.skipRow(i + 1, 'Unreadable timestamp', [text], '');
+        continue;
+      }
+      if (first === null) first = parsed.ms;
+      rows.push(i);
+      offsets.push((parsed.ms - first) + parsed.frac);
+    }
+
+    // Re-base on the earliest row; whole-millisecond shifts keep offsets exact
+    let min = Infinity;
+    for (const offset of offsets) {
+      if (offset < min) min = offset;
+    }
+    const shift = offsets.length ? Math.floor(min) : 0;
+    origin = (first ?? 0) + shift;
+    for (let i = 0; i < offsets.length; i++) offsets[i] -= shift;
+  }
+
+  // Count ordering problems the way the CSV import does, then sort
+  let sorted = true;
+  for (let i = 1; i < offsets.length; i++) {
+    if (offsets[i] === offsets[i - 1]) {
+      report.duplicateTimestamp(rows[i] + 1);
+    } else if (offsets[i] < offsets[i - 1]) {
+      report.outOfOrderTimestamp(rows[i] + 1);
+      sorted = false;
+    }
+  }
+
+  const order = Array.from(offsets.keys());
+  if (!sorted) order.sort((a, b) => offsets[a] - offsets[b]);
+
+  const identity = sorted && rows.length === rowCount;
+  return {
+    offsets: Float64Array.from(order, k => offsets[k]),
+    origin,
+    rowOrder: identity ? null : Uint32Array.from(order, k => rows[k])
+  };
+}
+
+async function decodeChannels(
+  jobId: number,
+  file: ColumnarFile,
+  names: string[],
+  rowOrder: Uint32Array | null,
+  steps: number
+): Promise<DecodedChannel[]> {
+  const channels: DecodedChannel[] = [];
+
+  for (const name of names) {
+    const column = await file.readColumn(name);
+    const unit = file.columns.find(c => c.name === name)?.unit || '';
+    checkCancelled(jobId);
+    if (column.kind !== 'number') {
+      throw new Error(`Column ${name} isn't numeric`);
+    }
+
+    let values = column.values;
+    if (rowOrder) {
+      values = Float64Array.from(rowOrder, row => column.values[row]);
+    }
+
+    // Store as Float32 where that loses nothing
+    const compact = compactValues(values);
+    const { mask, count } = buildNullMask(compact);
+    channels.push({ name, values: compact, nullMask: mask, nullCount: count, unit });
+
+    if (steps) {
+      respond({ type: 'progress', jobId, fraction: (channels.length + 1) / steps });
+    }
+  }
+  return channels;
+}
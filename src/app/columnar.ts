@@ -0,0 +1,91 @@
+/**
+ * Helpers for the columnar typed-array data model, shared by the store and
+ * the CSV parser worker, which builds its columns with them.
+ */
+
+export type ChannelValues = Float32Array | Float64Array;
+
+/**
+ * Index of the first element >= value in a sorted array (length if none)
+ */
+export function lowerBound(sorted: ArrayLike<number>, value: number, start = 0, end = sorted.length): number {
+  let lo = start;
+  let hi = end;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid] < value) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
+
+/**
+ * Index of the first element > value in a sorted array (length if none)
+ */
+export function upperBound(sorted: ArrayLike<number>, value: number, start = 0, end = sorted.length): number {
+  let lo = start;
+  let hi = end;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid] <= value) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
+
+/**
+ * Index of the element closest to value in a sorted array (-1 if empty)
+ */
+export function nearestIndex(sorted: ArrayLike<number>, value: number, start = 0, end = sorted.length): number {
+  if (end <= start) return -1;
+
+  const i = lowerBound(sorted, value, start, end);
+  if (i >= end) return end - 1;
+  if (i <= start) return start;
+
+  // Pick whichever neighbour is closer; ties go to the earlier sample
+  return value - sorted[i - 1] <= sorted[i] - value ? i - 1 : i;
+}
+
+/**
+ * Returns a Float32Array copy when every value survives the conversion
+ * exactly (ADC counts, integers, binary fractions), else the input unchanged
+ */
+export function compactValues(values: Float64Array): ChannelValues {
+  return fitsFloat32(values) ? new Float32Array(values) : values;
+}
+
+/**
+ * Whether every value survives conversion to Float32 exactly
+ */
+export function fitsFloat32(values: ArrayLike<number>): boolean {
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (Math.fround(v) !== v && !isNaN(v)) return false;
+  }
+  return true;
+}
+
+/**
+ * Bitmask with bit i set when values[i] is missing (NaN), or null when nothing is missing
+ */
+export function buildNullMask(values: ChannelValues): { mask: Uint8Array | null; count: number } {
+  let mask: Uint8Array | null = null;
+  let count = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] !== values[i]) {
+      if (!mask) mask = new Uint8Array((values.length + 7) >> 3);
+      mask[i >> 3] |= 1 << (i & 7);
+      count++;
+    }
+  }
+
+  return { mask, count };
+}
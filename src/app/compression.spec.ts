@@ -0,0 +1,105 @@
+import {
+  compressionFromBytes,
+  compressionFromName,
+  innerFileName,
+  listZipEntries,
+  readChunks,
+  readDecompressedHead
+} from './compression';
+
+const CSV = Array.from({ length: 2000 }, (_, i) => `${i},${i * 2}`).join('\n');
+
+async function gzip(text: string): Promise<Blob> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).blob();
+}
+
+/**
+ * Zip archive with stored (uncompressed) members
+ */
+function storedZip(files: Record<string, string>): Blob {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(text);
+
+    const local = new DataView(new ArrayBuffer(30 + nameBytes.length + data.length));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    new Uint8Array(local.buffer).set(nameBytes, 30);
+    new Uint8Array(local.buffer).set(data, 30 + nameBytes.length);
+
+    const central = new DataView(new ArrayBuffer(46 + nameBytes.length));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+    new Uint8Array(central.buffer).set(nameBytes, 46);
+
+    locals.push(new Uint8Array(local.buffer));
+    centrals.push(new Uint8Array(central.buffer));
+    offset += local.byteLength;
+  }
+
+  const directorySize = centrals.reduce((sum, c) => sum + c.byteLength, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, centrals.length, true);
+  end.setUint16(10, centrals.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...locals, ...centrals, end.buffer]);
+}
+
+describe('compression', () => {
+  it('should detect compression from names and first bytes', () => {
+    expect(compressionFromName('run.csv.gz')).toBe('gzip');
+    expect(compressionFromName('run.csv.zst')).toBe('zstd');
+    expect(compressionFromName('captures.ZIP')).toBe('zip');
+    expect(compressionFromName('run.csv')).toBeNull();
+
+    expect(compressionFromBytes(new Uint8Array([0x1F, 0x8B, 8, 0]))).toBe('gzip');
+    expect(compressionFromBytes(new Uint8Array([0x28, 0xB5, 0x2F, 0xFD]))).toBe('zstd');
+    expect(compressionFromBytes(new Uint8Array([0x78, 0x9C, 0, 0]))).toBe('deflate');
+    expect(compressionFromBytes(new TextEncoder().encode('80,1\n'))).toBeNull();
+
+    expect(innerFileName('run.csv.gz', { format: 'gzip' })).toBe('run.csv');
+  });
+
+  it('should decompress gzip in slices with progress in compressed bytes', async () => {
+    const source = await gzip(CSV);
+    const chunks = [];
+    for await (const chunk of readChunks(source, { format: 'gzip' }, 4096)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.slice(0, -1).every(chunk => chunk.bytes.byteLength >= 4096)).toBeTrue();
+    expect(chunks[chunks.length - 1].fraction).toBe(1);
+    const text = new TextDecoder().decode(new Uint8Array(await new Blob(chunks.map(c => c.bytes)).arrayBuffer()));
+    expect(text).toBe(CSV);
+
+    const head = await readDecompressedHead(source, { format: 'gzip' }, 10);
+    expect(new TextDecoder().decode(head.bytes)).toBe(CSV.slice(0, 10));
+    expect(head.more).toBeTrue();
+  });
+
+  it('should list and read zip members', async () => {
+    const archive = storedZip({ 'notes/': '', 'a.csv': 'time,a\n1,2\n', 'b.csv': 'time,b\n3,4\n' });
+
+    const entries = await listZipEntries(archive);
+    expect(entries.map(e => e.name)).toEqual(['a.csv', 'b.csv']);
+
+    const { bytes, more } = await readDecompressedHead(archive, { format: 'zip', entry: entries[1] }, 1000);
+    expect(new TextDecoder().decode(bytes)).toBe('time,b\n3,4\n');
+    expect(more).toBeFalse();
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Streaming decompression of gzip, zlib/deflate and zstd files and of
+ * members of zip archives. Data is decompressed as it is read, and progress
+ * is measured in compressed bytes.
+ */
+import { Decompress } from 'fzstd';
+
+export type CompressionFormat = 'gzip' | 'deflate' | 'zstd' | 'zip';
+
+export interface ZipEntry {
+  name: string;
+  // 0 stored, 8 deflate
+  method: number;
+  compressedSize: number;
+  size: number;
+  // Offset of the member's local header
+  offset: number;
+}
+
+export type Compression =
+  | { format: 'gzip' | 'deflate' | 'zstd' }
+  | { format: 'zip'; entry: ZipEntry };
+
+export interface SourceChunk {
+  bytes: Uint8Array;
+  // Share of the (compressed) source read so far
+  fraction: number;
+}
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END = 0x06054b50;
+const ZIP64_END = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+// End record plus the longest possible archive comment
+const ZIP_END_SEARCH = 22 + 0xFFFF;
+
+/**
+ * Compression of a file from its name, or null for uncompressed files
+ */
+export function compressionFromName(name: string): CompressionFormat | null {
+  const lower = name.toLowerCase();
+  if (/\.(gz|gzip)$/.test(lower)) return 'gzip';
+  if (/\.(zz|deflate)$/.test(lower)) return 'deflate';
+  if (/\.(zst|zstd)$/.test(lower)) return 'zstd';
+  if (/\.zip$/.test(lower)) return 'zip';
+  return null;
+}
+
+/**
+ * Compression of a file from its first four bytes
+ */
+export function compressionFromBytes(head: Uint8Array): CompressionFormat | null {
+  if (head[0] === 0x1F && head[1] === 0x8B) return 'gzip';
+  if (head[0] === 0x28 && head[1] === 0xB5 && head[2] === 0x2F && head[3] === 0xFD) return 'zstd';
+  if (head[0] === 0x50 && head[1] === 0x4B && head[2] === 0x03 && head[3] === 0x04) return 'zip';
+  // zlib header with the usual 32 KB window; other windows would also match plain text
+  if (head[0] === 0x78 && [0x01, 0x5E, 0x9C, 0xDA].includes(head[1])) return 'deflate';
+  return null;
+}
+
+/**
+ * Name of the file inside: the archive member, or the name without the
+ * compression extension ('run.csv.gz' -> 'run.csv')
+ */
+export function innerFileName(name: string, compression: Compression): string {
+  if (compression.format === 'zip') return compression.entry.name;
+  return name.replace(/\.(gz|gzip|zz|deflate|zst|zstd)$/i, '');
+}
+
+/**
+ * Files in a zip archive, read from its central directory. Folders and
+ * encrypted members are left out.
+ */
+export async function listZipEntries(source: Blob): Promise<ZipEntry[]> {
+  const tailStart = Math.max(0, source.size - ZIP_END_SEARCH);
+  const tail = await readView(source, tailStart, source.size);
+
+  let end = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === ZIP_END) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('Not a zip archive (no central directory)');
+  }
+
+  let count = tail.getUint16(end + 10, true);
+  let directorySize = tail.getUint32(end + 12, true);
+  let directoryOffset = tail.getUint32(end + 16, true);
+
+  // Zip64 archives keep the real values in a separate end record
+  if (directoryOffset === 0xFFFFFFFF && end >= 20 && tail.getUint32(end - 20, true) === ZIP64_LOCATOR) {
+    const recordOffset = Number(tail.getBigUint64(end - 12, true));
+    const record = await readView(source, recordOffset, recordOffset + 56);
+    if (record.getUint32(0, true) !== ZIP64_END) {
+      throw new Error('Damaged zip64 archive');
+    }
+    count = Number(record.getBigUint64(32, true));
+    directorySize = Number(record.getBigUint64(40, true));
+    directoryOffset = Number(record.getBigUint64(48, true));
+  }
+
+  const directory = await readView(source, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+
+  for (let i = 0; i < count && pos + 46 <= directory.byteLength; i++) {
+    if (directory.getUint32(pos, true) !== ZIP_CENTRAL_HEADER) {
+      throw new Error('Damaged zip central directory');
+    }
+    const flags = directory.getUint16(pos + 8, true);
+    const nameLength = directory.getUint16(pos + 28, true);
+    const extraLength = directory.getUint16(pos + 30, true);
+    const commentLength = directory.getUint16(pos + 32, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + pos + 46, nameLength));
+
+    const entry: ZipEntry = {
+      name,
+      method: directory.getUint16(pos + 10, true),
+      compressedSize: directory.getUint32(pos + 20, true),
+      size: directory.getUint32(pos + 24, true),
+      offset: directory.getUint32(pos + 42, true)
+    };
+    readZip64Extra(directory, pos + 46 + nameLength, extraLength, entry);
+
+    const encrypted = flags & 1;
+    if (!name.endsWith('/') && !encrypted) entries.push(entry);
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Reads the source in slices of about `sliceSize` decompressed bytes
+ */
+export async function* readChunks(
+  source: Blob,
+  compression: Compression | null,
+  sliceSize: number
+): AsyncGenerator<SourceChunk> {
+  if (!compression) {
+    for (let offset = 0; offset < source.size; offset += sliceSize) {
+      const bytes = new Uint8Array(await source.slice(offset, offset + sliceSize).arrayBuffer());
+      yield { bytes, fraction: Math.min(1, (offset + bytes.byteLength) / source.size) };
+    }
+    return;
+  }
+
+  let read = 0;
+  const total = compression.format === 'zip' ? compression.entry.compressedSize : source.size;
+  const reader = (await decompressedStream(source, compression, bytes => read = bytes)).getReader();
+
+  // Decompressors hand out small pieces; gather them into slices
+  let parts: Uint8Array[] = [];
+  let buffered = 0;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (value) {
+        parts.push(value);
+        buffered += value.byteLength;
+      }
+      if (buffered && (done || buffered >= sliceSize)) {
+        yield { bytes: concat(parts, buffered), fraction: total ? Math.min(1, read / total) : 1 };
+        parts = [];
+        buffered = 0;
+      }
+      if (done) break;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * The first `size` decompressed bytes (fewer when the data is shorter), and
+ * whether more follow
+ */
+export async function readDecompressedHead(
+  source: Blob,
+  compression: Compression,
+  size: number
+): Promise<{ bytes: Uint8Array, more: boolean }> {
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  let more = false;
+
+  for await (const chunk of readChunks(source, compression, size)) {
+    if (length >= size) {
+      more = true;
+      break;
+    }
+    parts.push(chunk.bytes);
+    length += chunk.bytes.byteLength;
+  }
+  if (length > size) more = true;
+  return { bytes: concat(parts, length).subarray(0, size), more };
+}
+
+/**
+ * Decompresses a whole file, for formats that need random access
+ */
+export async function decompressToBlob(source: Blob, compression: Compression): Promise<Blob> {
+  return new Response(await decompressedStream(source, compression)).blob();
+}
+
+async function decompressedStream(
+  source: Blob,
+  compression: Compression,
+  onRead?: (compressedBytes: number) => void
+): Promise<ReadableStream<Uint8Array>> {
+  let data = source;
+
+  if (compression.format === 'zip') {
+    const { entry } = compression;
+    const header = await readView(source, entry.offset, entry.offset + 30);
+    if (header.getUint32(0, true) !== ZIP_LOCAL_HEADER) {
+      throw new Error(`Damaged zip member ${entry.name}`);
+    }
+    const start = entry.offset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+    data = source.slice(start, start + entry.compressedSize);
+    if (entry.method !== 0 && entry.method !== 8) {
+      throw new Error(`${entry.name} uses an unsupported zip compression method (${entry.method})`);
+    }
+  }
+
+  let read = 0;
+  const counted = data.stream().pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform: (chunk, controller) => {
+      read += chunk.byteLength;
+      onRead?.(read);
+      controller.enqueue(chunk);
+    }
+  }));
+
+  switch (compression.format) {
+    case 'gzip':
+      return counted.pipeThrough(new DecompressionStream('gzip') as TransformStream<Uint8Array, Uint8Array>);
+    case 'deflate':
+      return counted.pipeThrough(new DecompressionStream('deflate') as TransformStream<Uint8Array, Uint8Array>);
+    case 'zstd':
+      return counted.pipeThrough(zstdStream());
+    case 'zip':
+      return compression.entry.method === 8
+        ? counted.pipeThrough(new DecompressionStream('deflate-raw') as TransformStream<Uint8Array, Uint8Array>)
+        : counted;
+  }
+}
+
+function zstdStream(): TransformStream<Uint8Array, Uint8Array> {
+  let decoder: Decompress;
+  return new TransformStream({
+    start: controller => {
+      decoder = new Decompress(chunk => controller.enqueue(chunk));
+    },
+    transform: chunk => {
+      decoder.push(chunk);
+    },
+    flush: () => {
+      decoder.push(new Uint8Array(0), true);
+    }
+  });
+}
+
+/**
+ * Replaces sizes and offset stored as 0xFFFFFFFF with their zip64 values
+ */
+function readZip64Extra(view: DataView, start: number, length: number, entry: ZipEntry): void {
+  for (let pos = start; pos + 4 <= start + length;) {
+    const id = view.getUint16(pos, true);
+    const size = view.getUint16(pos + 2, true);
+    if (id === 0x0001) {
+      let field = pos + 4;
+      const next = () => {
+        const value = Number(view.getBigUint64(field, true));
+        field += 8;
+        return value;
+      };
+      if (entry.size === 0xFFFFFFFF) entry.size = next();
+      if (entry.compressedSize === 0xFFFFFFFF) entry.compressedSize = next();
+      if (entry.offset === 0xFFFFFFFF) entry.offset = next();
+      return;
+    }
+    pos += 4 + size;
+  }
+}
+
+async function readView(source: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await source.slice(start, end).arrayBuffer());
+}
+
+function concat(parts: Uint8Array[], length: number): Uint8Array {
+  if (parts.length === 1) return parts[0];
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.byteLength;
+  }
+  return bytes;
+}
@@ -0,0 +1,84 @@
+import { combineComtradeFiles, openComtrade, parseComtradeConfig } from './comtrade';
+
+const ASCII_CFG = [
+  'Station A,Relay 1,1999',
+  '3,2A,1D',
+  '1,IA,A,Line1,A,0.5,1,0,-32767,32767,1000,1,P',
+  '2,VA,A,Line1,kV,0.1,0,0,-32767,32767,100,1,P',
+  '1,Trip,,Line1,0',
+  '50',
+  '1',
+  '1000,4',
+  '01/02/2024,10:00:00.000000',
+  '01/02/2024,10:00:00.002000',
+  'ASCII',
+  '1'
+].join('\r\n');
+
+const ASCII_DAT = '1,0,10,100,0\r\n2,1000,20,99999,1\r\n3,2000,30,300,1\r\n4,3000,40,400,0\r\n';
+
+describe('COMTRADE', () => {
+  it('should read the configuration', () => {
+    const config = parseComtradeConfig(ASCII_CFG);
+
+    expect(config.revision).toBe(1999);
+    expect(config.analog.map(c => c.unit)).toEqual(['A', 'kV']);
+    expect(config.digital[0].name).toBe('Trip');
+    expect(config.rates).toEqual([{ rate: 1000, lastSample: 4 }]);
+    expect(config.start.wallMs).toBe(Date.UTC(2024, 1, 1, 10));
+    expect(config.fileType).toBe('ASCII');
+  });
+
+  it('should scale ASCII samples and time them from the sample rate', async () => {
+    const file = await openComtrade(await combineComtradeFiles(new Blob([ASCII_CFG]), new Blob([ASCII_DAT])), 'UTC');
+    const start = BigInt(Date.UTC(2024, 1, 1, 10)) * 1000000n;
+
+    expect(file.columns.map(c => c.name)).toEqual(['Time', 'IA', 'VA', 'Trip']);
+    expect(file.columns[2].unit).toBe('kV');
+    expect(file.triggerTime).toBe(start + 2000000n);
+
+    const time = await file.readColumn('Time');
+    expect(Array.from(time.values as BigInt64Array)).toEqual([start, start + 1000000n, start + 2000000n, start + 3000000n]);
+    expect(Array.from((await file.readColumn('IA')).values as Float64Array)).toEqual([6, 11, 16, 21]);
+    expect((await file.readColumn('VA')).values[1]).toBeNaN();
+    expect(Array.from((await file.readColumn('Trip')).values as Float64Array)).toEqual([0, 1, 1, 0]);
+  });
+
+  it('should read binary samples with timestamps and a time code', async () => {
+    const cfg = [
+      'S,D,2013',
+      '2,1A,1D',
+      '1,I,,,A,2,0,0,-32767,32767,1,1,S',
+      '1,Flag,,,0',
+      '60',
+      '0',
+      '0,2',
+      '15/06/2023,12:00:00.000000',
+      '15/06/2023,12:00:00.000000',
+      'BINARY',
+      '1',
+      '+2h00,+2h00'
+    ].join('\n');
+
+    // Sample number, timestamp, one int16 analog value and one word of digital bits
+    const dat = new DataView(new ArrayBuffer(24));
+    dat.setUint32(0, 1, true);
+    dat.setUint32(4, 0, true);
+    dat.setInt16(8, 5, true);
+    dat.setUint16(10, 1, true);
+    dat.setUint32(12, 2, true);
+    dat.setUint32(16, 500, true);
+    dat.setInt16(20, -0x8000, true);
+    dat.setUint16(22, 0, true);
+
+    const file = await openComtrade(await combineComtradeFiles(new Blob([cfg]), new Blob([dat.buffer])), 'local');
+    // Recorded two hours ahead of UTC
+    const start = BigInt(Date.UTC(2023, 5, 15, 10)) * 1000000n;
+
+    expect(Array.from((await file.readColumn('Time')).values as BigInt64Array)).toEqual([start, start + 500000n]);
+    const current = await file.readColumn('I');
+    expect(current.values[0]).toBe(10);
+    expect(current.values[1]).toBeNaN();
+    expect(Array.from((await file.readColumn('Flag')).values as Float64Array)).toEqual([1, 0]);
+  });
+});
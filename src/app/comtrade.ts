@@ -0,0 +1,424 @@
+/**
+ * IEEE C37.111 (COMTRADE) reader for the 1991, 1999 and 2013 revisions.
+ * Reads the combined .cff layout; a separate .cfg/.dat pair is combined
+ * into one first. Analog values are scaled to engineering units with the
+ * channel's a·x + b factors; digital channels read as 0 or 1.
+ */
+import type { ColumnarFile, ColumnValues, FileColumn } from './columnar-file';
+import { wallClockToEpoch } from './timestamp-formats';
+
+export type ComtradeFileType = 'ASCII' | 'BINARY' | 'BINARY32' | 'FLOAT32';
+
+export interface ComtradeAnalogChannel {
+  name: string;
+  phase: string;
+  circuit: string;
+  unit: string;
+  a: number;
+  b: number;
+  // Time skew from the sample time in microseconds
+  skew: number;
+  primary: number;
+  secondary: number;
+  // Whether a·x + b gives primary or secondary values
+  scaling: 'P' | 'S';
+}
+
+export interface ComtradeDigitalChannel {
+  name: string;
+  phase: string;
+  circuit: string;
+  normalState: number;
+}
+
+export interface ComtradeSampleRate {
+  // Samples per second; 0 when the data file timestamps are used
+  rate: number;
+  // Number of the last sample taken at this rate
+  lastSample: number;
+}
+
+export interface ComtradeTime {
+  // Wall-clock time to the millisecond, expressed as if it were UTC
+  wallMs: number;
+  // Nanoseconds past wallMs
+  ns: bigint;
+  // Digits given after the seconds' decimal point
+  digits: number;
+}
+
+export interface ComtradeConfig {
+  station: string;
+  device: string;
+  revision: 1991 | 1999 | 2013;
+  analog: ComtradeAnalogChannel[];
+  digital: ComtradeDigitalChannel[];
+  lineFrequency: number;
+  rates: ComtradeSampleRate[];
+  start: ComtradeTime;
+  trigger: ComtradeTime;
+  fileType: ComtradeFileType;
+  timeMultiplier: number;
+  // Minutes the recorded times are ahead of UTC (2013 time code); null when not given
+  utcOffset: number | null;
+}
+
+const SECTION_MARKER = '--- file type:';
+const FILE_TYPES: ComtradeFileType[] = ['ASCII', 'BINARY', 'BINARY32', 'FLOAT32'];
+
+// Values written for missing samples
+const ASCII_MISSING = 99999;
+const INT16_MISSING = -0x8000;
+const INT32_MISSING = -0x80000000;
+const TIMESTAMP_MISSING = 0xFFFFFFFF;
+
+/**
+ * Whether a file starts like a combined .cff file
+ */
+export function isCombinedComtrade(head: Uint8Array): boolean {
+  return String.fromCharCode(...head.subarray(0, SECTION_MARKER.length)) === SECTION_MARKER;
+}
+
+export function parseComtradeConfig(text: string): ComtradeConfig {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line);
+  let at = 0;
+  const next = (what: string): string[] => {
+    if (at >= lines.length) {
+      throw new Error(`COMTRADE configuration ends before the ${what}`);
+    }
+    return lines[at++].split(',').map(field => field.trim());
+  };
+
+  const [station = '', device = '', year = ''] = next('station line');
+  const revision = year === '2013' ? 2013 : year === '1999' ? 1999 : 1991;
+
+  const counts = next('channel counts');
+  const analogCount = parseInt(counts[1], 10);
+  const digitalCount = parseInt(counts[2], 10);
+  if (!(analogCount >= 0) || !(digitalCount >= 0) || parseInt(counts[0], 10) !== analogCount + digitalCount) {
+    throw new Error(`Unreadable COMTRADE channel counts "${counts.join(',')}"`);
+  }
+
+  const analog: ComtradeAnalogChannel[] = [];
+  for (let i = 0; i < analogCount; i++) {
+    const f = next('analog channels');
+    const channel = {
+      name: f[1] || `A${i + 1}`,
+      phase: f[2] || '',
+      circuit: f[3] || '',
+      unit: f[4] || '',
+      a: parseFloat(f[5]),
+      b: parseFloat(f[6]) || 0,
+      skew: parseFloat(f[7]) || 0,
+      primary: parseFloat(f[10]) || 1,
+      secondary: parseFloat(f[11]) || 1,
+      scaling: (f[12] || '').toUpperCase() === 'S' ? 'S' as const : 'P' as const
+    };
+    if (!isFinite(channel.a)) {
+      throw new Error(`COMTRADE analog channel ${channel.name} has no scaling factor`);
+    }
+    analog.push(channel);
+  }
+
+  const digital: ComtradeDigitalChannel[] = [];
+  for (let i = 0; i < digitalCount; i++) {
+    const f = next('digital channels');
+    // 1991 digital lines have no phase or circuit fields
+    digital.push(revision === 1991
+      ? { name: f[1] || `D${i + 1}`, phase: '', circuit: '', normalState: parseInt(f[2], 10) || 0 }
+      : { name: f[1] || `D${i + 1}`, phase: f[2] || '', circuit: f[3] || '', normalState: parseInt(f[4], 10) || 0 });
+  }
+
+  const lineFrequency = parseFloat(next('line frequency')[0]) || 0;
+
+  // One sample rate line follows even when there are none (0,lastSample)
+  const rateCount = parseInt(next('number of sample rates')[0], 10) || 0;
+  const rates: ComtradeSampleRate[] = [];
+  for (let i = 0; i < Math.max(1, rateCount); i++) {
+    const [rate, lastSample] = next('sample rates');
+    rates.push({ rate: parseFloat(rate) || 0, lastSample: parseInt(lastSample, 10) || 0 });
+  }
+
+  const start = parseComtradeTime(next('start time'), revision);
+  const trigger = parseComtradeTime(next('trigger time'), revision);
+
+  const fileType = next('file type')[0].toUpperCase() as ComtradeFileType;
+  if (!FILE_TYPES.includes(fileType)) {
+    throw new Error(`Unsupported COMTRADE data file type "${fileType}"`);
+  }
+
+  const timeMultiplier = at < lines.length ? parseFloat(next('time multiplier')[0]) || 1 : 1;
+  const utcOffset = revision === 2013 && at < lines.length ? parseTimeCode(next('time code')[0]) : null;
+
+  return {
+    station,
+    device,
+    revision,
+    analog,
+    digital,
+    lineFrequency,
+    rates: rates.filter(r => r.lastSample > 0),
+    start,
+    trigger,
+    fileType,
+    timeMultiplier,
+    utcOffset
+  };
+}
+
+/**
+ * Builds a combined .cff file from a .cfg and its .dat without copying the data
+ */
+export async function combineComtradeFiles(cfg: Blob, dat: Blob): Promise<Blob> {
+  const text = await cfg.text();
+  const { fileType } = parseComtradeConfig(text);
+  const datHeader = fileType === 'ASCII' ? 'DAT ASCII' : `DAT BINARY: ${dat.size}`;
+
+  return new Blob([
+    `${SECTION_MARKER} CFG ---\r\n`,
+    text.replace(/\s*$/, '\r\n'),
+    `${SECTION_MARKER} ${datHeader} ---\r\n`,
+    dat
+  ]);
+}
+
+/**
+ * Opens a combined .cff file. Recorded times without a time code are read
+ * as wall-clock times in `timeZone`.
+ */
+export async function openComtrade(source: Blob, timeZone: string): Promise<ColumnarFile> {
+  const { config, data } = splitCombinedFile(new Uint8Array(await source.arrayBuffer()));
+  const samples = config.fileType === 'ASCII' ? asciiSamples(data, config) : binarySamples(data, config);
+  const toEpochNs = (time: ComtradeTime) => {
+    const ms = config.utcOffset !== null
+      ? time.wallMs - config.utcOffset * 60000
+      : wallClockToEpoch(time.wallMs, timeZone);
+    return BigInt(ms) * 1000000n + time.ns;
+  };
+
+  const names = uniqueNames(['Time', ...config.analog.map(c => c.name), ...config.digital.map(c => c.name)]);
+  const columns: FileColumn[] = [
+    { name: names[0], kind: 'timestamp', type: 'sample time' },
+    ...config.analog.map((c, i) => ({ name: names[1 + i], kind: 'number' as const, type: 'analog', unit: c.unit })),
+    ...config.digital.map((_, i) => ({ name: names[1 + config.analog.length + i], kind: 'number' as const, type: 'digital' }))
+  ];
+
+  return {
+    format: 'comtrade',
+    rowCount: samples.count,
+    columns,
+    triggerTime: toEpochNs(config.trigger),
+    readColumn: async name => {
+      const index = names.indexOf(name);
+      if (index === -1) {
+        throw new Error(`Column ${name} can't be read as numbers or times`);
+      }
+      if (index === 0) {
+        return sampleTimes(config, samples, toEpochNs(config.start));
+      }
+
+      const values = new Float64Array(samples.count);
+      if (index <= config.analog.length) {
+        const { a, b } = config.analog[index - 1];
+        for (let i = 0; i < samples.count; i++) values[i] = a * samples.analog(index - 1, i) + b;
+      } else {
+        const channel = index - 1 - config.analog.length;
+        for (let i = 0; i < samples.count; i++) values[i] = samples.digital(channel, i);
+      }
+      return { kind: 'number', values };
+    }
+  };
+}
+
+interface SampleTable {
+  count: number;
+  // Raw timestamp, or null when the field is empty
+  timestamp(row: number): number | null;
+  // Raw analog value, NaN when missing
+  analog(channel: number, row: number): number;
+  digital(channel: number, row: number): number;
+}
+
+function splitCombinedFile(bytes: Uint8Array): { config: ComtradeConfig, data: Uint8Array } {
+  const sections: Array<{ type: string, size: number | null, start: number, end: number }> = [];
+  let pos = 0;
+
+  // Section headers look like "--- file type: DAT BINARY: 1234 ---"
+  while (pos < bytes.length) {
+    const lineEnd = bytes.indexOf(0x0A, pos);
+    const next = lineEnd === -1 ? bytes.length : lineEnd + 1;
+
+    if (latin1(bytes, pos, pos + SECTION_MARKER.length) === SECTION_MARKER) {
+      const line = latin1(bytes, pos, next).trim();
+      const [type, size] = line.slice(SECTION_MARKER.length).replace(/-+$/, '').split(':').map(s => s.trim());
+      const previous = sections[sections.length - 1];
+      if (previous && previous.end < 0) previous.end = pos;
+      const section = { type: type.toUpperCase(), size: size ? parseInt(size, 10) : null, start: next, end: -1 };
+      sections.push(section);
+
+      // Binary data can contain anything, so skip over it
+      if (section.size !== null) {
+        section.end = Math.min(bytes.length, next + section.size);
+        pos = section.end;
+        continue;
+      }
+    }
+    pos = next;
+  }
+  const last = sections[sections.length - 1];
+  if (last && last.end < 0) last.end = bytes.length;
+
+  const cfg = sections.find(s => s.type === 'CFG');
+  const dat = sections.find(s => s.type.startsWith('DAT'));
+  if (!cfg || !dat) {
+    throw new Error('Not a COMTRADE file: the CFG or DAT section is missing');
+  }
+
+  return {
+    config: parseComtradeConfig(new TextDecoder().decode(bytes.subarray(cfg.start, cfg.end))),
+    data: bytes.subarray(dat.start, dat.end)
+  };
+}
+
+function asciiSamples(data: Uint8Array, config: ComtradeConfig): SampleTable {
+  const lines = new TextDecoder().decode(data).split(/\r?\n/).filter(line => line.trim());
+  const width = 2 + config.analog.length + config.digital.length;
+  const table = new Float64Array(lines.length * width).fill(NaN);
+
+  lines.forEach((line, row) => {
+    const fields = line.split(',');
+    for (let i = 0; i < width && i < fields.length; i++) {
+      const field = fields[i].trim();
+      const value = field === '' ? NaN : Number(field);
+      table[row * width + i] = value === ASCII_MISSING && i >= 2 ? NaN : value;
+    }
+  });
+
+  return {
+    count: lines.length,
+    timestamp: row => {
+      const value = table[row * width + 1];
+      return value === value ? value : null;
+    },
+    analog: (channel, row) => table[row * width + 2 + channel],
+    digital: (channel, row) => table[row * width + 2 + config.analog.length + channel] ? 1 : 0
+  };
+}
+
+function binarySamples(data: Uint8Array, config: ComtradeConfig): SampleTable {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const analogSize = config.fileType === 'BINARY' ? 2 : 4;
+  const digitalOffset = 8 + config.analog.length * analogSize;
+  const recordSize = digitalOffset + Math.ceil(config.digital.length / 16) * 2;
+
+  const readAnalog = config.fileType === 'BINARY'
+    ? (at: number) => {
+        const value = view.getInt16(at, true);
+        return value === INT16_MISSING ? NaN : value;
+      }
+    : config.fileType === 'BINARY32'
+      ? (at: number) => {
+          const value = view.getInt32(at, true);
+          return value === INT32_MISSING ? NaN : value;
+        }
+      : (at: number) => view.getFloat32(at, true);
+
+  return {
+    count: Math.floor(data.byteLength / recordSize),
+    timestamp: row => {
+      const value = view.getUint32(row * recordSize + 4, true);
+      return value === TIMESTAMP_MISSING ? null : value;
+    },
+    analog: (channel, row) => readAnalog(row * recordSize + 8 + channel * analogSize),
+    digital: (channel, row) => {
+      // Sixteen channels per word, the first in the lowest bit
+      const word = view.getUint16(row * recordSize + digitalOffset + (channel >> 4) * 2, true);
+      return (word >> (channel & 15)) & 1;
+    }
+  };
+}
+
+/**
+ * Epoch nanoseconds of every sample: from the sample rate table when it has
+ * rates, else from the data file timestamps
+ */
+function sampleTimes(config: ComtradeConfig, samples: SampleTable, startNs: bigint): ColumnValues {
+  const values = new BigInt64Array(samples.count);
+  let valid: Uint8Array | null = null;
+
+  if (config.rates.length && config.rates.every(r => r.rate > 0)) {
+    // Each sample is one period of its own rate after the one before
+    let segment = 0;
+    let baseRow = 0;
+    let baseNs = 0;
+    for (let i = 0; i < samples.count; i++) {
+      while (segment < config.rates.length - 1 && i >= config.rates[segment].lastSample) {
+        const lastRow = config.rates[segment].lastSample - 1;
+        baseNs += (lastRow - baseRow) * 1e9 / config.rates[segment].rate;
+        baseRow = lastRow;
+        segment++;
+      }
+      const offsetNs = baseNs + (i - baseRow) * 1e9 / config.rates[segment].rate;
+      values[i] = startNs + BigInt(Math.round(offsetNs));
+    }
+    return { kind: 'timestamp', values, valid };
+  }
+
+  // Timestamps count microseconds, or nanoseconds when the start time has nanosecond digits
+  const unitNs = (config.start.digits > 6 ? 1 : 1000) * config.timeMultiplier;
+  for (let i = 0; i < samples.count; i++) {
+    const timestamp = samples.timestamp(i);
+    if (timestamp === null) {
+      if (!valid) valid = new Uint8Array(samples.count).fill(1);
+      valid[i] = 0;
+      continue;
+    }
+    values[i] = startNs + BigInt(Math.round(timestamp * unitNs));
+  }
+  return { kind: 'timestamp', values, valid };
+}
+
+/**
+ * Reads "dd/mm/yyyy,hh:mm:ss.ssssss" (1991 files: "mm/dd/yy,...")
+ */
+function parseComtradeTime(fields: string[], revision: number): ComtradeTime {
+  const date = (fields[0] || '').split('/').map(part => parseInt(part, 10));
+  const clock = /^(\d{1,2}):(\d{1,2}):(\d{1,2})(?:\.(\d*))?$/.exec(fields[1] || '');
+  if (date.length !== 3 || date.some(part => isNaN(part)) || !clock) {
+    throw new Error(`Unreadable COMTRADE time "${fields.join(',')}"`);
+  }
+
+  let [day, month, year] = revision === 1991 ? [date[1], date[0], date[2]] : date;
+  if (year < 100) year += year < 70 ? 2000 : 1900;
+
+  const digits = (clock[4] || '').slice(0, 9);
+  const fracNs = BigInt(digits.padEnd(9, '0'));
+  const wallMs = Date.UTC(year, month - 1, day, +clock[1], +clock[2], +clock[3]) + Number(fracNs / 1000000n);
+
+  return { wallMs, ns: fracNs % 1000000n, digits: digits.length };
+}
+
+/**
+ * Reads time codes such as "+5", "-4h30" or "0"; "x" means not given
+ */
+function parseTimeCode(code: string): number | null {
+  const match = /^([+-]?)(\d+)(?:h(\d+))?$/i.exec(code);
+  if (!match) return null;
+  const minutes = parseInt(match[2], 10) * 60 + (match[3] ? parseInt(match[3], 10) : 0);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+function uniqueNames(names: string[]): string[] {
+  const seen = new Map<string, number>();
+  return names.map(name => {
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name} (${count})`;
+  });
+}
+
+function latin1(bytes: Uint8Array, start: number, end: number): string {
+  let text = '';
+  for (let i = start; i < end && i < bytes.length; i++) text += String.fromCharCode(bytes[i]);
+  return text;
+}
@@ -0,0 +1,68 @@
+import { buildLayout, detectDialect, lastRowEnd, previewSample, toNumber } from './csv-dialect';
+
+describe('csv dialect detection', () => {
+  it('should detect a plain comma-separated file', () => {
+    const dialect = detectDialect('TimeStamp,Voltage,Current\n2024-01-01 00:00:00,1.5,2\n2024-01-01 00:00:01,1.6,2.1\n');
+    expect(dialect.delimiter).toBe(',');
+    expect(dialect.hasHeader).toBeTrue();
+    expect(dialect.skipLines).toBe(0);
+    expect(dialect.timeColumn).toBe(0);
+    expect(dialect.decimalComma).toBeFalse();
+  });
+
+  it('should detect semicolons with decimal commas', () => {
+    const dialect = detectDialect('Zeit;U1;I1\n01.03.2024 10:00:00,5;1,25;0,5\n01.03.2024 10:00:01,5;1,5;0,75\n');
+    expect(dialect.delimiter).toBe(';');
+    expect(dialect.decimalComma).toBeTrue();
+    expect(toNumber('1,25', dialect.decimalComma)).toBe(1.25);
+  });
+
+  it('should skip a logger preamble and comments and read a unit row', () => {
+    const sample = [
+      '# exported by logger v2',
+      'Device: DL-42',
+      'Sample rate: 1 kHz',
+      '',
+      'Channel\tVoltage\t"Current, phase A"\tTime',
+      '\t[V]\t[A]\t[s]',
+      '1\t0.1\t0.2\t0.000',
+      '2\t0.2\t0.3\t0.001',
+      '3\t0.3\t0.4\t0.002'
+    ].join('\n') + '\n';
+
+    const dialect = detectDialect(sample);
+    expect(dialect.delimiter).toBe('\t');
+    expect(dialect.commentPrefix).toBe('#');
+    expect(dialect.skipLines).toBe(4);
+    expect(dialect.unitRow).toBeTrue();
+    expect(dialect.timeColumn).toBe(3);
+
+    const preview = previewSample(sample, dialect);
+    expect(preview.layout.names[2]).toBe('Current, phase A');
+    expect(preview.layout.units).toEqual(['', 'V', 'A', 's']);
+    expect(preview.rows.length).toBe(3);
+  });
+
+  it('should handle files without a header and a BOM', () => {
+    const dialect = detectDialect('\uFEFF1700000000|1.5|2\n1700000001|1.6|2.1\n');
+    expect(dialect.delimiter).toBe('|');
+    expect(dialect.hasHeader).toBeFalse();
+  });
+
+  it('should give blank and duplicate headers unique names', () => {
+    expect(buildLayout(['Time', 'V', 'V', ''], null, 4).names).toEqual(['Time', 'V', 'V (2)', 'Column 4']);
+  });
+
+  it('should end slices at line breaks outside quoted cells', () => {
+    expect(lastRowEnd('t,note\n1,"two\nlines"\n2,"cut\nshort')).toBe(20);
+    expect(lastRowEnd('1,"say ""hi""\nthere"\n2,"open')).toBe(20);
+    expect(lastRowEnd('1,"no row ends\nhere')).toBe(-1);
+  });
+
+  it('should treat empty cells as missing', () => {
+    expect(toNumber('', false)).toBeNaN();
+    expect(toNumber(' ', false)).toBeNaN();
+    expect(toNumber('abc', false)).toBeNaN();
+    expect(toNumber('1e3', false)).toBe(1000);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * CSV dialect detection: delimiter, decimal separator, comment and preamble
+ * lines, header and unit rows, and which column holds the time.
+ */
+import { parse } from 'papaparse';
+
+export interface CsvDialect {
+  delimiter: string;
+  // Values use ',' as the decimal separator (1,5 instead of 1.5)
+  decimalComma: boolean;
+  // Lines starting with this are ignored; empty when the file has none
+  commentPrefix: string;
+  // Physical lines before the header row (logger preambles, comments)
+  skipLines: number;
+  // False when the first row already holds data; columns are then numbered
+  hasHeader: boolean;
+  // The row after the header holds units
+  unitRow: boolean;
+  timeColumn: number;
+}
+
+export interface CsvLayout {
+  // Header names with the time column included, in file order
+  names: string[];
+  units: string[];
+}
+
+export interface CsvPreview {
+  layout: CsvLayout;
+  rows: string[][];
+}
+
+export const CSV_DELIMITERS = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' }
+];
+
+export const DEFAULT_CSV_DIALECT: CsvDialect = {
+  delimiter: ',',
+  decimalComma: false,
+  commentPrefix: '',
+  skipLines: 0,
+  hasHeader: true,
+  unitRow: false,
+  timeColumn: 0
+};
+
+// Characters of the file looked at by detectDialect
+export const DIALECT_SAMPLE_SIZE = 64 * 1024;
+
+const NUMERIC = /^\s*[-+]?(\d+([.,]\d*)?|[.,]\d+)([eE][-+]?\d+)?\s*$/;
+const TIME_HEADER = /time|date|stamp|zeit|^\s*t\s*$/i;
+
+/**
+ * Guesses the dialect from the first few kilobytes of a file
+ */
+export function detectDialect(sample: string): CsvDialect {
+  const lines = sampleLines(sample);
+  const commentPrefix = lines.some(l => l.startsWith('#')) ? '#' : lines.some(l => l.startsWith('//')) ? '//' : '';
+  const content = lines
+    .map((text, index) => ({ text, index }))
+    .filter(l => l.text.trim() && !(commentPrefix && l.text.startsWith(commentPrefix)));
+
+  if (!content.length) return { ...DEFAULT_CSV_DIALECT, commentPrefix };
+
+  // Pick the delimiter that splits the body into the most consistent number
+  // of columns; ties go to the one producing more numeric-looking cells
+  let best = { delimiter: ',', fields: 1, consistency: -1, numeric: -1 };
+  const body = content.slice(Math.floor(content.length / 2));
+
+  for (const { value: delimiter } of CSV_DELIMITERS) {
+    const rows = body.map(l => splitLine(l.text, delimiter));
+    const [fields, count] = mostCommon(rows.map(r => r.length));
+    if (fields < 2) continue;
+
+    const consistency = count / rows.length;
+    const cells = rows.filter(r => r.length === fields).flat();
+    const numeric = cells.filter(c => NUMERIC.test(c)).length / cells.length;
+
+    if (consistency > best.consistency || (consistency === best.consistency && numeric > best.numeric)) {
+      best = { delimiter, fields, consistency, numeric };
+    }
+  }
+
+  const { delimiter, fields } = best;
+  const rows = content.map(l => ({ index: l.index, cells: splitLine(l.text, delimiter) }));
+
+  // The header (or first data row) is the first row with the body's column count
+  const first = Math.max(0, rows.findIndex(r => r.cells.length === fields));
+  const headerLike = (cells: string[]) => cells.filter(c => NUMERIC.test(c)).length < cells.length / 2;
+  const hasHeader = headerLike(rows[first].cells);
+
+  // A second text row directly below the header carries units
+  const next = rows[first + 1];
+  const unitRow = hasHeader && !!next && next.index === rows[first].index + 1 &&
+    next.cells.length === fields && headerLike(next.cells) &&
+    !!rows[first + 2] && !headerLike(rows[first + 2].cells);
+
+  const dataCells = rows.slice(first + (hasHeader ? 1 : 0) + (unitRow ? 1 : 0)).flatMap(r => r.cells);
+  const commaDecimals = dataCells.filter(c => /^\s*[-+]?\d*,\d+\s*$/.test(c)).length;
+  const dotDecimals = dataCells.filter(c => /^\s*[-+]?\d*\.\d+\s*$/.test(c)).length;
+  const decimalComma = delimiter !== ',' && commaDecimals > dotDecimals;
+
+  // Time column: a time-like header name, else the first non-numeric data column
+  let timeColumn = hasHeader ? rows[first].cells.findIndex(c => TIME_HEADER.test(c)) : -1;
+  if (timeColumn === -1) {
+    const firstData = rows[first + (hasHeader ? 1 : 0) + (unitRow ? 1 : 0)];
+    timeColumn = firstData ? Math.max(0, firstData.cells.findIndex(c => c.trim() && !NUMERIC.test(c))) : 0;
+  }
+
+  return {
+    delimiter,
+    decimalComma,
+    commentPrefix,
+    skipLines: rows[first].index,
+    hasHeader,
+    unitRow,
+    timeColumn
+  };
+}
+
+/**
+ * Cuts a sample taken from the start of a larger file back to its last line
+ * break, so a half-read line isn't mistaken for data
+ */
+export function completeLines(sample: string, truncated: boolean): string {
+  if (!truncated) return sample;
+  const lastNewline = lastRowEnd(sample);
+  return lastNewline === -1 ? sample : sample.slice(0, lastNewline + 1);
+}
+
+/**
+ * Index of the last line break that ends a row of text starting at a row
+ * boundary, or -1. Line breaks inside quoted cells don't end rows; a
+ * doubled quote inside a cell toggles twice, so counting quotes is enough.
+ */
+export function lastRowEnd(text: string): number {
+  let quoted = false;
+  let end = -1;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    if (c === 34) {
+      quoted = !quoted;
+    } else if (c === 10 && !quoted) {
+      end = i;
+    }
+  }
+  return end;
+}
+
+/**
+ * Splits one line with quote handling
+ */
+export function splitLine(line: string, delimiter: string): string[] {
+  const result = parse<string[]>(line, { delimiter, header: false });
+  return result.data[0] || [];
+}
+
+/**
+ * Column names and units from the header and unit rows. Blank names are
+ * numbered and duplicates get a suffix so every channel has a unique key.
+ */
+export function buildLayout(header: string[] | null, unitCells: string[] | null, columnCount: number): CsvLayout {
+  const names: string[] = [];
+  const seen = new Map<string, number>();
+
+  for (let i = 0; i < columnCount; i++) {
+    let name = (header?.[i] || '').trim() || `Column ${i + 1}`;
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    if (count > 1) name = `${name} (${count})`;
+    names.push(name);
+  }
+
+  const units = names.map((_, i) => (unitCells?.[i] || '').trim().replace(/^[\[(](.*)[\])]$/, '$1'));
+  return { names, units };
+}
+
+/**
+ * Parses a cell as a number, or NaN when it isn't one
+ */
+export function toNumber(cell: string | undefined, decimalComma: boolean): number {
+  if (cell === undefined) return NaN;
+  const text = decimalComma ? cell.replace(',', '.') : cell;
+  // Number('') and Number(' ') are 0, but an empty cell is a missing value
+  return text.trim() ? Number(text) : NaN;
+}
+
+/**
+ * Header, units and the first rows of a sample as the worker would read them
+ */
+export function previewSample(sample: string, dialect: CsvDialect, maxRows = 20): CsvPreview {
+  const lines = sampleLines(sample).slice(dialect.skipLines);
+  const header = dialect.hasHeader ? splitLine(lines.shift() || '', dialect.delimiter) : null;
+  const unitCells = dialect.unitRow ? splitLine(lines.shift() || '', dialect.delimiter) : null;
+
+  const rows = lines
+    .filter(l => l.trim() && !(dialect.commentPrefix && l.startsWith(dialect.commentPrefix)))
+    .slice(0, maxRows)
+    .map(l => splitLine(l, dialect.delimiter));
+
+  const columnCount = Math.max(header?.length || 0, ...rows.map(r => r.length));
+  return { layout: buildLayout(header, unitCells, columnCount), rows };
+}
+
+/**
+ * Lines of a sample without the BOM. Samples cut from a larger file should
+ * end at a line break (see completeLines).
+ */
+function sampleLines(sample: string): string[] {
+  const lines = sample.replace(/^\uFEFF/, '').split(/\r?\n/);
+  if (lines.length > 1 && !lines[lines.length - 1]) lines.pop();
+  return lines;
+}
+
+function mostCommon(values: number[]): [number, number] {
+  const counts = new Map<number, number>();
+  let best: [number, number] = [0, 0];
+  for (const value of values) {
+    const count = (counts.get(value) || 0) + 1;
+    counts.set(value, count);
+    if (count > best[1] || (count === best[1] && value > best[0])) best = [value, count];
+  }
+  return best;
+}
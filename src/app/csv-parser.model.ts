@@ -0,0 +1,52 @@
+// Message protocol shared by CsvParserService and csv-parser.worker.ts
+import { ChannelValues } from './columnar';
+import { CsvDialect } from './csv-dialect';
+import { Compression } from './compression';
+import { ImportReport } from './import-report';
+import { TimestampOptions } from './timestamp-formats';
+
+export interface ParsedCsv {
+  // Channel names; the time column is not included
+  columns: string[];
+  // Unit of each channel from the file's unit row, '' when unknown
+  units: string[];
+  // Header of the column the timestamps were read from
+  timeColumn: string;
+  // Dialect used for parsing, detected when none was requested
+  dialect: CsvDialect;
+  rowCount: number;
+  // Milliseconds after timeOrigin, sorted ascending; offsets keep sub-millisecond precision
+  timestamps: Float64Array;
+  // Epoch milliseconds of the earliest row
+  timeOrigin: number;
+  // One array per entry in columns, aligned with timestamps; NaN marks a missing value
+  values: ChannelValues[];
+  // Bit per row set for missing values, null for channels without gaps
+  nullMasks: Array<Uint8Array | null>;
+  nullCounts: number[];
+  // Absolute epoch milliseconds
+  timeRange: [number, number];
+  report: ImportReport;
+}
+
+export type CsvWorkerRequest =
+  | {
+      type: 'parse';
+      jobId: number;
+      source: Blob;
+      timestampOptions: TimestampOptions;
+      dialect: CsvDialect | null;
+      // How the source is compressed, null for plain text
+      compression: Compression | null;
+    }
+  | { type: 'cancel'; jobId: number };
+
+export type CsvWorkerResponse =
+  | { type: 'progress'; jobId: number; phase: 'parse' | 'build'; fraction: number }
+  | { type: 'result'; jobId: number; data: ParsedCsv }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'error'; jobId: number; message: string };
+
+export type CsvParseEvent =
+  | { type: 'progress'; phase: 'parse' | 'build'; fraction: number }
+  | { type: 'result'; data: ParsedCsv };
@@ -0,0 +1,104 @@
+import { Injectable, NgZone, OnDestroy, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { CsvParseEvent, CsvWorkerRequest, CsvWorkerResponse } from './csv-parser.model';
+import { DEFAULT_TIMESTAMP_OPTIONS, TimestampOptions } from './timestamp-formats';
+import { CsvDialect } from './csv-dialect';
+import { Compression } from './compression';
+
+/**
+ * Runs CSV parsing in a dedicated Web Worker so the UI thread stays responsive
+ * while large files are loaded.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CsvParserService implements OnDestroy {
+  private zone = inject(NgZone);
+  private worker: Worker | null = null;
+  private nextJobId = 1;
+
+  /**
+   * Parses a CSV blob off the main thread. Unsubscribing cancels the job.
+   * Without a dialect the worker detects one from the start of the file.
+   * Compressed sources are decompressed by the worker as they are read.
+   */
+  parse(
+    source: Blob,
+    timestampOptions: TimestampOptions = DEFAULT_TIMESTAMP_OPTIONS,
+    dialect: CsvDialect | null = null,
+    compression: Compression | null = null
+  ): Observable<CsvParseEvent> {
+    return new Observable<CsvParseEvent>(subscriber => {
+      const worker = this.getWorker();
+      const jobId = this.nextJobId++;
+      let finished = false;
+
+      const onMessage = ({ data }: MessageEvent<CsvWorkerResponse>) => {
+        if (data.jobId !== jobId) return;
+
+        // Worker messages arrive outside Angular's zone
+        this.zone.run(() => {
+          switch (data.type) {
+            case 'progress':
+              subscriber.next({ type: 'progress', phase: data.phase, fraction: data.fraction });
+              break;
+            case 'result':
+              finished = true;
+              subscriber.next({ type: 'result', data: data.data });
+              subscriber.complete();
+              break;
+            case 'cancelled':
+              finished = true;
+              subscriber.complete();
+              break;
+            case 'error':
+              finished = true;
+              subscriber.error(new Error(data.message));
+              break;
+          }
+        });
+      };
+
+      const onError = (event: ErrorEvent) => {
+        finished = true;
+        this.zone.run(() => subscriber.error(new Error(event.message || 'CSV worker failed')));
+        // A crashed worker can't be reused
+        this.disposeWorker();
+      };
+
+      this.zone.runOutsideAngular(() => {
+        worker.addEventListener('message', onMessage);
+        worker.addEventListener('error', onError);
+      });
+      this.post({ type: 'parse', jobId, source, timestampOptions, dialect, compression });
+
+      return () => {
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onError);
+        if (!finished) {
+          this.post({ type: 'cancel', jobId });
+        }
+      };
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.disposeWorker();
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./csv-parser.worker', import.meta.url), { type: 'module' });
+    }
+    return this.worker;
+  }
+
+  private post(message: CsvWorkerRequest): void {
+    this.worker?.postMessage(message);
+  }
+
+  private disposeWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+}
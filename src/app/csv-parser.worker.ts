@@ -0,0 +1,293 @@
+/// <reference lib="webworker" />
+
+import { parse } from 'papaparse';
+import { CsvWorkerRequest, CsvWorkerResponse, ParsedCsv } from './csv-parser.model';
+import { ParsedTime, TimestampOptions, createTimestampParser } from './timestamp-formats';
+import { buildNullMask, compactValues } from './columnar';
+import { CsvDialect, DIALECT_SAMPLE_SIZE, buildLayout, completeLines, detectDialect, lastRowEnd, splitLine, toNumber } from './csv-dialect';
+import { ImportReportBuilder, analyzeTiming } from './import-report';
+import { Compression, readChunks } from './compression';
+
+// Bytes read per step; the worker yields between steps so cancel messages get through
+const SLICE_SIZE = 4 * 1024 * 1024;
+
+const cancelledJobs = new Set<number>();
+
+class CancelledError extends Error {}
+
+/**
+ * Growable Float64Array so rows can be appended without knowing the row count upfront
+ */
+class Float64Builder {
+  private buffer = new Float64Array(1 << 16);
+  length = 0;
+
+  push(value: number): void {
+    if (this.length === this.buffer.length) {
+      const next = new Float64Array(this.buffer.length * 2);
+      next.set(this.buffer);
+      this.buffer = next;
+    }
+    this.buffer[this.length++] = value;
+  }
+
+  get(index: number): number {
+    return this.buffer[index];
+  }
+
+  // Copies into an exactly sized array so no spare capacity gets transferred
+  toArray(order?: Uint32Array): Float64Array {
+    if (!order) return this.buffer.slice(0, this.length);
+
+    const out = new Float64Array(this.length);
+    for (let i = 0; i < this.length; i++) {
+      out[i] = this.buffer[order[i]];
+    }
+    return out;
+  }
+}
+
+addEventListener('message', ({ data }: MessageEvent<CsvWorkerRequest>) => {
+  if (data.type === 'cancel') {
+    cancelledJobs.add(data.jobId);
+    return;
+  }
+
+  parseCsv(data.jobId, data.source, data.timestampOptions, data.dialect, data.compression).then(
+    result => {
+      const transfer: Transferable[] = [result.timestamps.buffer, ...result.values.map(v => v.buffer)];
+      for (const mask of result.nullMasks) {
+        if (mask) transfer.push(mask.buffer);
+      }
+      respond({ type: 'result', jobId: data.jobId, data: result }, transfer);
+    },
+    err => {
+      if (err instanceof CancelledError) {
+        respond({ type: 'cancelled', jobId: data.jobId });
+      } else {
+        console.error('CSV worker error:', err);
+        respond({ type: 'error', jobId: data.jobId, message: err?.message || String(err) });
+      }
+    }
+  ).finally(() => cancelledJobs.delete(data.jobId));
+});
+
+function respond(message: CsvWorkerResponse, transfer: Transferable[] = []): void {
+  postMessage(message, transfer);
+}
+
+async function parseCsv(
+  jobId: number,
+  source: Blob,
+  timestampOptions: TimestampOptions,
+  requestedDialect: CsvDialect | null,
+  compression: Compression | null
+): Promise<ParsedCsv> {
+  const decoder = new TextDecoder();
+  const parseTimestamp = createTimestampParser(timestampOptions);
+  const parsedTime: ParsedTime = { ms: 0, frac: 0 };
+  let dialect = requestedDialect;
+  // Header, unit and preamble lines still to be read before the data starts
+  const headerLines: string[] = [];
+  let pendingLines = -1;
+  let columns: string[] | null = null;
+  let units: string[] = [];
+  let timeColumnName = '';
+  // File column index of each channel
+  let channelColumns: number[] = [];
+  // Offsets from the first row's whole millisecond, so sub-millisecond digits survive
+  const timestamps = new Float64Builder();
+  let origin: number | null = null;
+  let values: Float64Builder[] = [];
+  const report = new ImportReportBuilder();
+  // 1-based number of the last line read, for the import report
+  let line = 0;
+  let sorted = true;
+  let lastTimestamp = -Infinity;
+  let minTimestamp = Infinity;
+  let remainder = '';
+
+  const setupColumns = (d: CsvDialect, columnCount: number) => {
+    const header = d.hasHeader ? splitLine(headerLines[d.skipLines] || '', d.delimiter) : null;
+    const unitCells = d.unitRow ? splitLine(headerLines[d.skipLines + 1] || '', d.delimiter) : null;
+    const layout = buildLayout(header, unitCells, Math.max(columnCount, header?.length || 0));
+
+    const timeColumn = Math.min(d.timeColumn, layout.names.length - 1);
+    timeColumnName = layout.names[timeColumn];
+    channelColumns = layout.names.map((_, i) => i).filter(i => i !== timeColumn);
+    columns = channelColumns.map(i => layout.names[i]);
+    units = channelColumns.map(i => layout.units[i]);
+    values = columns.map(() => new Float64Builder());
+    report.setChannels(columns);
+  };
+
+  const consumeLines = (text: string) => {
+    if (!dialect) {
+      // Detect from the start of the file
+      dialect = detectDialect(completeLines(text.slice(0, DIALECT_SAMPLE_SIZE), text.length > DIALECT_SAMPLE_SIZE));
+    }
+    const d = dialect;
+
+    // Set the preamble, header and unit rows aside
+    if (pendingLines === -1) {
+      pendingLines = d.skipLines + (d.hasHeader ? 1 : 0) + (d.unitRow ? 1 : 0);
+    }
+    while (pendingLines > 0 && text) {
+      const newline = text.indexOf('\n');
+      headerLines.push(text.slice(0, newline).replace(/^\uFEFF/, '').replace(/\r$/, ''));
+      text = text.slice(newline + 1);
+      pendingLines--;
+      line++;
+    }
+    if (pendingLines > 0) return;
+
+    // Empty and comment lines are kept in the results so line numbers stay
+    // right (quoted cells spanning lines are the exception)
+    const results = parse<string[]>(text, {
+      header: false,
+      delimiter: d.delimiter
+    });
+    const rows = results.data;
+    // Text ending in a line break gives one extra empty row
+    if (rows.length && rows[rows.length - 1].length === 1 && rows[rows.length - 1][0] === '') rows.pop();
+
+    for (const row of rows) {
+      line++;
+      if (row.length === 1 && !row[0].trim()) continue;
+      if (d.commentPrefix && row[0].startsWith(d.commentPrefix)) continue;
+
+      if (!columns) setupColumns(d, row.length);
+      report.dataRows++;
+
+      if (row.length <= 1) {
+        report.skipRow(line, 'Too few fields', row, d.delimiter);
+        continue;
+      }
+
+      const timeCell = row[d.timeColumn];
+      if (timeCell === undefined || !timeCell.trim()) {
+        report.skipRow(line, 'Missing timestamp', row, d.delimiter);
+        continue;
+      }
+      if (!parseTimestamp(timeCell, parsedTime)) {
+        report.skipRow(line, 'Unreadable timestamp', row, d.delimiter);
+        continue;
+      }
+
+      if (row.length !== channelColumns.length + 1) {
+        report.fieldCountMismatch(line);
+      }
+
+      if (origin === null) origin = parsedTime.ms;
+      const ts = (parsedTime.ms - origin) + parsedTime.frac;
+
+      if (ts === lastTimestamp) {
+        report.duplicateTimestamp(line);
+      } else if (ts < lastTimestamp) {
+        report.outOfOrderTimestamp(line);
+        sorted = false;
+      }
+      lastTimestamp = ts;
+      minTimestamp = Math.min(minTimestamp, ts);
+
+      timestamps.push(ts);
+      for (let i = 0; i < values.length; i++) {
+        const cell = row[channelColumns[i]];
+        const value = toNumber(cell, d.decimalComma);
+        if (value !== value && cell && cell.trim()) {
+          report.nonNumeric(i, line, cell);
+        }
+        values[i].push(value);
+      }
+    }
+  };
+
+  // Read (and decompress) the source and parse it one slice at a time
+  for await (const { bytes, fraction } of readChunks(source, compression, SLICE_SIZE)) {
+    if (cancelledJobs.has(jobId)) throw new CancelledError();
+
+    const text = remainder + decoder.decode(bytes, { stream: true });
+    // A quoted cell may hold line breaks, so the slice ends at the last
+    // line break outside quotes
+    const lastNewline = lastRowEnd(text);
+    if (lastNewline === -1) {
+      remainder = text;
+      continue;
+    }
+
+    // Keep the trailing partial row for the next slice
+    remainder = text.slice(lastNewline + 1);
+    consumeLines(text.slice(0, lastNewline + 1));
+
+    respond({
+      type: 'progress',
+      jobId,
+      phase: 'parse',
+      fraction
+    });
+  }
+
+  remainder += decoder.decode();
+  if (remainder.trim()) {
+    consumeLines(remainder + '\n');
+  }
+
+  // A file with a header but no data rows still has columns
+  if (!columns && dialect && headerLines.length) {
+    setupColumns(dialect, 0);
+  }
+  if (!columns || !dialect) {
+    throw new Error('CSV file has no headers');
+  }
+
+  respond({ type: 'progress', jobId, phase: 'build', fraction: 0 });
+
+  // Line charts need rows in time order
+  let order: Uint32Array | undefined;
+  if (!sorted) {
+    order = new Uint32Array(timestamps.length);
+    for (let i = 0; i < order.length; i++) order[i] = i;
+    order.sort((a, b) => timestamps.get(a) - timestamps.get(b));
+  }
+
+  // Re-base on the earliest row; whole-millisecond shifts keep offsets exact
+  let timeOrigin = origin ?? 0;
+  const shift = timestamps.length ? Math.floor(minTimestamp) : 0;
+  const times = timestamps.toArray(order);
+  if (shift !== 0) {
+    timeOrigin += shift;
+    for (let i = 0; i < times.length; i++) times[i] -= shift;
+  }
+
+  const channelValues: ParsedCsv['values'] = [];
+  const nullMasks: ParsedCsv['nullMasks'] = [];
+  const nullCounts: number[] = [];
+
+  for (let i = 0; i < values.length; i++) {
+    if (cancelledJobs.has(jobId)) throw new CancelledError();
+
+    // Store as Float32 where that loses nothing
+    const column = compactValues(values[i].toArray(order));
+    const { mask, count } = buildNullMask(column);
+    channelValues.push(column);
+    nullMasks.push(mask);
+    nullCounts.push(count);
+
+    respond({ type: 'progress', jobId, phase: 'build', fraction: (i + 1) / values.length });
+  }
+
+  return {
+    columns,
+    units,
+    timeColumn: timeColumnName,
+    dialect,
+    rowCount: timestamps.length,
+    timestamps: times,
+    timeOrigin,
+    values: channelValues,
+    nullMasks,
+    nullCounts,
+    timeRange: timestamps.length ? [timeOrigin + times[0], timeOrigin + times[times.length - 1]] : [0, 0],
+    report: report.build(times.length, analyzeTiming(times, timeOrigin))
+  };
+}
@@ -0,0 +1,40 @@
+import { CsvTailParser } from './csv-tail';
+import { DEFAULT_CSV_DIALECT } from './csv-dialect';
+
+const encoder = new TextEncoder();
+
+function bytes(text: string): ArrayBuffer {
+  return encoder.encode(text).buffer as ArrayBuffer;
+}
+
+describe('CsvTailParser', () => {
+  const timestamps = { formatId: 'unix-ms', timeZone: 'UTC' };
+
+  it('should keep partial lines until they are complete', () => {
+    const parser = new CsvTailParser(DEFAULT_CSV_DIALECT, timestamps, 2, 1000);
+
+    expect(parser.feed(bytes('1010,1.5,2\n1020,1.')).time.length).toBe(1);
+    const rows = parser.feed(bytes('75,3\n'));
+    expect(Array.from(rows.time)).toEqual([20]);
+    expect(Array.from(rows.values[0])).toEqual([1.75]);
+    expect(Array.from(rows.values[1])).toEqual([3]);
+  });
+
+  it('should replace the row the import ended part-way through', () => {
+    const parser = new CsvTailParser(DEFAULT_CSV_DIALECT, timestamps, 1, 1000, 10, true);
+    const rows = parser.feed(bytes('1010,5.25\n1020,6\n'));
+
+    expect(rows.replacesLast).toBeTrue();
+    expect(Array.from(rows.time)).toEqual([10, 20]);
+    expect(Array.from(rows.values[0])).toEqual([5.25, 6]);
+    expect(parser.feed(bytes('1030,7\n')).replacesLast).toBeFalse();
+  });
+
+  it('should skip unreadable and out-of-order rows', () => {
+    const parser = new CsvTailParser(DEFAULT_CSV_DIALECT, timestamps, 1, 1000, 10);
+    const rows = parser.feed(bytes('1005,1\nbad,2\n\n1030,3\n1020,4\n'));
+
+    expect(Array.from(rows.time)).toEqual([30]);
+    expect(parser.skippedRows).toBe(3);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Incremental parsing of rows appended to a CSV that is still being written.
+ * Appends are small, so this runs on the main thread rather than the worker.
+ */
+import { parse } from 'papaparse';
+import { CsvDialect, toNumber } from './csv-dialect';
+import { ParsedTime, TimestampOptions, createTimestampParser } from './timestamp-formats';
+
+export interface TailRows {
+  // Milliseconds after the store's timeOrigin
+  time: Float64Array;
+  // One array per channel, in the order the channels were imported
+  values: Float64Array[];
+  // The first row is the whole of the store's last row, which the import
+  // only read part of
+  replacesLast: boolean;
+}
+
+/**
+ * Parses appended bytes with the dialect and timestamp settings of the
+ * original import. Bytes can be split anywhere; an incomplete last line is
+ * kept until the rest of it arrives.
+ */
+export class CsvTailParser {
+  private decoder = new TextDecoder();
+  private remainder = '';
+  private parseTimestamp: (text: string, out: ParsedTime) => boolean;
+  private parsed: ParsedTime = { ms: 0, frac: 0 };
+  private timeColumn: number;
+  // File column index of each channel
+  private channelColumns: number[];
+
+  // Rows that were unreadable or older than the rows before them
+  skippedRows = 0;
+
+  /**
+   * `lastOffset` is the time of the last row already in the store. With
+   * `resumeAtLastRow` the first row read is that same row (the import ended
+   * part-way through it) and replaces it if its time matches.
+   */
+  constructor(
+    private dialect: CsvDialect,
+    timestampOptions: TimestampOptions,
+    channelCount: number,
+    private timeOrigin: number,
+    private lastOffset = -Infinity,
+    private resumeAtLastRow = false
+  ) {
+    this.parseTimestamp = createTimestampParser(timestampOptions);
+
+    // Same column layout as the parser worker
+    this.timeColumn = Math.min(dialect.timeColumn, channelCount);
+    this.channelColumns = [];
+    for (let i = 0; i <= channelCount; i++) {
+      if (i !== this.timeColumn) this.channelColumns.push(i);
+    }
+  }
+
+  feed(bytes: ArrayBuffer): TailRows {
+    const text = this.remainder + this.decoder.decode(bytes, { stream: true });
+    const lastNewline = text.lastIndexOf('\n');
+    if (lastNewline === -1) {
+      this.remainder = text;
+      return this.emptyRows();
+    }
+
+    this.remainder = text.slice(lastNewline + 1);
+    return this.parseLines(text.slice(0, lastNewline + 1));
+  }
+
+  private parseLines(text: string): TailRows {
+    const d = this.dialect;
+    const rows = parse<string[]>(text, { header: false, delimiter: d.delimiter }).data;
+
+    const time: number[] = [];
+    const values: number[][] = this.channelColumns.map(() => []);
+    let replacesLast = false;
+
+    for (const row of rows) {
+      if (row.length === 1 && !row[0].trim()) continue;
+      if (d.commentPrefix && row[0].startsWith(d.commentPrefix)) continue;
+
+      const timeCell = row[this.timeColumn];
+      if (row.length <= 1 || !timeCell || !this.parseTimestamp(timeCell, this.parsed)) {
+        this.skippedRows++;
+        continue;
+      }
+
+      const t = (this.parsed.ms - this.timeOrigin) + this.parsed.frac;
+      if (this.resumeAtLastRow) {
+        this.resumeAtLastRow = false;
+        replacesLast = t === this.lastOffset;
+      }
+      // The store's time column has to stay sorted
+      if (t < this.lastOffset) {
+        this.skippedRows++;
+        continue;
+      }
+      this.lastOffset = t;
+
+      time.push(t);
+      for (let i = 0; i < values.length; i++) {
+        values[i].push(toNumber(row[this.channelColumns[i]], d.decimalComma));
+      }
+    }
+
+    return { time: Float64Array.from(time), values: values.map(v => Float64Array.from(v)), replacesLast };
+  }
+
+  private emptyRows(): TailRows {
+    return { time: new Float64Array(0), values: this.channelColumns.map(() => new Float64Array(0)), replacesLast: false };
+  }
+}
@@ -0,0 +1,20 @@
+import { Observable } from 'rxjs';
+import { SampleBatch } from './ring-buffer';
+
+export type DataSourceStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed' | 'error';
+
+/**
+ * A live feed of samples. Implementations push batches in time order; the
+ * LiveStreamService buffers them and refreshes the chart.
+ */
+export interface DataSource {
+  // Shown in the source bar
+  readonly name: string;
+  readonly status$: Observable<DataSourceStatus>;
+  readonly samples$: Observable<SampleBatch>;
+  // Last error message, if any
+  readonly error: string | null;
+
+  connect(): void;
+  disconnect(): void;
+}
@@ -0,0 +1,80 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { EXPRESSION_FUNCTIONS, channelReference, expressionChannels, parseExpression } from '../derived-channels';
+
+export interface DerivedChannelDraft {
+  name: string;
+  expression: string;
+  unit: string;
+}
+
+/**
+ * Dialog defining a channel computed from an expression over other
+ * channels. The expression is checked as it is typed; channels and
+ * functions are inserted at the caret by clicking them.
+ */
+@Component({
+  selector: 'app-derived-channel-dialog',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './derived-channel-dialog.component.html',
+  styleUrls: ['./derived-channel-dialog.component.scss']
+})
+export class DerivedChannelDialogComponent implements OnChanges {
+  // Channel ids the expression may read
+  @Input() channels: string[] = [];
+  // The channel being edited, or null for a new one
+  @Input() channel: string | null = null;
+  @Input() definition: DerivedChannelDraft | null = null;
+
+  @Output() saved = new EventEmitter<DerivedChannelDraft>();
+  @Output() removed = new EventEmitter<void>();
+  @Output() closed = new EventEmitter<void>();
+
+  readonly functions = EXPRESSION_FUNCTIONS;
+
+  draft: DerivedChannelDraft = { name: '', expression: '', unit: '' };
+
+  ngOnChanges(): void {
+    this.draft = this.definition ? { ...this.definition } : { name: '', expression: '', unit: '' };
+  }
+
+  /**
+   * Why the draft can't be saved, or null when it can
+   */
+  get problem(): string | null {
+    if (!this.draft.expression.trim()) return 'Enter an expression';
+    try {
+      const refs = expressionChannels(parseExpression(this.draft.expression));
+      if (this.channel && refs.includes(this.channel)) return `${this.channel} can't be computed from itself`;
+      const unknown = refs.find(ref => !this.channels.includes(ref));
+      if (unknown) return `Unknown channel ${unknown}`;
+    } catch (e: any) {
+      return e.message;
+    }
+    return this.draft.name.trim() ? null : 'Enter a name for the channel';
+  }
+
+  reference(channel: string): string {
+    return channelReference(channel);
+  }
+
+  /**
+   * Puts text in place of the expression's selection and moves the caret
+   * after it
+   */
+  insert(input: HTMLTextAreaElement, text: string): void {
+    const start = input.selectionStart ?? this.draft.expression.length;
+    const end = input.selectionEnd ?? start;
+    this.draft.expression = this.draft.expression.slice(0, start) + text + this.draft.expression.slice(end);
+
+    input.value = this.draft.expression;
+    input.focus();
+    input.setSelectionRange(start + text.length, start + text.length);
+  }
+
+  save(): void {
+    if (!this.problem) this.saved.emit({ ...this.draft });
+  }
+}
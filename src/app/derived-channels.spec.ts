@@ -0,0 +1,125 @@
+import {
+  ExpressionStream,
+  alignedValues,
+  channelReference,
+  evaluateExpression,
+  expressionChannels,
+  parseExpression,
+  renameChannels
+} from './derived-channels';
+
+function evaluate(text: string, channels: Record<string, number[]>, time = [0, 1000, 2000, 3000]): number[] {
+  return Array.from(evaluateExpression(parseExpression(text), {
+    time: Float64Array.from(time),
+    channels: new Map(Object.entries(channels))
+  }));
+}
+
+describe('derived channels', () => {
+  it('should follow operator precedence', () => {
+    expect(evaluate('1 + 2 * 3 ^ 2', {})).toEqual([19, 19, 19, 19]);
+    expect(evaluate('-2 ^ 2', {})).toEqual([-4, -4, -4, -4]);
+    expect(evaluate('2 ^ -1', {})).toEqual([0.5, 0.5, 0.5, 0.5]);
+    expect(evaluate('(1 + 2) * 3 - 8 / 4', {})).toEqual([7, 7, 7, 7]);
+  });
+
+  it('should reference channels by name or in square brackets', () => {
+    const channels = { Vx: [3, 0, NaN, 1], 'Line [2]': [4, 1, 1, 0] };
+    const result = evaluate('sqrt(Vx^2 + [Line [2]]]^2)', channels);
+    expect(result.slice(0, 2)).toEqual([5, 1]);
+    expect(result[2]).toBeNaN();
+    expect(result[3]).toBe(1);
+
+    expect(expressionChannels(parseExpression('a + [b c] * a - max(pi, e)'))).toEqual(['a', 'b c']);
+    expect(channelReference('Vx')).toBe('Vx');
+    expect(channelReference('rec:Line [2]')).toBe('[rec:Line [2]]]');
+    expect(channelReference('e')).toBe('[e]');
+  });
+
+  it('should give non-finite results as missing', () => {
+    const result = evaluate('1 / x + log(x)', { x: [1, 0, -1, 2] });
+    expect(result[0]).toBe(1);
+    expect(result[1]).toBeNaN();
+    expect(result[2]).toBeNaN();
+    expect(result[3]).toBeCloseTo(0.5 + Math.LN2, 12);
+  });
+
+  it('should differentiate, integrate and shift over the time base', () => {
+    const time = [0, 500, 1000, 2000];
+    const x = { x: [0, 1, 2, 4] };
+    // Two per second everywhere
+    expect(evaluate('derivative(x)', x, time)).toEqual([2, 2, 2, 2]);
+    // Trapezoids of 0.25, 0.75 and 3 units × seconds
+    expect(evaluate('integral(x)', x, time)).toEqual([0, 0.25, 1, 4]);
+    expect(evaluate('integral(2)', {}, time)).toEqual([0, 1, 2, 4]);
+
+    const shifted = evaluate('shift(x, 1)', x, time);
+    expect(shifted[0]).toBeNaN();
+    expect(shifted.slice(1)).toEqual([0, 1, 2]);
+    expect(evaluate('shift(x, -2)', x, time).slice(0, 2)).toEqual([2, 4]);
+
+    expect(evaluate('clamp(x, 1, 3)', x, time)).toEqual([1, 1, 2, 3]);
+  });
+
+  it('should evaluate streamed samples as they arrive like all of them at once', () => {
+    const time = Float64Array.from({ length: 40 }, (_, i) => i * 250 + (i % 3) * 20);
+    const x = Float64Array.from({ length: 40 }, (_, i) => i === 17 ? NaN : Math.sin(i / 3) * 5);
+    const y = Float64Array.from({ length: 40 }, (_, i) => i * i / 10);
+
+    for (const text of ['x * y - 1', 'derivative(integral(x) + shift(y, 2))', 'integral(derivative(shift(x, -3)))', '4']) {
+      const expression = parseExpression(text);
+      const full = evaluateExpression(expression, { time, channels: new Map([['x', x], ['y', y]]) });
+
+      const stream = new ExpressionStream(expression);
+      const streamed: number[] = [];
+      for (const end of [1, 2, 7, 8, 20, 33, 40]) {
+        const from = Math.max(stream.row - stream.lookback, 0);
+        streamed.push(...stream.evaluate({
+          time: time.subarray(from, end),
+          channels: new Map([['x', x.subarray(from, end)], ['y', y.subarray(from, end)]])
+        }, from));
+      }
+      // Rows that read samples after the last one come once those arrive
+      expect(streamed.length).toBe(40 - stream.lookahead);
+      streamed.forEach((value, i) => Number.isNaN(full[i])
+        ? expect(value).toBeNaN()
+        : expect(value).toBeCloseTo(full[i], 9));
+    }
+  });
+
+  it('should say what is wrong and where', () => {
+    expect(() => parseExpression('')).toThrowError('Enter an expression');
+    expect(() => parseExpression('a +')).toThrowError('Expected a value at the end');
+    expect(() => parseExpression('a $ b')).toThrowError('Unexpected "$" at character 3');
+    expect(() => parseExpression('foo(a)')).toThrowError('Unknown function foo at character 1');
+    expect(() => parseExpression('sqrt(a, b)')).toThrowError('sqrt() takes 1 argument at character 1');
+    expect(() => parseExpression('shift(a, b)')).toThrowError('shift() needs a whole number of samples at character 1');
+    expect(() => parseExpression('(a + b')).toThrowError('Expected ")" at the end');
+    expect(() => parseExpression('[a + b')).toThrowError('Missing "]" for the "[" at character 1');
+    expect(() => evaluate('a + b', { a: [1, 2, 3, 4] })).toThrowError('Unknown channel b');
+  });
+
+  it('should not take names of object properties for functions or constants', () => {
+    for (const name of ['toString', 'constructor', 'hasOwnProperty', '__proto__']) {
+      expect(() => parseExpression(`${name}(x)`)).toThrowError(`Unknown function ${name} at character 1`);
+      expect(evaluate(`${name} * 2`, { [name]: [1, 2, 3, 4] })).toEqual([2, 4, 6, 8]);
+    }
+    expect(channelReference('valueOf')).toBe('valueOf');
+  });
+
+  it('should rename channel references and keep the rest as typed', () => {
+    const renamed = renameChannels('derivative(Vx)*2 + [Line 1] - pi', name => `rec:${name}`);
+    expect(renamed).toBe('derivative([rec:Vx])*2 + [rec:Line 1] - pi');
+  });
+
+  it('should interpolate another recording at the sample times', () => {
+    const time = Float64Array.from([0, 10, 20, 30]);
+    const values = [0, 10, NaN, 30];
+    const aligned = Array.from(alignedValues(time, values, Float64Array.from([-5, 0, 5, 10, 25, 30, 31])));
+    expect(aligned[0]).toBeNaN();
+    expect(aligned.slice(1, 4)).toEqual([0, 5, 10]);
+    expect(aligned[4]).toBeNaN();
+    expect(aligned[5]).toBe(30);
+    expect(aligned[6]).toBeNaN();
+  });
+});
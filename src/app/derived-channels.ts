@@ -0,0 +1,604 @@
+/**
+ * Parsed expression of a derived channel. Channels are referenced by the id
+ * shown in the channel panel.
+ */
+export type Expression =
+  | { kind: 'number', value: number }
+  | { kind: 'channel', name: string }
+  | { kind: 'negate', operand: Expression }
+  | { kind: 'binary', operator: '+' | '-' | '*' | '/' | '^', left: Expression, right: Expression }
+  | { kind: 'call', name: string, args: Expression[] };
+
+/**
+ * What an expression is evaluated over: the sample times of the channel it
+ * is added to, and every referenced channel at those times
+ */
+export interface ExpressionInputs {
+  // Milliseconds, ascending
+  time: Float64Array;
+  // NaN where a sample is missing
+  channels: Map<string, ArrayLike<number>>;
+}
+
+interface Token {
+  type: 'number' | 'name' | 'channel' | 'operator';
+  text: string;
+  value: number;
+  // Characters of the source the token was read from
+  start: number;
+  end: number;
+}
+
+// Either one value for every sample or a constant
+type Series = Float64Array | number;
+
+// Functions applied sample by sample, with their argument counts
+const POINTWISE = new Map<string, { min: number, max: number, apply: (...args: number[]) => number }>([
+  ['abs', { min: 1, max: 1, apply: Math.abs }],
+  ['sqrt', { min: 1, max: 1, apply: Math.sqrt }],
+  ['exp', { min: 1, max: 1, apply: Math.exp }],
+  ['log', { min: 1, max: 1, apply: Math.log }],
+  ['log10', { min: 1, max: 1, apply: Math.log10 }],
+  ['sin', { min: 1, max: 1, apply: Math.sin }],
+  ['cos', { min: 1, max: 1, apply: Math.cos }],
+  ['tan', { min: 1, max: 1, apply: Math.tan }],
+  ['asin', { min: 1, max: 1, apply: Math.asin }],
+  ['acos', { min: 1, max: 1, apply: Math.acos }],
+  ['atan', { min: 1, max: 1, apply: Math.atan }],
+  ['atan2', { min: 2, max: 2, apply: Math.atan2 }],
+  ['sign', { min: 1, max: 1, apply: Math.sign }],
+  ['round', { min: 1, max: 1, apply: Math.round }],
+  ['floor', { min: 1, max: 1, apply: Math.floor }],
+  ['ceil', { min: 1, max: 1, apply: Math.ceil }],
+  ['pow', { min: 2, max: 2, apply: Math.pow }],
+  ['hypot', { min: 2, max: 8, apply: Math.hypot }],
+  ['min', { min: 2, max: 8, apply: Math.min }],
+  ['max', { min: 2, max: 8, apply: Math.max }],
+  ['clamp', { min: 3, max: 3, apply: (x, low, high) => Math.min(Math.max(x, low), high) }]
+]);
+
+// Functions of the whole series, which read neighbouring samples
+const SERIES_FUNCTIONS = new Map<string, number>([
+  ['derivative', 1],
+  ['integral', 1],
+  ['shift', 2]
+]);
+
+const CONSTANTS = new Map<string, number>([
+  ['pi', Math.PI],
+  ['e', Math.E]
+]);
+
+/**
+ * Names of the functions an expression may call, for the expression editor
+ */
+export const EXPRESSION_FUNCTIONS: { name: string, usage: string }[] = [
+  { name: 'abs', usage: 'abs(x)' },
+  { name: 'sqrt', usage: 'sqrt(x)' },
+  { name: 'exp', usage: 'exp(x)' },
+  { name: 'log', usage: 'log(x), natural' },
+  { name: 'log10', usage: 'log10(x)' },
+  { name: 'sin', usage: 'sin(x), radians' },
+  { name: 'cos', usage: 'cos(x)' },
+  { name: 'tan', usage: 'tan(x)' },
+  { name: 'asin', usage: 'asin(x)' },
+  { name: 'acos', usage: 'acos(x)' },
+  { name: 'atan', usage: 'atan(x)' },
+  { name: 'atan2', usage: 'atan2(y, x)' },
+  { name: 'sign', usage: 'sign(x)' },
+  { name: 'round', usage: 'round(x)' },
+  { name: 'floor', usage: 'floor(x)' },
+  { name: 'ceil', usage: 'ceil(x)' },
+  { name: 'pow', usage: 'pow(x, y), same as x ^ y' },
+  { name: 'hypot', usage: 'hypot(x, y, …)' },
+  { name: 'min', usage: 'min(x, y, …)' },
+  { name: 'max', usage: 'max(x, y, …)' },
+  { name: 'clamp', usage: 'clamp(x, low, high)' },
+  { name: 'derivative', usage: 'derivative(x), per second' },
+  { name: 'integral', usage: 'integral(x), cumulative, × seconds' },
+  { name: 'shift', usage: 'shift(x, n), the value n samples earlier' }
+];
+
+/**
+ * Parses an expression such as `sqrt(Vx^2 + Vy^2)` or `[Line 1] - [Line 2]`.
+ * Names that aren't plain words go in square brackets, with `]]` for a `]`
+ * in the name. Throws an error saying what is wrong and where.
+ */
+export function parseExpression(text: string): Expression {
+  const tokens = tokenize(text);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  const isOperator = (...operators: string[]) => {
+    const token = peek();
+    return !!token && token.type === 'operator' && operators.includes(token.text);
+  };
+  const fail = (message: string, token = peek()): never => {
+    throw new Error(token ? `${message} at character ${token.start + 1}` : `${message} at the end`);
+  };
+  const expect = (operator: string) => {
+    if (!isOperator(operator)) fail(`Expected "${operator}"`);
+    position++;
+  };
+
+  // sum := product (("+" | "-") product)*
+  const sum = (): Expression => {
+    let left = product();
+    while (isOperator('+', '-')) {
+      const operator = tokens[position++].text as '+' | '-';
+      left = { kind: 'binary', operator, left, right: product() };
+    }
+    return left;
+  };
+
+  // product := unary (("*" | "/") unary)*
+  const product = (): Expression => {
+    let left = unary();
+    while (isOperator('*', '/')) {
+      const operator = tokens[position++].text as '*' | '/';
+      left = { kind: 'binary', operator, left, right: unary() };
+    }
+    return left;
+  };
+
+  // unary := ("-" | "+") unary | power
+  const unary = (): Expression => {
+    if (isOperator('-')) {
+      position++;
+      return { kind: 'negate', operand: unary() };
+    }
+    if (isOperator('+')) {
+      position++;
+      return unary();
+    }
+    return power();
+  };
+
+  // power := primary ("^" unary)?, so 2^-1 works and -2^2 is -(2^2)
+  const power = (): Expression => {
+    const base = primary();
+    if (!isOperator('^')) return base;
+    position++;
+    return { kind: 'binary', operator: '^', left: base, right: unary() };
+  };
+
+  const primary = (): Expression => {
+    const token = peek();
+    if (!token) return fail('Expected a value');
+
+    if (token.type === 'number') {
+      position++;
+      return { kind: 'number', value: token.value };
+    }
+    if (token.type === 'channel') {
+      position++;
+      return { kind: 'channel', name: token.text };
+    }
+    if (token.type === 'name') {
+      position++;
+      if (isOperator('(')) return call(token);
+      const constant = CONSTANTS.get(token.text);
+      if (constant !== undefined) return { kind: 'number', value: constant };
+      return { kind: 'channel', name: token.text };
+    }
+    if (isOperator('(')) {
+      position++;
+      const inner = sum();
+      expect(')');
+      return inner;
+    }
+    return fail(`Unexpected "${token.text}"`);
+  };
+
+  const call = (name: Token): Expression => {
+    const pointwise = POINTWISE.get(name.text);
+    const seriesArgs = SERIES_FUNCTIONS.get(name.text);
+    if (!pointwise && !seriesArgs) fail(`Unknown function ${name.text}`, name);
+
+    expect('(');
+    const args: Expression[] = [];
+    if (!isOperator(')')) {
+      args.push(sum());
+      while (isOperator(',')) {
+        position++;
+        args.push(sum());
+      }
+    }
+    expect(')');
+
+    const [min, max] = pointwise ? [pointwise.min, pointwise.max] : [seriesArgs!, seriesArgs!];
+    if (args.length < min || args.length > max) {
+      const count = min === max ? `${min}` : `${min} to ${max}`;
+      fail(`${name.text}() takes ${count} argument${max === 1 ? '' : 's'}`, name);
+    }
+    if (name.text === 'shift') {
+      const samples = constantValue(args[1]);
+      if (samples === null || !Number.isInteger(samples)) {
+        fail('shift() needs a whole number of samples', name);
+      }
+    }
+    return { kind: 'call', name: name.text, args };
+  };
+
+  if (!tokens.length) throw new Error('Enter an expression');
+  const expression = sum();
+  if (position < tokens.length) fail(`Unexpected "${tokens[position].text}"`);
+  return expression;
+}
+
+/**
+ * Channels an expression references, each once, in order of appearance
+ */
+export function expressionChannels(expression: Expression): string[] {
+  const names = new Set<string>();
+  const visit = (node: Expression) => {
+    switch (node.kind) {
+      case 'channel': names.add(node.name); break;
+      case 'negate': visit(node.operand); break;
+      case 'binary': visit(node.left); visit(node.right); break;
+      case 'call': node.args.forEach(visit); break;
+    }
+  };
+  visit(expression);
+  return [...names];
+}
+
+/**
+ * The text of an expression with its channel references renamed, keeping
+ * everything else as typed. Throws when the text doesn't parse.
+ */
+export function renameChannels(text: string, rename: (name: string) => string): string {
+  parseExpression(text);
+  const tokens = tokenize(text);
+  let result = text;
+  // From the end, so earlier positions stay valid
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const token = tokens[i];
+    const isChannel = token.type === 'channel' ||
+      (token.type === 'name' && tokens[i + 1]?.text !== '(' && !CONSTANTS.has(token.text));
+    if (isChannel) {
+      result = result.slice(0, token.start) + channelReference(rename(token.text)) + result.slice(token.end);
+    }
+  }
+  return result;
+}
+
+/**
+ * How to refer to a channel in an expression: its name when that is a plain
+ * word, else the name in square brackets
+ */
+export function channelReference(name: string): string {
+  const plain = /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !CONSTANTS.has(name);
+  return plain ? name : `[${name.replace(/]/g, ']]')}]`;
+}
+
+/**
+ * Value of the expression at every sample time. Missing samples, and
+ * results that aren't finite, are NaN.
+ */
+export function evaluateExpression(expression: Expression, inputs: ExpressionInputs): Float64Array {
+  const { time } = inputs;
+  const length = time.length;
+
+  const evaluate = (node: Expression): Series => {
+    switch (node.kind) {
+      case 'number':
+        return node.value;
+      case 'channel': {
+        const values = inputs.channels.get(node.name);
+        if (!values) throw new Error(`Unknown channel ${node.name}`);
+        return Float64Array.from(values);
+      }
+      case 'negate':
+        return pointwise(x => -x, [evaluate(node.operand)], length);
+      case 'binary':
+        return pointwise(BINARY[node.operator], [evaluate(node.left), evaluate(node.right)], length);
+      case 'call': {
+        const args = node.args.map(evaluate);
+        switch (node.name) {
+          case 'derivative': return derivative(args[0], time);
+          case 'integral': return integral(args[0], time);
+          case 'shift': return shift(args[0], args[1] as number);
+          default: return pointwise(POINTWISE.get(node.name)!.apply, args, length);
+        }
+      }
+    }
+  };
+
+  const result = evaluate(expression);
+  const values = typeof result === 'number' ? new Float64Array(length).fill(result) : result;
+  for (let i = 0; i < length; i++) {
+    if (!Number.isFinite(values[i])) values[i] = NaN;
+  }
+  return values;
+}
+
+/**
+ * An expression evaluated over samples as they arrive, each call carrying
+ * on from where the last one ended. A row's value is given once the
+ * samples after it that it reads (`lookahead`) have arrived, and integrals
+ * carry their running totals from one call to the next.
+ */
+export class ExpressionStream {
+  // First row not given yet
+  row: number;
+  // Rows before the next one that the inputs of the next call start from
+  readonly lookback: number;
+  // Rows after a row that its value reads
+  readonly lookahead: number;
+  // Running total of each integral after a row, for the call starting past it
+  private totals = new Map<Expression, { row: number, total: number }>();
+
+  /**
+   * `first` numbers the first sample; rows are counted on from it
+   */
+  constructor(private expression: Expression, readonly first = 0) {
+    this.lookback = reach(expression, false);
+    this.lookahead = reach(expression, true);
+    this.row = first;
+  }
+
+  /**
+   * Values of the rows from `row` on whose later samples are in `inputs`.
+   * `inputs` holds the samples from row `from` on, which is `lookback` rows
+   * before `row`, or the first row.
+   */
+  evaluate(inputs: ExpressionInputs, from: number): Float64Array {
+    const { time } = inputs;
+    const end = from + time.length;
+    const next = end - this.lookahead;
+    if (next <= this.row) return new Float64Array(0);
+
+    // Values from row `wanted` (or `from`, if later) to the end
+    const evaluate = (node: Expression, wanted: number): Series => {
+      const start = Math.max(wanted, from);
+      const length = end - start;
+      switch (node.kind) {
+        case 'number':
+          return node.value;
+        case 'channel': {
+          const values = inputs.channels.get(node.name);
+          if (!values) throw new Error(`Unknown channel ${node.name}`);
+          const out = new Float64Array(length);
+          for (let i = 0; i < length; i++) out[i] = values[start - from + i];
+          return out;
+        }
+        case 'negate':
+          return pointwise(x => -x, [evaluate(node.operand, wanted)], length);
+        case 'binary':
+          return pointwise(BINARY[node.operator], [evaluate(node.left, wanted), evaluate(node.right, wanted)], length);
+        case 'call': {
+          const [arg] = node.args;
+          switch (node.name) {
+            case 'derivative': {
+              const before = Math.max(wanted - 1, from);
+              const d = derivative(evaluate(arg, wanted - 1), time.subarray(before - from));
+              return typeof d === 'number' ? d : d.subarray(start - before);
+            }
+            case 'shift': {
+              const samples = constantValue(node.args[1])!;
+              const before = Math.max(wanted - Math.max(samples, 0), from);
+              const shifted = shift(evaluate(arg, wanted - Math.max(samples, 0)), samples);
+              return typeof shifted === 'number' ? shifted : shifted.subarray(start - before);
+            }
+            case 'integral':
+              return this.integrate(node, evaluate(arg, wanted - 1), time, from, start, wanted + next - this.row - 1);
+            default:
+              return pointwise(POINTWISE.get(node.name)!.apply, node.args.map(a => evaluate(a, wanted)), length);
+          }
+        }
+      }
+    };
+
+    const result = evaluate(this.expression, this.row);
+    const values = typeof result === 'number'
+      ? new Float64Array(next - this.row).fill(result)
+      : result.slice(0, next - this.row);
+    for (let i = 0; i < values.length; i++) {
+      if (!Number.isFinite(values[i])) values[i] = NaN;
+    }
+    this.row = next;
+    return values;
+  }
+
+  // Running integral from row `start` on, of `x` from the row before it
+  // (or `from`), keeping the total after row `resume` for the next call
+  private integrate(node: Expression, x: Series, time: Float64Array, from: number, start: number, resume: number): Float64Array {
+    const end = from + time.length;
+    const before = Math.max(start - 1, from);
+    const values = typeof x === 'number' ? new Float64Array(end - before).fill(x) : x;
+
+    let total = 0;
+    if (start > this.first) {
+      const seed = this.totals.get(node);
+      if (seed?.row !== start - 1) throw new Error('Integral restarted at the wrong sample');
+      total = seed.total;
+    }
+
+    const out = new Float64Array(end - start).fill(NaN);
+    for (let row = start; row < end; row++) {
+      const i = row - before;
+      if (values[i] === values[i]) {
+        if (row > before && values[i - 1] === values[i - 1]) {
+          total += (values[i] + values[i - 1]) / 2 * (time[row - from] - time[row - from - 1]) / 1000;
+        }
+        out[row - start] = total;
+      }
+      if (row === resume) this.totals.set(node, { row, total });
+    }
+    return out;
+  }
+}
+
+/**
+ * Samples of another recording at `at`, in the same time base as `time`,
+ * interpolated linearly between the samples either side. NaN outside the
+ * recording and next to missing samples.
+ */
+export function alignedValues(time: Float64Array, values: ArrayLike<number>, at: Float64Array): Float64Array {
+  const out = new Float64Array(at.length).fill(NaN);
+  let j = 0;
+  for (let i = 0; i < at.length; i++) {
+    const t = at[i];
+    while (j < time.length && time[j] < t) j++;
+    if (j === time.length) break;
+    if (time[j] === t) {
+      out[i] = values[j];
+    } else if (j > 0) {
+      const fraction = (t - time[j - 1]) / (time[j] - time[j - 1]);
+      out[i] = values[j - 1] + fraction * (values[j] - values[j - 1]);
+    }
+  }
+  return out;
+}
+
+const BINARY: Record<'+' | '-' | '*' | '/' | '^', (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '^': Math.pow
+};
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const start = i;
+    const c = text[i];
+
+    if (/\s/.test(c)) {
+      i++;
+    } else if (/[0-9.]/.test(c)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(text.slice(i));
+      if (!match) throw new Error(`Unexpected "${c}" at character ${i + 1}`);
+      i += match[0].length;
+      tokens.push({ type: 'number', text: match[0], value: Number(match[0]), start, end: i });
+    } else if (/[A-Za-z_]/.test(c)) {
+      const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(i))![0];
+      i += name.length;
+      tokens.push({ type: 'name', text: name, value: NaN, start, end: i });
+    } else if (c === '[') {
+      let name = '';
+      i++;
+      for (;;) {
+        if (i >= text.length) throw new Error(`Missing "]" for the "[" at character ${start + 1}`);
+        if (text[i] === ']') {
+          if (text[i + 1] !== ']') break;
+          i++;
+        }
+        name += text[i++];
+      }
+      i++;
+      if (!name) throw new Error(`Empty channel name at character ${start + 1}`);
+      tokens.push({ type: 'channel', text: name, value: NaN, start, end: i });
+    } else if ('+-*/^(),'.includes(c)) {
+      i++;
+      tokens.push({ type: 'operator', text: c, value: NaN, start, end: i });
+    } else {
+      throw new Error(`Unexpected "${c}" at character ${i + 1}`);
+    }
+  }
+  return tokens;
+}
+
+// Value of an expression made of numbers only, else null
+function constantValue(node: Expression): number | null {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'negate': {
+      const value = constantValue(node.operand);
+      return value === null ? null : -value;
+    }
+    case 'binary': {
+      const left = constantValue(node.left);
+      const right = constantValue(node.right);
+      return left === null || right === null ? null : BINARY[node.operator](left, right);
+    }
+    default:
+      return null;
+  }
+}
+
+function pointwise(apply: (...args: number[]) => number, args: Series[], length: number): Series {
+  if (args.every(arg => typeof arg === 'number')) return apply(...args as number[]);
+
+  const out = new Float64Array(length);
+  const values = new Array<number>(args.length);
+  for (let i = 0; i < length; i++) {
+    for (let a = 0; a < args.length; a++) {
+      const arg = args[a];
+      values[a] = typeof arg === 'number' ? arg : arg[i];
+    }
+    out[i] = apply(...values);
+  }
+  return out;
+}
+
+// Rows before a row (or after it, with `after`) that an expression's value
+// there reads. An integral reads every row before, but carries its total.
+function reach(node: Expression, after: boolean): number {
+  switch (node.kind) {
+    case 'number':
+    case 'channel':
+      return 0;
+    case 'negate':
+      return reach(node.operand, after);
+    case 'binary':
+      return Math.max(reach(node.left, after), reach(node.right, after));
+    case 'call': {
+      const inner = Math.max(...node.args.map(arg => reach(arg, after)));
+      switch (node.name) {
+        case 'derivative': return inner + 1;
+        case 'integral': return after ? inner : inner + 1;
+        case 'shift': return inner + Math.max(after ? -constantValue(node.args[1])! : constantValue(node.args[1])!, 0);
+        default: return inner;
+      }
+    }
+  }
+}
+
+// Rate of change per second: central differences, one-sided next to the
+// ends and to missing samples
+function derivative(x: Series, time: Float64Array): Series {
+  if (typeof x === 'number') return 0;
+
+  const out = new Float64Array(x.length).fill(NaN);
+  for (let i = 0; i < x.length; i++) {
+    if (x[i] !== x[i]) continue;
+    const before = i > 0 && x[i - 1] === x[i - 1] ? i - 1 : i;
+    const after = i + 1 < x.length && x[i + 1] === x[i + 1] ? i + 1 : i;
+    const dt = time[after] - time[before];
+    if (dt > 0) out[i] = (x[after] - x[before]) / dt * 1000;
+  }
+  return out;
+}
+
+// Running trapezoidal integral in value × seconds from the first sample.
+// Gaps add nothing, so the total carries on after them.
+function integral(x: Series, time: Float64Array): Series {
+  const values = typeof x === 'number' ? new Float64Array(time.length).fill(x) : x;
+  const out = new Float64Array(values.length).fill(NaN);
+  let total = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] !== values[i]) continue;
+    if (i > 0 && values[i - 1] === values[i - 1]) {
+      total += (values[i] + values[i - 1]) / 2 * (time[i] - time[i - 1]) / 1000;
+    }
+    out[i] = total;
+  }
+  return out;
+}
+
+// The value `samples` samples earlier (later when negative)
+function shift(x: Series, samples: number): Series {
+  if (typeof x === 'number') return x;
+
+  const out = new Float64Array(x.length).fill(NaN);
+  for (let i = Math.max(0, samples); i < Math.min(x.length, x.length + samples); i++) {
+    out[i] = x[i - samples];
+  }
+  return out;
+}
@@ -0,0 +1,96 @@
+import { buildMinMaxLevel, buildMinMaxPyramid, extendMinMaxPyramid, interleave, lttb, minMaxDecimate } from './downsampling';
+
+describe('downsampling', () => {
+  const n = 10000;
+  const time = Float64Array.from({ length: n }, (_, i) => i);
+  const values = Float64Array.from({ length: n }, (_, i) => Math.sin(i / 500));
+
+  // Single-sample glitches in both directions
+  values[1234] = 50;
+  values[7777] = -50;
+
+  it('should keep single-sample spikes with min/max decimation', () => {
+    const result = minMaxDecimate(time, values, 0, n, 100);
+    const kept = Array.from(result.values);
+
+    expect(result.time.length).toBeLessThanOrEqual(200);
+    expect(kept).toContain(50);
+    expect(kept).toContain(-50);
+    expect(Array.from(result.time)).toContain(1234);
+  });
+
+  it('should keep output in time order', () => {
+    const result = minMaxDecimate(time, values, 0, n, 100);
+    for (let i = 1; i < result.time.length; i++) {
+      expect(result.time[i]).toBeGreaterThan(result.time[i - 1]);
+    }
+  });
+
+  it('should emit a gap for buckets with only missing values', () => {
+    const gappy = Float64Array.from(values);
+    gappy.fill(NaN, 5000, 5200);
+
+    const result = minMaxDecimate(time, gappy, 0, n, 100);
+    expect(Array.from(result.values).some(v => isNaN(v))).toBeTrue();
+  });
+
+  it('should give the same extremes from a precomputed level', () => {
+    const level = buildMinMaxLevel(time, values, 100);
+    const fromLevel = minMaxDecimate(level.time, level.values, 0, level.time.length, 50);
+    const fromRaw = minMaxDecimate(time, values, 0, n, 50);
+
+    expect(Math.max(...fromLevel.values)).toBe(Math.max(...fromRaw.values));
+    expect(Math.min(...fromLevel.values)).toBe(Math.min(...fromRaw.values));
+  });
+
+  it('should cover blockSize raw samples with every block of every level', () => {
+    // Noise, so every block has its extremes in different places
+    let seed = 1;
+    const noise = Float64Array.from({ length: n }, () => (seed = (seed * 16807) % 2147483647) / 2147483647);
+    const pyramid = buildMinMaxPyramid(time, noise, [100, 500, 1000, 5000]);
+
+    for (const level of pyramid) {
+      const fromRaw = buildMinMaxLevel(time, noise, level.blockSize);
+      expect(level.series.time.length).toBe(2 * n / level.blockSize);
+      expect(Array.from(level.series.time)).toEqual(Array.from(fromRaw.time));
+      expect(Array.from(level.series.values)).toEqual(Array.from(fromRaw.values));
+      // One min/max pair per block of blockSize samples
+      for (let i = 0; i < level.series.time.length; i += 2) {
+        expect(Math.floor(level.series.time[i] / level.blockSize)).toBe(i / 2);
+        expect(Math.floor(level.series.time[i + 1] / level.blockSize)).toBe(i / 2);
+      }
+    }
+  });
+
+  it('should extend a pyramid with appended samples as if built from all of them', () => {
+    const sizes = [100, 500, 1000];
+    let pyramid = buildMinMaxPyramid(time.subarray(0, 1234), values.subarray(0, 1234), sizes);
+    let previous = 1234;
+    for (const length of [1300, 1301, 5000, n]) {
+      pyramid = extendMinMaxPyramid(pyramid, time.subarray(0, length), values.subarray(0, length), previous);
+      previous = length;
+    }
+    // Changed values too, not only appended ones
+    const changed = Float64Array.from(values);
+    changed[n - 1] = 99;
+    pyramid = extendMinMaxPyramid(pyramid, time, changed, n - 1);
+
+    const built = buildMinMaxPyramid(time, changed, sizes);
+    pyramid.forEach((level, i) => {
+      expect(Array.from(level.series.time)).toEqual(Array.from(built[i].series.time));
+      expect(Array.from(level.series.values)).toEqual(Array.from(built[i].series.values));
+    });
+  });
+
+  it('should reduce to the requested number of points with LTTB', () => {
+    const result = lttb(time, values, 0, n, 300);
+    expect(result.time.length).toBe(300);
+    expect(result.time[0]).toBe(0);
+    expect(result.time[299]).toBe(n - 1);
+  });
+
+  it('should interleave time and values', () => {
+    const flat = interleave({ time: new Float64Array([1, 2]), values: new Float64Array([3, 4]) });
+    expect(Array.from(flat)).toEqual([1, 3, 2, 4]);
+  });
+});
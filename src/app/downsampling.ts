@@ -0,0 +1,293 @@
+/**
+ * Decimation routines for drawing large channels at screen resolution.
+ *
+ * All functions take a sorted time column and a value column (NaN = missing)
+ * and work on the half-open index range [start, end).
+ */
+
+import { lowerBound } from './columnar';
+
+export interface DecimatedSeries {
+  time: Float64Array;
+  values: Float64Array;
+}
+
+/**
+ * Min/max copy of a channel with one block per `blockSize` raw samples
+ */
+export interface MinMaxLevel {
+  blockSize: number;
+  series: DecimatedSeries;
+}
+
+/**
+ * Splits [t0, t1] into `buckets` equal time slices and keeps the minimum and
+ * maximum sample of each, in their original order. Every local extreme wider
+ * than one bucket survives, so spikes and glitches stay visible. A bucket
+ * that only holds missing values emits one NaN point so the line breaks.
+ */
+export function minMaxDecimate(
+  time: ArrayLike<number>,
+  values: ArrayLike<number>,
+  start: number,
+  end: number,
+  buckets: number
+): DecimatedSeries {
+  const count = end - start;
+  if (count <= 0 || buckets <= 0) return { time: new Float64Array(0), values: new Float64Array(0) };
+
+  const t0 = time[start];
+  const span = time[end - 1] - t0;
+  const outTime = new Float64Array(Math.min(count, buckets * 2));
+  const outValues = new Float64Array(outTime.length);
+  let n = 0;
+
+  let bucket = -1;
+  let minIndex = -1;
+  let maxIndex = -1;
+  let nanIndex = -1;
+
+  const flush = () => {
+    if (minIndex === -1) {
+      if (nanIndex !== -1) {
+        outTime[n] = time[nanIndex];
+        outValues[n++] = NaN;
+      }
+      return;
+    }
+
+    const first = Math.min(minIndex, maxIndex);
+    const second = Math.max(minIndex, maxIndex);
+    outTime[n] = time[first];
+    outValues[n++] = values[first];
+    if (second !== first) {
+      outTime[n] = time[second];
+      outValues[n++] = values[second];
+    }
+  };
+
+  for (let i = start; i < end; i++) {
+    const b = span > 0 ? Math.min(buckets - 1, Math.floor(((time[i] - t0) / span) * buckets)) : 0;
+
+    if (b !== bucket) {
+      if (bucket !== -1) flush();
+      bucket = b;
+      minIndex = -1;
+      maxIndex = -1;
+      nanIndex = -1;
+    }
+
+    const v = values[i];
+    if (v !== v) {
+      if (nanIndex === -1) nanIndex = i;
+      continue;
+    }
+    if (minIndex === -1 || v < values[minIndex]) minIndex = i;
+    if (maxIndex === -1 || v > values[maxIndex]) maxIndex = i;
+  }
+  flush();
+
+  return { time: outTime.subarray(0, n), values: outValues.subarray(0, n) };
+}
+
+/**
+ * Largest-Triangle-Three-Buckets: keeps `threshold` points chosen to preserve
+ * the visual shape. Smoother than min/max, but a narrow spike can lose out to
+ * a wider feature in the same bucket, so prefer minMaxDecimate for transients.
+ */
+export function lttb(
+  time: ArrayLike<number>,
+  values: ArrayLike<number>,
+  start: number,
+  end: number,
+  threshold: number
+): DecimatedSeries {
+  const count = end - start;
+  if (threshold >= count || threshold < 3) {
+    return {
+      time: Float64Array.from({ length: count }, (_, i) => time[start + i]),
+      values: Float64Array.from({ length: count }, (_, i) => values[start + i])
+    };
+  }
+
+  const outTime = new Float64Array(threshold);
+  const outValues = new Float64Array(threshold);
+  const bucketSize = (count - 2) / (threshold - 2);
+
+  let a = start;
+  outTime[0] = time[a];
+  outValues[0] = values[a];
+
+  for (let i = 0; i < threshold - 2; i++) {
+    // Average of the next bucket is the third triangle vertex
+    const nextStart = start + Math.floor((i + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(start + Math.floor((i + 2) * bucketSize) + 1, end);
+    let avgT = 0;
+    let avgV = 0;
+    let avgCount = 0;
+    for (let j = nextStart; j < nextEnd; j++) {
+      if (values[j] !== values[j]) continue;
+      avgT += time[j];
+      avgV += values[j];
+      avgCount++;
+    }
+    if (avgCount) {
+      avgT /= avgCount;
+      avgV /= avgCount;
+    }
+
+    const rangeStart = start + Math.floor(i * bucketSize) + 1;
+    const rangeEnd = start + Math.floor((i + 1) * bucketSize) + 1;
+    let maxArea = -1;
+    let chosen = rangeStart;
+    for (let j = rangeStart; j < rangeEnd; j++) {
+      const v = values[j];
+      if (v !== v) {
+        // Keep gaps visible
+        if (maxArea < 0) chosen = j;
+        continue;
+      }
+      const area = Math.abs(
+        (time[a] - avgT) * (v - values[a]) - (time[a] - time[j]) * (avgV - values[a])
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        chosen = j;
+      }
+    }
+
+    outTime[i + 1] = time[chosen];
+    outValues[i + 1] = values[chosen];
+    a = chosen;
+  }
+
+  outTime[threshold - 1] = time[end - 1];
+  outValues[threshold - 1] = values[end - 1];
+
+  return { time: outTime, values: outValues };
+}
+
+/**
+ * Precomputes a coarser copy of a channel holding the min and max sample of
+ * every `blockSize` consecutive samples. Decimating this level with
+ * minMaxDecimate gives the same extremes as decimating the raw data.
+ */
+export function buildMinMaxLevel(
+  time: ArrayLike<number>,
+  values: ArrayLike<number>,
+  blockSize: number
+): DecimatedSeries {
+  const blocks = Math.ceil(time.length / blockSize);
+  return minMaxBlocks(time, values, Array.from({ length: blocks + 1 }, (_, b) => Math.min(b * blockSize, time.length)));
+}
+
+/**
+ * Min/max levels of a channel, one per block size, finest first. Each level
+ * is built from the one before rather than from the raw samples, but its
+ * blocks still cover `blockSize` raw samples each: the points of the finer
+ * level are split at the times of raw samples 0, blockSize, 2 × blockSize…
+ * This gives exactly the level built from the raw samples when every size
+ * is a multiple of the one before.
+ */
+export function buildMinMaxPyramid(
+  time: ArrayLike<number>,
+  values: ArrayLike<number>,
+  blockSizes: number[]
+): MinMaxLevel[] {
+  const empty: DecimatedSeries = { time: new Float64Array(0), values: new Float64Array(0) };
+  return extendMinMaxPyramid(blockSizes.map(blockSize => ({ blockSize, series: empty })), time, values, 0);
+}
+
+/**
+ * A pyramid built by buildMinMaxPyramid brought up to date after the samples
+ * from `from` on were appended or changed. Blocks before the one holding
+ * `from` are kept as they are.
+ */
+export function extendMinMaxPyramid(
+  levels: MinMaxLevel[],
+  time: ArrayLike<number>,
+  values: ArrayLike<number>,
+  from: number
+): MinMaxLevel[] {
+  if (from >= time.length) return levels;
+  let finer: DecimatedSeries | null = null;
+
+  return levels.map(({ blockSize, series }) => {
+    const firstBlock = Math.floor(from / blockSize);
+    const blocks = Math.ceil(time.length / blockSize);
+    const kept = lowerBound(series.time, time[firstBlock * blockSize]);
+
+    const source: DecimatedSeries | null = finer;
+    const bounds = Array.from({ length: blocks - firstBlock + 1 }, (_, i) => {
+      const b = firstBlock + i;
+      if (!source) return Math.min(b * blockSize, time.length);
+      return b === blocks ? source.time.length : lowerBound(source.time, time[b * blockSize]);
+    });
+    const added = source ? minMaxBlocks(source.time, source.values, bounds) : minMaxBlocks(time, values, bounds);
+
+    const next: DecimatedSeries = {
+      time: new Float64Array(kept + added.time.length),
+      values: new Float64Array(kept + added.time.length)
+    };
+    next.time.set(series.time.subarray(0, kept));
+    next.time.set(added.time, kept);
+    next.values.set(series.values.subarray(0, kept));
+    next.values.set(added.values, kept);
+    finer = next;
+    return { blockSize, series: next };
+  });
+}
+
+// Min and max of the samples from bounds[b] to bounds[b + 1], for each block b
+function minMaxBlocks(time: ArrayLike<number>, values: ArrayLike<number>, bounds: ArrayLike<number>): DecimatedSeries {
+  const blocks = bounds.length - 1;
+  const outTime = new Float64Array(blocks * 2);
+  const outValues = new Float64Array(blocks * 2);
+  let n = 0;
+
+  for (let b = 0; b < blocks; b++) {
+    const blockStart = bounds[b];
+    const blockEnd = bounds[b + 1];
+    if (blockStart >= blockEnd) continue;
+    let minIndex = -1;
+    let maxIndex = -1;
+
+    for (let i = blockStart; i < blockEnd; i++) {
+      const v = values[i];
+      if (v !== v) continue;
+      if (minIndex === -1 || v < values[minIndex]) minIndex = i;
+      if (maxIndex === -1 || v > values[maxIndex]) maxIndex = i;
+    }
+
+    if (minIndex === -1) {
+      // Block is entirely missing
+      outTime[n] = time[blockStart];
+      outValues[n++] = NaN;
+      continue;
+    }
+
+    const first = Math.min(minIndex, maxIndex);
+    const second = Math.max(minIndex, maxIndex);
+    outTime[n] = time[first];
+    outValues[n++] = values[first];
+    if (second !== first) {
+      outTime[n] = time[second];
+      outValues[n++] = values[second];
+    }
+  }
+
+  return { time: outTime.slice(0, n), values: outValues.slice(0, n) };
+}
+
+/**
+ * Interleaves a decimated series into the flat [t, v, t, v, ...] layout,
+ * adding `timeOffset` to every time value
+ */
+export function interleave(series: DecimatedSeries, timeOffset = 0): Float64Array {
+  const out = new Float64Array(series.time.length * 2);
+  for (let i = 0, j = 0; i < series.time.length; i++, j += 2) {
+    out[j] = timeOffset + series.time[i];
+    out[j + 1] = series.values[i];
+  }
+  return out;
+}
@@ -0,0 +1,138 @@
+import { Injectable, NgZone, OnDestroy, inject } from '@angular/core';
+import { Subject } from 'rxjs';
+import { CsvDialect } from './csv-dialect';
+import { CsvTailParser } from './csv-tail';
+import { TailSource } from './tail-source';
+import { TimeSeriesStore } from './time-series-store.service';
+import { TimestampOptions } from './timestamp-formats';
+
+// Bytes read from the end of the loaded file to find its last complete line
+const TAIL_PROBE_SIZE = 64 * 1024;
+
+/**
+ * Follows a CSV that is still being written: polls the source for bytes
+ * past the end of what was imported and appends the new rows to the store.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FileFollowService implements OnDestroy {
+  private store = inject(TimeSeriesStore);
+  private zone = inject(NgZone);
+
+  private source: TailSource | null = null;
+  private parser: CsvTailParser | null = null;
+  private columns: string[] = [];
+  private offset = 0;
+  private timer: any = null;
+
+  pollInterval = 1000;
+  appendedRows = 0;
+  error: string | null = null;
+
+  // Rows appended by the last poll; emitted outside Angular's zone
+  appended$ = new Subject<number>();
+  // Following stopped because of an error
+  stopped$ = new Subject<string>();
+
+  get active(): boolean {
+    return !!this.source;
+  }
+
+  get skippedRows(): number {
+    return this.parser?.skippedRows || 0;
+  }
+
+  /**
+   * Starts following `source`, of which `loaded` is the part already in the
+   * store (parsed with `dialect` and `timestamps` into `columns`)
+   */
+  async start(
+    source: TailSource,
+    loaded: Blob,
+    columns: string[],
+    dialect: CsvDialect,
+    timestamps: TimestampOptions
+  ): Promise<void> {
+    this.stop();
+
+    // Resume at the start of the last line if the file ended part-way through one
+    const probeStart = Math.max(0, loaded.size - TAIL_PROBE_SIZE);
+    const probe = new Uint8Array(await loaded.slice(probeStart).arrayBuffer());
+    const lastNewline = probe.lastIndexOf(0x0A);
+    const midLine = probe.length > 0 && lastNewline !== probe.length - 1;
+    this.offset = midLine && lastNewline !== -1 ? probeStart + lastNewline + 1 : loaded.size;
+
+    const lastOffset = this.store.length ? this.store.getOffset(this.store.length - 1) : -Infinity;
+    this.parser = new CsvTailParser(
+      dialect,
+      timestamps,
+      columns.length,
+      this.store.timeOrigin,
+      lastOffset,
+      midLine && lastNewline !== -1
+    );
+    this.source = source;
+    this.columns = columns;
+    this.appendedRows = 0;
+    this.error = null;
+
+    this.zone.runOutsideAngular(() => this.schedule());
+  }
+
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = null;
+    this.source = null;
+    this.parser = null;
+  }
+
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(() => this.poll(), this.pollInterval);
+  }
+
+  private async poll(): Promise<void> {
+    const source = this.source;
+    if (!source || !this.parser) return;
+
+    try {
+      const chunk = await source.readFrom(this.offset);
+      // Stopped or restarted while the request was out
+      if (source !== this.source) return;
+
+      if (chunk.size < this.offset) {
+        this.fail(`${source.name} got shorter; it may have been replaced. Reload it to continue.`);
+        return;
+      }
+
+      this.error = null;
+      this.offset += chunk.bytes.byteLength;
+      const rows = this.parser.feed(chunk.bytes);
+      if (rows.time.length) {
+        // The truncated row the import read gives way to the whole one
+        if (rows.replacesLast) this.store.trimEnd(1);
+        this.store.append(rows.time, new Map(this.columns.map((name, i) => [name, rows.values[i]])));
+        const added = rows.time.length - (rows.replacesLast ? 1 : 0);
+        this.appendedRows += added;
+        this.appended$.next(added);
+      }
+    } catch (err: any) {
+      if (source !== this.source) return;
+      // Keep polling; the file may be briefly locked by the writer
+      console.warn('Unable to read appended rows:', err);
+      this.error = err?.message || String(err);
+    }
+
+    this.schedule();
+  }
+
+  private fail(message: string): void {
+    this.stop();
+    this.error = message;
+    this.zone.run(() => this.stopped$.next(message));
+  }
+}
@@ -0,0 +1,116 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import {
+  DEFAULT_FILTER_STAGE,
+  FilterResponse,
+  FilterStage,
+  FilterType,
+  describeFilterStage,
+  filterProblem
+} from '../filters';
+import { SpectrumWindow } from '../spectrum';
+import { formatFrequency } from '../measurement-cursors';
+
+/**
+ * Popover with the filter chain of one channel. Filtering a long channel
+ * takes a moment, so changes are applied with the Apply button.
+ */
+@Component({
+  selector: 'app-filter-settings',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './filter-settings.component.html',
+  styleUrls: ['./filter-settings.component.scss']
+})
+export class FilterSettingsComponent implements OnChanges {
+  @Input() channel = '';
+  @Input() stages: FilterStage[] = [];
+  // Hz, from the median sample interval
+  @Input() sampleRate = NaN;
+
+  @Output() applied = new EventEmitter<FilterStage[]>();
+  @Output() removed = new EventEmitter<void>();
+  @Output() closed = new EventEmitter<void>();
+
+  readonly types: { value: FilterType, label: string }[] = [
+    { value: 'butterworth', label: 'Butterworth IIR' },
+    { value: 'chebyshev', label: 'Chebyshev IIR' },
+    { value: 'fir', label: 'FIR (windowed sinc)' },
+    { value: 'notch', label: 'Mains notch' },
+    { value: 'moving-average', label: 'Moving average' },
+    { value: 'median', label: 'Moving median' }
+  ];
+  readonly responses: { value: FilterResponse, label: string }[] = [
+    { value: 'lowpass', label: 'Low-pass' },
+    { value: 'highpass', label: 'High-pass' },
+    { value: 'bandpass', label: 'Band-pass' },
+    { value: 'bandstop', label: 'Band-stop' }
+  ];
+  readonly windows: { value: SpectrumWindow, label: string }[] = [
+    { value: 'hann', label: 'Hann' },
+    { value: 'hamming', label: 'Hamming' },
+    { value: 'blackman-harris', label: 'Blackman-Harris' },
+    { value: 'flattop', label: 'Flat-top' }
+  ];
+  readonly mainsFrequencies = [50, 60];
+
+  draft: FilterStage[] = [];
+
+  ngOnChanges(): void {
+    this.draft = this.stages.length ? this.stages.map(stage => ({ ...stage })) : [{ ...DEFAULT_FILTER_STAGE }];
+  }
+
+  update(index: number, changes: Partial<FilterStage>): void {
+    this.draft = this.draft.map((stage, i) => i === index ? { ...stage, ...changes } : stage);
+  }
+
+  addStage(): void {
+    this.draft = [...this.draft, { ...DEFAULT_FILTER_STAGE }];
+  }
+
+  removeStage(index: number): void {
+    this.draft = this.draft.filter((_, i) => i !== index);
+  }
+
+  moveStage(index: number, step: number): void {
+    const draft = [...this.draft];
+    [draft[index], draft[index + step]] = [draft[index + step], draft[index]];
+    this.draft = draft;
+  }
+
+  /**
+   * Number from an input; NaN when it isn't one, which the stage reports
+   */
+  parseNumber(text: string): number {
+    return text.trim() ? Number(text) : NaN;
+  }
+
+  hasResponse(stage: FilterStage): boolean {
+    return stage.type === 'butterworth' || stage.type === 'chebyshev' || stage.type === 'fir';
+  }
+
+  isBand(stage: FilterStage): boolean {
+    return stage.response === 'bandpass' || stage.response === 'bandstop';
+  }
+
+  isRecursive(stage: FilterStage): boolean {
+    return stage.type === 'butterworth' || stage.type === 'chebyshev' || stage.type === 'notch';
+  }
+
+  problem(stage: FilterStage): string | null {
+    return filterProblem(stage, this.sampleRate);
+  }
+
+  describe(stage: FilterStage): string {
+    return describeFilterStage(stage);
+  }
+
+  get invalid(): boolean {
+    return !this.draft.length || this.draft.some(stage => this.problem(stage));
+  }
+
+  get sampleRateText(): string {
+    return this.sampleRate > 0 ? formatFrequency(this.sampleRate) : 'unknown';
+  }
+}
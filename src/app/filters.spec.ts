@@ -0,0 +1,150 @@
+import {
+  DEFAULT_FILTER_STAGE,
+  FilterStage,
+  FilterStream,
+  applyFilterChain,
+  designFir,
+  designIir,
+  designNotch,
+  filterProblem,
+  sectionsGain
+} from './filters';
+
+function stage(changes: Partial<FilterStage>): FilterStage {
+  return { ...DEFAULT_FILTER_STAGE, ...changes };
+}
+
+function tones(sampleRate: number, count: number, ...frequencies: number[]): Float64Array {
+  return Float64Array.from({ length: count }, (_, i) =>
+    frequencies.reduce((sum, f) => sum + Math.sin(2 * Math.PI * f * i / sampleRate), 0));
+}
+
+// Largest difference over the middle half, away from edge effects
+function middleError(a: Float64Array, b: Float64Array): number {
+  let error = 0;
+  for (let i = a.length >> 2; i < a.length * 3 / 4; i++) error = Math.max(error, Math.abs(a[i] - b[i]));
+  return error;
+}
+
+describe('filters', () => {
+  it('should design Butterworth filters with -3 dB at the cutoff', () => {
+    const lowpass = designIir(stage({ type: 'butterworth', response: 'lowpass', order: 4, cutoff: 100 }), 1000);
+    expect(sectionsGain(lowpass, 0, 1000)).toBeCloseTo(1, 9);
+    expect(sectionsGain(lowpass, 100, 1000)).toBeCloseTo(Math.SQRT1_2, 9);
+    expect(sectionsGain(lowpass, 400, 1000)).toBeLessThan(0.001);
+
+    const highpass = designIir(stage({ type: 'butterworth', response: 'highpass', order: 3, cutoff: 100 }), 1000);
+    expect(sectionsGain(highpass, 0, 1000)).toBeLessThan(1e-9);
+    expect(sectionsGain(highpass, 100, 1000)).toBeCloseTo(Math.SQRT1_2, 9);
+    expect(sectionsGain(highpass, 500, 1000)).toBeCloseTo(1, 9);
+  });
+
+  it('should design band filters between the edges', () => {
+    const bandpass = designIir(stage({ type: 'butterworth', response: 'bandpass', order: 2, cutoff: 50, cutoffHigh: 150 }), 1000);
+    expect(sectionsGain(bandpass, 50, 1000)).toBeCloseTo(Math.SQRT1_2, 9);
+    expect(sectionsGain(bandpass, 150, 1000)).toBeCloseTo(Math.SQRT1_2, 9);
+    expect(sectionsGain(bandpass, 5, 1000)).toBeLessThan(0.01);
+    expect(sectionsGain(bandpass, 450, 1000)).toBeLessThan(0.01);
+
+    const bandstop = designIir(stage({ type: 'butterworth', response: 'bandstop', order: 2, cutoff: 50, cutoffHigh: 150 }), 1000);
+    expect(sectionsGain(bandstop, 0, 1000)).toBeCloseTo(1, 9);
+    expect(sectionsGain(bandstop, 500, 1000)).toBeCloseTo(1, 9);
+    expect(sectionsGain(bandstop, 50, 1000)).toBeCloseTo(Math.SQRT1_2, 9);
+  });
+
+  it('should keep Chebyshev ripple within the pass band', () => {
+    const even = designIir(stage({ type: 'chebyshev', response: 'lowpass', order: 4, ripple: 1, cutoff: 100 }), 1000);
+    const bottom = Math.pow(10, -1 / 20);
+    expect(sectionsGain(even, 0, 1000)).toBeCloseTo(bottom, 9);
+    expect(sectionsGain(even, 100, 1000)).toBeCloseTo(bottom, 9);
+    for (let f = 0; f < 100; f += 5) {
+      expect(sectionsGain(even, f, 1000)).toBeGreaterThan(bottom - 1e-9);
+      expect(sectionsGain(even, f, 1000)).toBeLessThan(1 + 1e-9);
+    }
+
+    const odd = designIir(stage({ type: 'chebyshev', response: 'lowpass', order: 5, ripple: 0.5, cutoff: 100 }), 1000);
+    expect(sectionsGain(odd, 0, 1000)).toBeCloseTo(1, 9);
+  });
+
+  it('should notch mains and its harmonics', () => {
+    const notch = designNotch(stage({ type: 'notch', frequency: 50, harmonics: 3, q: 30 }), 1000);
+
+    expect(notch.length).toBe(3);
+    [50, 100, 150].forEach(f => expect(sectionsGain(notch, f, 1000)).toBeLessThan(1e-9));
+    expect(sectionsGain(notch, 75, 1000)).toBeGreaterThan(0.99);
+    expect(sectionsGain(notch, 200, 1000)).toBeGreaterThan(0.99);
+  });
+
+  it('should filter without shifting the phase when asked to', () => {
+    const input = tones(1000, 4000, 5);
+    const noisy = tones(1000, 4000, 5, 200);
+    const lowpass = stage({ type: 'butterworth', response: 'lowpass', order: 4, cutoff: 50 });
+
+    expect(middleError(applyFilterChain([{ ...lowpass, zeroPhase: true }], noisy, 1000), input)).toBeLessThan(0.005);
+    // One way, the 5 Hz tone lags
+    expect(middleError(applyFilterChain([{ ...lowpass, zeroPhase: false }], noisy, 1000), input)).toBeGreaterThan(0.1);
+  });
+
+  it('should filter with a centred FIR', () => {
+    const fir = stage({ type: 'fir', response: 'lowpass', taps: 101, cutoff: 50, window: 'hamming' });
+    const h = designFir(fir, 1000);
+
+    expect(h.length).toBe(101);
+    expect(h.reduce((sum, value) => sum + value, 0)).toBeCloseTo(1, 12);
+    expect(middleError(applyFilterChain([fir], tones(1000, 2000, 5, 200), 1000), tones(1000, 2000, 5))).toBeLessThan(0.01);
+  });
+
+  it('should smooth with moving averages and medians, leaving gaps alone', () => {
+    const average = stage({ type: 'moving-average', width: 3 });
+    const median = stage({ type: 'median', width: 3 });
+
+    expect(Array.from(applyFilterChain([average], [0, 3, 6, 9], 1))).toEqual([1.5, 3, 6, 7.5]);
+    expect(Array.from(applyFilterChain([median], [1, 1, 10, 1, 2], 1))).toEqual([1, 1, 1, 2, 1.5]);
+    expect(Array.from(applyFilterChain([average], [1, 2, NaN, 4, 6], 1))).toEqual([1.5, 1.5, NaN, 5, 5]);
+  });
+
+  it('should keep medians of long windows as values rise and repeat', () => {
+    const values = Float64Array.from({ length: 2000 }, (_, i) => i % 7 === 0 ? 5 : i / 10);
+    const smoothed = applyFilterChain([stage({ type: 'median', width: 51 })], values, 1);
+
+    for (const i of [0, 24, 25, 500, 1999]) {
+      const window = Array.from(values.subarray(Math.max(0, i - 25), i + 26)).sort((a, b) => a - b);
+      const middle = window.length >> 1;
+      expect(smoothed[i]).toBe(window.length % 2 ? window[middle] : (window[middle - 1] + window[middle]) / 2);
+    }
+  });
+
+  it('should filter a stream in pieces as it would in one go', () => {
+    const stages = [
+      stage({ type: 'butterworth', response: 'lowpass', order: 4, cutoff: 50, zeroPhase: true }),
+      stage({ type: 'fir', response: 'highpass', taps: 11, cutoff: 5 }),
+      stage({ type: 'median', width: 5 }),
+      stage({ type: 'moving-average', width: 4 })
+    ];
+    const input = tones(1000, 600, 3, 120);
+    input[300] = NaN;
+
+    const whole = new FilterStream(stages, 1000).process(input);
+    const stream = new FilterStream(stages, 1000);
+    const bounds = [0, 1, 97, 300, 301, 450, 600];
+    const pieces = bounds.slice(1).flatMap((end, i) => Array.from(stream.process(input.subarray(bounds[i], end))));
+    expect(pieces).toEqual(Array.from(whole));
+    expect(whole[300]).toBeNaN();
+
+    // Recursive filters run forwards only
+    const forward = stage({ type: 'notch', zeroPhase: true });
+    const streamed = new FilterStream([forward], 1000).process(input.subarray(0, 300));
+    const batch = applyFilterChain([{ ...forward, zeroPhase: false }], input.subarray(0, 300), 1000);
+    expect(Array.from(streamed)).toEqual(Array.from(batch));
+    expect(() => new FilterStream([stage({ cutoff: 600 })], 1000)).toThrowError(/cutoff/);
+  });
+
+  it('should explain settings that can not be used', () => {
+    expect(filterProblem(stage({ cutoff: 100 }), 1000)).toBeNull();
+    expect(filterProblem(stage({ cutoff: 600 }), 1000)).toContain('half the sample rate');
+    expect(filterProblem(stage({ response: 'bandpass', cutoff: 100, cutoffHigh: 50 }), 1000)).toContain('upper edge');
+    expect(filterProblem(stage({ order: 12 }), 1000)).toContain('order');
+    expect(filterProblem(stage({ type: 'median', width: 0 }), 1000)).toContain('window');
+    expect(filterProblem(stage({}), NaN)).toContain('sample rate');
+  });
+});
@@ -0,0 +1,879 @@
+import { ChannelColumn } from './time-series-store.service';
+import { SpectrumWindow, sampleInterval, windowFunction } from './spectrum';
+import { RingBuffer } from './ring-buffer';
+
+export type FilterType = 'butterworth' | 'chebyshev' | 'fir' | 'notch' | 'moving-average' | 'median';
+export type FilterResponse = 'lowpass' | 'highpass' | 'bandpass' | 'bandstop';
+
+/**
+ * One stage of a channel's filter chain. Each type reads only its own
+ * parameters, so switching type keeps the others for switching back.
+ */
+export interface FilterStage {
+  type: FilterType;
+  // Butterworth, Chebyshev and FIR filters
+  response: FilterResponse;
+  // Hz; band-pass and band-stop filters pass or stop cutoff to cutoffHigh
+  cutoff: number;
+  cutoffHigh: number;
+  // Butterworth and Chebyshev order
+  order: number;
+  // Chebyshev pass-band ripple (dB)
+  ripple: number;
+  // Butterworth, Chebyshev and notch filters run forwards and then
+  // backwards, cancelling their phase shift
+  zeroPhase: boolean;
+  // FIR length, odd, and the window its ideal response is tapered with
+  taps: number;
+  window: SpectrumWindow;
+  // Notch: mains frequency (Hz), how many of its multiples to remove, and
+  // the quality factor (centre frequency over -3 dB width)
+  frequency: number;
+  harmonics: number;
+  q: number;
+  // Moving average and median window (samples)
+  width: number;
+}
+
+// Second-order section: (b0 + b1 z⁻¹ + b2 z⁻²) / (1 + a1 z⁻¹ + a2 z⁻²)
+export interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+export const DEFAULT_FILTER_STAGE: FilterStage = {
+  type: 'butterworth',
+  response: 'lowpass',
+  cutoff: 10,
+  cutoffHigh: 100,
+  order: 4,
+  ripple: 1,
+  zeroPhase: true,
+  taps: 101,
+  window: 'hamming',
+  frequency: 50,
+  harmonics: 3,
+  q: 30,
+  width: 5
+};
+
+export const MAX_FILTER_ORDER = 10;
+export const MAX_FIR_TAPS = 2001;
+export const MAX_FILTER_WIDTH = 10001;
+
+const TYPE_LABELS: Record<FilterType, string> = {
+  'butterworth': 'Butterworth',
+  'chebyshev': 'Chebyshev',
+  'fir': 'FIR',
+  'notch': 'Notch',
+  'moving-average': 'Moving average',
+  'median': 'Median'
+};
+
+const RESPONSE_LABELS: Record<FilterResponse, string> = {
+  'lowpass': 'low-pass',
+  'highpass': 'high-pass',
+  'bandpass': 'band-pass',
+  'bandstop': 'band-stop'
+};
+
+interface Complex {
+  re: number;
+  im: number;
+}
+
+// Analog or digital filter as zeros, poles and gain
+interface Zpk {
+  zeros: Complex[];
+  poles: Complex[];
+  gain: number;
+}
+
+/**
+ * Why a stage can't filter samples at `sampleRate` (Hz), or null when it can
+ */
+export function filterProblem(stage: FilterStage, sampleRate: number): string | null {
+  if (!(sampleRate > 0)) return 'The sample rate is unknown';
+  const nyquist = sampleRate / 2;
+  const below = (hz: number, what: string) =>
+    hz > 0 && hz < nyquist ? null : `The ${what} must be between 0 and ${+nyquist.toPrecision(6)} Hz, half the sample rate`;
+
+  switch (stage.type) {
+    case 'butterworth':
+    case 'chebyshev':
+    case 'fir': {
+      if (stage.type === 'fir') {
+        if (!Number.isInteger(stage.taps) || stage.taps < 3 || stage.taps > MAX_FIR_TAPS) {
+          return `The FIR length must be a whole number from 3 to ${MAX_FIR_TAPS}`;
+        }
+      } else if (!Number.isInteger(stage.order) || stage.order < 1 || stage.order > MAX_FILTER_ORDER) {
+        return `The order must be a whole number from 1 to ${MAX_FILTER_ORDER}`;
+      }
+      if (stage.type === 'chebyshev' && !(stage.ripple > 0)) return 'The ripple must be above 0 dB';
+
+      const band = stage.response === 'bandpass' || stage.response === 'bandstop';
+      const problem = below(stage.cutoff, band ? 'lower edge' : 'cutoff') || (band ? below(stage.cutoffHigh, 'upper edge') : null);
+      if (problem) return problem;
+      return band && stage.cutoffHigh <= stage.cutoff ? 'The upper edge must be above the lower edge' : null;
+    }
+    case 'notch':
+      if (!Number.isInteger(stage.harmonics) || stage.harmonics < 1) return 'Notch at least one frequency';
+      if (!(stage.q > 0)) return 'The quality factor must be above 0';
+      return below(stage.frequency, 'notch frequency');
+    case 'moving-average':
+    case 'median':
+      return Number.isInteger(stage.width) && stage.width >= 1 && stage.width <= MAX_FILTER_WIDTH
+        ? null
+        : `The window must be a whole number of samples from 1 to ${MAX_FILTER_WIDTH}`;
+  }
+}
+
+/**
+ * Short description of a stage, e.g. "Butterworth low-pass, order 4, 10 Hz, zero-phase"
+ */
+export function describeFilterStage(stage: FilterStage): string {
+  const band = stage.response === 'bandpass' || stage.response === 'bandstop';
+  const edges = band ? `${stage.cutoff}–${stage.cutoffHigh} Hz` : `${stage.cutoff} Hz`;
+
+  switch (stage.type) {
+    case 'butterworth':
+    case 'chebyshev': {
+      const ripple = stage.type === 'chebyshev' ? `, ${stage.ripple} dB ripple` : '';
+      const phase = stage.zeroPhase ? ', zero-phase' : '';
+      return `${TYPE_LABELS[stage.type]} ${RESPONSE_LABELS[stage.response]}, order ${stage.order}, ${edges}${ripple}${phase}`;
+    }
+    case 'fir':
+      return `FIR ${RESPONSE_LABELS[stage.response]}, ${stage.taps} taps, ${edges}`;
+    case 'notch': {
+      const harmonics = stage.harmonics > 1 ? ` and ${stage.harmonics - 1} harmonic${stage.harmonics > 2 ? 's' : ''}` : '';
+      return `Notch ${stage.frequency} Hz${harmonics}, Q ${stage.q}`;
+    }
+    case 'moving-average':
+    case 'median':
+      return `${TYPE_LABELS[stage.type]} of ${stage.width} samples`;
+  }
+}
+
+/**
+ * Filtered copy of a channel, sampled at the median interval of `time`.
+ * Missing samples stay missing.
+ */
+export function filterChannel(channel: ChannelColumn, time: Float64Array, stages: FilterStage[], name: string): ChannelColumn {
+  const sampleRate = 1000 / sampleInterval(time);
+  for (const stage of stages) {
+    const problem = filterProblem(stage, sampleRate);
+    if (problem) throw new Error(`${describeFilterStage(stage)}: ${problem}`);
+  }
+
+  return {
+    name,
+    values: applyFilterChain(stages, channel.values, sampleRate),
+    nullMask: channel.nullMask,
+    nullCount: channel.nullCount,
+    unit: channel.unit
+  };
+}
+
+/**
+ * Runs the stages in order over every run of samples between missing (NaN)
+ * values, so a gap doesn't spread through a recursive filter
+ */
+export function applyFilterChain(stages: FilterStage[], values: ArrayLike<number>, sampleRate: number): Float64Array {
+  const out = Float64Array.from({ length: values.length }, (_, i) => values[i]);
+  // Designed once; the runs only differ in length
+  const designs = stages.map(stage => designStage(stage, sampleRate));
+
+  for (let start = 0; start < out.length;) {
+    if (out[start] !== out[start]) {
+      start++;
+      continue;
+    }
+    let end = start + 1;
+    while (end < out.length && out[end] === out[end]) end++;
+
+    let run = out.subarray(start, end);
+    stages.forEach((stage, i) => run = runStage(stage, designs[i], run));
+    out.set(run, start);
+    start = end;
+  }
+  return out;
+}
+
+/**
+ * A filter chain run over samples as they arrive, each call carrying on
+ * from where the last one ended. Only causal filters can run this way, so
+ * IIR filters run forwards only, and FIR filters, moving averages and
+ * medians over the window up to each sample; their outputs lag the input.
+ */
+export class FilterStream {
+  private runners: StageRunner[];
+
+  /**
+   * Throws when a stage can't filter samples at `sampleRate` (Hz)
+   */
+  constructor(stages: FilterStage[], sampleRate: number) {
+    for (const stage of stages) {
+      const problem = filterProblem(stage, sampleRate);
+      if (problem) throw new Error(`${describeFilterStage(stage)}: ${problem}`);
+    }
+    this.runners = stages.map(stage => stageRunner(stage, designStage(stage, sampleRate)));
+  }
+
+  /**
+   * Filtered values of the next samples. A missing (NaN) sample stays
+   * missing and the filters start again after it.
+   */
+  process(values: ArrayLike<number>): Float64Array {
+    const out = new Float64Array(values.length);
+    for (let i = 0; i < values.length; i++) {
+      let x = values[i];
+      if (x !== x) {
+        out[i] = NaN;
+        for (const runner of this.runners) runner.reset();
+        continue;
+      }
+      for (const runner of this.runners) x = runner.step(x);
+      out[i] = x;
+    }
+    return out;
+  }
+}
+
+/**
+ * Second-order sections of a Butterworth or Chebyshev (type I) filter, by
+ * the bilinear transform with the cutoffs pre-warped
+ */
+export function designIir(stage: FilterStage, sampleRate: number): Biquad[] {
+  const warp = (hz: number) => 2 * sampleRate * Math.tan(Math.PI * hz / sampleRate);
+  const prototype = stage.type === 'chebyshev' ? chebyshevPrototype(stage.order, stage.ripple) : butterworthPrototype(stage.order);
+
+  let analog: Zpk;
+  if (stage.response === 'lowpass' || stage.response === 'highpass') {
+    analog = (stage.response === 'lowpass' ? lowpassToLowpass : lowpassToHighpass)(prototype, warp(stage.cutoff));
+  } else {
+    const low = warp(stage.cutoff);
+    const high = warp(stage.cutoffHigh);
+    analog = (stage.response === 'bandpass' ? lowpassToBandpass : lowpassToBandstop)(prototype, Math.sqrt(low * high), high - low);
+  }
+  return toSections(bilinear(analog, sampleRate));
+}
+
+/**
+ * Notches at `frequency` and its multiples below the Nyquist frequency
+ */
+export function designNotch(stage: FilterStage, sampleRate: number): Biquad[] {
+  const sections: Biquad[] = [];
+  for (let k = 1; k <= stage.harmonics && k * stage.frequency < sampleRate / 2; k++) {
+    const w0 = 2 * Math.PI * k * stage.frequency / sampleRate;
+    const alpha = Math.sin(w0) / (2 * stage.q);
+    const a0 = 1 + alpha;
+    const cos = -2 * Math.cos(w0) / a0;
+    sections.push({ b0: 1 / a0, b1: cos, b2: 1 / a0, a1: cos, a2: (1 - alpha) / a0 });
+  }
+  return sections;
+}
+
+/**
+ * Windowed-sinc FIR coefficients, odd in length and symmetric
+ */
+export function designFir(stage: FilterStage, sampleRate: number): Float64Array {
+  const taps = stage.taps | 1;
+  const periodic = windowFunction(stage.window, taps - 1);
+  const window = Float64Array.from({ length: taps }, (_, i) => periodic[i % (taps - 1)]);
+  const middle = (taps - 1) / 2;
+
+  // Low-pass with unity gain at DC
+  const lowpass = (hz: number) => {
+    const fc = hz / sampleRate;
+    const h = window.map((w, i) => {
+      const x = 2 * fc * (i - middle);
+      return w * 2 * fc * (x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x));
+    });
+    const sum = h.reduce((total, value) => total + value, 0);
+    return h.map(value => value / sum);
+  };
+  // The complement of a response: an impulse less it
+  const complement = (h: Float64Array) => h.map((value, i) => (i === middle ? 1 : 0) - value);
+
+  switch (stage.response) {
+    case 'lowpass':
+      return lowpass(stage.cutoff);
+    case 'highpass':
+      return complement(lowpass(stage.cutoff));
+    case 'bandpass': {
+      const low = lowpass(stage.cutoff);
+      return lowpass(stage.cutoffHigh).map((value, i) => value - low[i]);
+    }
+    case 'bandstop': {
+      const low = lowpass(stage.cutoff);
+      return complement(lowpass(stage.cutoffHigh).map((value, i) => value - low[i]));
+    }
+  }
+}
+
+/**
+ * Gain of cascaded sections at a frequency (Hz)
+ */
+export function sectionsGain(sections: Biquad[], frequency: number, sampleRate: number): number {
+  const w = 2 * Math.PI * frequency / sampleRate;
+  let gain = 1;
+  for (const { b0, b1, b2, a1, a2 } of sections) {
+    const num = { re: b0 + b1 * Math.cos(w) + b2 * Math.cos(2 * w), im: -b1 * Math.sin(w) - b2 * Math.sin(2 * w) };
+    const den = { re: 1 + a1 * Math.cos(w) + a2 * Math.cos(2 * w), im: -a1 * Math.sin(w) - a2 * Math.sin(2 * w) };
+    gain *= Math.hypot(num.re, num.im) / Math.hypot(den.re, den.im);
+  }
+  return gain;
+}
+
+type StageDesign = Biquad[] | Float64Array | null;
+
+function designStage(stage: FilterStage, sampleRate: number): StageDesign {
+  switch (stage.type) {
+    case 'butterworth':
+    case 'chebyshev':
+      return designIir(stage, sampleRate);
+    case 'notch':
+      return designNotch(stage, sampleRate);
+    case 'fir':
+      return designFir(stage, sampleRate);
+    default:
+      return null;
+  }
+}
+
+function runStage(stage: FilterStage, design: StageDesign, run: Float64Array): Float64Array {
+  switch (stage.type) {
+    case 'butterworth':
+    case 'chebyshev':
+    case 'notch':
+      return stage.zeroPhase ? filtfilt(design as Biquad[], run) : sosFilter(design as Biquad[], run);
+    case 'fir':
+      return firFilter(design as Float64Array, run);
+    case 'moving-average':
+      return movingAverage(run, stage.width);
+    case 'median':
+      return movingMedian(run, stage.width);
+  }
+}
+
+// One stage of a FilterStream, fed a sample at a time
+interface StageRunner {
+  step(x: number): number;
+  // The next sample starts a new run
+  reset(): void;
+}
+
+function stageRunner(stage: FilterStage, design: StageDesign): StageRunner {
+  switch (stage.type) {
+    case 'butterworth':
+    case 'chebyshev':
+    case 'notch':
+      return new SectionsRunner(design as Biquad[]);
+    case 'fir':
+      return new WindowRunner((design as Float64Array).length, window => {
+        const h = design as Float64Array;
+        let sum = 0;
+        for (let j = 0; j < h.length; j++) sum += h[j] * window.get(window.length - 1 - j);
+        return sum;
+      }, true);
+    case 'moving-average': {
+      let sum = 0;
+      return new WindowRunner(stage.width, window => sum / window.length,
+        false, (added, removed) => sum += added - (removed ?? 0), () => sum = 0);
+    }
+    case 'median': {
+      let median = new SlidingMedian();
+      return new WindowRunner(stage.width, () => median.median(),
+        false, (added, removed) => {
+          median.add(added);
+          if (removed !== null) median.remove(removed);
+        }, () => median = new SlidingMedian());
+    }
+  }
+}
+
+/**
+ * Sections as in sosFilter, one sample at a time
+ */
+class SectionsRunner implements StageRunner {
+  private s1: Float64Array;
+  private s2: Float64Array;
+  private started = false;
+
+  constructor(private sections: Biquad[]) {
+    this.s1 = new Float64Array(sections.length);
+    this.s2 = new Float64Array(sections.length);
+  }
+
+  step(x: number): number {
+    if (!this.started) {
+      let level = x;
+      this.sections.forEach(({ b0, b1, b2, a1, a2 }, k) => {
+        const dcGain = (b0 + b1 + b2) / (1 + a1 + a2);
+        this.s1[k] = (dcGain - b0) * level;
+        this.s2[k] = (b2 - a2 * dcGain) * level;
+        level *= dcGain;
+      });
+      this.started = true;
+    }
+
+    for (let k = 0; k < this.sections.length; k++) {
+      const { b0, b1, b2, a1, a2 } = this.sections[k];
+      const output = b0 * x + this.s1[k];
+      this.s1[k] = b1 * x - a1 * output + this.s2[k];
+      this.s2[k] = b2 * x - a2 * output;
+      x = output;
+    }
+    return x;
+  }
+
+  reset(): void {
+    this.started = false;
+  }
+}
+
+/**
+ * The last `size` samples of a run (fewer at its start, or the first
+ * sample repeated with `padded`), and a result computed from them.
+ * `slide` hears of each sample entering the window and the one leaving it
+ * (null while it fills).
+ */
+class WindowRunner implements StageRunner {
+  private window: RingBuffer;
+
+  constructor(
+    size: number,
+    private result: (window: RingBuffer) => number,
+    private padded: boolean,
+    private slide: (added: number, removed: number | null) => void = () => {},
+    private restart: () => void = () => {}
+  ) {
+    this.window = new RingBuffer(size);
+  }
+
+  step(x: number): number {
+    if (this.padded && !this.window.length) {
+      for (let i = 1; i < this.window.capacity; i++) this.window.push(x);
+    }
+    const removed = this.window.length === this.window.capacity ? this.window.get(0) : null;
+    this.window.push(x);
+    this.slide(x, removed);
+    return this.result(this.window);
+  }
+
+  reset(): void {
+    this.window.clear();
+    this.restart();
+  }
+}
+
+/**
+ * Cascaded sections in transposed direct form II, started in the steady
+ * state of the first sample so a signal on an offset doesn't ring in
+ */
+function sosFilter(sections: Biquad[], x: Float64Array): Float64Array {
+  const y = Float64Array.from(x);
+  if (!y.length) return y;
+
+  let level = y[0];
+  for (const { b0, b1, b2, a1, a2 } of sections) {
+    const dcGain = (b0 + b1 + b2) / (1 + a1 + a2);
+    let s1 = (dcGain - b0) * level;
+    let s2 = (b2 - a2 * dcGain) * level;
+    for (let i = 0; i < y.length; i++) {
+      const input = y[i];
+      const output = b0 * input + s1;
+      s1 = b1 * input - a1 * output + s2;
+      s2 = b2 * input - a2 * output;
+      y[i] = output;
+    }
+    level *= dcGain;
+  }
+  return y;
+}
+
+/**
+ * Forwards and then backwards, after extending both ends by an odd
+ * reflection so the edges don't ring
+ */
+function filtfilt(sections: Biquad[], x: Float64Array): Float64Array {
+  const n = x.length;
+  const pad = Math.min(n - 1, 6 * sections.length + 3);
+  const extended = new Float64Array(n + 2 * pad);
+  for (let i = 0; i < pad; i++) {
+    extended[i] = 2 * x[0] - x[pad - i];
+    extended[n + pad + i] = 2 * x[n - 1] - x[n - 2 - i];
+  }
+  extended.set(x, pad);
+
+  const forward = sosFilter(sections, extended).reverse();
+  return sosFilter(sections, forward).reverse().subarray(pad, pad + n);
+}
+
+/**
+ * Convolution centred on each sample, so the filter's delay is removed.
+ * Samples beyond the ends repeat the end values.
+ */
+function firFilter(h: Float64Array, x: Float64Array): Float64Array {
+  const n = x.length;
+  const middle = (h.length - 1) / 2;
+  const y = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = 0;
+    for (let j = 0; j < h.length; j++) {
+      const k = i + middle - j;
+      sum += h[j] * x[k < 0 ? 0 : k >= n ? n - 1 : k];
+    }
+    y[i] = sum;
+  }
+  return y;
+}
+
+/**
+ * Mean of a centred window, which narrows towards the ends
+ */
+function movingAverage(x: Float64Array, width: number): Float64Array {
+  const half = width >> 1;
+  const sums = new Float64Array(x.length + 1);
+  for (let i = 0; i < x.length; i++) sums[i + 1] = sums[i] + x[i];
+  return x.map((_, i) => {
+    const first = Math.max(0, i - half);
+    const after = Math.min(x.length, i + half + 1);
+    return (sums[after] - sums[first]) / (after - first);
+  });
+}
+
+/**
+ * Median of a centred window, which narrows towards the ends
+ */
+function movingMedian(x: Float64Array, width: number): Float64Array {
+  const half = width >> 1;
+  const median = new SlidingMedian();
+  const y = new Float64Array(x.length);
+
+  for (let i = 0; i < Math.min(half, x.length); i++) median.add(x[i]);
+  for (let i = 0; i < x.length; i++) {
+    if (i + half < x.length) median.add(x[i + half]);
+    if (i - half - 1 >= 0) median.remove(x[i - half - 1]);
+    y[i] = median.median();
+  }
+  return y;
+}
+
+/**
+ * Median of a window of values as values enter and leave it: the lower
+ * half in a max-heap and the upper half in a min-heap, so each change
+ * costs O(log width). Values that leave are dropped once they reach the
+ * top of their heap.
+ */
+class SlidingMedian {
+  private low = new NumberHeap((a, b) => a > b);
+  private high = new NumberHeap((a, b) => a < b);
+  // Values removed but still in a heap
+  private removed = new Map<number, number>();
+  private lowCount = 0;
+  private highCount = 0;
+
+  add(value: number): void {
+    if (!this.lowCount || value <= this.low.top()) {
+      this.low.push(value);
+      this.lowCount++;
+    } else {
+      this.high.push(value);
+      this.highCount++;
+    }
+    this.balance();
+  }
+
+  /**
+   * Takes out a value that was added
+   */
+  remove(value: number): void {
+    this.removed.set(value, (this.removed.get(value) || 0) + 1);
+    if (value <= this.low.top()) {
+      this.lowCount--;
+      this.prune(this.low);
+    } else {
+      this.highCount--;
+      this.prune(this.high);
+    }
+    this.balance();
+
+    // Removed values that never reach the top (a steady rise, say) are
+    // cleared out before they outnumber the window
+    if (this.low.size + this.high.size > 2 * (this.lowCount + this.highCount) + 32) this.compact();
+  }
+
+  median(): number {
+    if (!this.lowCount) return NaN;
+    return this.lowCount > this.highCount ? this.low.top() : (this.low.top() + this.high.top()) / 2;
+  }
+
+  // Keeps the lower half the same size as the upper one or one larger
+  private balance(): void {
+    if (this.lowCount > this.highCount + 1) {
+      this.high.push(this.low.pop());
+      this.lowCount--;
+      this.highCount++;
+      this.prune(this.low);
+    } else if (this.lowCount < this.highCount) {
+      this.low.push(this.high.pop());
+      this.highCount--;
+      this.lowCount++;
+      this.prune(this.high);
+    }
+  }
+
+  private prune(heap: NumberHeap): void {
+    while (heap.size) {
+      const count = this.removed.get(heap.top());
+      if (!count) return;
+      if (count === 1) this.removed.delete(heap.top());
+      else this.removed.set(heap.top(), count - 1);
+      heap.pop();
+    }
+  }
+
+  private compact(): void {
+    const values = [...this.low.values(), ...this.high.values()].filter(value => {
+      const count = this.removed.get(value);
+      if (!count) return true;
+      if (count === 1) this.removed.delete(value);
+      else this.removed.set(value, count - 1);
+      return false;
+    }).sort((a, b) => a - b);
+
+    this.low = new NumberHeap((a, b) => a > b);
+    this.high = new NumberHeap((a, b) => a < b);
+    this.lowCount = 0;
+    this.highCount = 0;
+    for (const value of values) this.add(value);
+  }
+}
+
+// Binary heap with the value `before` all others on top
+class NumberHeap {
+  private items: number[] = [];
+
+  constructor(private before: (a: number, b: number) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  top(): number {
+    return this.items[0];
+  }
+
+  values(): number[] {
+    return this.items;
+  }
+
+  push(value: number): void {
+    const items = this.items;
+    let i = items.length;
+    items.push(value);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length) {
+      items[0] = last;
+      for (let i = 0; ;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let next = i;
+        if (left < items.length && this.before(items[left], items[next])) next = left;
+        if (right < items.length && this.before(items[right], items[next])) next = right;
+        if (next === i) break;
+        [items[i], items[next]] = [items[next], items[i]];
+        i = next;
+      }
+    }
+    return top;
+  }
+}
+
+// Analog low-pass prototypes with a cutoff of 1 rad/s
+
+function butterworthPrototype(order: number): Zpk {
+  const poles = Array.from({ length: order }, (_, k) => {
+    const angle = Math.PI * (2 * k + order + 1) / (2 * order);
+    return { re: Math.cos(angle), im: Math.sin(angle) };
+  });
+  return { zeros: [], poles, gain: 1 };
+}
+
+function chebyshevPrototype(order: number, ripple: number): Zpk {
+  const epsilon = Math.sqrt(Math.pow(10, ripple / 10) - 1);
+  const mu = Math.asinh(1 / epsilon) / order;
+  const poles = Array.from({ length: order }, (_, k) => {
+    const theta = Math.PI * (2 * k + 1) / (2 * order);
+    return { re: -Math.sinh(mu) * Math.sin(theta), im: Math.cosh(mu) * Math.cos(theta) };
+  });
+  // Odd orders peak at 0 dB at DC, even ones at the bottom of the ripple
+  const gain = product(poles.map(negate)).re / (order % 2 ? 1 : Math.sqrt(1 + epsilon * epsilon));
+  return { zeros: [], poles, gain };
+}
+
+// Frequency transformations of a prototype to edges in rad/s
+
+function lowpassToLowpass({ zeros, poles, gain }: Zpk, cutoff: number): Zpk {
+  return {
+    zeros: zeros.map(z => scale(z, cutoff)),
+    poles: poles.map(p => scale(p, cutoff)),
+    gain: gain * Math.pow(cutoff, poles.length - zeros.length)
+  };
+}
+
+function lowpassToHighpass({ zeros, poles, gain }: Zpk, cutoff: number): Zpk {
+  return {
+    zeros: [...zeros.map(z => divide({ re: cutoff, im: 0 }, z)), ...repeat({ re: 0, im: 0 }, poles.length - zeros.length)],
+    poles: poles.map(p => divide({ re: cutoff, im: 0 }, p)),
+    gain: gain * divide(product(zeros.map(negate)), product(poles.map(negate))).re
+  };
+}
+
+function lowpassToBandpass({ zeros, poles, gain }: Zpk, centre: number, bandwidth: number): Zpk {
+  const split = (x: Complex) => {
+    const half = scale(x, bandwidth / 2);
+    const root = sqrt(subtract(multiply(half, half), { re: centre * centre, im: 0 }));
+    return [add(half, root), subtract(half, root)];
+  };
+  return {
+    zeros: [...zeros.flatMap(split), ...repeat({ re: 0, im: 0 }, poles.length - zeros.length)],
+    poles: poles.flatMap(split),
+    gain: gain * Math.pow(bandwidth, poles.length - zeros.length)
+  };
+}
+
+function lowpassToBandstop({ zeros, poles, gain }: Zpk, centre: number, bandwidth: number): Zpk {
+  const split = (x: Complex) => {
+    const half = divide({ re: bandwidth / 2, im: 0 }, x);
+    const root = sqrt(subtract(multiply(half, half), { re: centre * centre, im: 0 }));
+    return [add(half, root), subtract(half, root)];
+  };
+  const extra = poles.length - zeros.length;
+  return {
+    zeros: [...zeros.flatMap(split), ...repeat({ re: 0, im: centre }, extra), ...repeat({ re: 0, im: -centre }, extra)],
+    poles: poles.flatMap(split),
+    gain: gain * divide(product(zeros.map(negate)), product(poles.map(negate))).re
+  };
+}
+
+function bilinear({ zeros, poles, gain }: Zpk, sampleRate: number): Zpk {
+  const fs2 = { re: 2 * sampleRate, im: 0 };
+  const map = (x: Complex) => divide(add(fs2, x), subtract(fs2, x));
+  return {
+    // Zeros at infinity land on the Nyquist frequency
+    zeros: [...zeros.map(map), ...repeat({ re: -1, im: 0 }, poles.length - zeros.length)],
+    poles: poles.map(map),
+    gain: gain * divide(product(zeros.map(z => subtract(fs2, z))), product(poles.map(p => subtract(fs2, p)))).re
+  };
+}
+
+/**
+ * Pairs conjugate poles and zeros into sections, each pole pair with the
+ * zeros nearest to it, and puts the gain in the first section
+ */
+function toSections({ zeros, poles, gain }: Zpk): Biquad[] {
+  const polePairs = pairConjugates(poles);
+  const zeroPairs = pairConjugates(zeros);
+  // Poles nearest the unit circle last, as they ring the most
+  polePairs.sort((a, b) => Math.max(...a.map(magnitude)) - Math.max(...b.map(magnitude)));
+
+  return polePairs.map((pair, i) => {
+    let nearest = 0;
+    for (let j = 1; j < zeroPairs.length; j++) {
+      if (distance(zeroPairs[j][0], pair[0]) < distance(zeroPairs[nearest][0], pair[0])) nearest = j;
+    }
+    const [zeroPair] = zeroPairs.splice(nearest, 1);
+    const [b0, b1, b2] = polynomial(zeroPair || []);
+    const [, a1, a2] = polynomial(pair);
+    const k = i === 0 ? gain : 1;
+    return { b0: b0 * k, b1: b1 * k, b2: b2 * k, a1, a2 };
+  });
+}
+
+/**
+ * Groups of one or two roots whose polynomial has real coefficients:
+ * conjugate pairs, then the real roots two at a time
+ */
+function pairConjugates(roots: Complex[]): Complex[][] {
+  const tolerance = 1e-9;
+  const complex = roots.filter(r => r.im > tolerance * Math.max(1, magnitude(r)));
+  const real = roots.filter(r => Math.abs(r.im) <= tolerance * Math.max(1, magnitude(r))).sort((a, b) => a.re - b.re);
+
+  const pairs = complex.map(r => [r, { re: r.re, im: -r.im }]);
+  for (let i = 0; i < real.length; i += 2) {
+    pairs.push(real.slice(i, i + 2).map(r => ({ re: r.re, im: 0 })));
+  }
+  return pairs;
+}
+
+// Coefficients of the monic polynomial with these roots, padded to degree two
+function polynomial(roots: Complex[]): [number, number, number] {
+  if (roots.length === 0) return [1, 0, 0];
+  if (roots.length === 1) return [1, -roots[0].re, 0];
+  const [r1, r2] = roots;
+  return [1, -(r1.re + r2.re), multiply(r1, r2).re];
+}
+
+function repeat(value: Complex, count: number): Complex[] {
+  return Array.from({ length: Math.max(0, count) }, () => ({ ...value }));
+}
+
+function add(a: Complex, b: Complex): Complex {
+  return { re: a.re + b.re, im: a.im + b.im };
+}
+
+function subtract(a: Complex, b: Complex): Complex {
+  return { re: a.re - b.re, im: a.im - b.im };
+}
+
+function multiply(a: Complex, b: Complex): Complex {
+  return { re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re };
+}
+
+function divide(a: Complex, b: Complex): Complex {
+  const d = b.re * b.re + b.im * b.im;
+  return { re: (a.re * b.re + a.im * b.im) / d, im: (a.im * b.re - a.re * b.im) / d };
+}
+
+function scale(a: Complex, k: number): Complex {
+  return { re: a.re * k, im: a.im * k };
+}
+
+function negate(a: Complex): Complex {
+  return { re: -a.re, im: -a.im };
+}
+
+function sqrt(a: Complex): Complex {
+  const r = magnitude(a);
+  const re = Math.sqrt((r + a.re) / 2);
+  const im = Math.sqrt(Math.max(0, (r - a.re) / 2));
+  return { re, im: a.im < 0 ? -im : im };
+}
+
+function magnitude(a: Complex): number {
+  return Math.hypot(a.re, a.im);
+}
+
+function distance(a: Complex, b: Complex): number {
+  return Math.hypot(a.re - b.re, a.im - b.im);
+}
+
+function product(values: Complex[]): Complex {
+  return values.reduce(multiply, { re: 1, im: 0 });
+}
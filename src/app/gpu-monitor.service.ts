@@ -1,11 +1,17 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject } from 'rxjs';
 
+// Draws the chart's lines: the WebGL line layer or ECharts' canvas
+export type LineRenderer = 'canvas' | 'webgl';
+
 export interface GPUStats {
   fps: number;
   renderTime: number;
   memoryUsage?: number;
   gpuActive: boolean;
+  // Average time to draw a chart frame (ms) with the line renderer in use
+  chartFrameTime?: number;
+  lineRenderer?: LineRenderer;
 }
 
 @Injectable({
@@ -17,6 +23,9 @@ export class GPUMonitorService {
   private fpsUpdateInterval = 1000; // Update FPS every second
   private animationFrameId: number | null = null;
   private monitoring = false;
+  private chartFrameTotal = 0;
+  private chartFrames = 0;
+  private lineRenderer: LineRenderer | undefined;
   
   public stats = new BehaviorSubject<GPUStats>({
     fps: 0,
@@ -64,6 +73,37 @@ export class GPUMonitorService {
     this.updateStats();
   }
   
+  /**
+   * Records how long the chart took to draw a frame. Averages are published
+   * with the next FPS update and start over when the renderer changes.
+   */
+  recordChartFrame(renderer: LineRenderer, milliseconds: number): void {
+    if (renderer !== this.lineRenderer) {
+      this.lineRenderer = renderer;
+      this.chartFrameTotal = 0;
+      this.chartFrames = 0;
+    }
+    this.chartFrameTotal += milliseconds;
+    this.chartFrames++;
+    
+    // Without the animation frame loop nothing else publishes them
+    if (!this.monitoring || !this.stats.value.gpuActive) {
+      this.stats.next({ ...this.stats.value, ...this.chartFrameStats() });
+    }
+  }
+  
+  private chartFrameStats(): Pick<GPUStats, 'chartFrameTime' | 'lineRenderer'> {
+    const previous = this.stats.value;
+    if (!this.chartFrames) {
+      return { chartFrameTime: previous.chartFrameTime, lineRenderer: previous.lineRenderer };
+    }
+    
+    const stats = { chartFrameTime: this.chartFrameTotal / this.chartFrames, lineRenderer: this.lineRenderer };
+    this.chartFrameTotal = 0;
+    this.chartFrames = 0;
+    return stats;
+  }
+  
   stopMonitoring(): void {
     this.monitoring = false;
     if (this.animationFrameId !== null) {
@@ -86,7 +126,8 @@ export class GPUMonitorService {
       this.stats.next({
         fps,
         renderTime,
-        gpuActive: true
+        gpuActive: true,
+        ...this.chartFrameStats()
       });
       
       this.frames = 0;
@@ -0,0 +1,40 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ImportPreviewComponent } from './import-preview.component';
+import { detectDialect } from '../csv-dialect';
+
+describe('ImportPreviewComponent', () => {
+  let component: ImportPreviewComponent;
+  let fixture: ComponentFixture<ImportPreviewComponent>;
+
+  const sample = 'Zeit;U1\n2024-03-01 10:00:00;1,5\n2024-03-01 10:00:01;1,75\n';
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ImportPreviewComponent]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ImportPreviewComponent);
+    component = fixture.componentInstance;
+    component.sample = sample;
+    component.dialect = detectDialect(sample);
+    component.ngOnChanges();
+    fixture.detectChanges();
+  });
+
+  it('should preview the rows with parsed times', () => {
+    expect(component.preview.layout.names).toEqual(['Zeit', 'U1']);
+    expect(component.preview.rows.length).toBe(2);
+    expect(component.unreadableTimes).toBe(0);
+  });
+
+  it('should emit the chosen settings on import', () => {
+    let emitted: any = null;
+    component.confirmed.subscribe(settings => emitted = settings);
+
+    component.updateDialect({ timeColumn: 1 });
+    component.confirm();
+
+    expect(emitted.dialect.timeColumn).toBe(1);
+    expect(emitted.dialect.delimiter).toBe(';');
+  });
+});
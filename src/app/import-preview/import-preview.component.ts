@@ -0,0 +1,99 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import {
+  CSV_DELIMITERS,
+  CsvDialect,
+  CsvPreview,
+  DEFAULT_CSV_DIALECT,
+  detectDialect,
+  previewSample
+} from '../csv-dialect';
+import {
+  DEFAULT_TIMESTAMP_OPTIONS,
+  ParsedTime,
+  TIMESTAMP_FORMATS,
+  TimestampOptions,
+  availableTimeZones,
+  createTimestampParser,
+  formatTimestamp
+} from '../timestamp-formats';
+import { ImportSettings } from '../import-settings.service';
+
+/**
+ * Shows the first rows of a file as they will be imported, with the detected
+ * dialect and timestamp settings open for correction before parsing starts.
+ */
+@Component({
+  selector: 'app-import-preview',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './import-preview.component.html',
+  styleUrls: ['./import-preview.component.scss']
+})
+export class ImportPreviewComponent implements OnChanges {
+  // Text from the start of the file, cut at a line break
+  @Input() sample = '';
+  @Input() sourceName = '';
+  @Input() dialect: CsvDialect = DEFAULT_CSV_DIALECT;
+  @Input() timestampOptions: TimestampOptions = DEFAULT_TIMESTAMP_OPTIONS;
+
+  @Output() confirmed = new EventEmitter<ImportSettings>();
+  @Output() cancelled = new EventEmitter<void>();
+
+  readonly delimiters = CSV_DELIMITERS;
+  readonly timestampFormats = TIMESTAMP_FORMATS;
+  readonly timeZones = availableTimeZones();
+
+  preview: CsvPreview = { layout: { names: [], units: [] }, rows: [] };
+  // Parsed time of each preview row, null where it can't be read
+  parsedTimes: Array<string | null> = [];
+  error: string | null = null;
+
+  ngOnChanges(): void {
+    this.refresh();
+  }
+
+  updateDialect(changes: Partial<CsvDialect>): void {
+    this.dialect = { ...this.dialect, ...changes };
+    this.refresh();
+  }
+
+  updateTimestamps(changes: Partial<TimestampOptions>): void {
+    this.timestampOptions = { ...this.timestampOptions, ...changes };
+    this.refresh();
+  }
+
+  redetect(): void {
+    this.dialect = detectDialect(this.sample);
+    this.refresh();
+  }
+
+  get unreadableTimes(): number {
+    return this.parsedTimes.filter(t => t === null).length;
+  }
+
+  confirm(): void {
+    this.confirmed.emit({ timestamps: this.timestampOptions, dialect: this.dialect });
+  }
+
+  private refresh(): void {
+    this.error = null;
+    this.preview = previewSample(this.sample, this.dialect);
+
+    try {
+      const parse = createTimestampParser(this.timestampOptions);
+      const out: ParsedTime = { ms: 0, frac: 0 };
+      this.parsedTimes = this.preview.rows.map(row => {
+        const cell = row[this.dialect.timeColumn];
+        return cell !== undefined && parse(cell, out)
+          ? formatTimestamp(out.ms, out.frac, this.timestampOptions.timeZone)
+          : null;
+      });
+    } catch (e: any) {
+      // Typically an unknown token in a custom pattern
+      this.error = e.message;
+      this.parsedTimes = this.preview.rows.map(() => null);
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { ImportReportBuilder, analyzeTiming } from './import-report';
+
+describe('import report', () => {
+  it('should estimate the sampling rate and jitter', () => {
+    const times = Float64Array.from({ length: 1001 }, (_, i) => i * 0.1 + (i % 2 ? 0.001 : 0));
+    const timing = analyzeTiming(times, 0);
+
+    expect(timing.sampling!.rateHz).toBeCloseTo(10000, -3);
+    expect(timing.sampling!.jitter).toBeGreaterThan(0);
+    expect(timing.gapCount).toBe(0);
+  });
+
+  it('should find gaps above the threshold in absolute time', () => {
+    const times = new Float64Array([0, 1, 2, 3, 50, 51, 52, 200]);
+    const timing = analyzeTiming(times, 1000);
+
+    expect(timing.gapThreshold).toBe(5);
+    expect(timing.gapCount).toBe(2);
+    expect(timing.gaps[0]).toEqual({ start: 1003, end: 1050, duration: 47 });
+
+    expect(analyzeTiming(times, 1000, 100).gapCount).toBe(1);
+  });
+
+  it('should only keep the first examples but count everything', () => {
+    const builder = new ImportReportBuilder();
+    builder.setChannels(['a', 'b']);
+    for (let line = 1; line <= 50; line++) {
+      builder.nonNumeric(1, line, 'n/a');
+      builder.duplicateTimestamp(line);
+    }
+
+    const report = builder.build(100, analyzeTiming(new Float64Array(0), 0));
+    expect(report.channels.length).toBe(1);
+    expect(report.channels[0].nonNumericCount).toBe(50);
+    expect(report.channels[0].examples.length).toBe(20);
+    expect(report.duplicateTimestamps.count).toBe(50);
+    expect(report.duplicateTimestamps.lines.length).toBe(20);
+  });
+});
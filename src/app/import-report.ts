@@ -0,0 +1,203 @@
+/**
+ * Diagnostics collected while importing a file: rows that were dropped,
+ * cells that weren't numbers, timestamp ordering problems, the sampling
+ * rate and gaps in the time column.
+ */
+
+// Examples kept per issue; counts are always complete
+const MAX_EXAMPLES = 20;
+const MAX_SKIPPED_ROWS = 1000;
+const MAX_GAPS = 1000;
+
+// Intervals sampled to estimate the median on very large files
+const MEDIAN_SAMPLE_SIZE = 100000;
+
+// Default gap threshold as a multiple of the median sample interval
+export const DEFAULT_GAP_FACTOR = 5;
+
+export interface SkippedRow {
+  line: number;
+  reason: string;
+  text: string;
+}
+
+export interface CellIssue {
+  line: number;
+  value: string;
+}
+
+export interface ChannelIssues {
+  channel: string;
+  nonNumericCount: number;
+  examples: CellIssue[];
+}
+
+export interface LineIssues {
+  count: number;
+  // Line numbers of the first occurrences
+  lines: number[];
+}
+
+export interface TimeGap {
+  // Absolute epoch milliseconds of the samples either side of the gap
+  start: number;
+  end: number;
+  duration: number;
+}
+
+export interface SamplingInfo {
+  // Milliseconds
+  medianInterval: number;
+  minInterval: number;
+  maxInterval: number;
+  // Standard deviation of the intervals that aren't gaps
+  jitter: number;
+  rateHz: number;
+}
+
+export interface TimingAnalysis {
+  sampling: SamplingInfo | null;
+  gapThreshold: number;
+  gapCount: number;
+  // In time order, capped; gapCount has the full number
+  gaps: TimeGap[];
+}
+
+export interface ImportReport extends TimingAnalysis {
+  dataRows: number;
+  importedRows: number;
+  skippedRowCount: number;
+  skippedRows: SkippedRow[];
+  channels: ChannelIssues[];
+  // Imported rows with more or fewer fields than the header
+  fieldCountMismatches: LineIssues;
+  duplicateTimestamps: LineIssues;
+  outOfOrderTimestamps: LineIssues;
+}
+
+/**
+ * Accumulates row-level issues while a file is parsed
+ */
+export class ImportReportBuilder {
+  dataRows = 0;
+  private skippedRowCount = 0;
+  private skippedRows: SkippedRow[] = [];
+  private channels: ChannelIssues[] = [];
+  private fieldCountMismatches: LineIssues = { count: 0, lines: [] };
+  private duplicates: LineIssues = { count: 0, lines: [] };
+  private outOfOrder: LineIssues = { count: 0, lines: [] };
+
+  setChannels(names: string[]): void {
+    this.channels = names.map(channel => ({ channel, nonNumericCount: 0, examples: [] }));
+  }
+
+  skipRow(line: number, reason: string, cells: string[], delimiter: string): void {
+    this.skippedRowCount++;
+    if (this.skippedRows.length < MAX_SKIPPED_ROWS) {
+      this.skippedRows.push({ line, reason, text: cells.join(delimiter).slice(0, 200) });
+    }
+  }
+
+  nonNumeric(channel: number, line: number, value: string): void {
+    const issues = this.channels[channel];
+    issues.nonNumericCount++;
+    if (issues.examples.length < MAX_EXAMPLES) {
+      issues.examples.push({ line, value: value.slice(0, 50) });
+    }
+  }
+
+  fieldCountMismatch(line: number): void {
+    addLineIssue(this.fieldCountMismatches, line);
+  }
+
+  duplicateTimestamp(line: number): void {
+    addLineIssue(this.duplicates, line);
+  }
+
+  outOfOrderTimestamp(line: number): void {
+    addLineIssue(this.outOfOrder, line);
+  }
+
+  build(importedRows: number, timing: TimingAnalysis): ImportReport {
+    return {
+      dataRows: this.dataRows,
+      importedRows,
+      skippedRowCount: this.skippedRowCount,
+      skippedRows: this.skippedRows,
+      channels: this.channels.filter(c => c.nonNumericCount > 0),
+      fieldCountMismatches: this.fieldCountMismatches,
+      duplicateTimestamps: this.duplicates,
+      outOfOrderTimestamps: this.outOfOrder,
+      ...timing
+    };
+  }
+}
+
+/**
+ * Sampling rate, jitter and gaps of a sorted time column (offsets from
+ * `timeOrigin`). Without a threshold, gaps are intervals longer than
+ * DEFAULT_GAP_FACTOR times the median interval.
+ */
+export function analyzeTiming(times: ArrayLike<number>, timeOrigin: number, gapThreshold?: number): TimingAnalysis {
+  const n = times.length;
+  if (n < 2) {
+    return { sampling: null, gapThreshold: gapThreshold || 0, gapCount: 0, gaps: [] };
+  }
+
+  // Median from an evenly spaced sample of the intervals
+  const stride = Math.max(1, Math.floor((n - 1) / MEDIAN_SAMPLE_SIZE));
+  const sample: number[] = [];
+  let minInterval = Infinity;
+  let maxInterval = 0;
+  for (let i = 1; i < n; i++) {
+    const dt = times[i] - times[i - 1];
+    if (dt < minInterval) minInterval = dt;
+    if (dt > maxInterval) maxInterval = dt;
+    if (i % stride === 0 && dt > 0) sample.push(dt);
+  }
+  sample.sort((a, b) => a - b);
+  const medianInterval = sample.length ? sample[sample.length >> 1] : 0;
+
+  const threshold = gapThreshold || medianInterval * DEFAULT_GAP_FACTOR;
+  const gaps: TimeGap[] = [];
+  let gapCount = 0;
+  // Welford's running variance over the intervals that aren't gaps
+  let count = 0;
+  let mean = 0;
+  let m2 = 0;
+
+  for (let i = 1; i < n; i++) {
+    const dt = times[i] - times[i - 1];
+    if (threshold > 0 && dt > threshold) {
+      gapCount++;
+      if (gaps.length < MAX_GAPS) {
+        gaps.push({ start: timeOrigin + times[i - 1], end: timeOrigin + times[i], duration: dt });
+      }
+      continue;
+    }
+    count++;
+    const delta = dt - mean;
+    mean += delta / count;
+    m2 += delta * (dt - mean);
+  }
+
+  return {
+    sampling: {
+      medianInterval,
+      minInterval,
+      maxInterval,
+      jitter: count > 1 ? Math.sqrt(m2 / (count - 1)) : 0,
+      rateHz: medianInterval > 0 ? 1000 / medianInterval : 0
+    },
+    gapThreshold: threshold,
+    gapCount,
+    gaps
+  };
+}
+
+function addLineIssue(issues: LineIssues, line: number): void {
+  issues.count++;
+  if (issues.lines.length < MAX_EXAMPLES) {
+    issues.lines.push(line);
+  }
+}
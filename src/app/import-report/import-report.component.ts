@@ -0,0 +1,63 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ImportReport } from '../import-report';
+import { formatTimestamp } from '../timestamp-formats';
+
+/**
+ * Import diagnostics for the loaded file, with the gap threshold open for
+ * adjustment and a JSON download of the whole report.
+ */
+@Component({
+  selector: 'app-import-report',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './import-report.component.html',
+  styleUrls: ['./import-report.component.scss']
+})
+export class ImportReportComponent {
+  @Input() report: ImportReport | null = null;
+  @Input() sourceName = '';
+  @Input() timeZone = 'local';
+  @Input() showGaps = true;
+
+  @Output() closed = new EventEmitter<void>();
+  @Output() gapThresholdChange = new EventEmitter<number>();
+  @Output() showGapsChange = new EventEmitter<boolean>();
+  @Output() gapSelected = new EventEmitter<[number, number]>();
+
+  formatTime(ms: number): string {
+    return formatTimestamp(ms, 0, this.timeZone);
+  }
+
+  formatInterval(ms: number): string {
+    if (ms >= 1000) return `${+(ms / 1000).toFixed(3)} s`;
+    if (ms >= 1) return `${+ms.toFixed(3)} ms`;
+    return `${+(ms * 1000).toFixed(3)} µs`;
+  }
+
+  formatRate(hz: number): string {
+    if (hz >= 1e6) return `${+(hz / 1e6).toFixed(3)} MHz`;
+    if (hz >= 1e3) return `${+(hz / 1e3).toFixed(3)} kHz`;
+    return `${+hz.toFixed(3)} Hz`;
+  }
+
+  onThresholdChange(value: number): void {
+    if (value > 0) {
+      this.gapThresholdChange.emit(value);
+    }
+  }
+
+  download(): void {
+    if (!this.report) return;
+
+    const json = JSON.stringify({ source: this.sourceName, ...this.report }, null, 2);
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${this.sourceName.replace(/^.*[\\/]/, '').replace(/\.[^.]*$/, '') || 'import'}_report.json`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 100);
+  }
+}
@@ -0,0 +1,64 @@
+import { Injectable } from '@angular/core';
+import { DEFAULT_TIMESTAMP_OPTIONS, TimestampOptions } from './timestamp-formats';
+import { CsvDialect } from './csv-dialect';
+
+export interface ImportSettings {
+  timestamps: TimestampOptions;
+  // Confirmed in the import preview; detected again when missing
+  dialect?: CsvDialect;
+  // File opened from a zip archive
+  archiveMember?: string;
+}
+
+/**
+ * Remembers how each source was imported (keyed by file name or URL), so
+ * reopening a file uses the same dialect, timestamp format and time zone.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ImportSettingsService {
+  private storageKey = 'tsv.importSettings';
+  private maxEntries = 50;
+
+  private settings: Record<string, ImportSettings> = this.readStorage();
+
+  get(source: string): ImportSettings {
+    const stored = this.settings[source];
+    return {
+      timestamps: { ...DEFAULT_TIMESTAMP_OPTIONS, ...stored?.timestamps },
+      dialect: stored?.dialect,
+      archiveMember: stored?.archiveMember
+    };
+  }
+
+  set(source: string, settings: ImportSettings): void {
+    // Re-insert so the most recently used sources are kept when trimming
+    delete this.settings[source];
+    this.settings[source] = settings;
+
+    const keys = Object.keys(this.settings);
+    for (const key of keys.slice(0, Math.max(0, keys.length - this.maxEntries))) {
+      delete this.settings[key];
+    }
+    this.writeStorage();
+  }
+
+  private readStorage(): Record<string, ImportSettings> {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      return stored ? JSON.parse(stored) : {};
+    } catch (e) {
+      console.warn('Unable to read import settings:', e);
+      return {};
+    }
+  }
+
+  private writeStorage(): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.settings));
+    } catch (e) {
+      console.warn('Unable to store import settings:', e);
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { Injectable, inject } from '@angular/core';
+import { TimeSeriesStore } from './time-series-store.service';
+import { DecimatedSeries, MinMaxLevel, buildMinMaxPyramid, extendMinMaxPyramid, interleave, lttb, minMaxDecimate } from './downsampling';
+import { lowerBound, upperBound } from './columnar';
+
+export type DecimationMode = 'minmax' | 'lttb';
+
+export interface LevelOfDetailResult {
+  // Flat [t, v, t, v, ...] series data for ECharts
+  data: Float64Array;
+  // Samples inside the requested window
+  visibleCount: number;
+  // Points handed to the chart
+  renderedCount: number;
+  // True when every sample in the window is drawn
+  raw: boolean;
+}
+
+interface ChannelPyramid {
+  // Store version the levels were built or extended at
+  version: number;
+  levels: MinMaxLevel[];
+}
+
+/**
+ * Reduces each channel to roughly two points per horizontal pixel of the
+ * visible window, so the chart never draws more than the screen can show.
+ * Queries go to the shared store unless another one (a file added to the
+ * session) is given.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LevelOfDetailService {
+  private store = inject(TimeSeriesStore);
+
+  mode: DecimationMode = 'minmax';
+
+  // Samples per block of the precomputed min/max levels, finest first
+  private levelSizes: number[] = [100, 500, 1000, 5000];
+  private pyramids = new WeakMap<TimeSeriesStore, Map<string, ChannelPyramid>>();
+
+  setLevelSizes(sizes: number[]): void {
+    this.levelSizes = [...sizes].sort((a, b) => a - b);
+    this.clear();
+  }
+
+  /**
+   * Series data for one channel between t0 and t1, sized for a grid that is
+   * `pixelWidth` pixels wide
+   */
+  query(
+    channel: string,
+    t0: number,
+    t1: number,
+    pixelWidth: number,
+    store: TimeSeriesStore = this.store
+  ): LevelOfDetailResult {
+    const column = store.getChannel(channel);
+    if (!column || store.length === 0) {
+      return { data: new Float64Array(0), visibleCount: 0, renderedCount: 0, raw: true };
+    }
+
+    const [first, last] = store.indexRange(t0, t1);
+    const visibleCount = last - first;
+
+    // Include one sample either side so lines run off the edge of the grid
+    const start = Math.max(0, first - 1);
+    const end = Math.min(store.length, last + 1);
+    const target = Math.max(4, Math.round(pixelWidth * 2));
+
+    if (end - start <= target) {
+      const data = store.interleave(channel, start, end);
+      return { data, visibleCount, renderedCount: end - start, raw: true };
+    }
+
+    let series: DecimatedSeries;
+    if (this.mode === 'lttb') {
+      series = lttb(store.getTimes(), column.values, start, end, target);
+    } else {
+      series = this.decimateMinMax(store, channel, start, end, target);
+    }
+
+    return { data: interleave(series, store.timeOrigin), visibleCount, renderedCount: series.time.length, raw: false };
+  }
+
+  clear(): void {
+    this.pyramids = new WeakMap();
+  }
+
+  private decimateMinMax(store: TimeSeriesStore, channel: string, start: number, end: number, target: number): DecimatedSeries {
+    const buckets = Math.ceil(target / 2);
+    const level = this.pickLevel(store, channel, end - start, buckets);
+
+    if (!level) {
+      return minMaxDecimate(store.getTimes(), store.getChannel(channel)!.values, start, end, buckets);
+    }
+
+    // Same window, looked up in the coarser level (both hold offsets)
+    const time = level.series.time;
+    const levelStart = Math.max(0, upperBound(time, store.getOffset(start)) - 1);
+    const levelEnd = Math.min(time.length, lowerBound(time, store.getOffset(end - 1)) + 1);
+    return minMaxDecimate(time, level.series.values, levelStart, levelEnd, buckets);
+  }
+
+  /**
+   * Coarsest level that still has at least two blocks per bucket
+   */
+  private pickLevel(store: TimeSeriesStore, channel: string, count: number, buckets: number): MinMaxLevel | null {
+    const maxBlockSize = count / (buckets * 2);
+    if (!this.levelSizes.length || this.levelSizes[0] > maxBlockSize) return null;
+
+    const pyramid = this.getPyramid(store, channel);
+    let chosen: MinMaxLevel | null = null;
+    for (const level of pyramid) {
+      if (level.blockSize <= maxBlockSize) chosen = level;
+    }
+    return chosen;
+  }
+
+  /**
+   * Levels of a channel, extended from the first changed sample when the
+   * channel was only appended to or filled since they were built
+   */
+  private getPyramid(store: TimeSeriesStore, channel: string): MinMaxLevel[] {
+    let pyramids = this.pyramids.get(store);
+    if (!pyramids) {
+      pyramids = new Map();
+      this.pyramids.set(store, pyramids);
+    }
+
+    const pyramid = pyramids.get(channel);
+    if (pyramid?.version === store.version) return pyramid.levels;
+
+    const time = store.getTimes();
+    const values = store.getChannel(channel)!.values;
+    const from = pyramid ? store.changedSince(channel, pyramid.version) : null;
+    const levels = pyramid && from !== null
+      ? extendMinMaxPyramid(pyramid.levels, time, values, from)
+      : buildMinMaxPyramid(time, values, this.levelSizes);
+    pyramids.set(channel, { version: store.version, levels });
+    return levels;
+  }
+}
@@ -0,0 +1,157 @@
+import { Injectable, NgZone, OnDestroy, inject } from '@angular/core';
+import { BehaviorSubject, Subject, Subscription, interval } from 'rxjs';
+import { DataSource, DataSourceStatus } from './data-source';
+import { StreamBuffer } from './ring-buffer';
+import { TimeSeriesStore } from './time-series-store.service';
+import { buildNullMask } from './columnar';
+
+// How often buffered samples are copied into the store and drawn
+const COMMIT_INTERVAL = 100;
+
+/**
+ * Feeds a live DataSource into the TimeSeriesStore. Samples are collected in
+ * ring buffers as they arrive and committed to the store a few times a
+ * second, so the chart redraws at a steady rate whatever the sample rate.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LiveStreamService implements OnDestroy {
+  private store = inject(TimeSeriesStore);
+  private zone = inject(NgZone);
+
+  private source: DataSource | null = null;
+  private buffer: StreamBuffer | null = null;
+  private subscriptions = new Subscription();
+  private dirty = false;
+  private timeOrigin = 0;
+  // buffer.appendedSamples at the last commit
+  private committedSamples = 0;
+
+  // Samples kept per channel; older samples are dropped first, from the
+  // store an eighth of the capacity at a time
+  capacity = 1000000;
+  paused = false;
+
+  status$ = new BehaviorSubject<DataSourceStatus>('idle');
+  // Emitted (outside Angular's zone) after new samples reach the store
+  committed$ = new Subject<void>();
+
+  get active(): boolean {
+    return !!this.source;
+  }
+
+  get sourceName(): string {
+    return this.source?.name || '';
+  }
+
+  get error(): string | null {
+    return this.source?.error || null;
+  }
+
+  get bufferedSamples(): number {
+    return this.buffer?.length || 0;
+  }
+
+  get droppedSamples(): number {
+    return this.buffer?.droppedSamples || 0;
+  }
+
+  /**
+   * Streamed channels, as opposed to channels computed from them in the store
+   */
+  get channelNames(): string[] {
+    return this.buffer?.channelNames || [];
+  }
+
+  /**
+   * Replaces whatever is in the store with samples from `source`
+   */
+  start(source: DataSource): void {
+    this.stop();
+
+    this.source = source;
+    this.buffer = new StreamBuffer(this.capacity);
+    this.timeOrigin = 0;
+    this.committedSamples = 0;
+    this.paused = false;
+    this.store.clear();
+
+    this.subscriptions = new Subscription();
+    this.subscriptions.add(source.status$.subscribe(status => {
+      this.zone.run(() => this.status$.next(status));
+    }));
+
+    // Sockets and timers stay outside the zone; the chart redraws itself
+    this.zone.runOutsideAngular(() => {
+      this.subscriptions.add(source.samples$.subscribe(batch => {
+        if (!this.buffer) return;
+        if (!this.buffer.length && batch.time.length) {
+          // Offsets are relative to the first sample's whole millisecond
+          this.timeOrigin = Math.floor(batch.time[0]);
+        }
+        if (this.buffer.append(batch)) {
+          this.dirty = true;
+        }
+      }));
+      this.subscriptions.add(interval(COMMIT_INTERVAL).subscribe(() => this.commit()));
+      source.connect();
+    });
+  }
+
+  stop(): void {
+    this.subscriptions.unsubscribe();
+    this.source?.disconnect();
+    this.source = null;
+    this.buffer = null;
+    this.dirty = false;
+    this.status$.next('idle');
+  }
+
+  /**
+   * Stops updating the store; samples keep being buffered
+   */
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.dirty = true;
+  }
+
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  private commit(): void {
+    if (!this.dirty || this.paused || !this.buffer) return;
+    this.dirty = false;
+
+    const buffer = this.buffer;
+    const fresh = buffer.appendedSamples - this.committedSamples;
+    this.committedSamples = buffer.appendedSamples;
+
+    if (!this.store.length || fresh >= buffer.length) {
+      // Everything in the store has been overwritten, e.g. while paused
+      const { time, channels } = buffer.snapshot(this.timeOrigin);
+      this.store.load(time, channels, this.timeOrigin);
+    } else {
+      for (const name of buffer.channelNames) {
+        if (!this.store.hasChannel(name)) {
+          const values = new Float64Array(this.store.length).fill(NaN);
+          this.store.addChannel({ name, values, nullMask: buildNullMask(values).mask, nullCount: values.length });
+        }
+      }
+      const { time, values } = buffer.newest(fresh, this.timeOrigin);
+      this.store.append(time, values);
+
+      // Expired samples go a chunk at a time, as trimming copies the rest
+      const excess = this.store.length - this.capacity;
+      if (excess >= Math.max(1, this.capacity >> 3)) {
+        this.store.trimStart(excess);
+      }
+    }
+    this.committed$.next();
+  }
+}
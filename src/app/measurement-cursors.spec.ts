@@ -0,0 +1,53 @@
+import { TimeSeriesStore } from './time-series-store.service';
+import { CursorSource, cursorReadout, formatFrequency, nudgeCursor, snapCursor } from './measurement-cursors';
+import { storeWith } from './time-series-store.testing';
+
+describe('measurement-cursors', () => {
+  // Microsecond samples far from the epoch, where absolute times round
+  const origin = 1700000000000;
+  const fast = storeWith([0, 0.001, 0.002, 0.003, 0.004], { Voltage: [0, 1, 4, 9, 16] }, origin);
+  const slow = storeWith([0.0018, 0.0035], { Voltage: [100, 200] }, origin);
+  const sources: Record<string, CursorSource> = {
+    'fast:Voltage': { store: fast, column: 'Voltage' },
+    'slow:Voltage': { store: slow, column: 'Voltage' }
+  };
+  const resolve = (id: string) => sources[id] || null;
+
+  it('should snap to the nearest sample and nudge within the store', () => {
+    const cursor = snapCursor('fast:Voltage', fast, origin + 0.0012)!;
+    expect(cursor.index).toBe(1);
+
+    expect(nudgeCursor(cursor, fast, 10).index).toBe(4);
+    expect(nudgeCursor(cursor, fast, -1)).toEqual({ channel: 'fast:Voltage', index: 0, time: origin });
+    expect(snapCursor('x', new TimeSeriesStore(), 0)).toBeNull();
+  });
+
+  it('should read Δt from offsets and every channel under the cursors', () => {
+    const a = snapCursor('fast:Voltage', fast, origin + 0.002)!;
+    const b = snapCursor('fast:Voltage', fast, origin + 0.003)!;
+    const readout = cursorReadout(a, b, ['fast:Voltage', 'slow:Voltage', 'missing'], resolve);
+
+    expect(readout.dt).toBeCloseTo(0.001, 12);
+    expect(readout.frequency).toBeCloseTo(1e6, 3);
+    expect(readout.readings).toEqual([
+      { channel: 'fast:Voltage', a: 4, b: 9, delta: 5 },
+      { channel: 'slow:Voltage', a: 100, b: 200, delta: 100 }
+    ]);
+  });
+
+  it('should leave out values and Δt until both cursors are placed', () => {
+    const a = snapCursor('slow:Voltage', slow, origin)!;
+    const readout = cursorReadout(a, null, ['fast:Voltage', 'slow:Voltage'], resolve);
+
+    expect(readout.dt).toBeNull();
+    expect(readout.frequency).toBeNull();
+    // The cursor is on the first slow sample, inside the fast store's range
+    expect(readout.readings[0]).toEqual({ channel: 'fast:Voltage', a: 4, b: null, delta: null });
+  });
+
+  it('should format frequencies with SI prefixes', () => {
+    expect(formatFrequency(500000)).toBe('500 kHz');
+    expect(formatFrequency(1.23456789)).toBe('1.2346 Hz');
+    expect(formatFrequency(0.0005)).toBe('0.5 mHz');
+  });
+});
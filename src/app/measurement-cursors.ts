@@ -0,0 +1,108 @@
+import { TimeSeriesStore } from './time-series-store.service';
+
+export type CursorName = 'A' | 'B';
+
+/**
+ * A vertical measurement cursor, snapped to one sample of the channel it was
+ * placed on. `time` is that sample's epoch time, kept so the cursor can be
+ * found again when row indexes shift.
+ */
+export interface MeasurementCursor {
+  channel: string;
+  index: number;
+  time: number;
+}
+
+// A channel resolved to the store holding it and its column there
+export interface CursorSource {
+  store: TimeSeriesStore;
+  column: string;
+}
+
+export interface CursorReading {
+  channel: string;
+  a: number | null;
+  b: number | null;
+  // b - a, when both cursors have a value
+  delta: number | null;
+}
+
+export interface CursorReadout {
+  // Milliseconds from A to B, and its reciprocal (Hz); null until both are placed
+  dt: number | null;
+  frequency: number | null;
+  readings: CursorReading[];
+}
+
+/**
+ * Cursor on the sample of `channel` nearest to `time`, or null when its
+ * store is empty
+ */
+export function snapCursor(channel: string, store: TimeSeriesStore, time: number): MeasurementCursor | null {
+  const index = store.nearestIndex(time);
+  return index < 0 ? null : { channel, index, time: store.getTime(index) };
+}
+
+/**
+ * Cursor moved by `steps` samples of its channel, stopping at either end
+ */
+export function nudgeCursor(cursor: MeasurementCursor, store: TimeSeriesStore, steps: number): MeasurementCursor {
+  const index = Math.max(0, Math.min(store.length - 1, cursor.index + steps));
+  return { ...cursor, index, time: store.getTime(index) };
+}
+
+/**
+ * Row of `store` under a cursor: its own row in the store it snaps to, else
+ * the nearest sample (none outside the store's time range)
+ */
+export function cursorRow(cursor: MeasurementCursor, cursorStore: TimeSeriesStore | null, store: TimeSeriesStore): number {
+  if (cursorStore === store) return cursor.index;
+
+  const [start, end] = store.timeRange;
+  return !store.length || cursor.time < start || cursor.time > end ? -1 : store.nearestIndex(cursor.time);
+}
+
+/**
+ * Δt, 1/Δt and every channel's values under the cursors. Times between
+ * cursors on one store come from its offsets, which keep the sub-millisecond
+ * resolution epoch times lose.
+ */
+export function cursorReadout(a: MeasurementCursor | null, b: MeasurementCursor | null, channels: string[],
+                              resolve: (channel: string) => CursorSource | null): CursorReadout {
+  const storeA = a && resolve(a.channel)?.store || null;
+  const storeB = b && resolve(b.channel)?.store || null;
+
+  let dt: number | null = null;
+  if (a && b) {
+    dt = storeA && storeA === storeB ? storeA.getOffset(b.index) - storeA.getOffset(a.index) : b.time - a.time;
+  }
+
+  const valueAt = (cursor: MeasurementCursor | null, cursorStore: TimeSeriesStore | null, source: CursorSource) =>
+    cursor ? source.store.getValue(source.column, cursorRow(cursor, cursorStore, source.store)) : null;
+
+  const readings: CursorReading[] = [];
+  for (const channel of channels) {
+    const source = resolve(channel);
+    if (!source || !source.store.hasChannel(source.column)) continue;
+
+    const valueA = valueAt(a, storeA, source);
+    const valueB = valueAt(b, storeB, source);
+    readings.push({
+      channel,
+      a: valueA,
+      b: valueB,
+      delta: valueA !== null && valueB !== null ? valueB - valueA : null
+    });
+  }
+
+  return { dt, frequency: dt ? 1000 / Math.abs(dt) : null, readings };
+}
+
+/**
+ * Frequency (Hz) with an SI prefix, to five significant digits
+ */
+export function formatFrequency(hz: number): string {
+  const prefixes: [number, string][] = [[1e9, 'GHz'], [1e6, 'MHz'], [1e3, 'kHz'], [1, 'Hz'], [1e-3, 'mHz']];
+  const [scale, unit] = prefixes.find(([scale]) => Math.abs(hz) >= scale) || prefixes[prefixes.length - 1];
+  return `${+(hz / scale).toPrecision(5)} ${unit}`;
+}
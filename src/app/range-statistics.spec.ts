@@ -0,0 +1,46 @@
+import { rangeStatistics, statisticsJson, statisticsTable } from './range-statistics';
+import { storeWith } from './time-series-store.testing';
+
+describe('range-statistics', () => {
+  // One sample every 500 ms, one of them missing
+  const store = storeWith([0, 500, 1000, 1500, 2000, 2500], { Voltage: [1, 3, NaN, 5, 7, 100] }, 10000);
+  const interval = { start: '10:00', end: '12:00', duration: 2000 };
+
+  it('should summarise the samples in the interval', () => {
+    const stats = rangeStatistics('Voltage', store, 'Voltage', 10000, 12000, 'V');
+
+    expect(stats.count).toBe(4);
+    expect(stats.nulls).toBe(1);
+    expect([stats.min, stats.max, stats.peakToPeak]).toEqual([1, 7, 6]);
+    expect(stats.mean).toBe(4);
+    expect(stats.median).toBe(4);
+    expect(stats.std).toBeCloseTo(Math.sqrt(5), 12);
+    expect(stats.rms).toBeCloseTo(Math.sqrt(21), 12);
+    // (1 + 3) / 2 * 0.5 s and (5 + 7) / 2 * 0.5 s; nothing across the gap
+    expect(stats.integral).toBe(4);
+  });
+
+  it('should report no values for an empty interval', () => {
+    const stats = rangeStatistics('Voltage', store, 'Voltage', 10900, 11100);
+
+    expect(stats.count).toBe(0);
+    expect(stats.nulls).toBe(1);
+    expect(stats.mean).toBeNull();
+  });
+
+  it('should write tables and JSON with the interval bounds', () => {
+    const stats = [rangeStatistics('Bus, DC', store, 'Voltage', 10000, 10500, 'V')];
+
+    const tsv = statisticsTable(stats, '\t').split('\n');
+    expect(tsv[0].split('\t').slice(0, 3)).toEqual(['Channel', 'Unit', 'Count']);
+    expect(tsv[1].split('\t').slice(0, 5)).toEqual(['Bus, DC', 'V', '2', '0', '1']);
+
+    const csv = statisticsTable(stats, ',', interval).split('\n');
+    expect(csv[1].startsWith('10:00,12:00,"Bus, DC",V,2')).toBeTrue();
+
+    const json = JSON.parse(statisticsJson(stats, interval));
+    expect(json.start).toBe('10:00');
+    expect(json.duration).toBe(2000);
+    expect(json.channels[0].integral).toBe(1);
+  });
+});
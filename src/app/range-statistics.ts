@@ -0,0 +1,134 @@
+import { TimeSeriesStore } from './time-series-store.service';
+
+/**
+ * Summary of one channel's samples in a time interval. The value statistics
+ * are null when the interval holds no values.
+ */
+export interface RangeStatistics {
+  channel: string;
+  unit?: string;
+  // Samples with a value, and missing samples
+  count: number;
+  nulls: number;
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  median: number | null;
+  // Population standard deviation
+  std: number | null;
+  rms: number | null;
+  peakToPeak: number | null;
+  // Trapezoidal area under the samples, in value·seconds; gaps left by
+  // missing samples add nothing
+  integral: number | null;
+}
+
+// Interval the statistics cover, with its bounds as shown to the user
+export interface StatisticsInterval {
+  start: string;
+  end: string;
+  // Milliseconds
+  duration: number;
+}
+
+const COLUMNS: [keyof RangeStatistics, string][] = [
+  ['channel', 'Channel'],
+  ['unit', 'Unit'],
+  ['count', 'Count'],
+  ['nulls', 'Nulls'],
+  ['min', 'Min'],
+  ['max', 'Max'],
+  ['mean', 'Mean'],
+  ['median', 'Median'],
+  ['std', 'Std dev'],
+  ['rms', 'RMS'],
+  ['peakToPeak', 'Peak-to-peak'],
+  ['integral', 'Integral (unit·s)']
+];
+
+/**
+ * Statistics of a channel's samples with t0 <= t <= t1 (epoch ms)
+ */
+export function rangeStatistics(channel: string, store: TimeSeriesStore, column: string,
+                                t0: number, t1: number, unit?: string): RangeStatistics {
+  const data = store.getChannel(column);
+  const [start, end] = data ? store.indexRange(t0, t1) : [0, 0];
+  const values = new Float64Array(Math.max(0, end - start));
+
+  let count = 0;
+  let mean = 0;
+  let m2 = 0;
+  let squares = 0;
+  let integral = 0;
+  let previous = -1;
+
+  for (let i = start; i < end; i++) {
+    if (store.isMissing(data!, i)) {
+      previous = -1;
+      continue;
+    }
+
+    const value = data!.values[i];
+    values[count++] = value;
+    // Welford's running variance
+    const delta = value - mean;
+    mean += delta / count;
+    m2 += delta * (value - mean);
+    squares += value * value;
+
+    if (previous >= 0) {
+      integral += (data!.values[previous] + value) / 2 * (store.getOffset(i) - store.getOffset(previous)) / 1000;
+    }
+    previous = i;
+  }
+
+  const stats: RangeStatistics = {
+    channel,
+    unit,
+    count,
+    nulls: end - start - count,
+    min: null,
+    max: null,
+    mean: null,
+    median: null,
+    std: null,
+    rms: null,
+    peakToPeak: null,
+    integral: null
+  };
+  if (!count) return stats;
+
+  const sorted = values.subarray(0, count).sort();
+  const middle = count >> 1;
+  return {
+    ...stats,
+    min: sorted[0],
+    max: sorted[count - 1],
+    mean,
+    median: count % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2,
+    std: Math.sqrt(m2 / count),
+    rms: Math.sqrt(squares / count),
+    peakToPeak: sorted[count - 1] - sorted[0],
+    integral
+  };
+}
+
+/**
+ * The statistics as delimited text with a header row, e.g. TSV for the
+ * clipboard or CSV for export. The interval bounds lead every row when given.
+ */
+export function statisticsTable(stats: RangeStatistics[], separator: string, interval?: StatisticsInterval): string {
+  const cell = (value: unknown) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /["\n\r]/.test(text) || text.includes(separator) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const bounds = interval ? [interval.start, interval.end] : [];
+
+  const header = [...(interval ? ['Start', 'End'] : []), ...COLUMNS.map(([, title]) => title)];
+  const rows = stats.map(row => [...bounds, ...COLUMNS.map(([key]) => row[key])]);
+  return [header, ...rows].map(row => row.map(cell).join(separator)).join('\n');
+}
+
+export function statisticsJson(stats: RangeStatistics[], interval: StatisticsInterval): string {
+  return JSON.stringify({ ...interval, channels: stats }, null, 2);
+}
@@ -0,0 +1,82 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+
+export interface RecentFile {
+  id: string;
+  name: string;
+  size: number;
+  lastModified: number;
+  openedAt: number;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class RecentFilesService {
+  private storageKey = 'tsv.recentFiles';
+  private maxEntries = 10;
+
+  // File handles only live for the current page session; the browser
+  // won't let us re-open a file from disk without the user picking it again
+  private files = new Map<string, File>();
+
+  public entries = new BehaviorSubject<RecentFile[]>(this.readStorage());
+
+  add(file: File): RecentFile {
+    const entry: RecentFile = {
+      id: this.fileId(file),
+      name: file.name,
+      size: file.size,
+      lastModified: file.lastModified,
+      openedAt: Date.now()
+    };
+
+    this.files.set(entry.id, file);
+
+    const entries = [entry, ...this.entries.value.filter(e => e.id !== entry.id)]
+      .slice(0, this.maxEntries);
+    this.writeStorage(entries);
+    this.entries.next(entries);
+
+    return entry;
+  }
+
+  getFile(id: string): File | null {
+    return this.files.get(id) || null;
+  }
+
+  remove(id: string): void {
+    this.files.delete(id);
+    const entries = this.entries.value.filter(e => e.id !== id);
+    this.writeStorage(entries);
+    this.entries.next(entries);
+  }
+
+  clear(): void {
+    this.files.clear();
+    this.writeStorage([]);
+    this.entries.next([]);
+  }
+
+  private fileId(file: File): string {
+    return `${file.name}|${file.size}|${file.lastModified}`;
+  }
+
+  private readStorage(): RecentFile[] {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+      console.warn('Unable to read recent files:', e);
+      return [];
+    }
+  }
+
+  private writeStorage(entries: RecentFile[]): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(entries));
+    } catch (e) {
+      console.warn('Unable to store recent files:', e);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { RingBuffer, StreamBuffer } from './ring-buffer';
+
+function batch(time: number[], values: Record<string, number[]>) {
+  return {
+    time: Float64Array.from(time),
+    values: new Map(Object.entries(values).map(([name, column]) => [name, Float64Array.from(column)]))
+  };
+}
+
+describe('ring buffers', () => {
+  it('should keep the newest samples in order once full', () => {
+    const ring = new RingBuffer(4);
+    for (let i = 1; i <= 6; i++) ring.push(i);
+
+    expect(ring.length).toBe(4);
+    expect(ring.get(0)).toBe(3);
+    expect(ring.last()).toBe(6);
+    expect(Array.from(ring.copyTo(new Float64Array(4)))).toEqual([3, 4, 5, 6]);
+    expect(Array.from(ring.copyTo(new Float64Array(3), 1))).toEqual([4, 5, 6]);
+  });
+
+  it('should give the newest samples appended since a count', () => {
+    const buffer = new StreamBuffer(4);
+    buffer.append(batch([100, 101, 102], { a: [1, 2, 3] }));
+    const committed = buffer.appendedSamples;
+    buffer.append(batch([103, 104], { a: [4, 5] }));
+
+    const fresh = buffer.newest(buffer.appendedSamples - committed, 100);
+    expect(Array.from(fresh.time)).toEqual([3, 4]);
+    expect(Array.from(fresh.values.get('a')!)).toEqual([4, 5]);
+    // Never more than is still buffered
+    expect(buffer.newest(10, 100).time.length).toBe(4);
+  });
+
+  it('should back-fill channels that appear mid-stream', () => {
+    const buffer = new StreamBuffer(10);
+    buffer.append(batch([1000, 1001], { a: [1, 2] }));
+    buffer.append(batch([1002], { a: [3], b: [30] }));
+
+    const { time, channels } = buffer.snapshot(1000);
+    expect(Array.from(time)).toEqual([0, 1, 2]);
+    expect(channels.map(c => c.name)).toEqual(['a', 'b']);
+    expect(channels[1].nullCount).toBe(2);
+    expect(channels[1].values[2]).toBe(30);
+  });
+
+  it('should drop samples older than the latest one', () => {
+    const buffer = new StreamBuffer(10);
+    buffer.append(batch([10, 20], { a: [1, 2] }));
+    const appended = buffer.append(batch([15, 20, 30], { a: [9, 3, 4] }));
+
+    expect(appended).toBe(2);
+    expect(buffer.droppedSamples).toBe(1);
+    expect(buffer.latestTime).toBe(30);
+  });
+});
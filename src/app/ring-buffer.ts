@@ -0,0 +1,164 @@
+/**
+ * Fixed-capacity buffers for streamed samples. Once full, each new sample
+ * overwrites the oldest one, so memory stays bounded however long a live
+ * session runs.
+ */
+import { ChannelColumn } from './time-series-store.service';
+import { buildNullMask } from './columnar';
+
+export class RingBuffer {
+  private data: Float64Array;
+  private start = 0;
+  length = 0;
+
+  constructor(readonly capacity: number) {
+    this.data = new Float64Array(capacity);
+  }
+
+  push(value: number): void {
+    const end = (this.start + this.length) % this.capacity;
+    this.data[end] = value;
+    if (this.length < this.capacity) {
+      this.length++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  /**
+   * Sample `index` counted from the oldest
+   */
+  get(index: number): number {
+    return this.data[(this.start + index) % this.capacity];
+  }
+
+  last(): number {
+    return this.length ? this.get(this.length - 1) : NaN;
+  }
+
+  /**
+   * Copies the contents from sample `from` on, oldest first, into `out` (at
+   * least `length - from` long)
+   */
+  copyTo(out: Float64Array, from = 0): Float64Array {
+    const first = (this.start + from) % this.capacity;
+    const count = this.length - from;
+    const head = Math.min(count, this.capacity - first);
+    out.set(this.data.subarray(first, first + head));
+    if (head < count) {
+      out.set(this.data.subarray(0, count - head), head);
+    }
+    return out;
+  }
+
+  clear(): void {
+    this.start = 0;
+    this.length = 0;
+  }
+}
+
+export interface SampleBatch {
+  // Epoch milliseconds, ascending
+  time: Float64Array;
+  // Values per channel name, aligned with time; NaN for missing samples
+  values: Map<string, Float64Array>;
+}
+
+/**
+ * Aligned ring buffers for a shared time column and any number of channels
+ */
+export class StreamBuffer {
+  private time: RingBuffer;
+  private channels = new Map<string, RingBuffer>();
+
+  // Samples rejected because they were older than the latest one
+  droppedSamples = 0;
+  // Samples appended since the buffer was created or cleared, including
+  // those overwritten since
+  appendedSamples = 0;
+
+  constructor(readonly capacity: number) {
+    this.time = new RingBuffer(capacity);
+  }
+
+  get length(): number {
+    return this.time.length;
+  }
+
+  get channelNames(): string[] {
+    return Array.from(this.channels.keys());
+  }
+
+  get latestTime(): number {
+    return this.time.last();
+  }
+
+  /**
+   * Appends a batch; channels seen for the first time are back-filled with NaN
+   */
+  append(batch: SampleBatch): number {
+    for (const name of batch.values.keys()) {
+      if (!this.channels.has(name)) {
+        const ring = new RingBuffer(this.capacity);
+        for (let i = 0; i < this.time.length; i++) ring.push(NaN);
+        this.channels.set(name, ring);
+      }
+    }
+
+    let appended = 0;
+    for (let i = 0; i < batch.time.length; i++) {
+      const t = batch.time[i];
+      // The store needs a sorted time column
+      if (this.time.length && t < this.time.last()) {
+        this.droppedSamples++;
+        continue;
+      }
+
+      this.time.push(t);
+      for (const [name, ring] of this.channels) {
+        const values = batch.values.get(name);
+        ring.push(values ? values[i] : NaN);
+      }
+      appended++;
+    }
+    this.appendedSamples += appended;
+    return appended;
+  }
+
+  /**
+   * Copies the buffered samples out as store columns, with times as offsets
+   * from `timeOrigin`
+   */
+  snapshot(timeOrigin: number): { time: Float64Array, channels: ChannelColumn[] } {
+    const time = this.time.copyTo(new Float64Array(this.time.length));
+    for (let i = 0; i < time.length; i++) time[i] -= timeOrigin;
+
+    const channels = Array.from(this.channels, ([name, ring]) => {
+      const values = ring.copyTo(new Float64Array(ring.length));
+      const { mask, count } = buildNullMask(values);
+      return { name, values, nullMask: mask, nullCount: count };
+    });
+    return { time, channels };
+  }
+
+  /**
+   * The newest `count` samples (at most `length`), with times as offsets
+   * from `timeOrigin`
+   */
+  newest(count: number, timeOrigin: number): SampleBatch {
+    const from = this.time.length - Math.min(count, this.time.length);
+    const time = this.time.copyTo(new Float64Array(this.time.length - from), from);
+    for (let i = 0; i < time.length; i++) time[i] -= timeOrigin;
+
+    const values = new Map(Array.from(this.channels, ([name, ring]) =>
+      [name, ring.copyTo(new Float64Array(time.length), from)]));
+    return { time, values };
+  }
+
+  clear(): void {
+    this.time.clear();
+    this.channels.clear();
+    this.droppedSamples = 0;
+    this.appendedSamples = 0;
+  }
+}
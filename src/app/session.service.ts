@@ -0,0 +1,655 @@
+import { Injectable, inject } from '@angular/core';
+import { ChannelColumn, TimeSeriesStore } from './time-series-store.service';
+import { FilterStage, FilterStream, filterChannel } from './filters';
+import { sampleInterval } from './spectrum';
+import {
+  ExpressionInputs,
+  ExpressionStream,
+  alignedValues,
+  evaluateExpression,
+  expressionChannels,
+  parseExpression,
+  renameChannels
+} from './derived-channels';
+import { buildNullMask } from './columnar';
+import {
+  DerivedChannel,
+  SessionFile,
+  TriggerCondition,
+  channelId,
+  filteredName,
+  sessionLabel,
+  splitChannelId,
+  triggerEventTime
+} from './session';
+
+// A filtered channel computed from streamed samples, and how far: the store
+// version and the row (index + trimmedRows) it was filtered up to
+interface FilterProgress {
+  stream: FilterStream;
+  version: number;
+  end: number;
+}
+
+// A derived channel computed from streamed samples, and how far: the store
+// version, the row its inputs were read up to, and the inputs it read
+interface DerivedProgress {
+  stream: ExpressionStream;
+  version: number;
+  end: number;
+  inputs: (ChannelColumn | number)[];
+}
+
+/**
+ * Files loaded side by side for comparison. The first file is the one in
+ * the shared store (loaded, followed or streamed as usual) and is the
+ * reference the others are offset against; added files get stores of
+ * their own.
+ *
+ * With one file, channel ids are plain channel names. With more, every
+ * channel id is `file:channel`.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SessionService {
+  private store = inject(TimeSeriesStore);
+
+  files: SessionFile[] = [];
+  private nextId = 0;
+  // Raw channel each filtered channel was computed from, so it is computed
+  // again once the raw one is replaced by appending or streaming
+  private filterSources = new WeakMap<ChannelColumn, ChannelColumn>();
+  // Input columns, and their files' time origins relative to the derived
+  // channel's, that each derived channel was computed from
+  private derivedSources = new WeakMap<ChannelColumn, (ChannelColumn | number)[]>();
+  // Filtered channels of each store computed from streamed samples, by name
+  private filterProgress = new WeakMap<TimeSeriesStore, Map<string, FilterProgress>>();
+  // Derived channels of each store computed from streamed samples, by name
+  private derivedProgress = new WeakMap<TimeSeriesStore, Map<string, DerivedProgress>>();
+
+  get primary(): SessionFile | undefined {
+    return this.files[0];
+  }
+
+  get multiFile(): boolean {
+    return this.files.length > 1;
+  }
+
+  /**
+   * Starts a new session around the source in the shared store
+   */
+  reset(name: string): void {
+    this.files = [{
+      id: this.nextId++,
+      label: sessionLabel(name, []),
+      name,
+      store: this.store,
+      columns: [],
+      offset: 0,
+      recordedOrigin: 0,
+      triggerTime: null,
+      columnar: null,
+      filters: {},
+      derived: []
+    }];
+  }
+
+  /**
+   * Records what was loaded into the shared store
+   */
+  updatePrimary(changes: Partial<Pick<SessionFile, 'columns' | 'triggerTime' | 'columnar'>>): void {
+    const primary = this.primary;
+    if (!primary) return;
+    Object.assign(primary, changes);
+    primary.recordedOrigin = this.store.timeOrigin;
+  }
+
+  /**
+   * Adds a file loaded into its own store, with no offset
+   */
+  add(name: string, store: TimeSeriesStore, columns: string[], triggerTime: number | null,
+      columnar: SessionFile['columnar'] = null): SessionFile {
+    const file: SessionFile = {
+      id: this.nextId++,
+      label: sessionLabel(name, this.files.map(f => f.label)),
+      name,
+      store,
+      columns,
+      offset: 0,
+      recordedOrigin: store.timeOrigin,
+      triggerTime,
+      columnar,
+      filters: {},
+      derived: []
+    };
+    this.files.push(file);
+    return file;
+  }
+
+  remove(file: SessionFile): void {
+    if (file === this.primary) return;
+    this.files = this.files.filter(f => f !== file);
+    file.store.clear();
+    // Derived channels of other files that read this one go with it
+    this.removeOrphanedDerived();
+  }
+
+  /**
+   * Channel ids for the channel panel, in file order
+   */
+  channelIds(): string[] {
+    return this.files.flatMap(file => this.fileChannels(file).map(ch => this.idOf(file, ch)));
+  }
+  
+  /**
+   * A file's channels, then its derived channels, with each filtered view
+   * after the channel it is computed from
+   */
+  private fileChannels(file: SessionFile): string[] {
+    return [...file.columns, ...file.derived.map(derived => derived.name)]
+      .flatMap(ch => file.filters[ch] ? [ch, filteredName(ch)] : [ch]);
+  }
+
+  /**
+   * Id of a channel of `file` with the current number of files
+   */
+  idOf(file: SessionFile, channel: string): string {
+    return this.multiFile ? channelId(file.label, channel) : channel;
+  }
+
+  /**
+   * File and channel name behind a channel id
+   */
+  resolve(id: string): { file: SessionFile, channel: string } | null {
+    if (!this.multiFile) {
+      return this.primary ? { file: this.primary, channel: id } : null;
+    }
+
+    const parts = splitChannelId(id);
+    const file = parts && this.files.find(f => f.label === parts[0]);
+    return file ? { file, channel: parts![1] } : null;
+  }
+
+  /**
+   * Channel of the file a channel's samples come from: the raw channel of a
+   * filtered view, or the channel itself
+   */
+  sourceChannel(file: SessionFile, channel: string): string {
+    return Object.keys(file.filters).find(ch => filteredName(ch) === channel) ?? channel;
+  }
+
+  /**
+   * Filter chain of a channel or of the raw channel of a filtered view
+   */
+  filterOf(id: string): FilterStage[] | null {
+    const resolved = this.resolve(id);
+    return resolved ? resolved.file.filters[this.sourceChannel(resolved.file, resolved.channel)] ?? null : null;
+  }
+
+  /**
+   * Sets the filter chain of a channel and computes its filtered view, or
+   * removes both with no stages. Returns the id of the filtered view. Throws
+   * when a stage can't filter the channel's samples; the previous chain
+   * stays in place.
+   */
+  setFilter(id: string, stages: FilterStage[] | null): string | null {
+    const resolved = this.resolve(id);
+    if (!resolved) return null;
+    const { file } = resolved;
+    const channel = this.sourceChannel(file, resolved.channel);
+
+    if (!stages?.length) {
+      const users = this.dependents(file, [filteredName(channel)]);
+      if (users.length) {
+        throw new Error(`${users.join(', ')} ${users.length === 1 ? 'is' : 'are'} computed from ${this.idOf(file, filteredName(channel))}`);
+      }
+      delete file.filters[channel];
+      file.store.removeChannel(filteredName(channel));
+      return null;
+    }
+
+    // Channels of columnar files are filtered once they are decoded
+    const raw = file.store.getChannel(channel);
+    if (raw) this.addFiltered(file, raw, stages);
+    file.filters[channel] = stages;
+    return this.idOf(file, filteredName(channel));
+  }
+
+  /**
+   * Computes filtered views and derived channels again once the channels
+   * they are computed from were decoded, appended to or streamed, or their
+   * files moved. With `streaming`, filters run causally, and filters and
+   * derived channels only over the samples that arrived since the last time.
+   */
+  refreshChannels(streaming = false): void {
+    this.refreshFilters(streaming);
+    this.refreshDerived(streaming);
+    // Filtered views of derived channels
+    this.refreshFilters(streaming);
+  }
+
+  private refreshFilters(streaming = false): void {
+    for (const file of this.files) {
+      for (const [channel, stages] of Object.entries(file.filters)) {
+        const raw = file.store.getChannel(channel);
+        const filtered = file.store.getChannel(filteredName(channel));
+        if (!raw || (filtered && this.filterSources.get(filtered) === raw)) continue;
+        try {
+          if (!streaming || !filtered || !this.extendFiltered(file, raw, filtered)) {
+            this.addFiltered(file, raw, stages, streaming);
+          }
+        } catch (e) {
+          console.warn(`Unable to filter ${channel}:`, e);
+          file.store.removeChannel(filteredName(channel));
+        }
+      }
+    }
+  }
+
+  private addFiltered(file: SessionFile, raw: ChannelColumn, stages: FilterStage[], streaming = false): void {
+    const time = file.store.getTimes();
+    if (!streaming) {
+      const filtered = filterChannel(raw, time, stages, filteredName(raw.name));
+      file.store.addChannel(filtered);
+      this.filterSources.set(filtered, raw);
+      return;
+    }
+
+    const stream = new FilterStream(stages, 1000 / sampleInterval(time));
+    const values = new Float64Array(raw.values.length).fill(NaN);
+    const end = valuesEnd(raw.values, 0);
+    values.set(stream.process(raw.values.subarray(0, end)));
+    const { mask, count } = buildNullMask(values);
+    file.store.addChannel({ name: filteredName(raw.name), values, nullMask: mask, nullCount: count, unit: raw.unit });
+    this.filteredUpTo(file, raw, stream, end);
+  }
+
+  /**
+   * Filters the samples of `raw` that arrived since `filtered` was last
+   * streamed into. False when it wasn't, or earlier samples changed.
+   */
+  private extendFiltered(file: SessionFile, raw: ChannelColumn, filtered: ChannelColumn): boolean {
+    const { store } = file;
+    const progress = this.filterProgress.get(store)?.get(filtered.name);
+    const changed = progress ? store.firstChangedRow(raw.name, progress.version) : null;
+    if (!progress || changed === null || changed < progress.end || store.replacedSince(filtered.name, progress.version)) {
+      return false;
+    }
+
+    const start = progress.end - store.trimmedRows;
+    if (start < 0) return false;
+    const end = valuesEnd(raw.values, start);
+    store.fillRows(filtered.name, start, progress.stream.process(raw.values.subarray(start, end)));
+    this.filteredUpTo(file, raw, progress.stream, end);
+    return true;
+  }
+
+  // Records that the filtered view of `raw` was streamed up to row `end`
+  private filteredUpTo(file: SessionFile, raw: ChannelColumn, stream: FilterStream, end: number): void {
+    const { store } = file;
+    const filtered = store.getChannel(filteredName(raw.name))!;
+    this.filterSources.set(filtered, raw);
+    if (!this.filterProgress.has(store)) this.filterProgress.set(store, new Map());
+    this.filterProgress.get(store)!.set(filtered.name, { stream, version: store.version, end: end + store.trimmedRows });
+  }
+
+  /**
+   * Definition of a derived channel
+   */
+  derivedOf(id: string): DerivedChannel | null {
+    const resolved = this.resolve(id);
+    return resolved?.file.derived.find(derived => derived.name === resolved.channel) ?? null;
+  }
+
+  /**
+   * Expression of a derived channel with its inputs under their current ids
+   */
+  derivedExpression(derived: DerivedChannel): string {
+    return renameChannels(derived.expression, ref => {
+      const input = derived.inputs[ref];
+      const file = input && this.files.find(f => f.id === input.fileId);
+      return file ? this.idOf(file, input.channel) : ref;
+    });
+  }
+
+  /**
+   * Defines a derived channel, or redefines the one with id `replacing`, and
+   * computes it on the time base of the file of the first channel the
+   * expression reads (the reference file when it reads none). Returns its
+   * id. Throws when the expression is invalid, reads an unknown channel or
+   * the channel itself, or the name is taken.
+   */
+  setDerived(name: string, expression: string, unit: string, replacing: string | null = null): string {
+    name = name.trim();
+    if (!name) throw new Error('Enter a name for the channel');
+
+    const ids = this.channelIds();
+    const inputs: DerivedChannel['inputs'] = {};
+    for (const ref of expressionChannels(parseExpression(expression))) {
+      const resolved = ids.includes(ref) ? this.resolve(ref) : null;
+      if (!resolved) throw new Error(`Unknown channel ${ref}`);
+      inputs[ref] = { fileId: resolved.file.id, channel: resolved.channel };
+    }
+
+    const [first] = Object.values(inputs);
+    const file = (first && this.files.find(f => f.id === first.fileId)) || this.primary;
+    if (!file) throw new Error('Load a file first');
+
+    const previous = replacing ? this.resolve(replacing) : null;
+    const inPlace = !!previous && previous.file === file && previous.channel === name;
+    if (!inPlace && this.fileChannels(file).includes(name)) {
+      throw new Error(`${this.idOf(file, name)} is already a channel`);
+    }
+    if (previous) {
+      if (Object.values(inputs).some(input => this.dependsOn(input, previous.file, previous.channel))) {
+        throw new Error(`${replacing} can't be computed from itself`);
+      }
+      const users = this.dependents(previous.file, [previous.channel, filteredName(previous.channel)]);
+      if (!inPlace && users.length) {
+        throw new Error(`${users.join(', ')} ${users.length === 1 ? 'is' : 'are'} computed from ${replacing}`);
+      }
+    }
+
+    const derived: DerivedChannel = { name, expression, unit: unit.trim(), inputs };
+    if (inPlace) {
+      // Keeps its place in the channel list and its filter
+      file.derived = file.derived.map(d => d.name === name ? derived : d);
+    } else {
+      if (previous) this.deleteDerived(previous.file, previous.channel);
+      file.derived.push(derived);
+    }
+    this.computeDerived(file, derived);
+    this.refreshFilters();
+    return this.idOf(file, name);
+  }
+
+  /**
+   * Removes a derived channel and its filtered view. Throws when another
+   * derived channel is computed from it.
+   */
+  removeDerived(id: string): void {
+    const resolved = this.resolve(id);
+    if (!resolved) return;
+
+    const users = this.dependents(resolved.file, [resolved.channel, filteredName(resolved.channel)]);
+    if (users.length) {
+      throw new Error(`${users.join(', ')} ${users.length === 1 ? 'is' : 'are'} computed from ${id}`);
+    }
+    this.deleteDerived(resolved.file, resolved.channel);
+  }
+
+  /**
+   * Recorded channels a channel is computed from, through any filters and
+   * derived channels; the channel itself when it is recorded
+   */
+  recordedSources(file: SessionFile, channel: string): { file: SessionFile, channel: string }[] {
+    const source = this.sourceChannel(file, channel);
+    const derived = file.derived.find(d => d.name === source);
+    if (!derived) return [{ file, channel: source }];
+
+    return Object.values(derived.inputs).flatMap(input => {
+      const inputFile = this.files.find(f => f.id === input.fileId);
+      return inputFile ? this.recordedSources(inputFile, input.channel) : [];
+    });
+  }
+
+  private refreshDerived(streaming = false): void {
+    for (const file of this.files) {
+      for (const derived of file.derived) {
+        const current = file.store.getChannel(derived.name);
+        const inputs = this.derivedInputs(file, derived);
+        const computedFrom = current && this.derivedSources.get(current);
+        if (inputs && computedFrom && computedFrom.length === inputs.length &&
+            computedFrom.every((source, i) => source === inputs[i])) continue;
+        if (!streaming || !current || !inputs || !this.extendDerived(file, derived, inputs)) {
+          this.computeDerived(file, derived, streaming);
+        }
+      }
+    }
+  }
+
+  /**
+   * Computes a derived channel into its file's store, or removes it while a
+   * channel it reads isn't decoded
+   */
+  private computeDerived(file: SessionFile, derived: DerivedChannel, streaming = false): void {
+    const { store } = file;
+    const inputs = this.derivedInputs(file, derived);
+    if (!inputs) {
+      store.removeChannel(derived.name);
+      return;
+    }
+
+    const expression = parseExpression(derived.expression);
+    const window = this.derivedWindow(file, derived, inputs, 0, streaming);
+    let values: Float64Array;
+    let stream: ExpressionStream | null = null;
+    if (streaming) {
+      stream = new ExpressionStream(expression, store.trimmedRows);
+      values = new Float64Array(store.length).fill(NaN);
+      values.set(stream.evaluate(window, store.trimmedRows));
+    } else {
+      values = evaluateExpression(expression, window);
+    }
+
+    const { mask, count } = buildNullMask(values);
+    const column: ChannelColumn = {
+      name: derived.name,
+      values,
+      nullMask: mask,
+      nullCount: count,
+      unit: derived.unit || undefined
+    };
+    store.addChannel(column);
+    this.derivedSources.set(column, inputs);
+    if (stream) this.derivedUpTo(file, derived, inputs, stream, window.time.length);
+  }
+
+  /**
+   * Evaluates a derived channel over the samples that arrived since it was
+   * last streamed into. False when it wasn't, or its inputs changed other
+   * than by samples appended to this file's channels.
+   */
+  private extendDerived(file: SessionFile, derived: DerivedChannel, inputs: (ChannelColumn | number)[]): boolean {
+    const { store } = file;
+    const progress = this.derivedProgress.get(store)?.get(derived.name);
+    if (!progress || store.replacedSince(derived.name, progress.version)) return false;
+
+    const appended = Object.values(derived.inputs).every((input, i) => {
+      if (input.fileId !== file.id) {
+        return inputs[2 * i] === progress.inputs[2 * i] && inputs[2 * i + 1] === progress.inputs[2 * i + 1];
+      }
+      const changed = store.firstChangedRow((inputs[2 * i] as ChannelColumn).name, progress.version);
+      return changed !== null && changed >= progress.end;
+    });
+    if (!appended) return false;
+
+    const { stream } = progress;
+    const from = Math.max(stream.row - stream.lookback, stream.first);
+    const start = from - store.trimmedRows;
+    if (start < 0) return false;
+    const window = this.derivedWindow(file, derived, inputs, start, true);
+    const row = stream.row - store.trimmedRows;
+    store.fillRows(derived.name, row, stream.evaluate(window, from));
+    this.derivedUpTo(file, derived, inputs, stream, start + window.time.length);
+    return true;
+  }
+
+  // Records that a derived channel was streamed from inputs read up to row `end`
+  private derivedUpTo(file: SessionFile, derived: DerivedChannel, inputs: (ChannelColumn | number)[],
+                      stream: ExpressionStream, end: number): void {
+    const { store } = file;
+    this.derivedSources.set(store.getChannel(derived.name)!, inputs);
+    if (!this.derivedProgress.has(store)) this.derivedProgress.set(store, new Map());
+    this.derivedProgress.get(store)!.set(derived.name, { stream, version: store.version, end: end + store.trimmedRows, inputs });
+  }
+
+  // What a derived channel is evaluated over, from row `start` on. While
+  // streaming, only up to the last sample of this file's inputs, as their
+  // missing samples at the end may still be filled in.
+  private derivedWindow(file: SessionFile, derived: DerivedChannel, inputs: (ChannelColumn | number)[],
+                        start: number, streaming: boolean): ExpressionInputs {
+    const refs = Object.keys(derived.inputs);
+    let end = file.store.length;
+    if (streaming) {
+      refs.forEach((ref, i) => {
+        if (derived.inputs[ref].fileId === file.id) end = Math.min(end, valuesEnd((inputs[2 * i] as ChannelColumn).values, start));
+      });
+    }
+
+    const time = file.store.getTimes().subarray(start, end);
+    const channels = new Map<string, ArrayLike<number>>();
+    refs.forEach((ref, i) => {
+      const column = inputs[2 * i] as ChannelColumn;
+      const shift = inputs[2 * i + 1] as number;
+      const input = this.files.find(f => f.id === derived.inputs[ref].fileId)!;
+      // Channels of other files are read at this file's sample times
+      channels.set(ref, input === file
+        ? column.values.subarray(start, end)
+        : alignedValues(input.store.getTimes(), column.values, time.map(t => t - shift)));
+    });
+    return { time, channels };
+  }
+
+  // Each input column followed by its file's time origin relative to
+  // `file`'s, or null while an input isn't available
+  private derivedInputs(file: SessionFile, derived: DerivedChannel): (ChannelColumn | number)[] | null {
+    const inputs: (ChannelColumn | number)[] = [];
+    for (const input of Object.values(derived.inputs)) {
+      const source = this.files.find(f => f.id === input.fileId);
+      const column = source?.store.getChannel(input.channel);
+      if (!column) return null;
+      inputs.push(column, source!.store.timeOrigin - file.store.timeOrigin);
+    }
+    return inputs;
+  }
+
+  // Whether an input is, or is computed from, a channel of `file`
+  private dependsOn(input: DerivedChannel['inputs'][string], file: SessionFile, channel: string): boolean {
+    const source = this.files.find(f => f.id === input.fileId);
+    if (!source) return false;
+    const name = this.sourceChannel(source, input.channel);
+    if (source === file && name === channel) return true;
+
+    const derived = source.derived.find(d => d.name === name);
+    return !!derived && Object.values(derived.inputs).some(next => this.dependsOn(next, file, channel));
+  }
+
+  // Ids of the derived channels that read any of `channels` of `file`
+  private dependents(file: SessionFile, channels: string[]): string[] {
+    return this.files.flatMap(f => f.derived
+      .filter(derived => Object.values(derived.inputs).some(input =>
+        input.fileId === file.id && channels.includes(input.channel)))
+      .map(derived => this.idOf(f, derived.name)));
+  }
+
+  private deleteDerived(file: SessionFile, name: string): void {
+    file.derived = file.derived.filter(derived => derived.name !== name);
+    file.store.removeChannel(name);
+    delete file.filters[name];
+    file.store.removeChannel(filteredName(name));
+  }
+
+  private removeOrphanedDerived(): void {
+    for (let removed = true; removed;) {
+      removed = false;
+      for (const file of this.files) {
+        for (const derived of file.derived) {
+          const orphaned = Object.values(derived.inputs).some(input => {
+            const source = this.files.find(f => f.id === input.fileId);
+            return !source || !this.fileChannels(source).includes(input.channel);
+          });
+          if (orphaned) {
+            this.deleteDerived(file, derived.name);
+            removed = true;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Moves an added file along the time axis; the reference file stays put
+   */
+  setOffset(file: SessionFile, offset: number): void {
+    if (file === this.primary || !Number.isFinite(offset)) return;
+    file.offset = offset;
+    file.store.setTimeOrigin(file.recordedOrigin + offset);
+  }
+
+  /**
+   * Offsets every added file so its first sample lines up with the first
+   * sample of the reference file
+   */
+  alignStarts(): void {
+    const primary = this.primary;
+    if (!primary || !primary.store.length) return;
+
+    const start = primary.recordedOrigin + primary.store.getOffset(0);
+    for (const file of this.files.slice(1)) {
+      if (file.store.length) {
+        this.setOffset(file, start - (file.recordedOrigin + file.store.getOffset(0)));
+      }
+    }
+  }
+
+  /**
+   * Offsets every added file so its trigger event lines up with the one in
+   * the reference file. Returns the files that have no such event and were
+   * left where they were.
+   */
+  alignTriggers(trigger: TriggerCondition): SessionFile[] {
+    const primary = this.primary;
+    const reference = primary && triggerEventTime(primary, trigger);
+    if (!primary || reference === null || reference === undefined) return this.files;
+
+    const unaligned: SessionFile[] = [];
+    for (const file of this.files.slice(1)) {
+      const event = triggerEventTime(file, trigger);
+      if (event === null) {
+        unaligned.push(file);
+      } else {
+        this.setOffset(file, reference - event);
+      }
+    }
+    return unaligned;
+  }
+
+  /**
+   * Recorded triggers on the shared time axis
+   */
+  triggerTimes(): number[] {
+    return this.files
+      .filter(file => file.triggerTime !== null)
+      .map(file => file.triggerTime! + file.offset);
+  }
+
+  /**
+   * Earliest and latest sample across all files, offsets applied
+   */
+  get timeRange(): [number, number] {
+    const ranges = this.files.filter(file => file.store.length).map(file => file.store.timeRange);
+    if (!ranges.length) return [0, 0];
+    return [Math.min(...ranges.map(r => r[0])), Math.max(...ranges.map(r => r[1]))];
+  }
+
+  get totalPoints(): number {
+    return this.files.reduce((sum, file) => sum + file.store.length * file.columns.length, 0);
+  }
+
+  memoryUsage(): number {
+    return this.files.reduce((sum, file) => sum + file.store.memoryUsage(), 0);
+  }
+}
+
+/**
+ * End of `values` from `start` on, less any missing samples at the end:
+ * streamed filters stop short of those until a value follows them, as a
+ * derived channel may still fill them in
+ */
+function valuesEnd(values: ArrayLike<number>, start: number): number {
+  let end = values.length;
+  while (end > start && values[end - 1] !== values[end - 1]) end--;
+  return end;
+}
@@ -0,0 +1,46 @@
+import { SessionFile, findCrossing, sessionLabel, splitChannelId, triggerEventTime } from './session';
+import { storeWith } from './time-series-store.testing';
+
+describe('session', () => {
+  it('should label files by name, uniquely', () => {
+    expect(sessionLabel('captures/run1.csv.gz', [])).toBe('run1');
+    expect(sessionLabel('run1.parquet', ['run1'])).toBe('run1 (2)');
+    expect(sessionLabel('a:b.csv', [])).toBe('a_b');
+  });
+
+  it('should split channel ids at the first colon', () => {
+    expect(splitChannelId('run1:Bus:Voltage')).toEqual(['run1', 'Bus:Voltage']);
+    expect(splitChannelId('Voltage')).toBeNull();
+  });
+
+  it('should find the first crossing of a level between samples', () => {
+    const store = storeWith([0, 10, 20, 30, 40], { Trip: [0, 1, NaN, 5, 0] });
+
+    // 1 at 10 ms and 5 at 30 ms, with the missing sample skipped
+    expect(findCrossing(store, 'Trip', 3, 'rising')).toBe(20);
+    expect(findCrossing(store, 'Trip', 2.5, 'falling')).toBe(35);
+    expect(findCrossing(store, 'Trip', 10, 'rising')).toBeNull();
+    expect(findCrossing(store, 'Missing', 1, 'rising')).toBeNull();
+  });
+
+  it('should time trigger events before the offset', () => {
+    const store = storeWith([0, 10, 20], { Trip: [0, 0, 1] }, 1000);
+    const file: SessionFile = {
+      id: 1,
+      label: 'run2',
+      name: 'run2.csv',
+      store,
+      columns: ['Trip'],
+      offset: 0,
+      recordedOrigin: 1000,
+      triggerTime: 1005,
+      columnar: null,
+      filters: {},
+      derived: []
+    };
+    store.setTimeOrigin(1500);
+
+    expect(triggerEventTime(file, { channel: 'Trip', level: 0.5, edge: 'rising' })).toBe(1015);
+    expect(triggerEventTime(file, { channel: '', level: 0, edge: 'rising' })).toBe(1005);
+  });
+});
@@ -0,0 +1,138 @@
+import { TimeSeriesStore } from './time-series-store.service';
+import { ColumnarFormat } from './columnar-file';
+import { FilterStage } from './filters';
+
+/**
+ * One recording in a multi-file session. Every file keeps its own time
+ * column; `offset` moves it on the shared time axis.
+ */
+export interface SessionFile {
+  id: number;
+  // Prefix of the file's channel ids once the session has several files
+  label: string;
+  name: string;
+  store: TimeSeriesStore;
+  // Channels in file order, decoded or not
+  columns: string[];
+  // Milliseconds added to every timestamp of the file
+  offset: number;
+  // Time origin of the store as recorded, before the offset
+  recordedOrigin: number;
+  // Recorded trigger in epoch milliseconds, before the offset
+  triggerTime: number | null;
+  // Parquet, Arrow, COMTRADE or TDMS file whose other channels are decoded when selected
+  columnar: { blob: Blob, format: ColumnarFormat, rowOrder: Uint32Array | null } | null;
+  // Filter chains by channel name. A filtered channel is kept in the store
+  // as a channel of its own, named by filteredName().
+  filters: Record<string, FilterStage[]>;
+  // Channels computed from expressions, kept in the store after the file's
+  // own channels
+  derived: DerivedChannel[];
+}
+
+/**
+ * Channel computed from an expression over other channels, sampled at the
+ * times of the file it belongs to
+ */
+export interface DerivedChannel {
+  name: string;
+  expression: string;
+  unit: string;
+  // File and channel of each channel id in the expression, fixed when the
+  // channel is defined, since ids change as files are added and removed
+  inputs: Record<string, { fileId: number, channel: string }>;
+}
+
+export type TriggerEdge = 'rising' | 'falling';
+
+/**
+ * Level crossing that marks the same event in every file
+ */
+export interface TriggerCondition {
+  // Channel name as it appears in each file; empty to use recorded triggers
+  channel: string;
+  level: number;
+  edge: TriggerEdge;
+}
+
+/**
+ * Channel id shown in the channel panel: `file:channel`
+ */
+export function channelId(label: string, channel: string): string {
+  return `${label}:${channel}`;
+}
+
+/**
+ * Label and channel name of a channel id. Labels never contain a colon, so
+ * channel names may.
+ */
+export function splitChannelId(id: string): [string, string] | null {
+  const colon = id.indexOf(':');
+  return colon === -1 ? null : [id.slice(0, colon), id.slice(colon + 1)];
+}
+
+/**
+ * Name of the filtered view of a channel
+ */
+export function filteredName(channel: string): string {
+  return `${channel} (filtered)`;
+}
+
+/**
+ * Short, unique label for a file: its name without folders and extensions
+ */
+export function sessionLabel(name: string, taken: string[]): string {
+  const base = (name.split(/[\\/]/).pop() || name)
+    .replace(/\.(gz|gzip|zz|deflate|zst|zstd)$/i, '')
+    .replace(/\.[^.]*$/, '')
+    .replace(/:/g, '_') || 'file';
+
+  let label = base;
+  for (let n = 2; taken.includes(label); n++) {
+    label = `${base} (${n})`;
+  }
+  return label;
+}
+
+/**
+ * Offset from timeOrigin (ms) where a channel first crosses `level` in the
+ * direction of `edge`, interpolated between the two samples either side;
+ * null when it never does. Missing samples are skipped.
+ */
+export function findCrossing(store: TimeSeriesStore, channel: string, level: number, edge: TriggerEdge): number | null {
+  const column = store.getChannel(channel);
+  if (!column) return null;
+
+  const time = store.getTimes();
+  const values = column.values;
+  let previous = -1;
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value !== value) continue;
+
+    if (previous !== -1) {
+      const before = values[previous];
+      const crossed = edge === 'rising'
+        ? before < level && value >= level
+        : before > level && value <= level;
+      if (crossed) {
+        const fraction = (level - before) / (value - before);
+        return time[previous] + fraction * (time[i] - time[previous]);
+      }
+    }
+    previous = i;
+  }
+  return null;
+}
+
+/**
+ * Recorded time (epoch ms, before the offset) of the trigger event in a
+ * file, from the level crossing or else the recorded trigger
+ */
+export function triggerEventTime(file: SessionFile, trigger: TriggerCondition): number | null {
+  if (!trigger.channel) return file.triggerTime;
+
+  const crossing = findCrossing(file.store, trigger.channel, trigger.level, trigger.edge);
+  return crossing === null ? null : file.recordedOrigin + crossing;
+}
@@ -0,0 +1,78 @@
+import { PixelRect } from './chart-picking';
+import { Spectrogram, SpectrogramColorMap, spectrogramPixels } from './spectrogram';
+
+/**
+ * Canvas under the chart that draws a spectrogram image into a grid. The
+ * image is coloured once per result and stretched to the axes on every frame.
+ */
+export class SpectrogramLayer {
+  private canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D;
+  // The coloured spectrogram at a pixel per column and bin
+  private image: HTMLCanvasElement | null = null;
+
+  /**
+   * Adds the layer's canvas as the first child of `container`, so the chart
+   * draws its axes over it
+   */
+  constructor(container: HTMLElement) {
+    this.canvas = document.createElement('canvas');
+    this.canvas.className = 'spectrogram-layer';
+    this.canvas.style.cssText = 'position: absolute; top: 0; left: 0; pointer-events: none;';
+    this.context = this.canvas.getContext('2d')!;
+    container.insertBefore(this.canvas, container.firstChild);
+  }
+
+  /**
+   * Colours a new result, or clears the image when there is none
+   */
+  setSpectrogram(spectrogram: Spectrogram | null, map: SpectrogramColorMap, floorDb: number, ceilingDb: number): void {
+    if (!spectrogram) {
+      this.image = null;
+      return;
+    }
+
+    const image = document.createElement('canvas');
+    image.width = spectrogram.columns;
+    image.height = spectrogram.bins;
+    const pixels = spectrogramPixels(spectrogram, map, floorDb, ceilingDb);
+    image.getContext('2d')!.putImageData(new ImageData(pixels, spectrogram.columns, spectrogram.bins), 0, 0);
+    this.image = image;
+  }
+
+  /**
+   * Draws the image between pixels `left` and `right`, clipped to the grid,
+   * on a canvas of the chart's size (CSS pixels)
+   */
+  draw(rect: PixelRect, left: number, right: number, width: number, height: number): void {
+    const ratio = window.devicePixelRatio || 1;
+    if (this.canvas.width !== Math.round(width * ratio) || this.canvas.height !== Math.round(height * ratio)) {
+      this.canvas.width = Math.round(width * ratio);
+      this.canvas.height = Math.round(height * ratio);
+      this.canvas.style.width = `${width}px`;
+      this.canvas.style.height = `${height}px`;
+    }
+
+    const context = this.context;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, height);
+    if (!this.image || !(right > left)) return;
+
+    context.save();
+    context.beginPath();
+    context.rect(rect.x, rect.y, rect.width, rect.height);
+    context.clip();
+    context.drawImage(this.image, left, rect.y, right - left, rect.height);
+    context.restore();
+  }
+
+  clear(): void {
+    this.context.setTransform(1, 0, 0, 1, 0, 0);
+    this.context.clearRect(0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  dispose(): void {
+    this.image = null;
+    this.canvas.remove();
+  }
+}
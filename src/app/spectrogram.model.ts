@@ -0,0 +1,19 @@
+// Message protocol shared by SpectrogramService and spectrogram.worker.ts
+import { Spectrogram, SpectrogramSettings } from './spectrogram';
+
+export type SpectrogramWorkerRequest =
+  | {
+      type: 'compute';
+      jobId: number;
+      // Milliseconds, sorted ascending; missing values NaN
+      time: Float64Array;
+      values: Float64Array;
+      settings: SpectrogramSettings;
+      maxColumns: number;
+    }
+  | { type: 'cancel'; jobId: number };
+
+export type SpectrogramWorkerResponse =
+  | { type: 'spectrogram'; jobId: number; spectrogram: Spectrogram | null }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'error'; jobId: number; message: string };
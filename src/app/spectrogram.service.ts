@@ -0,0 +1,95 @@
+import { Injectable, NgZone, OnDestroy, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { SpectrogramWorkerRequest, SpectrogramWorkerResponse } from './spectrogram.model';
+import { Spectrogram, SpectrogramSettings } from './spectrogram';
+import { SpectrumSource } from './spectrum';
+
+/**
+ * Computes spectrograms in a dedicated Web Worker, so zooming a long
+ * recording doesn't stall the chart
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SpectrogramService implements OnDestroy {
+  private zone = inject(NgZone);
+  private worker: Worker | null = null;
+  private nextJobId = 1;
+
+  /**
+   * Spectrogram of the samples, or null when there are too few of them.
+   * The samples are copied, so the caller's arrays stay usable.
+   * Unsubscribing cancels the job.
+   */
+  compute(source: SpectrumSource, settings: SpectrogramSettings, maxColumns: number): Observable<Spectrogram | null> {
+    return new Observable<Spectrogram | null>(subscriber => {
+      const worker = this.getWorker();
+      const jobId = this.nextJobId++;
+      let finished = false;
+
+      const onMessage = ({ data }: MessageEvent<SpectrogramWorkerResponse>) => {
+        if (data.jobId !== jobId) return;
+
+        // Worker messages arrive outside Angular's zone
+        this.zone.run(() => {
+          finished = true;
+          switch (data.type) {
+            case 'spectrogram':
+              subscriber.next(data.spectrogram);
+              subscriber.complete();
+              break;
+            case 'cancelled':
+              subscriber.complete();
+              break;
+            case 'error':
+              subscriber.error(new Error(data.message));
+              break;
+          }
+        });
+      };
+
+      const onError = (event: ErrorEvent) => {
+        finished = true;
+        this.zone.run(() => subscriber.error(new Error(event.message || 'Spectrogram worker failed')));
+        // A crashed worker can't be reused
+        this.disposeWorker();
+      };
+
+      this.zone.runOutsideAngular(() => {
+        worker.addEventListener('message', onMessage);
+        worker.addEventListener('error', onError);
+      });
+      const time = source.time.slice();
+      const values = source.values.slice();
+      this.post({ type: 'compute', jobId, time, values, settings, maxColumns }, [time.buffer, values.buffer]);
+
+      return () => {
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onError);
+        if (!finished) {
+          this.post({ type: 'cancel', jobId });
+        }
+      };
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.disposeWorker();
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./spectrogram.worker', import.meta.url), { type: 'module' });
+    }
+    return this.worker;
+  }
+
+  private post(message: SpectrogramWorkerRequest, transfer: Transferable[] = []): void {
+    this.worker?.postMessage(message, transfer);
+  }
+
+  private disposeWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+}
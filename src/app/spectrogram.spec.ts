@@ -0,0 +1,65 @@
+import { colorMapColor, computeSpectrogram, spectrogramPixels } from './spectrogram';
+import { UniformSamples } from './spectrum';
+
+function chirp(sampleRate: number, count: number, frequency: (t: number) => number): UniformSamples {
+  let phase = 0;
+  const values = Float64Array.from({ length: count }, (_, i) => {
+    phase += 2 * Math.PI * frequency(i / sampleRate) / sampleRate;
+    return Math.sin(phase);
+  });
+  return { values, start: 0, sampleRate, resampled: false };
+}
+
+function strongestBin(power: Float32Array, column: number, bins: number): number {
+  let best = 0;
+  for (let k = 1; k < bins; k++) {
+    if (power[column * bins + k] > power[column * bins + best]) best = k;
+  }
+  return best;
+}
+
+describe('spectrogram', () => {
+  it('should follow a tone that changes frequency', () => {
+    // 1 kHz sampling: 100 Hz for the first second, 300 Hz for the next
+    const samples = chirp(1000, 2000, t => t < 1 ? 100 : 300);
+    const result = computeSpectrogram(samples, { fftSize: 256, overlap: 0.5, window: 'hann' }, 1000)!;
+
+    expect(result.bins).toBe(129);
+    expect(result.hop).toBe(128);
+    expect(result.columns).toBe(14);
+    // Bins are 1000 / 256 Hz apart
+    expect(strongestBin(result.power, 0, result.bins)).toBe(Math.round(100 * 256 / 1000));
+    expect(strongestBin(result.power, result.columns - 1, result.bins)).toBe(Math.round(300 * 256 / 1000));
+  });
+
+  it('should place columns at the centre of their segments', () => {
+    const samples = { ...chirp(100, 1000, () => 10), start: 5000 };
+    const result = computeSpectrogram(samples, { fftSize: 64, overlap: 0.75, window: 'hann' }, 1000)!;
+
+    expect(result.start).toBeCloseTo(5000 + 31.5 * 10, 9);
+    expect(result.hop).toBeCloseTo(160, 9);
+  });
+
+  it('should widen the hop to keep to the column limit', () => {
+    const samples = chirp(1000, 100000, () => 50);
+    const result = computeSpectrogram(samples, { fftSize: 512, overlap: 0.5, window: 'hann' }, 200)!;
+
+    expect(result.columns).toBeLessThanOrEqual(200);
+    expect(result.columns).toBeGreaterThan(190);
+    expect(computeSpectrogram(chirp(1000, 4, () => 50), { fftSize: 512, overlap: 0.5, window: 'hann' }, 200)).toBeNull();
+  });
+
+  it('should draw high frequencies at the top', () => {
+    const spectrogram = {
+      start: 0, hop: 1, columns: 2, bins: 2, fftSize: 2, sampleRate: 1, maxDb: 0, resampled: false,
+      // Column 0: DC loud, Nyquist quiet; column 1 the other way round
+      power: new Float32Array([0, -60, -60, 0])
+    };
+    const pixels = spectrogramPixels(spectrogram, 'grayscale', -60, 0);
+
+    // Top row: column 0 quiet, column 1 loud
+    expect(Array.from(pixels.subarray(0, 8))).toEqual([0, 0, 0, 255, 255, 255, 255, 255]);
+    expect(Array.from(pixels.subarray(8, 16))).toEqual([255, 255, 255, 255, 0, 0, 0, 255]);
+    expect(colorMapColor('grayscale', 0.5)).toEqual([128, 128, 128]);
+  });
+});
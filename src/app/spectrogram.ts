@@ -0,0 +1,151 @@
+import { SpectrumWindow, UniformSamples, fft, toDecibels, windowFunction } from './spectrum';
+
+export type SpectrogramColorMap = 'viridis' | 'inferno' | 'grayscale';
+
+export interface SpectrogramSettings {
+  // Samples per transform, a power of two
+  fftSize: number;
+  // Fraction of a transform shared with the next one, 0 to below 1
+  overlap: number;
+  window: SpectrumWindow;
+}
+
+/**
+ * Short-time power spectral density on a grid of columns (time) by bins
+ * (frequency), in dB re 1 unit²/Hz
+ */
+export interface Spectrogram {
+  // Centre of the first column's segment and the time between columns, in
+  // the samples' time base (ms)
+  start: number;
+  hop: number;
+  columns: number;
+  // fftSize / 2 + 1, from DC to the Nyquist frequency
+  bins: number;
+  fftSize: number;
+  // Hz
+  sampleRate: number;
+  // Column by column: power[column * bins + bin]
+  power: Float32Array;
+  // Strongest bin, for scaling colours
+  maxDb: number;
+  // True when the samples had to be put on a uniform time base
+  resampled: boolean;
+}
+
+// Colours at evenly spaced points from weakest to strongest
+const COLOR_MAPS: Record<SpectrogramColorMap, [number, number, number][]> = {
+  'viridis': [[68, 1, 84], [72, 40, 120], [62, 74, 137], [49, 104, 142], [38, 130, 142],
+              [31, 158, 137], [53, 183, 121], [109, 205, 89], [180, 222, 44], [253, 231, 37]],
+  'inferno': [[0, 0, 4], [27, 12, 65], [74, 12, 107], [120, 28, 109], [165, 44, 96],
+              [207, 68, 70], [237, 105, 37], [251, 155, 6], [247, 209, 61], [252, 255, 164]],
+  'grayscale': [[0, 0, 0], [255, 255, 255]]
+};
+
+/**
+ * Spectrogram of uniform samples: mean-removed, windowed transforms every
+ * hop. The hop grows when more than `maxColumns` columns would fit, so a
+ * long window costs no more than a column per pixel or two.
+ */
+export function computeSpectrogram(samples: UniformSamples, settings: SpectrogramSettings,
+                                   maxColumns: number): Spectrogram | null {
+  const { values, sampleRate } = samples;
+  let size = settings.fftSize;
+  while (size > values.length) size >>= 1;
+  if (size < 8) return null;
+
+  let step = Math.max(1, Math.round(size * (1 - settings.overlap)));
+  if (maxColumns > 1 && (values.length - size) / step + 1 > maxColumns) {
+    step = Math.ceil((values.length - size) / (maxColumns - 1));
+  }
+  const columns = Math.floor((values.length - size) / step) + 1;
+
+  const window = windowFunction(settings.window, size);
+  const windowPower = window.reduce((sum, w) => sum + w * w, 0);
+  const bins = size / 2 + 1;
+  const power = new Float32Array(columns * bins);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  let maxDb = -Infinity;
+
+  for (let column = 0; column < columns; column++) {
+    const start = column * step;
+    let mean = 0;
+    for (let i = 0; i < size; i++) mean += values[start + i];
+    mean /= size;
+
+    for (let i = 0; i < size; i++) {
+      re[i] = (values[start + i] - mean) * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    for (let k = 0; k < bins; k++) {
+      // Both sides of the spectrum are folded into the positive frequencies
+      const sides = k === 0 || k === bins - 1 ? 1 : 2;
+      const db = toDecibels((re[k] * re[k] + im[k] * im[k]) * sides / (sampleRate * windowPower));
+      power[column * bins + k] = db;
+      if (db > maxDb) maxDb = db;
+    }
+  }
+
+  const interval = 1000 / sampleRate;
+  return {
+    start: samples.start + (size - 1) / 2 * interval,
+    hop: step * interval,
+    columns,
+    bins,
+    fftSize: size,
+    sampleRate,
+    power,
+    maxDb,
+    resampled: samples.resampled
+  };
+}
+
+/**
+ * Colour of a level from 0 (weakest) to 1 (strongest)
+ */
+export function colorMapColor(map: SpectrogramColorMap, level: number): [number, number, number] {
+  const stops = COLOR_MAPS[map];
+  const position = Math.min(1, Math.max(0, level)) * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(position));
+  const f = position - i;
+  return [0, 1, 2].map(c => Math.round(stops[i][c] + (stops[i + 1][c] - stops[i][c]) * f)) as [number, number, number];
+}
+
+/**
+ * CSS gradient of a colour map, weakest on the left, for its legend
+ */
+export function colorMapGradient(map: SpectrogramColorMap): string {
+  const stops = COLOR_MAPS[map];
+  return `linear-gradient(to right, ${stops.map(([r, g, b], i) =>
+    `rgb(${r}, ${g}, ${b}) ${(i / (stops.length - 1) * 100).toFixed(1)}%`).join(', ')})`;
+}
+
+/**
+ * RGBA pixels of the spectrogram, a column per pixel and the Nyquist
+ * frequency on the top row. Levels from `floorDb` up to `ceilingDb` span the
+ * colour map.
+ */
+export function spectrogramPixels(spectrogram: Spectrogram, map: SpectrogramColorMap,
+                                  floorDb: number, ceilingDb: number): Uint8ClampedArray {
+  const { columns, bins, power } = spectrogram;
+  const pixels = new Uint8ClampedArray(columns * bins * 4);
+  // A lookup table of 256 levels saves interpolating every pixel
+  const table = Array.from({ length: 256 }, (_, i) => colorMapColor(map, i / 255));
+  const scale = 255 / Math.max(ceilingDb - floorDb, 1e-9);
+
+  for (let column = 0; column < columns; column++) {
+    for (let k = 0; k < bins; k++) {
+      const level = Math.min(255, Math.max(0, Math.round((power[column * bins + k] - floorDb) * scale)));
+      const [r, g, b] = table[level];
+      const offset = ((bins - 1 - k) * columns + column) * 4;
+      pixels[offset] = r;
+      pixels[offset + 1] = g;
+      pixels[offset + 2] = b;
+      pixels[offset + 3] = 255;
+    }
+  }
+  return pixels;
+}
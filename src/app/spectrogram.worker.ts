@@ -0,0 +1,36 @@
+/// <reference lib="webworker" />
+
+import { SpectrogramWorkerRequest, SpectrogramWorkerResponse } from './spectrogram.model';
+import { computeSpectrogram } from './spectrogram';
+import { uniformSamples } from './spectrum';
+
+const cancelledJobs = new Set<number>();
+
+addEventListener('message', ({ data }: MessageEvent<SpectrogramWorkerRequest>) => {
+  if (data.type === 'cancel') {
+    cancelledJobs.add(data.jobId);
+    return;
+  }
+
+  // Zooming supersedes jobs faster than they finish; starting on the next
+  // task lets their cancel messages, queued behind this one, arrive first
+  setTimeout(() => {
+    if (cancelledJobs.delete(data.jobId)) {
+      respond({ type: 'cancelled', jobId: data.jobId });
+      return;
+    }
+
+    try {
+      const samples = uniformSamples(data.time, data.values);
+      const spectrogram = samples && computeSpectrogram(samples, data.settings, data.maxColumns);
+      respond({ type: 'spectrogram', jobId: data.jobId, spectrogram }, spectrogram ? [spectrogram.power.buffer] : []);
+    } catch (err: any) {
+      console.error('Spectrogram error:', err);
+      respond({ type: 'error', jobId: data.jobId, message: err?.message || String(err) });
+    }
+  });
+});
+
+function respond(message: SpectrogramWorkerResponse, transfer: Transferable[] = []): void {
+  postMessage(message, transfer);
+}
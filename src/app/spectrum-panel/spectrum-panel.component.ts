@@ -0,0 +1,191 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { NgxEchartsDirective } from 'ngx-echarts';
+import {
+  Spectrum,
+  SpectrumPeak,
+  SpectrumSettings,
+  SpectrumSource,
+  SpectrumWindow,
+  spectrumPeaks,
+  toDecibels,
+  uniformSamples,
+  welch
+} from '../spectrum';
+import { formatFrequency } from '../measurement-cursors';
+
+// Larger windows are analysed from their first this many samples
+const MAX_SAMPLES = 1 << 21;
+// Wait for zooming to settle before analysing the new window
+const RECOMPUTE_DELAY_MS = 150;
+
+/**
+ * Power spectral density of one channel over the zoom window or the brushed
+ * interval, by Welch's method, with its strongest peaks marked.
+ */
+@Component({
+  selector: 'app-spectrum-panel',
+  standalone: true,
+  imports: [CommonModule, FormsModule, NgxEchartsDirective],
+  templateUrl: './spectrum-panel.component.html',
+  styleUrls: ['./spectrum-panel.component.scss']
+})
+export class SpectrumPanelComponent implements OnChanges, OnDestroy {
+  @Input() channels: string[] = [];
+  // Epoch milliseconds shown by the chart, and the brushed interval if any
+  @Input() zoomWindow: [number, number] = [0, 0];
+  @Input() interval: [number, number] | null = null;
+  @Input() sampler: (channel: string, start: number, end: number) => SpectrumSource | null = () => null;
+
+  @Output() closed = new EventEmitter<void>();
+
+  readonly windows: { value: SpectrumWindow, label: string }[] = [
+    { value: 'hann', label: 'Hann' },
+    { value: 'hamming', label: 'Hamming' },
+    { value: 'blackman-harris', label: 'Blackman-Harris' },
+    { value: 'flattop', label: 'Flat-top' }
+  ];
+  readonly segmentSizes = [256, 512, 1024, 2048, 4096, 8192, 16384, 32768, 65536];
+
+  channel = '';
+  range: 'zoom' | 'interval' = 'zoom';
+  settings: SpectrumSettings = { window: 'hann', segmentSize: 4096, overlap: 0.5 };
+  decibels = true;
+  logFrequency = false;
+  peakCount = 5;
+
+  spectrum: Spectrum | null = null;
+  peaks: SpectrumPeak[] = [];
+  unit = '';
+  // Notes on how the samples were prepared
+  notes: string[] = [];
+  message = '';
+  chartOption: any = {};
+
+  private pending: ReturnType<typeof setTimeout> | null = null;
+
+  ngOnChanges(): void {
+    if (!this.channels.includes(this.channel)) {
+      this.channel = this.channels[0] || '';
+    }
+    if (!this.interval) {
+      this.range = 'zoom';
+    }
+    this.scheduleUpdate();
+  }
+
+  ngOnDestroy(): void {
+    if (this.pending) clearTimeout(this.pending);
+  }
+
+  scheduleUpdate(): void {
+    if (this.pending) clearTimeout(this.pending);
+    this.pending = setTimeout(() => {
+      this.pending = null;
+      this.update();
+    }, RECOMPUTE_DELAY_MS);
+  }
+
+  update(): void {
+    this.spectrum = null;
+    this.peaks = [];
+    this.notes = [];
+    this.message = '';
+
+    const [start, end] = this.range === 'interval' && this.interval ? this.interval : this.zoomWindow;
+    const source = this.channel ? this.sampler(this.channel, start, end) : null;
+    if (!source) {
+      this.message = 'Select a channel to analyse';
+      this.chartOption = {};
+      return;
+    }
+
+    let { time, values } = source;
+    if (time.length > MAX_SAMPLES) {
+      this.notes.push(`Analysing the first ${MAX_SAMPLES.toLocaleString()} of ${time.length.toLocaleString()} samples`);
+      time = time.subarray(0, MAX_SAMPLES);
+      values = values.subarray(0, MAX_SAMPLES);
+    }
+
+    const samples = uniformSamples(time, values);
+    const spectrum = samples && welch(samples, this.settings);
+    if (!samples || !spectrum) {
+      this.message = 'Too few samples in the window for a spectrum';
+      this.chartOption = {};
+      return;
+    }
+    if (samples.resampled) {
+      this.notes.push(`Resampled to a uniform ${formatFrequency(samples.sampleRate)} time base`);
+    }
+
+    this.unit = source.unit || '';
+    this.spectrum = spectrum;
+    this.peaks = spectrumPeaks(spectrum, this.peakCount);
+    this.chartOption = this.buildChart(spectrum);
+  }
+
+  formatFrequency(hz: number): string {
+    return formatFrequency(hz);
+  }
+
+  formatPower(power: number): string {
+    return this.decibels ? `${toDecibels(power).toFixed(1)} dB` : power.toPrecision(4);
+  }
+
+  get powerUnit(): string {
+    const unit = this.unit ? `${this.unit}²/Hz` : 'units²/Hz';
+    return this.decibels ? `dB (re 1 ${unit})` : unit;
+  }
+
+  private buildChart(spectrum: Spectrum): any {
+    const scale = (power: number) => this.decibels ? toDecibels(power) : power;
+    // A log axis has no room for DC
+    const first = this.logFrequency ? 1 : 0;
+    const data: [number, number][] = [];
+    for (let k = first; k < spectrum.frequencies.length; k++) {
+      data.push([spectrum.frequencies[k], scale(spectrum.power[k])]);
+    }
+
+    return {
+      animation: false,
+      grid: { left: 70, right: 30, top: 20, bottom: 45 },
+      tooltip: {
+        trigger: 'axis',
+        formatter: (params: any[]) => {
+          const [frequency, value] = params[0].value;
+          return `${formatFrequency(frequency)}<br/>${this.decibels ? `${value.toFixed(1)} dB` : value.toPrecision(4)}`;
+        }
+      },
+      xAxis: {
+        type: this.logFrequency ? 'log' : 'value',
+        name: 'Frequency (Hz)',
+        nameLocation: 'middle',
+        nameGap: 28,
+        min: this.logFrequency ? spectrum.frequencies[1] : 0,
+        max: spectrum.frequencies[spectrum.frequencies.length - 1]
+      },
+      yAxis: {
+        type: 'value',
+        name: this.powerUnit,
+        scale: true
+      },
+      dataZoom: [{ type: 'inside', xAxisIndex: 0 }],
+      series: [{
+        type: 'line',
+        data,
+        showSymbol: false,
+        lineStyle: { width: 1 },
+        markPoint: {
+          symbol: 'pin',
+          symbolSize: 30,
+          label: { fontSize: 9 },
+          data: this.peaks.map((peak, i) => ({
+            coord: [peak.frequency, scale(peak.power)],
+            value: i + 1
+          }))
+        }
+      }]
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { fft, spectrumPeaks, toDecibels, uniformSamples, welch, windowFunction } from './spectrum';
+
+function sine(frequency: number, sampleRate: number, count: number, amplitude = 1): Float64Array {
+  return Float64Array.from({ length: count }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate));
+}
+
+describe('spectrum', () => {
+  it('should transform an impulse to a flat spectrum', () => {
+    const re = new Float64Array(8);
+    const im = new Float64Array(8);
+    re[0] = 1;
+    fft(re, im);
+
+    expect(Array.from(re)).toEqual([1, 1, 1, 1, 1, 1, 1, 1]);
+    expect(Array.from(im).every(v => v === 0)).toBeTrue();
+  });
+
+  it('should use regular samples as they are', () => {
+    const samples = uniformSamples([0, 1, 2, 3], [4, 5, 6, 7])!;
+
+    expect(samples.resampled).toBeFalse();
+    expect(samples.sampleRate).toBe(1000);
+    expect(Array.from(samples.values)).toEqual([4, 5, 6, 7]);
+  });
+
+  it('should resample irregular times and fill missing values', () => {
+    const samples = uniformSamples([0, 1.1, 1.9, 3, 4, 5], [0, 1.1, NaN, 3, 4, NaN])!;
+
+    expect(samples.resampled).toBeTrue();
+    expect(samples.values.length).toBe(5);
+    Array.from(samples.values).forEach((value, i) => expect(value).toBeCloseTo(i, 12));
+  });
+
+  it('should find a tone and keep its power', () => {
+    // 2 V amplitude at 50 Hz: 2 V² of power
+    const samples = { values: sine(50, 1000, 4096, 2), start: 0, sampleRate: 1000, resampled: false };
+    const spectrum = welch(samples, { window: 'hann', segmentSize: 512, overlap: 0.5 })!;
+
+    expect(spectrum.segments).toBe(15);
+    expect(spectrum.resolution).toBeCloseTo(1000 / 512, 12);
+    const total = spectrum.power.reduce((sum, p) => sum + p, 0) * spectrum.resolution;
+    expect(total).toBeCloseTo(2, 1);
+
+    const [peak] = spectrumPeaks(spectrum, 3);
+    expect(Math.abs(peak.frequency - 50)).toBeLessThan(spectrum.resolution / 4);
+  });
+
+  it('should shorten segments to the samples available', () => {
+    const samples = { values: sine(10, 100, 100), start: 0, sampleRate: 100, resampled: false };
+
+    expect(welch(samples, { window: 'flattop', segmentSize: 1024, overlap: 0 })!.segmentSize).toBe(64);
+    expect(welch({ ...samples, values: samples.values.subarray(0, 5) }, { window: 'hann', segmentSize: 1024, overlap: 0 })).toBeNull();
+  });
+
+  it('should build windows and decibels', () => {
+    const hann = windowFunction('hann', 4);
+    expect(Array.from(hann).map(w => +w.toFixed(12))).toEqual([0, 0.5, 1, 0.5]);
+    expect(windowFunction('blackman-harris', 8)[4]).toBeCloseTo(1, 12);
+    expect(toDecibels(100)).toBe(20);
+  });
+});
@@ -0,0 +1,239 @@
+export type SpectrumWindow = 'hann' | 'hamming' | 'blackman-harris' | 'flattop';
+
+export interface SpectrumSettings {
+  window: SpectrumWindow;
+  // Samples per Welch segment, a power of two
+  segmentSize: number;
+  // Fraction of a segment shared with the next one, 0 to below 1
+  overlap: number;
+}
+
+// Samples of one channel to analyse: times in milliseconds, missing values NaN
+export interface SpectrumSource {
+  time: Float64Array;
+  values: Float64Array;
+  unit?: string;
+}
+
+// Samples on a uniform time base
+export interface UniformSamples {
+  values: Float64Array;
+  // Time of the first sample, in milliseconds
+  start: number;
+  // Hz
+  sampleRate: number;
+  // True when the time base was irregular or had missing samples filled in
+  resampled: boolean;
+}
+
+/**
+ * One-sided power spectral density, in units² per Hz, averaged over the
+ * Welch segments
+ */
+export interface Spectrum {
+  frequencies: Float64Array;
+  power: Float64Array;
+  segments: number;
+  segmentSize: number;
+  // Hz between frequency bins
+  resolution: number;
+}
+
+export interface SpectrumPeak {
+  frequency: number;
+  power: number;
+}
+
+// Intervals further than this from the median make the time base irregular
+const JITTER_TOLERANCE = 0.01;
+
+/**
+ * Periodic window coefficients, as used for spectral analysis
+ */
+export function windowFunction(kind: SpectrumWindow, n: number): Float64Array {
+  const terms: Record<SpectrumWindow, number[]> = {
+    'hann': [0.5, 0.5],
+    'hamming': [0.54, 0.46],
+    'blackman-harris': [0.35875, 0.48829, 0.14128, 0.01168],
+    'flattop': [0.21557895, 0.41663158, 0.277263158, 0.083578947, 0.006947368]
+  };
+  const a = terms[kind];
+  const w = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = 0;
+    for (let k = 0; k < a.length; k++) {
+      sum += (k % 2 ? -1 : 1) * a[k] * Math.cos(2 * Math.PI * k * i / n);
+    }
+    w[i] = sum;
+  }
+  return w;
+}
+
+/**
+ * In-place radix-2 FFT; the length must be a power of two
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const next = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = next;
+      }
+    }
+  }
+}
+
+/**
+ * Median interval between samples (ms), from at most 65536 of them; NaN
+ * with fewer than two samples
+ */
+export function sampleInterval(time: ArrayLike<number>, count = time.length): number {
+  if (count < 2) return NaN;
+  const stride = Math.max(1, Math.floor((count - 1) / 65536));
+  const intervals: number[] = [];
+  for (let i = 1; i < count; i += stride) intervals.push(time[i] - time[i - 1]);
+  intervals.sort((a, b) => a - b);
+  return intervals[intervals.length >> 1];
+}
+
+/**
+ * Samples on a uniform time base at the median sample interval. Regular
+ * samples are used as they are; slightly irregular ones, and missing (NaN)
+ * values, are linearly interpolated. `time` is in milliseconds.
+ */
+export function uniformSamples(time: ArrayLike<number>, values: ArrayLike<number>): UniformSamples | null {
+  const n = Math.min(time.length, values.length);
+  if (n < 2) return null;
+
+  const dt = sampleInterval(time, n);
+  if (!(dt > 0)) return null;
+
+  let regular = true;
+  for (let i = 0; i < n && regular; i++) {
+    regular = values[i] === values[i] && (i === 0 || Math.abs(time[i] - time[i - 1] - dt) <= dt * JITTER_TOLERANCE);
+  }
+  if (regular) {
+    return { values: Float64Array.from({ length: n }, (_, i) => values[i]), start: time[0], sampleRate: 1000 / dt, resampled: false };
+  }
+
+  let first = 0;
+  let last = n - 1;
+  while (first < n && values[first] !== values[first]) first++;
+  while (last > first && values[last] !== values[last]) last--;
+  const count = Math.floor((time[last] - time[first]) / dt) + 1;
+  if (first >= last || count < 2) return null;
+
+  const out = new Float64Array(count);
+  // Last valid sample at or before the output time, and the next valid one
+  let scan = first;
+  let before = first;
+  let after = first;
+  for (let k = 0; k < count; k++) {
+    const t = time[first] + k * dt;
+    while (scan < last && time[scan + 1] <= t) {
+      scan++;
+      if (values[scan] === values[scan]) before = scan;
+    }
+    if (after <= before) {
+      after = before + 1;
+      while (after < last && values[after] !== values[after]) after++;
+    }
+
+    const end = Math.min(after, last);
+    const t0 = time[before];
+    const t1 = time[end];
+    out[k] = t1 > t0 ? values[before] + (values[end] - values[before]) * Math.min(1, (t - t0) / (t1 - t0)) : values[before];
+  }
+  return { values: out, start: time[first], sampleRate: 1000 / dt, resampled: true };
+}
+
+/**
+ * Welch's method: the mean-removed, windowed segments' periodograms averaged
+ */
+export function welch(samples: UniformSamples, settings: SpectrumSettings): Spectrum | null {
+  const { values, sampleRate } = samples;
+  let size = settings.segmentSize;
+  while (size > values.length) size >>= 1;
+  if (size < 8) return null;
+
+  const window = windowFunction(settings.window, size);
+  const windowPower = window.reduce((sum, w) => sum + w * w, 0);
+  const step = Math.max(1, Math.round(size * (1 - settings.overlap)));
+  const bins = size / 2 + 1;
+  const power = new Float64Array(bins);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  let segments = 0;
+
+  for (let start = 0; start + size <= values.length; start += step) {
+    let mean = 0;
+    for (let i = 0; i < size; i++) mean += values[start + i];
+    mean /= size;
+
+    for (let i = 0; i < size; i++) {
+      re[i] = (values[start + i] - mean) * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < bins; k++) power[k] += re[k] * re[k] + im[k] * im[k];
+    segments++;
+  }
+
+  const frequencies = new Float64Array(bins);
+  for (let k = 0; k < bins; k++) {
+    frequencies[k] = k * sampleRate / size;
+    // Both sides of the spectrum are folded into the positive frequencies
+    const sides = k === 0 || k === bins - 1 ? 1 : 2;
+    power[k] *= sides / (segments * sampleRate * windowPower);
+  }
+  return { frequencies, power, segments, segmentSize: size, resolution: sampleRate / size };
+}
+
+/**
+ * The strongest local maxima above DC, strongest first. Frequencies are
+ * refined between bins by a parabola through the log power.
+ */
+export function spectrumPeaks(spectrum: Spectrum, count: number): SpectrumPeak[] {
+  const { frequencies, power, resolution } = spectrum;
+  const peaks: SpectrumPeak[] = [];
+
+  for (let k = 1; k < power.length - 1; k++) {
+    if (!(power[k] > power[k - 1] && power[k] >= power[k + 1])) continue;
+
+    const [a, b, c] = [power[k - 1], power[k], power[k + 1]].map(p => Math.log(Math.max(p, Number.MIN_VALUE)));
+    const curvature = a - 2 * b + c;
+    const shift = curvature < 0 ? 0.5 * (a - c) / curvature : 0;
+    peaks.push({ frequency: frequencies[k] + shift * resolution, power: power[k] });
+  }
+  return peaks.sort((a, b) => b.power - a.power).slice(0, count);
+}
+
+export function toDecibels(power: number): number {
+  return 10 * Math.log10(Math.max(power, 1e-300));
+}
@@ -0,0 +1,77 @@
+import { HttpClient, HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+
+export interface TailChunk {
+  // Bytes from the requested offset to the end of the file
+  bytes: ArrayBuffer;
+  // Current size of the file
+  size: number;
+}
+
+/**
+ * A file that may still be growing. Only the bytes past `offset` are read.
+ */
+export interface TailSource {
+  readonly name: string;
+  readFrom(offset: number): Promise<TailChunk>;
+}
+
+/**
+ * Polls a URL with HTTP Range requests. Servers that ignore the Range header
+ * send the whole file, which still works but costs the full download.
+ */
+export class HttpRangeTailSource implements TailSource {
+  constructor(private http: HttpClient, readonly url: string) {}
+
+  get name(): string {
+    return this.url;
+  }
+
+  async readFrom(offset: number): Promise<TailChunk> {
+    const headers = new HttpHeaders({ 'Range': `bytes=${offset}-`, 'Cache-Control': 'no-cache' });
+    try {
+      const response = await firstValueFrom(this.http.get(this.url, {
+        headers,
+        observe: 'response',
+        responseType: 'arraybuffer'
+      }));
+      const body = response.body || new ArrayBuffer(0);
+
+      if (response.status === 206) {
+        const total = totalSize(response.headers.get('Content-Range'));
+        return { bytes: body, size: total ?? offset + body.byteLength };
+      }
+      return { bytes: body.slice(offset), size: body.byteLength };
+    } catch (err) {
+      // 416: nothing past the offset yet
+      if (err instanceof HttpErrorResponse && err.status === 416) {
+        const total = totalSize(err.headers.get('Content-Range'));
+        return { bytes: new ArrayBuffer(0), size: total ?? offset };
+      }
+      throw err;
+    }
+  }
+}
+
+/**
+ * Re-reads a local file through a File System Access handle. Files picked
+ * with a plain file input are snapshots and can't be followed.
+ */
+export class FileHandleTailSource implements TailSource {
+  constructor(private handle: FileSystemFileHandle) {}
+
+  get name(): string {
+    return this.handle.name;
+  }
+
+  async readFrom(offset: number): Promise<TailChunk> {
+    const file = await this.handle.getFile();
+    return { bytes: await file.slice(offset).arrayBuffer(), size: file.size };
+  }
+}
+
+// Total from a "bytes 100-199/1234" or "bytes */1234" header
+function totalSize(contentRange: string | null): number | null {
+  const match = contentRange && /\/(\d+)\s*$/.exec(contentRange);
+  return match ? Number(match[1]) : null;
+}
@@ -0,0 +1,167 @@
+import { openTdms } from './tdms';
+
+const META_DATA = 1 << 1;
+const NEW_OBJ_LIST = 1 << 2;
+const RAW_DATA = 1 << 3;
+const INTERLEAVED = 1 << 5;
+const BIG_ENDIAN = 1 << 6;
+
+/**
+ * Byte writer for building TDMS segments
+ */
+class Bytes {
+  data: number[] = [];
+
+  constructor(private littleEndian = true) {}
+
+  u8(value: number): this {
+    this.data.push(value & 0xFF);
+    return this;
+  }
+
+  u32(value: number): this {
+    return this.raw(4, view => view.setUint32(0, value, this.littleEndian));
+  }
+
+  u64(value: number): this {
+    return this.raw(8, view => view.setBigUint64(0, BigInt(value), this.littleEndian));
+  }
+
+  i16(value: number): this {
+    return this.raw(2, view => view.setInt16(0, value, this.littleEndian));
+  }
+
+  f64(value: number): this {
+    return this.raw(8, view => view.setFloat64(0, value, this.littleEndian));
+  }
+
+  str(text: string): this {
+    const bytes = new TextEncoder().encode(text);
+    this.u32(bytes.length);
+    bytes.forEach(b => this.u8(b));
+    return this;
+  }
+
+  // LabVIEW timestamp: 2^-64 fraction, then seconds since 1904
+  timestamp(epochSeconds: number): this {
+    return this.u64(0).raw(8, view => view.setBigInt64(0, BigInt(epochSeconds) + 2082844800n, this.littleEndian));
+  }
+
+  private raw(size: number, write: (view: DataView) => void): this {
+    const view = new DataView(new ArrayBuffer(size));
+    write(view);
+    new Uint8Array(view.buffer).forEach(b => this.u8(b));
+    return this;
+  }
+}
+
+function segment(toc: number, meta: Bytes, raw: Bytes): number[] {
+  const tag = new Bytes();
+  'TDSm'.split('').forEach(c => tag.u8(c.charCodeAt(0)));
+  tag.u32(toc);
+  const leadIn = new Bytes(!(toc & BIG_ENDIAN));
+  leadIn.u32(4713).u64(meta.data.length + raw.data.length).u64(meta.data.length);
+  return [...tag.data, ...leadIn.data, ...meta.data, ...raw.data];
+}
+
+function tdms(...segments: number[][]): Blob {
+  return new Blob([new Uint8Array(segments.flat())]);
+}
+
+describe('TDMS', () => {
+  it('should build the time axis from waveform properties across segments', async () => {
+    const meta = new Bytes().u32(2)
+      .str('/').u32(0xFFFFFFFF).u32(0)
+      .str("/'Group'/'Volts'").u32(20).u32(10).u32(1).u64(2)
+      .u32(3)
+      .str('wf_start_time').u32(0x44).timestamp(1700000000)
+      .str('wf_increment').u32(10).f64(0.001)
+      .str('unit_string').u32(0x20).str('V');
+    const first = segment(META_DATA | NEW_OBJ_LIST | RAW_DATA, meta, new Bytes().f64(1).f64(2));
+    // No metadata: same objects and index as before, with two chunks of data
+    const second = segment(RAW_DATA, new Bytes(), new Bytes().f64(3).f64(4).f64(5).f64(6));
+
+    const file = await openTdms(tdms(first, second));
+
+    expect(file.columns.map(c => c.name)).toEqual(['Time', 'Group/Volts']);
+    expect(file.columns[1].unit).toBe('V');
+    expect(file.rowCount).toBe(6);
+
+    const time = (await file.readColumn('Time')).values as BigInt64Array;
+    expect(time[0]).toBe(1700000000000000000n);
+    expect(time[5]).toBe(1700000000005000000n);
+    expect(Array.from((await file.readColumn('Group/Volts')).values as Float64Array)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('should read interleaved data and apply linear scaling', async () => {
+    const meta = new Bytes().u32(2)
+      .str("/'G'/'A'").u32(20).u32(2).u32(1).u64(3)
+      .u32(4)
+      .str('NI_Scaling_Status').u32(0x20).str('unscaled')
+      .str('NI_Number_Of_Scales').u32(3).u32(1)
+      .str('NI_Scale[0]_Scale_Type').u32(0x20).str('Linear')
+      .str('NI_Scale[0]_Linear_Slope').u32(10).f64(0.5)
+      .str("/'G'/'B'").u32(20).u32(2).u32(1).u64(3)
+      .u32(0);
+    const raw = new Bytes().i16(2).i16(10).i16(4).i16(20).i16(6).i16(30);
+
+    const file = await openTdms(tdms(segment(META_DATA | NEW_OBJ_LIST | RAW_DATA | INTERLEAVED, meta, raw)));
+
+    expect(Array.from((await file.readColumn('G/A')).values as Float64Array)).toEqual([1, 2, 3]);
+    expect(Array.from((await file.readColumn('G/B')).values as Float64Array)).toEqual([10, 20, 30]);
+  });
+
+  it('should read every chunk of interleaved data', async () => {
+    const meta = new Bytes().u32(2)
+      .str("/'G'/'A'").u32(20).u32(10).u32(1).u64(2)
+      .u32(0)
+      .str("/'G'/'B'").u32(20).u32(10).u32(1).u64(2)
+      .u32(0);
+    // Two chunks of two rows each
+    const raw = new Bytes().f64(1).f64(10).f64(2).f64(20).f64(3).f64(30).f64(4).f64(40);
+
+    const file = await openTdms(tdms(segment(META_DATA | NEW_OBJ_LIST | RAW_DATA | INTERLEAVED, meta, raw)));
+
+    expect(file.rowCount).toBe(4);
+    expect(Array.from((await file.readColumn('G/A')).values as Float64Array)).toEqual([1, 2, 3, 4]);
+    expect(Array.from((await file.readColumn('G/B')).values as Float64Array)).toEqual([10, 20, 30, 40]);
+  });
+
+  it('should read big-endian segments', async () => {
+    const meta = new Bytes(false).u32(1)
+      .str("/'G'/'A'").u32(20).u32(10).u32(1).u64(3)
+      .u32(0);
+    const first = segment(BIG_ENDIAN | META_DATA | NEW_OBJ_LIST | RAW_DATA, meta, new Bytes(false).f64(1).f64(2).f64(3));
+    const second = segment(BIG_ENDIAN | RAW_DATA, new Bytes(), new Bytes(false).f64(4).f64(5).f64(6));
+
+    const file = await openTdms(tdms(first, second));
+
+    expect(file.rowCount).toBe(6);
+    expect(Array.from((await file.readColumn('G/A')).values as Float64Array)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('should read DAQmx raw data through its scalers', async () => {
+    const daqmxIndex = (byteOffset: number) => new Bytes()
+      .u32(0x69120000).u32(0xFFFFFFFF).u32(1).u64(2)
+      // One int16 scaler in buffer 0, then one raw buffer four bytes wide
+      .u32(1).u32(3).u32(0).u32(byteOffset).u32(0).u32(0)
+      .u32(1).u32(4);
+    const scaling = (slope: number) => new Bytes()
+      .u32(4)
+      .str('NI_Scaling_Status').u32(0x20).str('unscaled')
+      .str('NI_Number_Of_Scales').u32(3).u32(1)
+      .str('NI_Scale[0]_Scale_Type').u32(0x20).str('Linear')
+      .str('NI_Scale[0]_Linear_Slope').u32(10).f64(slope);
+
+    const meta = new Bytes().u32(2);
+    meta.str("/'Dev'/'ai0'").data.push(...daqmxIndex(0).data, ...scaling(2).data);
+    meta.str("/'Dev'/'ai1'").data.push(...daqmxIndex(2).data, ...scaling(-1).data);
+    const raw = new Bytes().i16(1).i16(5).i16(2).i16(6);
+
+    const file = await openTdms(tdms(segment(META_DATA | NEW_OBJ_LIST | RAW_DATA, meta, raw)));
+
+    expect(file.columns[0].type).toBe('DAQmx');
+    expect(Array.from((await file.readColumn('Dev/ai0')).values as Float64Array)).toEqual([2, 4]);
+    expect(Array.from((await file.readColumn('Dev/ai1')).values as Float64Array)).toEqual([-5, -6]);
+  });
+});
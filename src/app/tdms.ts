@@ -0,0 +1,615 @@
+/**
+ * National Instruments TDMS reader. Walks the segments once to collect each
+ * channel's properties and where its raw values are, then reads one channel
+ * at a time. Handles interleaved and contiguous raw data, big-endian
+ * segments and DAQmx raw data with linear and polynomial scaling.
+ */
+import type { ColumnarFile, ColumnKind, ColumnValues, FileColumn } from './columnar-file';
+
+export type TdmsValue = number | string | boolean | bigint;
+
+export interface TdmsChannel {
+  group: string;
+  name: string;
+  dataType: number;
+  properties: Map<string, TdmsValue>;
+  // Number of values across all segments
+  length: number;
+}
+
+// Where consecutive values of a channel sit in one chunk of raw data
+interface RawRun {
+  offset: number;
+  count: number;
+  // Bytes from one value to the next
+  stride: number;
+  type: number;
+  littleEndian: boolean;
+  // Bit of the byte at `offset` for DAQmx digital lines
+  bit: number | null;
+}
+
+interface ChannelState extends TdmsChannel {
+  path: string;
+  runs: RawRun[];
+}
+
+// Raw data index of one object in one segment
+interface RawIndex {
+  type: number;
+  count: number;
+  // Bytes per chunk for strings
+  totalSize: number;
+  daqmx: DaqmxLayout | null;
+}
+
+interface DaqmxLayout {
+  scaler: { type: number, buffer: number, byteOffset: number, bit: number | null };
+  widths: number[];
+}
+
+const LEAD_IN_SIZE = 28;
+const READ_WINDOW = 1 << 20;
+
+const TOC_META_DATA = 1 << 1;
+const TOC_NEW_OBJ_LIST = 1 << 2;
+const TOC_RAW_DATA = 1 << 3;
+const TOC_INTERLEAVED = 1 << 5;
+const TOC_BIG_ENDIAN = 1 << 6;
+
+const NO_RAW_DATA = 0xFFFFFFFF;
+const SAME_RAW_INDEX = 0;
+const DAQMX_FORMAT_SCALER = 0x69120000;
+const DAQMX_DIGITAL_SCALER = 0x69130000;
+
+const TYPE_STRING = 0x20;
+const TYPE_BOOL = 0x21;
+const TYPE_TIMESTAMP = 0x44;
+const TYPE_COMPLEX_SINGLE = 0x08000C;
+const TYPE_COMPLEX_DOUBLE = 0x10000D;
+const TYPE_DAQMX = 0xFFFFFFFF;
+
+// Seconds from the LabVIEW epoch (1904-01-01 UTC) to the Unix epoch
+const LABVIEW_EPOCH_OFFSET = 2082844800n;
+
+// DAQmx scaler data types mapped to TDMS types
+const DAQMX_TYPES: Record<number, number> = {
+  0: 5, 1: 1, 2: 6, 3: 2, 4: 7, 5: 3, 6: 8, 7: 4, 8: 9, 9: 10, 0xFFFFFFFF: TYPE_TIMESTAMP
+};
+
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 2, 3: 4, 4: 8, 5: 1, 6: 2, 7: 4, 8: 8, 9: 4, 10: 8,
+  0x19: 4, 0x1A: 8, [TYPE_BOOL]: 1, [TYPE_TIMESTAMP]: 16
+};
+
+/**
+ * Whether a file starts with a TDMS segment
+ */
+export function isTdms(head: Uint8Array): boolean {
+  return String.fromCharCode(...head.subarray(0, 4)) === 'TDSm';
+}
+
+export async function openTdms(source: Blob): Promise<ColumnarFile> {
+  const reader = new BlobReader(source);
+  const channels = await readSegments(reader);
+  if (!channels.length) {
+    throw new Error('The TDMS file has no channels with data');
+  }
+
+  const columns: FileColumn[] = channels.map(channel => ({
+    name: `${channel.group}/${channel.name}`,
+    kind: channelKind(channel),
+    type: channel.dataType === TYPE_DAQMX ? 'DAQmx' : `TDMS type ${channel.dataType}`,
+    unit: String(channel.properties.get('unit_string') ?? '')
+  }));
+
+  // The first waveform channel sets the time axis; without one, rows are
+  // aligned by index and a timestamp channel can serve as the time column
+  const base = channels.find(channel => waveform(channel));
+  const rowCount = base ? base.length : Math.max(...channels.map(channel => channel.length));
+  if (base) {
+    columns.unshift({ name: uniqueName('Time', columns), kind: 'timestamp', type: 'waveform' });
+  }
+
+  return {
+    format: 'tdms',
+    rowCount,
+    columns,
+    readColumn: async name => {
+      const index = columns.findIndex(c => c.name === name);
+      const column = columns[index];
+      if (!column || column.kind === 'other') {
+        throw new Error(`Column ${name} can't be read as numbers or times`);
+      }
+      if (base && index === 0) {
+        return waveformTimes(waveform(base)!, rowCount);
+      }
+
+      const channel = channels[base ? index - 1 : index];
+      if (column.kind === 'timestamp') {
+        return { kind: 'timestamp', ...await readTimestamps(reader, channel, rowCount) };
+      }
+      const values = await readNumbers(reader, channel);
+      return { kind: 'number', values: align(values, channel, base, rowCount) };
+    }
+  };
+}
+
+async function readSegments(reader: BlobReader): Promise<ChannelState[]> {
+  const channels = new Map<string, ChannelState>();
+  const lastIndex = new Map<string, RawIndex>();
+  let objects: Array<{ path: string, index: RawIndex | null }> = [];
+  let position = 0;
+
+  while (position + LEAD_IN_SIZE <= reader.size) {
+    const leadIn = await reader.read(position, LEAD_IN_SIZE);
+    if (leadIn.getUint32(0, true) !== 0x6D534454) { // 'TDSm'
+      throw new Error(`No TDMS segment at byte ${position}`);
+    }
+    const toc = leadIn.getUint32(4, true);
+    // The tag and table of contents are always little-endian, the rest of
+    // the lead-in as the segment says
+    const littleEndian = !(toc & TOC_BIG_ENDIAN);
+    const nextOffset = leadIn.getBigUint64(12, littleEndian);
+    const rawOffset = Number(leadIn.getBigUint64(20, littleEndian));
+
+    // An unfinished last segment runs to the end of the file
+    const segmentEnd = nextOffset === 0xFFFFFFFFFFFFFFFFn
+      ? reader.size
+      : Math.min(reader.size, position + LEAD_IN_SIZE + Number(nextOffset));
+
+    if (toc & TOC_META_DATA) {
+      const meta = new Cursor(await reader.read(position + LEAD_IN_SIZE, rawOffset), littleEndian);
+      if (toc & TOC_NEW_OBJ_LIST) objects = [];
+
+      const objectCount = meta.u32();
+      for (let i = 0; i < objectCount; i++) {
+        const path = meta.string();
+        const index = readRawIndex(meta, path, lastIndex);
+        if (index) lastIndex.set(path, index);
+
+        const listed = objects.find(o => o.path === path);
+        if (listed) {
+          listed.index = index;
+        } else {
+          objects.push({ path, index });
+        }
+
+        const properties = readProperties(meta);
+        const channel = channelFor(channels, path);
+        if (channel) {
+          properties.forEach((value, key) => channel.properties.set(key, value));
+          if (index && channel.dataType === 0) channel.dataType = index.type;
+        }
+      }
+    }
+
+    if (toc & TOC_RAW_DATA) {
+      const withData = objects.filter(o => o.index && channelFor(channels, o.path));
+      const rawStart = position + LEAD_IN_SIZE + rawOffset;
+      addRuns(channels, withData as Array<{ path: string, index: RawIndex }>, rawStart, segmentEnd - rawStart, toc, littleEndian);
+    }
+
+    if (nextOffset === 0xFFFFFFFFFFFFFFFFn) break;
+    position = segmentEnd;
+  }
+
+  return Array.from(channels.values()).filter(channel => channel.length > 0);
+}
+
+function readRawIndex(meta: Cursor, path: string, lastIndex: Map<string, RawIndex>): RawIndex | null {
+  const header = meta.u32();
+  if (header === NO_RAW_DATA) return null;
+  if (header === SAME_RAW_INDEX) {
+    const previous = lastIndex.get(path);
+    if (!previous) throw new Error(`TDMS object ${path} reuses a raw data index it never had`);
+    return previous;
+  }
+
+  const type = meta.u32();
+  meta.u32(); // array dimension, always 1
+  const count = meta.u64();
+
+  if (header === DAQMX_FORMAT_SCALER || header === DAQMX_DIGITAL_SCALER) {
+    const scalers = [];
+    const scalerCount = meta.u32();
+    for (let i = 0; i < scalerCount; i++) {
+      const scalerType = meta.u32();
+      const buffer = meta.u32();
+      if (header === DAQMX_DIGITAL_SCALER) {
+        const bitOffset = meta.u32();
+        meta.u8(); // sample format bitmap
+        meta.u32(); // scale id
+        scalers.push({ type: 5, buffer, byteOffset: bitOffset >> 3, bit: bitOffset & 7 });
+      } else {
+        const byteOffset = meta.u32();
+        meta.u32(); // sample format bitmap
+        meta.u32(); // scale id
+        scalers.push({ type: DAQMX_TYPES[scalerType] ?? -1, buffer, byteOffset, bit: null });
+      }
+    }
+    const widths = [];
+    const widthCount = meta.u32();
+    for (let i = 0; i < widthCount; i++) widths.push(meta.u32());
+
+    // Channels with several scalers (mixed analog and digital) read the first
+    if (!scalers.length || scalers[0].type === -1) {
+      throw new Error(`Unsupported DAQmx data in ${path}`);
+    }
+    return { type, count, totalSize: 0, daqmx: { scaler: scalers[0], widths } };
+  }
+
+  const totalSize = type === TYPE_STRING ? meta.u64() : 0;
+  return { type, count, totalSize, daqmx: null };
+}
+
+function readProperties(meta: Cursor): Map<string, TdmsValue> {
+  const properties = new Map<string, TdmsValue>();
+  const count = meta.u32();
+  for (let i = 0; i < count; i++) {
+    const name = meta.string();
+    const type = meta.u32();
+    properties.set(name, meta.value(type));
+  }
+  return properties;
+}
+
+/**
+ * Records where each channel's values are in one segment's raw data
+ */
+function addRuns(
+  channels: Map<string, ChannelState>,
+  objects: Array<{ path: string, index: RawIndex }>,
+  rawStart: number,
+  rawSize: number,
+  toc: number,
+  littleEndian: boolean
+): void {
+  if (!objects.length) return;
+
+  const daqmx = objects.filter(o => o.index.daqmx);
+  if (daqmx.length && daqmx.length !== objects.length) {
+    throw new Error('TDMS segments mixing DAQmx and other raw data are not supported');
+  }
+
+  if (daqmx.length) {
+    // DAQmx channels share interleaved buffers; each scaler picks its bytes
+    const { count, daqmx: first } = objects[0].index;
+    const chunkSize = count * first!.widths.reduce((sum, width) => sum + width, 0);
+    const chunks = chunkSize ? Math.floor(rawSize / chunkSize) : 0;
+    for (const { path, index } of objects) {
+      const { scaler, widths } = index.daqmx!;
+      const bufferStart = widths.slice(0, scaler.buffer).reduce((sum, width) => sum + width * count, 0);
+      addChunkRuns(channels.get(path)!, chunks, chunkSize, {
+        offset: rawStart + bufferStart + scaler.byteOffset,
+        count,
+        stride: widths[scaler.buffer],
+        type: scaler.type,
+        littleEndian,
+        bit: scaler.bit
+      });
+    }
+    return;
+  }
+
+  const sizes = objects.map(({ path, index }) => {
+    if (index.type === TYPE_STRING) {
+      if (toc & TOC_INTERLEAVED) throw new Error(`Interleaved string channel ${path} is not supported`);
+      return index.totalSize;
+    }
+    const size = TYPE_SIZES[index.type];
+    if (!size) throw new Error(`TDMS data type ${index.type} of ${path} is not supported`);
+    return size;
+  });
+
+  if (toc & TOC_INTERLEAVED) {
+    // One value of every channel per row, in chunks of `count` rows that
+    // the raw data may repeat
+    const rowSize = sizes.reduce((sum, size) => sum + size, 0);
+    const { count } = objects[0].index;
+    const chunks = rowSize && count ? Math.floor(rawSize / (rowSize * count)) : 0;
+    let column = 0;
+    objects.forEach(({ path, index }, i) => {
+      addChunkRuns(channels.get(path)!, chunks, rowSize * count, {
+        offset: rawStart + column, count, stride: rowSize, type: index.type, littleEndian, bit: null
+      });
+      column += sizes[i];
+    });
+    return;
+  }
+
+  // Each chunk holds every channel's values one after another; the raw data
+  // may repeat the chunk several times
+  const chunkSize = objects.reduce((sum, { index }, i) => sum + (index.type === TYPE_STRING ? sizes[i] : index.count * sizes[i]), 0);
+  const chunks = chunkSize ? Math.floor(rawSize / chunkSize) : 0;
+  let offset = rawStart;
+  objects.forEach(({ path, index }, i) => {
+    const size = index.type === TYPE_STRING ? sizes[i] : index.count * sizes[i];
+    if (index.type !== TYPE_STRING) {
+      addChunkRuns(channels.get(path)!, chunks, chunkSize, {
+        offset, count: index.count, stride: sizes[i], type: index.type, littleEndian, bit: null
+      });
+    }
+    offset += size;
+  });
+}
+
+function addChunkRuns(channel: ChannelState, chunks: number, chunkSize: number, run: RawRun): void {
+  for (let k = 0; k < chunks; k++) {
+    channel.runs.push({ ...run, offset: run.offset + k * chunkSize });
+    channel.length += run.count;
+  }
+}
+
+/**
+ * Channel object for a path of the form /'group'/'channel', or null for the
+ * root and group objects
+ */
+function channelFor(channels: Map<string, ChannelState>, path: string): ChannelState | null {
+  const existing = channels.get(path);
+  if (existing) return existing;
+
+  const match = /^\/'((?:[^']|'')*)'\/'((?:[^']|'')*)'$/.exec(path);
+  if (!match) return null;
+
+  const channel: ChannelState = {
+    path,
+    group: match[1].replace(/''/g, "'"),
+    name: match[2].replace(/''/g, "'"),
+    dataType: 0,
+    properties: new Map(),
+    length: 0,
+    runs: []
+  };
+  channels.set(path, channel);
+  return channel;
+}
+
+function channelKind(channel: TdmsChannel): ColumnKind {
+  if (channel.dataType === TYPE_TIMESTAMP) return 'timestamp';
+  if (channel.dataType === TYPE_DAQMX || channel.dataType === TYPE_BOOL || TYPE_SIZES[channel.dataType]) return 'number';
+  return 'other';
+}
+
+interface Waveform {
+  // Epoch nanoseconds of the first sample
+  startNs: bigint;
+  // Seconds between samples
+  increment: number;
+}
+
+function waveform(channel: TdmsChannel): Waveform | null {
+  const increment = Number(channel.properties.get('wf_increment'));
+  if (!(increment > 0)) return null;
+
+  // Waveforms without a start time begin at time zero
+  const start = channel.properties.get('wf_start_time');
+  const startNs = typeof start === 'bigint' ? start : 0n;
+  const offset = Number(channel.properties.get('wf_start_offset')) || 0;
+  return { startNs: startNs + BigInt(Math.round(offset * 1e9)), increment };
+}
+
+function waveformTimes({ startNs, increment }: Waveform, rowCount: number): ColumnValues {
+  const values = new BigInt64Array(rowCount);
+  for (let i = 0; i < rowCount; i++) {
+    values[i] = startNs + BigInt(Math.round(i * increment * 1e9));
+  }
+  return { kind: 'timestamp', values, valid: null };
+}
+
+/**
+ * Puts a channel's values on the rows of the time axis: waveforms with
+ * another start or rate by nearest sample, anything else by index
+ */
+function align(values: Float64Array, channel: TdmsChannel, base: TdmsChannel | undefined, rowCount: number): Float64Array {
+  const axis = base && waveform(base);
+  const own = waveform(channel);
+  const out = new Float64Array(rowCount).fill(NaN);
+
+  if (!axis || !own || (own.startNs === axis.startNs && own.increment === axis.increment)) {
+    out.set(values.subarray(0, rowCount));
+    return out;
+  }
+
+  const shift = Number(axis.startNs - own.startNs) / 1e9;
+  for (let i = 0; i < rowCount; i++) {
+    const k = Math.round((shift + i * axis.increment) / own.increment);
+    if (k >= 0 && k < values.length) out[i] = values[k];
+  }
+  return out;
+}
+
+async function readNumbers(reader: BlobReader, channel: ChannelState): Promise<Float64Array> {
+  const values = new Float64Array(channel.length);
+  let row = 0;
+
+  for (const run of channel.runs) {
+    const size = run.bit !== null ? 1 : TYPE_SIZES[run.type];
+    const view = await reader.read(run.offset, (run.count - 1) * run.stride + size);
+    const get = numberGetter(run.type);
+    for (let i = 0; i < run.count; i++, row++) {
+      const value = get(view, i * run.stride, run.littleEndian);
+      values[row] = run.bit !== null ? (value >> run.bit) & 1 : value;
+    }
+  }
+
+  const scale = channelScaling(channel);
+  if (scale) {
+    for (let i = 0; i < values.length; i++) values[i] = scale(values[i]);
+  }
+  return values;
+}
+
+async function readTimestamps(
+  reader: BlobReader,
+  channel: ChannelState,
+  rowCount: number
+): Promise<{ values: BigInt64Array, valid: Uint8Array | null }> {
+  const values = new BigInt64Array(rowCount);
+  let valid: Uint8Array | null = null;
+  let row = 0;
+
+  for (const run of channel.runs) {
+    const view = await reader.read(run.offset, (run.count - 1) * run.stride + 16);
+    for (let i = 0; i < run.count && row < rowCount; i++, row++) {
+      values[row] = readTimestamp(view, i * run.stride, run.littleEndian);
+    }
+  }
+  if (row < rowCount) {
+    valid = new Uint8Array(rowCount).fill(1).fill(0, row);
+  }
+  return { values, valid };
+}
+
+/**
+ * The DAQmx or LabVIEW scaling chain of an unscaled channel, ending at the
+ * last scale. Linear and polynomial scales are supported.
+ */
+function channelScaling(channel: TdmsChannel): ((raw: number) => number) | null {
+  const properties = channel.properties;
+  if (properties.get('NI_Scaling_Status') !== 'unscaled') return null;
+  const count = Number(properties.get('NI_Number_Of_Scales')) || 0;
+  if (!count) return null;
+
+  const scale = (index: number, depth: number): ((raw: number) => number) => {
+    const prop = (name: string) => properties.get(`NI_Scale[${index}]_${name}`);
+    const type = String(prop('Scale_Type'));
+    let input = (raw: number) => raw;
+    const source = Number(prop(`${type}_Input_Source`));
+    // Other scales feed this one; anything else is the raw data
+    if (source >= 0 && source < count && source !== index && depth < count) {
+      input = scale(source, depth + 1);
+    }
+
+    switch (type) {
+      case 'Linear': {
+        const slope = Number(prop('Linear_Slope'));
+        const intercept = Number(prop('Linear_Y_Intercept')) || 0;
+        return raw => input(raw) * slope + intercept;
+      }
+      case 'Polynomial': {
+        const size = Number(prop('Polynomial_Coefficients_Size')) || 0;
+        const coefficients = Array.from({ length: size }, (_, i) => Number(prop(`Polynomial_Coefficients[${i}]`)) || 0);
+        return raw => {
+          const x = input(raw);
+          let y = 0;
+          for (let i = coefficients.length - 1; i >= 0; i--) y = y * x + coefficients[i];
+          return y;
+        };
+      }
+      default:
+        throw new Error(`${type} scaling of ${channel.group}/${channel.name} is not supported`);
+    }
+  };
+  return scale(count - 1, 0);
+}
+
+function numberGetter(type: number): (view: DataView, at: number, littleEndian: boolean) => number {
+  switch (type) {
+    case 1: return (view, at) => view.getInt8(at);
+    case 2: return (view, at, le) => view.getInt16(at, le);
+    case 3: return (view, at, le) => view.getInt32(at, le);
+    case 4: return (view, at, le) => Number(view.getBigInt64(at, le));
+    case 5: return (view, at) => view.getUint8(at);
+    case 6: return (view, at, le) => view.getUint16(at, le);
+    case 7: return (view, at, le) => view.getUint32(at, le);
+    case 8: return (view, at, le) => Number(view.getBigUint64(at, le));
+    case 9: case 0x19: return (view, at, le) => view.getFloat32(at, le);
+    case 10: case 0x1A: return (view, at, le) => view.getFloat64(at, le);
+    case TYPE_BOOL: return (view, at) => view.getUint8(at) ? 1 : 0;
+    default: throw new Error(`TDMS data type ${type} is not numeric`);
+  }
+}
+
+/**
+ * LabVIEW timestamp (seconds since 1904 and a 2^-64 fraction) as epoch nanoseconds
+ */
+function readTimestamp(view: DataView, at: number, littleEndian: boolean): bigint {
+  const fraction = view.getBigUint64(littleEndian ? at : at + 8, littleEndian);
+  const seconds = view.getBigInt64(littleEndian ? at + 8 : at, littleEndian);
+  return (seconds - LABVIEW_EPOCH_OFFSET) * 1000000000n + ((fraction * 1000000000n) >> 64n);
+}
+
+function uniqueName(name: string, columns: FileColumn[]): string {
+  let unique = name;
+  for (let i = 2; columns.some(c => c.name === unique); i++) unique = `${name} (${i})`;
+  return unique;
+}
+
+/**
+ * Reads a Blob through a window so the many small metadata reads of a
+ * segmented file don't each go to the file
+ */
+class BlobReader {
+  private window = new Uint8Array(0);
+  private windowStart = 0;
+
+  constructor(private blob: Blob) {}
+
+  get size(): number {
+    return this.blob.size;
+  }
+
+  async read(offset: number, length: number): Promise<DataView> {
+    if (offset < this.windowStart || offset + length > this.windowStart + this.window.length) {
+      const end = Math.min(this.blob.size, offset + Math.max(length, READ_WINDOW));
+      this.window = new Uint8Array(await this.blob.slice(offset, end).arrayBuffer());
+      this.windowStart = offset;
+    }
+    if (offset + length > this.windowStart + this.window.length) {
+      throw new Error('The TDMS file is truncated');
+    }
+    return new DataView(this.window.buffer, offset - this.windowStart, length);
+  }
+}
+
+/**
+ * Sequential reader for segment metadata
+ */
+class Cursor {
+  private pos = 0;
+
+  constructor(private view: DataView, private littleEndian: boolean) {}
+
+  u8(): number {
+    return this.view.getUint8(this.pos++);
+  }
+
+  u32(): number {
+    const value = this.view.getUint32(this.pos, this.littleEndian);
+    this.pos += 4;
+    return value;
+  }
+
+  u64(): number {
+    const value = Number(this.view.getBigUint64(this.pos, this.littleEndian));
+    this.pos += 8;
+    return value;
+  }
+
+  string(): string {
+    const length = this.u32();
+    const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.pos, length);
+    this.pos += length;
+    return new TextDecoder().decode(bytes);
+  }
+
+  value(type: number): TdmsValue {
+    if (type === TYPE_STRING) return this.string();
+    if (type === TYPE_TIMESTAMP) {
+      const value = readTimestamp(this.view, this.pos, this.littleEndian);
+      this.pos += 16;
+      return value;
+    }
+    if (type === TYPE_COMPLEX_SINGLE || type === TYPE_COMPLEX_DOUBLE) {
+      // Not needed for plotting; skip over them
+      this.pos += type === TYPE_COMPLEX_SINGLE ? 8 : 16;
+      return NaN;
+    }
+    const size = TYPE_SIZES[type];
+    if (!size) throw new Error(`TDMS property type ${type} is not supported`);
+    const value = numberGetter(type)(this.view, this.pos, this.littleEndian);
+    this.pos += size;
+    return type === TYPE_BOOL ? value !== 0 : value;
+  }
+}
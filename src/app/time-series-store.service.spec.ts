@@ -0,0 +1,150 @@
+import { TestBed } from '@angular/core/testing';
+import { TimeSeriesStore } from './time-series-store.service';
+import { buildNullMask, compactValues } from './columnar';
+
+describe('TimeSeriesStore', () => {
+  let store: TimeSeriesStore;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    store = TestBed.inject(TimeSeriesStore);
+
+    const time = new Float64Array([0, 10, 20, 30, 40]);
+    const voltage = compactValues(new Float64Array([1, 2, NaN, 4, 5]));
+    const current = compactValues(new Float64Array([0.1, 0.2, 0.3, 0.4, 0.5]));
+    const voltageNulls = buildNullMask(voltage);
+    const currentNulls = buildNullMask(current);
+
+    store.load(time, [
+      { name: 'Voltage', values: voltage, nullMask: voltageNulls.mask, nullCount: voltageNulls.count },
+      { name: 'Current', values: current, nullMask: currentNulls.mask, nullCount: currentNulls.count }
+    ]);
+  });
+
+  it('should store exactly representable channels as Float32', () => {
+    expect(store.getChannel('Voltage')!.values instanceof Float32Array).toBeTrue();
+    expect(store.getChannel('Current')!.values instanceof Float64Array).toBeTrue();
+  });
+
+  it('should report missing values as null', () => {
+    expect(store.getChannel('Voltage')!.nullCount).toBe(1);
+    expect(store.getChannel('Current')!.nullMask).toBeNull();
+    expect(store.getValue('Voltage', 2)).toBeNull();
+    expect(store.getValue('Voltage', 3)).toBe(4);
+  });
+
+  it('should find the nearest sample by time', () => {
+    expect(store.nearestIndex(-5)).toBe(0);
+    expect(store.nearestIndex(14)).toBe(1);
+    expect(store.nearestIndex(16)).toBe(2);
+    expect(store.nearestIndex(15)).toBe(1);
+    expect(store.nearestIndex(100)).toBe(4);
+  });
+
+  it('should return inclusive range views', () => {
+    const range = store.queryRange('Current', 10, 30)!;
+    expect(range.start).toBe(1);
+    expect(Array.from(range.time)).toEqual([10, 20, 30]);
+    expect(Array.from(range.values)).toEqual([0.2, 0.3, 0.4]);
+    expect(store.indexRange(11, 19)).toEqual([2, 2]);
+  });
+
+  it('should interleave time and values for ECharts', () => {
+    expect(Array.from(store.interleave('Voltage', 0, 2))).toEqual([0, 1, 10, 2]);
+  });
+
+  it('should keep sub-millisecond offsets exact relative to the time origin', () => {
+    const origin = Date.UTC(2024, 0, 1);
+    store.load(new Float64Array([0, 0.001, 0.002]), [
+      { name: 'Fast', values: new Float64Array([1, 2, 3]), nullMask: null, nullCount: 0 }
+    ], origin);
+
+    expect(store.getOffset(2) - store.getOffset(1)).toBe(0.001);
+    expect(store.getTime(0)).toBe(origin);
+    expect(store.timeRange).toEqual([origin, origin + 0.002]);
+    expect(store.nearestIndex(origin + 0.0011)).toBe(1);
+  });
+
+  it('should append rows without moving existing ones', () => {
+    store.append(new Float64Array([50, 60]), new Map([['Voltage', new Float64Array([6, NaN])]]));
+
+    expect(store.length).toBe(7);
+    expect(store.timeRange).toEqual([0, 60]);
+    expect(store.getValue('Voltage', 2)).toBeNull();
+    expect(store.getValue('Voltage', 5)).toBe(6);
+    expect(store.getValue('Voltage', 6)).toBeNull();
+    expect(store.getChannel('Voltage')!.nullCount).toBe(2);
+    // Channels without new values get missing values
+    expect(store.getValue('Current', 5)).toBeNull();
+    expect(() => store.append(new Float64Array([55]), new Map())).toThrowError();
+  });
+
+  it('should widen Float32 channels when appended values need it', () => {
+    store.append(new Float64Array([50]), new Map([['Voltage', new Float64Array([0.1])]]));
+
+    expect(store.getChannel('Voltage')!.values instanceof Float64Array).toBeTrue();
+    expect(store.getValue('Voltage', 5)).toBe(0.1);
+    expect(store.getValue('Voltage', 4)).toBe(5);
+  });
+
+  it('should trim the oldest rows and say which rows changed since a version', () => {
+    const version = store.version;
+    store.append(new Float64Array([50, 60]), new Map([['Voltage', new Float64Array([6, 7])]]));
+    const times = store.getTimes();
+    store.append(new Float64Array([70]), new Map([['Voltage', new Float64Array([8])]]));
+
+    // Earlier views keep what they held
+    expect(Array.from(times)).toEqual([0, 10, 20, 30, 40, 50, 60]);
+    expect(store.changedSince('Voltage', version)).toBe(5);
+    expect(store.changedSince('Voltage', store.version)).toBe(8);
+
+    store.fillRows('Current', 6, [0.6, 0.7]);
+    expect(store.getValue('Current', 7)).toBe(0.7);
+    expect(store.getChannel('Current')!.nullCount).toBe(1);
+    expect(store.getValue('Current', 5)).toBeNull();
+
+    const trimmed = store.version;
+    store.trimStart(3);
+    expect(store.trimmedRows).toBe(3);
+    expect(Array.from(store.getTimes())).toEqual([30, 40, 50, 60, 70]);
+    expect(store.getValue('Voltage', 4)).toBe(8);
+    expect(store.getChannel('Voltage')!.nullCount).toBe(0);
+    expect(store.changedSince('Voltage', trimmed)).toBeNull();
+    expect(store.replacedSince('Voltage', trimmed)).toBeFalse();
+    expect(store.firstChangedRow('Voltage', version)).toBe(5);
+    expect(store.firstChangedRow('Voltage', trimmed)).toBe(8);
+
+    store.trimEnd(1);
+    expect(store.timeRange).toEqual([30, 60]);
+    expect(store.getChannel('Voltage')!.values.length).toBe(4);
+  });
+
+  it('should add channels decoded after the load', () => {
+    const version = store.version;
+    store.addChannel({ name: 'Power', values: new Float64Array([0, 1, 2, 3, 4]), nullMask: null, nullCount: 0 });
+
+    expect(store.channelNames).toContain('Power');
+    expect(store.getValue('Power', 3)).toBe(3);
+    expect(store.version).toBeGreaterThan(version);
+    expect(() => store.addChannel({ name: 'Short', values: new Float64Array(2), nullMask: null, nullCount: 0 })).toThrowError(/Short/);
+
+    store.removeChannel('Power');
+    expect(store.hasChannel('Power')).toBeFalse();
+  });
+
+  it('should move the time column with its origin', () => {
+    const version = store.version;
+    store.setTimeOrigin(1000);
+
+    expect(store.timeRange).toEqual([1000, 1040]);
+    expect(store.nearestIndex(1021)).toBe(2);
+    expect(store.getOffset(2)).toBe(20);
+    expect(store.version).toBe(version);
+  });
+
+  it('should reject channels with the wrong length', () => {
+    expect(() => store.load(new Float64Array([0, 1]), [
+      { name: 'Bad', values: new Float64Array(3), nullMask: null, nullCount: 0 }
+    ])).toThrowError(/Bad/);
+  });
+});
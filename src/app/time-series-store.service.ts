@@ -0,0 +1,447 @@
+import { Injectable } from '@angular/core';
+import { ChannelValues, buildNullMask, fitsFloat32, lowerBound, nearestIndex, upperBound } from './columnar';
+
+export interface ChannelColumn {
+  name: string;
+  // NaN where the value is missing
+  values: ChannelValues;
+  // Bit i set when sample i is missing; null when the channel has no gaps
+  nullMask: Uint8Array | null;
+  nullCount: number;
+  unit?: string;
+}
+
+// Rows of a channel changed by appending or filling since some version
+interface ChannelHistory {
+  // Version the channel was last added or replaced at
+  replaced: number;
+  // First row changed at each version (index + trimmedRows), oldest first,
+  // and the newest version whose entry was dropped to keep the list short
+  changes: { version: number, row: number }[];
+  forgotten: number;
+}
+
+// Change entries kept per channel; a cache older than these is rebuilt
+const MAX_CHANGES = 32;
+
+export interface RangeQuery {
+  // Index of the first sample in the range
+  start: number;
+  // Views into the store, not copies
+  time: Float64Array;
+  values: ChannelValues;
+}
+
+/**
+ * Columnar store for the loaded time series: one shared, sorted time column
+ * and one typed array per channel.
+ *
+ * The time column holds milliseconds relative to `timeOrigin` (the first
+ * sample) so microsecond and nanosecond steps stay exact. Lookups take and
+ * return absolute epoch milliseconds; getOffset() gives the exact offset.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TimeSeriesStore {
+  private time = new Float64Array(0);
+  private origin = 0;
+  private channels = new Map<string, ChannelColumn>();
+  private history = new Map<string, ChannelHistory>();
+  // Versions the time column was last replaced and last trimmed at
+  private timeReplaced = 0;
+  private trimmed = 0;
+  // Arrays the store allocated with room to spare; views of them grow in
+  // place as rows are appended
+  private growable = new WeakSet<ArrayBufferLike>();
+
+  // Bumped whenever the contents change so derived caches know to rebuild
+  version = 0;
+  // Rows removed from the start by trimStart since the last load, so
+  // `index + trimmedRows` numbers a row for good
+  trimmedRows = 0;
+
+  get length(): number {
+    return this.time.length;
+  }
+
+  get timeRange(): [number, number] {
+    return this.time.length
+      ? [this.origin + this.time[0], this.origin + this.time[this.time.length - 1]]
+      : [0, 0];
+  }
+
+  // Epoch milliseconds the time column is relative to
+  get timeOrigin(): number {
+    return this.origin;
+  }
+
+  get channelNames(): string[] {
+    return Array.from(this.channels.keys());
+  }
+
+  /**
+   * Replaces the store contents. `time` holds milliseconds after `timeOrigin`,
+   * sorted ascending, and every channel array must have the same length.
+   */
+  load(time: Float64Array, channels: ChannelColumn[], timeOrigin = 0): void {
+    for (const channel of channels) {
+      if (channel.values.length !== time.length) {
+        throw new Error(`Channel ${channel.name} has ${channel.values.length} samples, expected ${time.length}`);
+      }
+    }
+
+    this.time = time;
+    this.origin = timeOrigin;
+    this.channels = new Map(channels.map(c => [c.name, c]));
+    this.version++;
+    this.timeReplaced = this.version;
+    this.trimmedRows = 0;
+    this.history = new Map(channels.map(c => [c.name, this.newHistory()]));
+  }
+
+  /**
+   * Moves the whole time column, e.g. to line a recording up with another.
+   * Offsets are unchanged, so caches built from them stay valid.
+   */
+  setTimeOrigin(timeOrigin: number): void {
+    this.origin = timeOrigin;
+  }
+
+  /**
+   * Adds or replaces one channel aligned with the current time column
+   */
+  addChannel(channel: ChannelColumn): void {
+    if (channel.values.length !== this.time.length) {
+      throw new Error(`Channel ${channel.name} has ${channel.values.length} samples, expected ${this.time.length}`);
+    }
+
+    this.channels.set(channel.name, channel);
+    this.version++;
+    this.history.set(channel.name, this.newHistory());
+  }
+
+  removeChannel(name: string): void {
+    if (this.channels.delete(name)) {
+      this.version++;
+      this.history.delete(name);
+    }
+  }
+
+  /**
+   * Adds samples after the last one. `time` holds offsets from timeOrigin,
+   * none earlier than the current last sample; channels missing from
+   * `values` get missing values. Existing rows keep their indexes.
+   */
+  append(time: Float64Array, values: Map<string, Float64Array>): void {
+    if (!time.length) return;
+    if (this.time.length && time[0] < this.time[this.time.length - 1]) {
+      throw new Error('Appended samples must not be older than the last sample');
+    }
+
+    // Arrays are allocated with room to spare, so appending a few rows at a
+    // time costs the rows, not the whole column
+    const length = this.time.length;
+    const nextTime = this.grow(this.time, length + time.length) as Float64Array;
+    nextTime.set(time, length);
+
+    this.version++;
+    for (const [name, channel] of this.channels) {
+      const added = values.get(name) || new Float64Array(time.length).fill(NaN);
+      this.channels.set(name, this.appendColumn(channel, added, length));
+      this.logChange(name, length);
+    }
+    this.time = nextTime;
+  }
+
+  /**
+   * Sets the values of rows from `start` on, e.g. of a computed channel
+   * whose rows were appended without values
+   */
+  fillRows(name: string, start: number, values: ArrayLike<number>): void {
+    const channel = this.channels.get(name);
+    if (!channel || !values.length) return;
+    if (start < 0 || start + values.length > this.time.length) {
+      throw new Error(`Rows ${start} to ${start + values.length} are outside ${name}`);
+    }
+
+    let column = channel.values;
+    if (column instanceof Float32Array && !fitsFloat32(values)) {
+      column = Float64Array.from(column);
+    } else {
+      // A new view, so caches keyed on the array see the change
+      column = column.subarray(0);
+    }
+    let nullMask = channel.nullMask;
+    let nullCount = channel.nullCount;
+    for (let i = 0; i < values.length; i++) {
+      const index = start + i;
+      const wasMissing = !!nullMask && (nullMask[index >> 3] & (1 << (index & 7))) !== 0;
+      const missing = values[i] !== values[i];
+      if (missing && !wasMissing) {
+        nullMask ??= new Uint8Array((this.time.length + 7) >> 3);
+        nullMask[index >> 3] |= 1 << (index & 7);
+        nullCount++;
+      } else if (!missing && wasMissing) {
+        nullMask![index >> 3] &= ~(1 << (index & 7));
+        nullCount--;
+      }
+      column[index] = values[i];
+    }
+
+    this.version++;
+    this.channels.set(name, { ...channel, values: column, nullMask, nullCount });
+    this.logChange(name, start);
+  }
+
+  /**
+   * Drops the oldest `count` rows. Later rows move down by `count`;
+   * trimmedRows counts the rows dropped.
+   */
+  trimStart(count: number): void {
+    count = Math.min(count, this.time.length);
+    if (count <= 0) return;
+
+    const length = this.time.length - count;
+    this.time = this.grow(this.time.subarray(count), length, true) as Float64Array;
+    for (const [name, channel] of this.channels) {
+      const values = this.grow(channel.values.subarray(count), length, true);
+      const { mask, count: nullCount } = channel.nullCount ? buildNullMask(values) : { mask: null, count: 0 };
+      this.channels.set(name, { ...channel, values, nullMask: mask, nullCount });
+    }
+    this.version++;
+    this.trimmed = this.version;
+    this.trimmedRows += count;
+  }
+
+  /**
+   * Drops the newest `count` rows, e.g. one the file ended part-way through
+   */
+  trimEnd(count: number): void {
+    count = Math.min(count, this.time.length);
+    if (count <= 0) return;
+
+    const length = this.time.length - count;
+    this.time = this.grow(this.time.subarray(0, length), length, true) as Float64Array;
+    for (const [name, channel] of this.channels) {
+      const values = this.grow(channel.values.subarray(0, length), length, true);
+      const { mask, count: nullCount } = channel.nullCount ? buildNullMask(values) : { mask: null, count: 0 };
+      this.channels.set(name, { ...channel, values, nullMask: mask, nullCount });
+    }
+    this.version++;
+    this.trimmed = this.version;
+    for (const name of this.channels.keys()) this.logChange(name, length);
+  }
+
+  clear(): void {
+    this.time = new Float64Array(0);
+    this.origin = 0;
+    this.channels.clear();
+    this.history.clear();
+    this.version++;
+    this.timeReplaced = this.version;
+    this.trimmedRows = 0;
+  }
+
+  /**
+   * Whether a channel, or the time column, was replaced since `version`
+   * rather than appended to, filled or trimmed. Rows of a channel that
+   * wasn't replaced keep their number (index + trimmedRows).
+   */
+  replacedSince(name: string, version: number): boolean {
+    const history = this.history.get(name);
+    return !history || history.replaced > version || this.timeReplaced > version;
+  }
+
+  /**
+   * First row of a channel that may have changed since `version`: the
+   * length when nothing did, or null when it was replaced, rows were
+   * trimmed, or the change is too old to tell
+   */
+  changedSince(name: string, version: number): number | null {
+    const row = this.trimmed > version ? null : this.firstChangedRow(name, version);
+    return row === null ? null : row - this.trimmedRows;
+  }
+
+  /**
+   * Like changedSince, but numbering rows for good (index + trimmedRows), so
+   * rows trimmed from the start don't count as changes
+   */
+  firstChangedRow(name: string, version: number): number | null {
+    const history = this.history.get(name);
+    if (!history || this.replacedSince(name, version) || history.forgotten > version) return null;
+
+    let row = this.time.length + this.trimmedRows;
+    for (const change of history.changes) {
+      if (change.version > version) row = Math.min(row, change.row);
+    }
+    return row;
+  }
+
+  hasChannel(name: string): boolean {
+    return this.channels.has(name);
+  }
+
+  getChannel(name: string): ChannelColumn | undefined {
+    return this.channels.get(name);
+  }
+
+  /**
+   * The time column as offsets from timeOrigin
+   */
+  getTimes(): Float64Array {
+    return this.time;
+  }
+
+  /**
+   * Absolute epoch milliseconds of one sample
+   */
+  getTime(index: number): number {
+    return this.origin + this.time[index];
+  }
+
+  /**
+   * Milliseconds between timeOrigin and one sample, at full resolution
+   */
+  getOffset(index: number): number {
+    return this.time[index];
+  }
+
+  getValue(name: string, index: number): number | null {
+    const channel = this.channels.get(name);
+    if (!channel || index < 0 || index >= this.time.length || this.isMissing(channel, index)) {
+      return null;
+    }
+    return channel.values[index];
+  }
+
+  isMissing(channel: ChannelColumn, index: number): boolean {
+    return !!channel.nullMask && (channel.nullMask[index >> 3] & (1 << (index & 7))) !== 0;
+  }
+
+  /**
+   * Index of the first sample at or after `t`
+   */
+  lowerBound(t: number): number {
+    return lowerBound(this.time, t - this.origin);
+  }
+
+  /**
+   * Index of the sample closest in time to `t`, or -1 when the store is empty
+   */
+  nearestIndex(t: number): number {
+    return nearestIndex(this.time, t - this.origin);
+  }
+
+  /**
+   * Half-open index range [start, end) of the samples with t0 <= t <= t1
+   */
+  indexRange(t0: number, t1: number): [number, number] {
+    const start = lowerBound(this.time, t0 - this.origin);
+    return [start, upperBound(this.time, t1 - this.origin, start)];
+  }
+
+  /**
+   * Time (offset) and value views for one channel between t0 and t1 (inclusive)
+   */
+  queryRange(name: string, t0: number, t1: number): RangeQuery | null {
+    const channel = this.channels.get(name);
+    if (!channel) return null;
+
+    const [start, end] = this.indexRange(t0, t1);
+    return {
+      start,
+      time: this.time.subarray(start, end),
+      values: channel.values.subarray(start, end)
+    };
+  }
+
+  /**
+   * Channel samples as a flat [t0, v0, t1, v1, ...] array, the typed-array
+   * layout ECharts accepts as series data
+   */
+  interleave(name: string, start = 0, end = this.time.length): Float64Array {
+    const channel = this.channels.get(name);
+    if (!channel) return new Float64Array(0);
+
+    const out = new Float64Array((end - start) * 2);
+    for (let i = start, j = 0; i < end; i++, j += 2) {
+      out[j] = this.origin + this.time[i];
+      out[j + 1] = channel.values[i];
+    }
+    return out;
+  }
+
+  private newHistory(): ChannelHistory {
+    return { replaced: this.version, changes: [], forgotten: 0 };
+  }
+
+  private logChange(name: string, row: number): void {
+    const history = this.history.get(name);
+    if (!history) return;
+    history.changes.push({ version: this.version, row: row + this.trimmedRows });
+    if (history.changes.length > MAX_CHANGES) {
+      history.forgotten = history.changes.shift()!.version;
+    }
+  }
+
+  /**
+   * `array` lengthened to `length`, in place when it is a view at the start
+   * of an array this store allocated with room, else copied into a new one
+   * with room to spare. `copy` always copies, so the old views keep their
+   * contents.
+   */
+  private grow<T extends ChannelValues | Uint8Array>(array: T, length: number, copy = false): T {
+    const Type = array.constructor as { new(length: number): T, new(buffer: ArrayBufferLike, offset: number, length: number): T };
+    const { buffer, byteOffset, BYTES_PER_ELEMENT } = array;
+    if (!copy && this.growable.has(buffer) && byteOffset === 0 && buffer.byteLength >= length * BYTES_PER_ELEMENT) {
+      return new Type(buffer, 0, length);
+    }
+
+    const spare = new Type(Math.max(length, Math.ceil(length * 1.5), 1024));
+    spare.set(array.subarray(0, Math.min(array.length, length)) as any);
+    this.growable.add(spare.buffer);
+    return spare.subarray(0, length) as T;
+  }
+
+  /**
+   * `channel` with `added` after its first `length` samples. Float32
+   * channels switch to Float64 when a new value doesn't fit exactly.
+   */
+  private appendColumn(channel: ChannelColumn, added: Float64Array, length: number): ChannelColumn {
+    const total = length + added.length;
+    const values = channel.values instanceof Float32Array && !fitsFloat32(added)
+      ? this.grow(Float64Array.from(channel.values.subarray(0, length)), total)
+      : this.grow(channel.values.subarray(0, length), total);
+    values.set(added, length);
+
+    let nullMask = channel.nullMask;
+    let nullCount = channel.nullCount;
+    for (let i = 0; i < added.length; i++) {
+      if (added[i] !== added[i]) {
+        const index = length + i;
+        if (!nullMask || nullMask.length < (total + 7) >> 3) {
+          nullMask = this.grow(nullMask ?? new Uint8Array(0), (total + 7) >> 3);
+        }
+        nullMask[index >> 3] |= 1 << (index & 7);
+        nullCount++;
+      }
+    }
+    if (nullMask && nullMask.length < (total + 7) >> 3) {
+      nullMask = this.grow(nullMask, (total + 7) >> 3);
+    }
+
+    return { ...channel, values, nullMask, nullCount };
+  }
+
+  /**
+   * Bytes held by the time column, channel arrays and null masks
+   */
+  memoryUsage(): number {
+    let bytes = this.time.byteLength;
+    for (const channel of this.channels.values()) {
+      bytes += channel.values.byteLength + (channel.nullMask ? channel.nullMask.byteLength : 0);
+    }
+    return bytes;
+  }
+}
@@ -0,0 +1,16 @@
+import { TimeSeriesStore } from './time-series-store.service';
+import { buildNullMask } from './columnar';
+
+/**
+ * Store loaded with `channels` sampled at `time` (offsets from `origin`),
+ * for specs. NaN values are missing samples.
+ */
+export function storeWith(time: number[], channels: Record<string, number[]>, origin = 0): TimeSeriesStore {
+  const store = new TimeSeriesStore();
+  store.load(new Float64Array(time), Object.entries(channels).map(([name, column]) => {
+    const values = new Float64Array(column);
+    const { mask, count } = buildNullMask(values);
+    return { name, values, nullMask: mask, nullCount: count };
+  }), origin);
+  return store;
+}
@@ -0,0 +1,64 @@
+import { ParsedTime, createTimestampParser, formatTimestamp } from './timestamp-formats';
+
+describe('timestamp formats', () => {
+  const parse = (text: string, formatId: string, timeZone = 'UTC', pattern?: string): ParsedTime | null => {
+    const out: ParsedTime = { ms: 0, frac: 0 };
+    return createTimestampParser({ formatId, timeZone, pattern })(text, out) ? out : null;
+  };
+
+  it('should keep the microseconds of the logger format', () => {
+    const a = parse('15-03-2024 10:20:30:123.456789', 'logger')!;
+    expect(a.ms).toBe(Date.UTC(2024, 2, 15, 10, 20, 30, 123));
+    expect(a.frac).toBeCloseTo(0.456789, 9);
+  });
+
+  it('should read ISO 8601 with and without a zone designator', () => {
+    expect(parse('2024-03-15T10:20:30.5Z', 'iso8601', 'local')!.ms).toBe(Date.UTC(2024, 2, 15, 10, 20, 30, 500));
+    expect(parse('2024-03-15T10:20:30+02:00', 'iso8601')!.ms).toBe(Date.UTC(2024, 2, 15, 8, 20, 30));
+    expect(parse('2024-03-15 10:20:30', 'iso8601', '-05:00')!.ms).toBe(Date.UTC(2024, 2, 15, 15, 20, 30));
+  });
+
+  it('should apply an IANA source time zone', () => {
+    // Summer time in Berlin is UTC+2
+    expect(parse('2024-07-01 12:00:00', 'iso8601', 'Europe/Berlin')!.ms).toBe(Date.UTC(2024, 6, 1, 10));
+  });
+
+  it('should split Unix nanoseconds without losing digits', () => {
+    const t = parse('1700000000123456789', 'unix-ns')!;
+    expect(t.ms).toBe(1700000000123);
+    expect(t.frac).toBeCloseTo(0.456789, 9);
+
+    expect(parse('1700000000.25', 'unix-s')!.ms).toBe(1700000000250);
+    expect(parse('1700000000123456', 'unix-us')!.frac).toBeCloseTo(0.456, 9);
+  });
+
+  it('should read Excel serial dates and relative seconds', () => {
+    expect(parse('45366.5', 'excel')!.ms).toBe(Date.UTC(2024, 2, 15, 12));
+
+    const t = parse('0.0000015', 'relative-s')!;
+    expect(t.ms).toBe(0);
+    expect(t.frac).toBeCloseTo(0.0015, 12);
+  });
+
+  it('should parse custom patterns', () => {
+    const t = parse('03/15/24 02:05:09 PM', 'custom', 'UTC', '%m/%d/%y %I:%M:%S %p')!;
+    expect(t.ms).toBe(Date.UTC(2024, 2, 15, 14, 5, 9));
+    expect(parse('15 Mar 2024 10:00', 'custom', 'UTC', '%d %b %Y %H:%M')!.ms).toBe(Date.UTC(2024, 2, 15, 10));
+    expect(parse('not a time', 'custom', 'UTC', '%Y-%m-%d')).toBeNull();
+  });
+
+  it('should detect numeric epochs by magnitude in auto mode', () => {
+    expect(parse('1700000000', 'auto')!.ms).toBe(1700000000000);
+    expect(parse('1700000000123', 'auto')!.ms).toBe(1700000000123);
+    expect(parse('1700000000123456', 'auto')!.ms).toBe(1700000000123);
+  });
+
+  it('should format back into the logger format', () => {
+    const text = formatTimestamp(Date.UTC(2024, 2, 15, 10, 20, 30, 123), 0.456789, 'UTC');
+    expect(text).toBe('15-03-2024 10:20:30:123.456789');
+
+    const again = parse(text, 'auto')!;
+    expect(again.ms).toBe(Date.UTC(2024, 2, 15, 10, 20, 30, 123));
+    expect(again.frac).toBeCloseTo(0.456789, 9);
+  });
+});
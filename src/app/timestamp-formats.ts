@@ -0,0 +1,459 @@
+/**
+ * Timestamp format registry and parsers.
+ *
+ * Parsers split every timestamp into whole epoch milliseconds plus a
+ * sub-millisecond fraction, so microsecond and nanosecond digits survive
+ * until the worker turns them into offsets from the first sample.
+ */
+
+export type TimestampFormatKind =
+  | 'auto'
+  | 'pattern'
+  | 'iso8601'
+  | 'unix-s'
+  | 'unix-ms'
+  | 'unix-us'
+  | 'unix-ns'
+  | 'excel'
+  | 'relative-s';
+
+export interface TimestampFormat {
+  id: string;
+  label: string;
+  kind: TimestampFormatKind;
+  // strftime-like pattern for kind 'pattern'
+  pattern?: string;
+}
+
+export interface TimestampOptions {
+  formatId: string;
+  // Used when formatId is 'custom'
+  pattern?: string;
+  // 'local', 'UTC', an IANA zone name or a fixed offset such as '+05:30'.
+  // Ignored for Unix times and for ISO 8601 values that carry their own offset.
+  timeZone: string;
+}
+
+export interface ParsedTime {
+  // Whole epoch milliseconds
+  ms: number;
+  // Sub-millisecond part in milliseconds, 0 <= frac < 1
+  frac: number;
+}
+
+export const DEFAULT_TIMESTAMP_OPTIONS: TimestampOptions = {
+  formatId: 'auto',
+  timeZone: 'local'
+};
+
+/**
+ * Pattern tokens:
+ *   %Y year  %y 2-digit year  %m month  %b month name  %d day
+ *   %H hour (24h)  %I hour (12h)  %p AM/PM  %M minute  %S second
+ *   %L milliseconds  %f fraction of a second (any digits)
+ *   %N fraction of a millisecond (any digits)  %z offset (Z, +hh:mm, +hhmm)  %% literal %
+ * A separator directly before %f or %N may be left out together with the digits.
+ */
+export const TIMESTAMP_FORMATS: TimestampFormat[] = [
+  { id: 'auto', label: 'Auto-detect', kind: 'auto' },
+  { id: 'logger', label: 'DD-MM-YYYY HH:MM:SS:MMM.SSSSSS', kind: 'pattern', pattern: '%d-%m-%Y %H:%M:%S:%L.%N' },
+  { id: 'iso8601', label: 'ISO 8601', kind: 'iso8601' },
+  { id: 'ymd', label: 'YYYY-MM-DD HH:MM:SS.ffffff', kind: 'pattern', pattern: '%Y-%m-%d %H:%M:%S.%f' },
+  { id: 'dmy-slash', label: 'DD/MM/YYYY HH:MM:SS.ffffff', kind: 'pattern', pattern: '%d/%m/%Y %H:%M:%S.%f' },
+  { id: 'mdy-slash', label: 'MM/DD/YYYY HH:MM:SS.ffffff', kind: 'pattern', pattern: '%m/%d/%Y %H:%M:%S.%f' },
+  { id: 'unix-s', label: 'Unix seconds', kind: 'unix-s' },
+  { id: 'unix-ms', label: 'Unix milliseconds', kind: 'unix-ms' },
+  { id: 'unix-us', label: 'Unix microseconds', kind: 'unix-us' },
+  { id: 'unix-ns', label: 'Unix nanoseconds', kind: 'unix-ns' },
+  { id: 'excel', label: 'Excel serial date', kind: 'excel' },
+  { id: 'relative-s', label: 'Seconds since start', kind: 'relative-s' },
+  { id: 'custom', label: 'Custom pattern…', kind: 'pattern' }
+];
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Days between the Excel epoch (1899-12-30, allowing for the 1900 leap-year bug) and 1970-01-01
+const EXCEL_EPOCH_DAYS = 25569;
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  // Sub-millisecond fraction in milliseconds
+  frac: number;
+  // Explicit UTC offset in minutes, when the text carries one
+  offsetMinutes: number | null;
+}
+
+type TimestampParser = (text: string, out: ParsedTime) => boolean;
+
+/**
+ * Builds a parser for the given options. The parser writes into `out` and
+ * returns false when the text can't be parsed.
+ */
+export function createTimestampParser(options: TimestampOptions): TimestampParser {
+  const format = TIMESTAMP_FORMATS.find(f => f.id === options.formatId) || TIMESTAMP_FORMATS[0];
+  const zone = createZoneConverter(options.timeZone);
+
+  switch (format.kind) {
+    case 'unix-s':
+      return (text, out) => decimalToTime(text, 3, out);
+    case 'unix-ms':
+      return (text, out) => decimalToTime(text, 0, out);
+    case 'unix-us':
+      return (text, out) => decimalToTime(text, -3, out);
+    case 'unix-ns':
+      return (text, out) => decimalToTime(text, -6, out);
+    case 'relative-s':
+      // Anchored at the Unix epoch; only differences between samples matter
+      return (text, out) => decimalToTime(text, 3, out);
+    case 'excel':
+      return (text, out) => parseExcelSerial(text, zone, out);
+    case 'iso8601':
+      return (text, out) => applyWallClock(parseIso8601(text), zone, out);
+    case 'pattern': {
+      const pattern = format.id === 'custom' ? options.pattern || '' : format.pattern!;
+      const matcher = compilePattern(pattern);
+      return (text, out) => applyWallClock(matcher(text), zone, out);
+    }
+    default:
+      return createAutoParser(zone);
+  }
+}
+
+/**
+ * Formats a timestamp in the logger format (DD-MM-YYYY HH:MM:SS:MMM.SSSSSS),
+ * which the 'logger' and 'auto' formats read back without loss
+ */
+export function formatTimestamp(ms: number, frac = 0, timeZone = 'local'): string {
+  const whole = Math.floor(ms);
+  frac += ms - whole;
+  const zone = zoneConverter(timeZone);
+  const d = new Date(zone.toWallClock(whole));
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+  return `${pad(d.getUTCDate())}-${pad(d.getUTCMonth() + 1)}-${d.getUTCFullYear()} ` +
+    `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}:` +
+    `${pad(d.getUTCMilliseconds(), 3)}.${pad(Math.min(999999, Math.round(frac * 1e6)), 6)}`;
+}
+
+/**
+ * Epoch milliseconds of a wall-clock time (expressed as if it were UTC) in `timeZone`
+ */
+export function wallClockToEpoch(wallMs: number, timeZone = 'local'): number {
+  return zoneConverter(timeZone).fromWallClock(wallMs);
+}
+
+/**
+ * Time zone names offered in the UI
+ */
+export function availableTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : [];
+  return ['local', 'UTC', ...zones.filter(z => z !== 'UTC')];
+}
+
+// ---------------------------------------------------------------------------
+// Auto-detection (the behaviour before formats were selectable)
+
+function createAutoParser(zone: ZoneConverter): TimestampParser {
+  const logger = compilePattern('%d-%m-%Y %H:%M:%S:%L.%N');
+
+  return (text, out) => {
+    const trimmed = text.trim();
+
+    // Plain numbers: guess the Unix unit from the magnitude
+    if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+      const digits = trimmed.replace(/^-/, '').split('.')[0].length;
+      const shift = digits >= 18 ? -6 : digits >= 15 ? -3 : digits >= 12 ? 0 : digits >= 9 ? 3 : 0;
+      return decimalToTime(trimmed, shift, out);
+    }
+
+    const wall = logger(trimmed) || parseIso8601(trimmed);
+    if (wall) return applyWallClock(wall, zone, out);
+
+    // Anything else the Date constructor understands
+    const parsed = new Date(trimmed).getTime();
+    if (isNaN(parsed)) return false;
+    out.ms = parsed;
+    out.frac = 0;
+    return true;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Numeric formats
+
+/**
+ * Parses a decimal number given in units of 10^shift milliseconds without
+ * going through a float, so 19-digit nanosecond values keep every digit
+ */
+function decimalToTime(text: string, shift: number, out: ParsedTime): boolean {
+  const match = /^\s*([+-]?)(\d*)(?:\.(\d*))?\s*$/.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    // Scientific notation and the like: fall back to float precision
+    const value = Number(text);
+    if (!text.trim() || isNaN(value)) return false;
+    const ms = value * Math.pow(10, shift);
+    out.ms = Math.floor(ms);
+    out.frac = ms - out.ms;
+    return true;
+  }
+
+  const negative = match[1] === '-';
+  let intPart = match[2] || '0';
+  let fracPart = match[3] || '';
+
+  // Move the decimal point so the number is in milliseconds
+  if (shift > 0) {
+    fracPart = fracPart.padEnd(shift, '0');
+    intPart += fracPart.slice(0, shift);
+    fracPart = fracPart.slice(shift);
+  } else if (shift < 0) {
+    intPart = intPart.padStart(-shift + 1, '0');
+    fracPart = intPart.slice(shift) + fracPart;
+    intPart = intPart.slice(0, shift);
+  }
+
+  const whole = Number(intPart);
+  const frac = fracPart ? Number('0.' + fracPart) : 0;
+
+  if (negative) {
+    out.ms = -whole - (frac > 0 ? 1 : 0);
+    out.frac = frac > 0 ? 1 - frac : 0;
+  } else {
+    out.ms = whole;
+    out.frac = frac;
+  }
+  return true;
+}
+
+function parseExcelSerial(text: string, zone: ZoneConverter, out: ParsedTime): boolean {
+  const days = Number(text);
+  if (!text.trim() || isNaN(days)) return false;
+
+  // Excel serials are wall-clock times with no zone of their own
+  const wallMs = (days - EXCEL_EPOCH_DAYS) * 86400000;
+  const whole = Math.floor(wallMs);
+  out.ms = zone.fromWallClock(whole);
+  out.frac = wallMs - whole;
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Wall-clock formats
+
+function applyWallClock(wall: WallClock | null, zone: ZoneConverter, out: ParsedTime): boolean {
+  if (!wall) return false;
+
+  const wallMs = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second, wall.millisecond);
+  if (isNaN(wallMs)) return false;
+
+  out.ms = wall.offsetMinutes !== null ? wallMs - wall.offsetMinutes * 60000 : zone.fromWallClock(wallMs);
+  out.frac = wall.frac;
+  return true;
+}
+
+const ISO_8601 = /^\s*(\d{4})-?(\d{2})-?(\d{2})(?:[T ](\d{2}):?(\d{2})(?::?(\d{2})(?:[.,](\d+))?)?)?\s*(Z|[+-]\d{2}(?::?\d{2})?)?\s*$/i;
+
+function parseIso8601(text: string): WallClock | null {
+  const m = ISO_8601.exec(text);
+  if (!m) return null;
+
+  const [millisecond, frac] = splitSecondFraction(m[7] || '');
+  return {
+    year: +m[1],
+    month: +m[2],
+    day: +m[3],
+    hour: +(m[4] || 0),
+    minute: +(m[5] || 0),
+    second: +(m[6] || 0),
+    millisecond,
+    frac,
+    offsetMinutes: m[8] ? parseOffset(m[8]) : null
+  };
+}
+
+/**
+ * Compiles a strftime-like pattern into a matcher returning wall-clock fields
+ */
+export function compilePattern(pattern: string): (text: string) => WallClock | null {
+  const fields: string[] = [];
+  let regex = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch !== '%' || i === pattern.length - 1) {
+      // A separator right before an optional fraction is optional with it
+      const next = pattern.slice(i + 1, i + 3);
+      if (next === '%f' || next === '%N') {
+        fields.push(next[1]);
+        regex += `(?:${escapeRegex(ch)}(\\d+))?`;
+        i += 2;
+        continue;
+      }
+      regex += /\s/.test(ch) ? '\\s+' : escapeRegex(ch);
+      continue;
+    }
+
+    const token = pattern[++i];
+    switch (token) {
+      case 'Y': regex += '(\\d{4})'; break;
+      case 'y': regex += '(\\d{2})'; break;
+      case 'm': case 'd': case 'H': case 'I': case 'M': case 'S': regex += '(\\d{1,2})'; break;
+      case 'L': regex += '(\\d{1,3})'; break;
+      case 'f': case 'N': regex += '(\\d+)'; break;
+      case 'b': regex += '([A-Za-z]{3,9})'; break;
+      case 'p': regex += '([AaPp][Mm])'; break;
+      case 'z': regex += '(Z|[+-]\\d{2}:?\\d{2})'; break;
+      case '%': regex += '%'; continue;
+      default: throw new Error(`Unknown timestamp pattern token %${token}`);
+    }
+    fields.push(token);
+  }
+
+  const compiled = new RegExp(`^\\s*${regex}\\s*$`, 'i');
+
+  return (text: string) => {
+    const m = compiled.exec(text);
+    if (!m) return null;
+
+    const wall: WallClock = {
+      year: 1970, month: 1, day: 1, hour: 0, minute: 0, second: 0,
+      millisecond: 0, frac: 0, offsetMinutes: null
+    };
+    let pm: boolean | null = null;
+
+    fields.forEach((field, index) => {
+      const value = m[index + 1];
+      if (value === undefined) return;
+
+      switch (field) {
+        case 'Y': wall.year = +value; break;
+        case 'y': wall.year = 2000 + +value; break;
+        case 'm': wall.month = +value; break;
+        case 'd': wall.day = +value; break;
+        case 'H': case 'I': wall.hour = +value; break;
+        case 'M': wall.minute = +value; break;
+        case 'S': wall.second = +value; break;
+        case 'L': wall.millisecond = +value; break;
+        case 'f': [wall.millisecond, wall.frac] = splitSecondFraction(value); break;
+        case 'N': wall.frac = Number('0.' + value); break;
+        case 'b': wall.month = MONTH_NAMES.indexOf(value.slice(0, 3).toLowerCase()) + 1; break;
+        case 'p': pm = value.toLowerCase() === 'pm'; break;
+        case 'z': wall.offsetMinutes = parseOffset(value); break;
+      }
+    });
+
+    if (pm !== null) {
+      wall.hour = (wall.hour % 12) + (pm ? 12 : 0);
+    }
+    return wall.month > 0 ? wall : null;
+  };
+}
+
+/**
+ * Splits fraction-of-second digits into whole milliseconds and the remainder
+ */
+function splitSecondFraction(digits: string): [number, number] {
+  if (!digits) return [0, 0];
+  const padded = digits.padEnd(3, '0');
+  const rest = padded.slice(3);
+  return [+padded.slice(0, 3), rest ? Number('0.' + rest) : 0];
+}
+
+function parseOffset(text: string): number {
+  if (text.toUpperCase() === 'Z') return 0;
+  const m = /^([+-])(\d{2}):?(\d{2})?$/.exec(text);
+  if (!m) return 0;
+  const minutes = +m[2] * 60 + +(m[3] || 0);
+  return m[1] === '-' ? -minutes : minutes;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ---------------------------------------------------------------------------
+// Time zones
+
+interface ZoneConverter {
+  // Wall-clock time (expressed as if it were UTC) to epoch milliseconds
+  fromWallClock(wallMs: number): number;
+  // Epoch milliseconds to wall-clock time (expressed as if it were UTC)
+  toWallClock(epochMs: number): number;
+}
+
+// Converters made for formatting, by zone, as axis labels and hovers format
+// many timestamps one at a time
+const zoneConverters = new Map<string, ZoneConverter>();
+
+function zoneConverter(timeZone: string): ZoneConverter {
+  let zone = zoneConverters.get(timeZone);
+  if (!zone) {
+    zone = createZoneConverter(timeZone);
+    zoneConverters.set(timeZone, zone);
+  }
+  return zone;
+}
+
+function createZoneConverter(timeZone: string): ZoneConverter {
+  if (!timeZone || timeZone === 'local') {
+    return {
+      fromWallClock: wallMs => {
+        const d = new Date(wallMs);
+        return new Date(
+          d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(),
+          d.getUTCHours(), d.getUTCMinutes(), d.getUTCSeconds(), d.getUTCMilliseconds()
+        ).getTime();
+      },
+      toWallClock: epochMs => epochMs - new Date(epochMs).getTimezoneOffset() * 60000
+    };
+  }
+
+  if (/^(UTC|GMT|Z)$/i.test(timeZone)) {
+    return { fromWallClock: wallMs => wallMs, toWallClock: epochMs => epochMs };
+  }
+
+  if (/^[+-]\d{2}:?\d{2}$/.test(timeZone)) {
+    const offset = parseOffset(timeZone) * 60000;
+    return { fromWallClock: wallMs => wallMs - offset, toWallClock: epochMs => epochMs + offset };
+  }
+
+  // IANA zone: look the offset up through Intl, cached per hour
+  const dtf = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric'
+  });
+  const offsetCache = new Map<number, number>();
+
+  const offsetAt = (epochMs: number): number => {
+    const hour = Math.floor(epochMs / 3600000);
+    let offset = offsetCache.get(hour);
+    if (offset === undefined) {
+      const parts: Record<string, number> = {};
+      for (const part of dtf.formatToParts(new Date(hour * 3600000))) {
+        parts[part.type] = +part.value;
+      }
+      const wall = Date.UTC(parts['year'], parts['month'] - 1, parts['day'], parts['hour'], parts['minute'], parts['second']);
+      offset = wall - hour * 3600000;
+      offsetCache.set(hour, offset);
+    }
+    return offset;
+  };
+
+  return {
+    fromWallClock: wallMs => {
+      // Two passes settle the offset for times near a DST change
+      const guess = wallMs - offsetAt(wallMs);
+      return wallMs - offsetAt(guess);
+    },
+    toWallClock: epochMs => epochMs + offsetAt(epochMs)
+  };
+}
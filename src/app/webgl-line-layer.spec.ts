@@ -0,0 +1,60 @@
+import { buildVertices, parseColor, segmentsBefore, valueOriginNear, visibleVertices } from './webgl-line-layer';
+
+describe('webgl-line-layer', () => {
+  const time = new Float64Array([0, 1, 2, 3, 4, 5]);
+  const values = new Float64Array([10, 11, NaN, 13, 14, 15]);
+
+  it('should split vertices into runs at missing samples', () => {
+    const { vertices, segments } = buildVertices(time, values, false, 10);
+
+    expect(segments).toEqual([{ first: 0, last: 1, vertex: 0 }, { first: 3, last: 5, vertex: 2 }]);
+    expect(Array.from(vertices.filter((_, i) => i % 3 === 2))).toEqual([0, 1, 3, 4, 5]);
+  });
+
+  it('should keep sub-float precision of times in the low part', () => {
+    const t = 3600000.000125;
+    const { vertices } = buildVertices(new Float64Array([t]), new Float64Array([1]), false);
+
+    expect(vertices[0] + vertices[1]).toBeCloseTo(t, 6);
+    expect(vertices[0]).not.toBe(t);
+  });
+
+  it('should hold the previous value on step lines', () => {
+    const { vertices, segments } = buildVertices(time, values, true);
+    const points = [];
+    for (let i = 0; i < vertices.length; i += 3) points.push([vertices[i], vertices[i + 2]]);
+
+    expect(points.slice(0, 3)).toEqual([[0, 10], [1, 10], [1, 11]]);
+    expect(segments[1].vertex).toBe(3);
+    expect(visibleVertices({ segments, step: true }, [4, 5])).toEqual([[3 + 2, 3]]);
+  });
+
+  it('should draw only the runs in the visible rows', () => {
+    const { segments } = buildVertices(time, values, false);
+
+    expect(visibleVertices({ segments, step: false }, [1, 4])).toEqual([[1, 1], [2, 2]]);
+    expect(visibleVertices({ segments, step: false }, [5, 5])).toEqual([[4, 1]]);
+  });
+
+  it('should continue the vertices of earlier rows', () => {
+    const full = buildVertices(time, values, true, 10);
+    const segments = segmentsBefore(buildVertices(time.subarray(0, 4), values.subarray(0, 4), true, 10).segments, 4);
+    const { vertices } = buildVertices(time, values, true, 10, 4, segments);
+
+    expect(segments).toEqual(full.segments);
+    expect(Array.from(vertices)).toEqual(Array.from(full.vertices.subarray(full.vertices.length - vertices.length)));
+  });
+
+  it('should keep the value origin round as the mean drifts', () => {
+    expect(valueOriginNear(1234.56, 1200, 1290)).toBe(1230);
+    expect(valueOriginNear(1234.71, 1200, 1290)).toBe(1230);
+    expect(valueOriginNear(5, 5, 5)).toBe(5);
+    expect(valueOriginNear(NaN, NaN, NaN)).toBe(0);
+  });
+
+  it('should parse hex colours', () => {
+    expect(parseColor('#ff0000')).toEqual([1, 0, 0, 1]);
+    expect(parseColor('#0f0')).toEqual([0, 1, 0, 1]);
+    expect(parseColor('rgb(1, 2, 3)')).toEqual([0.5, 0.5, 0.5, 1]);
+  });
+});
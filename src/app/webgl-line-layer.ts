@@ -0,0 +1,409 @@
+import { ChannelValues } from './columnar';
+
+/**
+ * One channel to draw, with the mapping from its samples to the pixels of
+ * the grid it is on
+ */
+export interface GLLine {
+  // Channel the line draws; its buffer is kept from frame to frame
+  key: string;
+  // Offsets from the series' time origin (ms) and values, NaN where missing
+  time: Float64Array;
+  values: ChannelValues;
+  // What holds the samples (the store), their version there, and the first
+  // row changed since an earlier version or null when all may have changed
+  source: object;
+  revision: number;
+  changedSince: (revision: number) => number | null;
+  // Subtracted from values before they are uploaded as 32-bit floats, so
+  // signals on a large offset keep their detail; 0 on log axes
+  valueOrigin: number;
+  // Hold each value until the next sample
+  step: boolean;
+  color: string;
+  width: number;
+  // First and last row to draw, inclusive
+  rows: [number, number];
+  // Grid area in CSS pixels
+  rect: { x: number, y: number, width: number, height: number };
+  // Time offset at the left edge of the grid and pixels per millisecond
+  xStart: number;
+  xScale: number;
+  // Pixels below the grid top: yScale * v + yOffset, with v = value - valueOrigin,
+  // or log10(value) on log axes
+  yScale: number;
+  yOffset: number;
+  log: boolean;
+}
+
+interface LineBuffer {
+  buffer: WebGLBuffer;
+  // Vertices the buffer has room for
+  capacity: number;
+  source: object;
+  revision: number;
+  valueOrigin: number;
+  step: boolean;
+  // Runs of samples without gaps: first and last row, and the vertex of the first
+  segments: { first: number, last: number, vertex: number }[];
+}
+
+const VERTEX_SHADER = `
+  attribute vec2 a_time;
+  attribute float a_value;
+  uniform vec2 u_start;
+  uniform float u_xScale;
+  uniform float u_yScale;
+  uniform float u_yOffset;
+  uniform bool u_log;
+
+  void main() {
+    // Times are split into high and low float parts, subtracted separately
+    // so microsecond steps survive hours of offset
+    float dt = (a_time.x - u_start.x) + (a_time.y - u_start.y);
+    float v = u_log ? log(a_value) / log(10.0) : a_value;
+    gl_Position = vec4(dt * u_xScale - 1.0, v * u_yScale + u_yOffset, 0.0, 1.0);
+    // Samples with missing neighbours are drawn as points
+    gl_PointSize = 2.0;
+  }
+`;
+
+const FRAGMENT_SHADER = `
+  precision mediump float;
+  uniform vec4 u_color;
+
+  void main() {
+    gl_FragColor = u_color;
+  }
+`;
+
+// Floats per vertex: time high part, time low part, value
+const STRIDE = 3;
+
+/**
+ * Draws channel lines with WebGL on a canvas under the chart. Samples are
+ * uploaded once per channel and appended samples added after them; panning
+ * and zooming only change uniforms, and only the rows in view are drawn.
+ */
+export class WebGLLineLayer {
+  readonly canvas: HTMLCanvasElement;
+  private gl: WebGLRenderingContext;
+  private program: WebGLProgram;
+  private attributes: { time: number, value: number };
+  private uniforms: Record<string, WebGLUniformLocation | null>;
+  private buffers = new Map<string, LineBuffer>();
+  private lost = false;
+
+  /**
+   * Whether the browser can give this layer a WebGL context
+   */
+  static isSupported(): boolean {
+    try {
+      return !!document.createElement('canvas').getContext('webgl');
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Adds the layer's canvas as the first child of `container`, so the chart
+   * draws over it. Throws when WebGL is unavailable.
+   */
+  constructor(container: HTMLElement, onContextLost: () => void) {
+    this.canvas = document.createElement('canvas');
+    this.canvas.className = 'webgl-line-layer';
+    this.canvas.style.cssText = 'position: absolute; top: 0; left: 0; pointer-events: none;';
+
+    const gl = this.canvas.getContext('webgl', { antialias: true, premultipliedAlpha: false });
+    if (!gl) throw new Error('WebGL is not available');
+    this.gl = gl;
+    this.program = this.createProgram();
+    this.attributes = {
+      time: gl.getAttribLocation(this.program, 'a_time'),
+      value: gl.getAttribLocation(this.program, 'a_value')
+    };
+    this.uniforms = Object.fromEntries(['u_start', 'u_xScale', 'u_yScale', 'u_yOffset', 'u_log', 'u_color']
+      .map(name => [name, gl.getUniformLocation(this.program, name)]));
+
+    this.canvas.addEventListener('webglcontextlost', event => {
+      event.preventDefault();
+      this.lost = true;
+      this.buffers.clear();
+      onContextLost();
+    });
+    container.insertBefore(this.canvas, container.firstChild);
+  }
+
+  /**
+   * Draws the lines on a canvas of the chart's size (CSS pixels). Returns
+   * the time taken in milliseconds, including the GPU finishing the frame.
+   */
+  draw(lines: GLLine[], width: number, height: number): number {
+    if (this.lost) return 0;
+    const started = performance.now();
+    const gl = this.gl;
+    const ratio = window.devicePixelRatio || 1;
+
+    if (this.canvas.width !== Math.round(width * ratio) || this.canvas.height !== Math.round(height * ratio)) {
+      this.canvas.width = Math.round(width * ratio);
+      this.canvas.height = Math.round(height * ratio);
+      this.canvas.style.width = `${width}px`;
+      this.canvas.style.height = `${height}px`;
+    }
+
+    gl.disable(gl.SCISSOR_TEST);
+    gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.useProgram(this.program);
+    gl.enable(gl.SCISSOR_TEST);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+
+    for (const line of lines) {
+      const buffer = this.upload(line);
+      if (!buffer) continue;
+
+      // Device pixels, with y up from the bottom of the canvas
+      const x = Math.round(line.rect.x * ratio);
+      const y = Math.round((height - line.rect.y - line.rect.height) * ratio);
+      const w = Math.round(line.rect.width * ratio);
+      const h = Math.round(line.rect.height * ratio);
+      if (w <= 0 || h <= 0) continue;
+      gl.viewport(x, y, w, h);
+      gl.scissor(x, y, w, h);
+
+      const startHigh = Math.fround(line.xStart);
+      gl.uniform2f(this.uniforms['u_start'], startHigh, line.xStart - startHigh);
+      gl.uniform1f(this.uniforms['u_xScale'], 2 * line.xScale / line.rect.width);
+      // Clip space runs bottom to top over the grid
+      gl.uniform1f(this.uniforms['u_yScale'], -2 * line.yScale / line.rect.height);
+      gl.uniform1f(this.uniforms['u_yOffset'], 1 - 2 * line.yOffset / line.rect.height);
+      gl.uniform1i(this.uniforms['u_log'], line.log ? 1 : 0);
+      gl.uniform4fv(this.uniforms['u_color'], parseColor(line.color));
+      // Most implementations only draw 1px lines
+      gl.lineWidth(line.width * ratio);
+
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer.buffer);
+      gl.enableVertexAttribArray(this.attributes.time);
+      gl.vertexAttribPointer(this.attributes.time, 2, gl.FLOAT, false, STRIDE * 4, 0);
+      gl.enableVertexAttribArray(this.attributes.value);
+      gl.vertexAttribPointer(this.attributes.value, 1, gl.FLOAT, false, STRIDE * 4, 8);
+
+      for (const [first, count] of visibleVertices(buffer, line.rows)) {
+        gl.drawArrays(count === 1 ? gl.POINTS : gl.LINE_STRIP, first, count);
+      }
+    }
+
+    this.releaseUnused(lines);
+    gl.finish();
+    return performance.now() - started;
+  }
+
+  clear(): void {
+    if (this.lost) return;
+    this.gl.disable(this.gl.SCISSOR_TEST);
+    this.gl.clearColor(0, 0, 0, 0);
+    this.gl.clear(this.gl.COLOR_BUFFER_BIT);
+  }
+
+  dispose(): void {
+    if (!this.lost) {
+      for (const buffer of this.buffers.values()) {
+        this.gl.deleteBuffer(buffer.buffer);
+      }
+      this.gl.deleteProgram(this.program);
+    }
+    this.buffers.clear();
+    this.canvas.remove();
+  }
+
+  /**
+   * Buffer with the samples of a line, uploaded when the data or step mode
+   * changed since the last frame. Rows appended or changed since then are
+   * added to the end of the buffer while there is room.
+   */
+  private upload(line: GLLine): LineBuffer | null {
+    const gl = this.gl;
+    const existing = this.buffers.get(line.key);
+    const from = existing && existing.source === line.source && existing.step === line.step &&
+        existing.valueOrigin === line.valueOrigin
+      ? line.changedSince(existing.revision)
+      : null;
+    if (existing && from !== null && existing.revision === line.revision) return existing;
+
+    if (existing && from !== null) {
+      const segments = segmentsBefore(existing.segments, from);
+      const start = vertexCount(segments, line.step);
+      const { vertices } = buildVertices(line.time, line.values, line.step, line.valueOrigin, from, segments);
+      if (start + vertices.length / STRIDE <= existing.capacity) {
+        gl.bindBuffer(gl.ARRAY_BUFFER, existing.buffer);
+        gl.bufferSubData(gl.ARRAY_BUFFER, start * STRIDE * 4, vertices);
+        Object.assign(existing, { revision: line.revision, segments });
+        return existing;
+      }
+    }
+    if (existing) gl.deleteBuffer(existing.buffer);
+
+    const { vertices, segments } = buildVertices(line.time, line.values, line.step, line.valueOrigin);
+    // Lines that grow get room to grow into
+    const capacity = existing && from !== null ? Math.ceil(vertices.length / STRIDE * 1.5) : vertices.length / STRIDE;
+    const buffer = gl.createBuffer();
+    if (!buffer) return null;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    if (capacity > vertices.length / STRIDE) {
+      gl.bufferData(gl.ARRAY_BUFFER, capacity * STRIDE * 4, gl.DYNAMIC_DRAW);
+      gl.bufferSubData(gl.ARRAY_BUFFER, 0, vertices);
+    } else {
+      gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.STATIC_DRAW);
+    }
+    if (gl.getError() === gl.OUT_OF_MEMORY) {
+      gl.deleteBuffer(buffer);
+      this.buffers.delete(line.key);
+      throw new Error('Not enough GPU memory for the channel data');
+    }
+
+    const entry: LineBuffer = {
+      buffer,
+      capacity,
+      source: line.source,
+      revision: line.revision,
+      valueOrigin: line.valueOrigin,
+      step: line.step,
+      segments
+    };
+    this.buffers.set(line.key, entry);
+    return entry;
+  }
+
+  // Channels that are no longer drawn give their GPU memory back
+  private releaseUnused(lines: GLLine[]): void {
+    const keys = new Set(lines.map(line => line.key));
+    for (const [key, buffer] of this.buffers) {
+      if (!keys.has(key)) {
+        this.gl.deleteBuffer(buffer.buffer);
+        this.buffers.delete(key);
+      }
+    }
+  }
+
+  private createProgram(): WebGLProgram {
+    const gl = this.gl;
+    const program = gl.createProgram()!;
+    for (const [type, source] of [[gl.VERTEX_SHADER, VERTEX_SHADER], [gl.FRAGMENT_SHADER, FRAGMENT_SHADER]] as const) {
+      const shader = gl.createShader(type)!;
+      gl.shaderSource(shader, source);
+      gl.compileShader(shader);
+      if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        throw new Error(`Shader compile failed: ${gl.getShaderInfoLog(shader)}`);
+      }
+      gl.attachShader(program, shader);
+    }
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`Shader link failed: ${gl.getProgramInfoLog(program)}`);
+    }
+    return program;
+  }
+}
+
+/**
+ * Interleaved vertices (time high, time low, value less `valueOrigin`) of
+ * the samples that have a value, and the runs between missing samples. Step
+ * lines add a vertex at each sample holding the previous value.
+ *
+ * From row `start` on, the vertices follow those of `segments` (the runs
+ * before `start`, from segmentsBefore), which are extended in place.
+ */
+export function buildVertices(time: Float64Array, values: ChannelValues, step: boolean, valueOrigin = 0,
+    start = 0, segments: LineBuffer['segments'] = []): { vertices: Float32Array, segments: LineBuffer['segments'] } {
+  const vertices = new Float32Array((step ? 2 : 1) * (values.length - start) * STRIDE);
+  const offset = vertexCount(segments, step);
+  const last = segments[segments.length - 1];
+  let vertex = 0;
+  let previous = last && last.last === start - 1 ? values[start - 1] : NaN;
+
+  const push = (t: number, value: number) => {
+    const high = Math.fround(t);
+    vertices[vertex * STRIDE] = high;
+    vertices[vertex * STRIDE + 1] = t - high;
+    vertices[vertex * STRIDE + 2] = value - valueOrigin;
+    vertex++;
+  };
+
+  for (let i = start; i < values.length; i++) {
+    const value = values[i];
+    if (value !== value) {
+      previous = NaN;
+      continue;
+    }
+
+    if (previous !== previous) {
+      segments.push({ first: i, last: i, vertex: offset + vertex });
+    } else {
+      if (step) push(time[i], previous);
+      segments[segments.length - 1].last = i;
+    }
+    push(time[i], value);
+    previous = value;
+  }
+
+  return { vertices: vertices.subarray(0, vertex * STRIDE), segments };
+}
+
+/**
+ * Copy of the runs of samples before row `row`, cut short at it
+ */
+export function segmentsBefore(segments: LineBuffer['segments'], row: number): LineBuffer['segments'] {
+  return segments
+    .filter(segment => segment.first < row)
+    .map(segment => ({ ...segment, last: Math.min(segment.last, row - 1) }));
+}
+
+// Vertices of the runs of samples
+function vertexCount(segments: LineBuffer['segments'], step: boolean): number {
+  const last = segments[segments.length - 1];
+  return last ? last.vertex + (last.last - last.first) * (step ? 2 : 1) + 1 : 0;
+}
+
+/**
+ * First vertex and vertex count of each run of samples within `rows`
+ */
+export function visibleVertices(buffer: Pick<LineBuffer, 'segments' | 'step'>, [start, end]: [number, number]): [number, number][] {
+  const perRow = buffer.step ? 2 : 1;
+  const ranges: [number, number][] = [];
+
+  for (const segment of buffer.segments) {
+    if (segment.last < start) continue;
+    if (segment.first > end) break;
+
+    const first = Math.max(segment.first, start);
+    const last = Math.min(segment.last, end);
+    ranges.push([segment.vertex + (first - segment.first) * perRow, (last - first) * perRow + 1]);
+  }
+  return ranges;
+}
+
+/**
+ * A round number near `mean` to subtract from values: it keeps their detail
+ * in 32 bits and, being round, stays put as the mean drifts with new samples
+ */
+export function valueOriginNear(mean: number, min: number, max: number): number {
+  if (!Number.isFinite(mean)) return 0;
+  const span = max - min;
+  if (!(span > 0)) return mean;
+  const unit = Math.pow(10, Math.floor(Math.log10(span)));
+  return Math.round(mean / unit) * unit;
+}
+
+/**
+ * RGBA (0–1) of a #rgb or #rrggbb colour; grey for anything else
+ */
+export function parseColor(color: string): [number, number, number, number] {
+  let hex = color.trim().replace(/^#/, '');
+  if (hex.length === 3) hex = hex.split('').map(c => c + c).join('');
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return [0.5, 0.5, 0.5, 1];
+
+  const n = parseInt(hex, 16);
+  return [(n >> 16 & 255) / 255, (n >> 8 & 255) / 255, (n & 255) / 255, 1];
+}
@@ -0,0 +1,161 @@
+import { BehaviorSubject, Subject } from 'rxjs';
+import { DataSource, DataSourceStatus } from './data-source';
+import { SampleBatch } from './ring-buffer';
+
+// Delay before reconnecting after the server drops the connection
+const RECONNECT_DELAY = 3000;
+
+/**
+ * Receives samples over a WebSocket.
+ *
+ * Text frames hold JSON, in any of these shapes:
+ *   {"channels": ["a", "b"]}                          channel order for binary frames
+ *   {"t": 1700000000000.5, "a": 1.2, "b": 3.4}        one sample (t in epoch ms)
+ *   [{"t": ..., "a": ...}, ...]                       several samples
+ *   {"t": [...], "values": {"a": [...], "b": [...]}}  a column batch
+ * Samples without "t" are stamped with the time they arrive.
+ *
+ * Binary frames hold little-endian Float64 rows of [t, v0, v1, ...] in the
+ * order of the last "channels" message.
+ */
+export class WebSocketDataSource implements DataSource {
+  readonly status$ = new BehaviorSubject<DataSourceStatus>('idle');
+  readonly samples$ = new Subject<SampleBatch>();
+  error: string | null = null;
+
+  private socket: WebSocket | null = null;
+  private channels: string[] = [];
+  private reconnectTimer: any = null;
+  private stopped = true;
+
+  constructor(readonly url: string) {}
+
+  get name(): string {
+    return this.url;
+  }
+
+  connect(): void {
+    this.stopped = false;
+    this.error = null;
+    this.open();
+  }
+
+  disconnect(): void {
+    this.stopped = true;
+    clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.socket = null;
+    this.status$.next('closed');
+  }
+
+  private open(): void {
+    this.status$.next(this.status$.value === 'reconnecting' ? 'reconnecting' : 'connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (e: any) {
+      // Malformed URL
+      this.error = e.message;
+      this.status$.next('error');
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    socket.onopen = () => this.status$.next('open');
+
+    socket.onmessage = (event: MessageEvent) => {
+      try {
+        const batch = typeof event.data === 'string'
+          ? this.parseJson(event.data)
+          : this.parseBinary(event.data as ArrayBuffer);
+        if (batch && batch.time.length) {
+          this.samples$.next(batch);
+        }
+      } catch (e) {
+        console.warn('Ignoring malformed stream frame:', e);
+      }
+    };
+
+    socket.onerror = () => {
+      this.error = `Connection to ${this.url} failed`;
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket || this.stopped) return;
+      this.socket = null;
+
+      // Keep trying until the user disconnects
+      this.status$.next('reconnecting');
+      this.reconnectTimer = setTimeout(() => this.open(), RECONNECT_DELAY);
+    };
+  }
+
+  private parseJson(text: string): SampleBatch | null {
+    const message = JSON.parse(text);
+
+    if (Array.isArray(message)) {
+      return this.rowsToBatch(message);
+    }
+    if (Array.isArray(message.channels)) {
+      this.channels = message.channels.map(String);
+      return null;
+    }
+    if (Array.isArray(message.t) && message.values) {
+      const time = Float64Array.from(message.t as number[]);
+      const values = new Map<string, Float64Array>();
+      for (const [name, column] of Object.entries(message.values)) {
+        values.set(name, Float64Array.from(column as number[], toValue));
+      }
+      return { time, values };
+    }
+    return this.rowsToBatch([message]);
+  }
+
+  private rowsToBatch(rows: any[]): SampleBatch {
+    const now = Date.now();
+    const time = new Float64Array(rows.length);
+    const values = new Map<string, Float64Array>();
+
+    rows.forEach((row, i) => {
+      time[i] = typeof row.t === 'number' ? row.t : now;
+      for (const key of Object.keys(row)) {
+        if (key === 't') continue;
+        let column = values.get(key);
+        if (!column) {
+          column = new Float64Array(rows.length).fill(NaN);
+          values.set(key, column);
+        }
+        column[i] = toValue(row[key]);
+      }
+    });
+    return { time, values };
+  }
+
+  private parseBinary(buffer: ArrayBuffer): SampleBatch | null {
+    if (!this.channels.length) {
+      console.warn('Binary frame received before a channels message');
+      return null;
+    }
+
+    const view = new DataView(buffer);
+    const stride = this.channels.length + 1;
+    const rows = Math.floor(buffer.byteLength / (stride * 8));
+    const time = new Float64Array(rows);
+    const columns = this.channels.map(() => new Float64Array(rows));
+
+    for (let r = 0; r < rows; r++) {
+      const base = r * stride * 8;
+      time[r] = view.getFloat64(base, true);
+      for (let c = 0; c < columns.length; c++) {
+        columns[c][r] = view.getFloat64(base + (c + 1) * 8, true);
+      }
+    }
+    return { time, values: new Map(this.channels.map((name, c) => [name, columns[c]])) };
+  }
+}
+
+function toValue(value: unknown): number {
+  return typeof value === 'number' ? value : NaN;
+}